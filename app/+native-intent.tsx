@@ -0,0 +1,32 @@
+/**
+ * Native Intent
+ * Rewrites incoming deep links before expo-router resolves them
+ *
+ * Runs for the initial URL (cold start) and for URLs opened while the app runs,
+ * so widget actions work either way:
+ * - Goal "+1" (stoiccalendar://goal/increment?id=...): logs one unit, then opens Home
+ */
+
+import * as Linking from 'expo-linking';
+import { incrementGoalFromWidget } from '@/services/widget-data-service';
+
+const GOAL_INCREMENT_PATH = 'goal/increment';
+
+export async function redirectSystemPath({ path }: { path: string; initial: boolean }): Promise<string> {
+  try {
+    const { hostname, path: route, queryParams } = Linking.parse(path);
+    const fullPath = [hostname, route].filter(Boolean).join('/');
+
+    if (fullPath === GOAL_INCREMENT_PATH) {
+      const timelineId = queryParams?.id;
+      if (typeof timelineId === 'string') {
+        await incrementGoalFromWidget(timelineId);
+      }
+      return '/home';
+    }
+  } catch (error) {
+    console.error('Error handling deep link:', error);
+  }
+
+  return path;
+}
@@ -7,6 +7,13 @@
  * - Progress text (X of Y days)
  * - Stoic grid (fills available space)
  * - Days remaining text (bottom)
+ * - Journal notes: button (top left) and long-press on a dot
+ * - Habit timelines: tapping a past dot cycles done / missed / skipped
+ * - Mood display mode: mood-colored dots, today's mood prompt and mood stats
+ * - Goal timelines: pace below the grid and a "+1" button to log progress
+ * - Pinned timelines: end time in their zone and its local equivalent
+ * - Upcoming timelines: days until the start and the start date
+ * - Completed timelines: summary with extend / renew / archive on the first open after the end date
  */
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
@@ -24,19 +31,39 @@ import { useFocusEffect } from '@react-navigation/native';
 import { useRouter } from 'expo-router';
 import { useTranslation } from 'react-i18next';
 import Animated, { FadeIn, useSharedValue, useAnimatedStyle, withTiming } from 'react-native-reanimated';
-import { Gear, CaretDown } from 'phosphor-react-native';
-import { Timeline, TimelineType } from '@/types/timeline';
+import { Gear, CaretDown, NotePencil } from 'phosphor-react-native';
+import {
+  Timeline,
+  TimelineType,
+  CalendarDate,
+  DayNote,
+  MoodRating,
+  GridDisplayMode,
+  HolidayCountry,
+} from '@/types/timeline';
 import { StoicGrid } from '@/components/stoic-grid';
 import { DateDisplayOverlay } from '@/components/date-display-overlay';
 import { TimelineDropdown } from '@/components/timeline-dropdown';
 import { TimelineFormDrawer } from '@/components/timeline-form-drawer';
 import { TimelineManagementModal } from '@/components/timeline-management-modal';
+import { TimelineCompletionModal } from '@/components/timeline-completion-modal';
+import { DayNoteEditor } from '@/components/day-note-editor';
+import { DayNotesModal } from '@/components/day-notes-modal';
+import { MoodPicker } from '@/components/mood-picker';
 import {
   getActiveTimeline,
   loadTimelines,
   saveTimeline,
   setActiveTimeline as setActiveTimelineInStorage,
   deleteTimeline,
+  getWeekStartDay,
+  loadDayNotes,
+  saveDayNote,
+  loadMoodRatings,
+  saveMoodRating,
+  getGridDisplayMode,
+  getHolidayCountry,
+  getCalendarSystem,
 } from '@/services/storage';
 import {
   getPaywallOfferingId,
@@ -50,14 +77,37 @@ import {
   getTimelineProgress,
   getTimelineRemaining,
   getTimelineProgressPercentage,
+  isOpenEndedTimeline,
+  isHabitTimeline,
+  isGoalTimeline,
+  isDayTimeline,
+  isPinnedTimeline,
+  getPinnedTimeDescription,
+  isUpcomingTimeline,
+  getTimelineStartMoment,
+  getTimelineTotalDots,
+  dayTimelineNeedsUpdate,
+  logGoalProgress,
+  calculateHabitStats,
+  calculateMoodStats,
+  getNextHabitStatus,
+  setTimelineHabitStatus,
   getTimelineDisplayTitle,
+  getTimelineDotDate,
+  getTimelineUnit,
+  getTimelineMarkersByDot,
+  getTimelineNextMarker,
+  getHolidaysByDot,
+  getHolidayDisplayName,
   createTimeline,
   updateTimelineIfNeeded,
   sortTimelinesWithActiveFirst,
+  needsCompletionReview,
 } from '@/services/timeline-calculator';
 import { syncActiveTimelineToWidget, syncAllTimelinesToWidget } from '@/services/widget-data-service';
 import { isPro, FREE_TIER_LIMITS } from '@/services/revenue-cat-service';
-import { getDateFromDotIndex } from '@/utils/date-helpers';
+import { toCalendarDate, getTodayCalendarDate, parseCalendarDate } from '@/utils/date-helpers';
+import { getCurrentLocale } from '@/services/i18n-service';
 import {
   Colors,
   Fonts,
@@ -65,9 +115,12 @@ import {
   FontWeights,
   Spacing,
   Layout,
+  BorderRadius,
 } from '@/constants/theme';
 
 const FIRST_VALUE_PAYWALL_DELAY_MS = 2000;
+const LIVE_REFRESH_INTERVAL_MS = 60 * 1000;
+const MAX_START_TIMER_MS = 24 * 60 * 60 * 1000;
 
 export default function HomeScreen() {
   const colorScheme = useColorScheme();
@@ -78,13 +131,24 @@ export default function HomeScreen() {
   const [activeTimeline, setActiveTimeline] = useState<Timeline | null>(null);
   const [loading, setLoading] = useState(true);
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [selectedMarkers, setSelectedMarkers] = useState<string[]>([]);
+  const [selectedHolidays, setSelectedHolidays] = useState<string[]>([]);
+  const [selectedStatus, setSelectedStatus] = useState<string | undefined>(undefined);
+  const [selectedPinnedTime, setSelectedPinnedTime] = useState<string | undefined>(undefined);
   const [tapPosition, setTapPosition] = useState<{ x: number; y: number } | null>(null);
   const [showTimelineDropdown, setShowTimelineDropdown] = useState(false);
   const [showTimelineFormModal, setShowTimelineFormModal] = useState(false);
   const [showManagementModal, setShowManagementModal] = useState(false);
   const [editingTimeline, setEditingTimeline] = useState<Timeline | undefined>(undefined);
+  const [completedTimeline, setCompletedTimeline] = useState<Timeline | null>(null);
   const [timelines, setTimelines] = useState<Timeline[]>([]);
   const [titlePosition, setTitlePosition] = useState({ x: 0, y: 0 });
+  const [notes, setNotes] = useState<Record<CalendarDate, DayNote>>({});
+  const [noteEditorDate, setNoteEditorDate] = useState<CalendarDate | null>(null);
+  const [showNotesModal, setShowNotesModal] = useState(false);
+  const [moods, setMoods] = useState<Record<CalendarDate, MoodRating>>({});
+  const [gridDisplayMode, setGridDisplayMode] = useState<GridDisplayMode>('progress');
+  const [holidayCountry, setHolidayCountry] = useState<HolidayCountry | null>(null);
   const paywallTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Icon rotation animation
@@ -92,17 +156,41 @@ export default function HomeScreen() {
 
   /**
    * Load all timelines for dropdown
+   * Opens the completion flow for a timeline that ended since the last open (active first)
    */
   const loadAllTimelines = useCallback(async () => {
     try {
       const allTimelines = await loadTimelines();
       const sorted = sortTimelinesWithActiveFirst(allTimelines);
       setTimelines(sorted);
+      setCompletedTimeline((current) => current ?? sorted.find(needsCompletionReview) ?? null);
     } catch (error) {
       console.error('Error loading timelines:', error);
     }
   }, []);
 
+  /**
+   * Load day notes for the grid indicators and the notes list
+   */
+  const loadNotes = useCallback(async () => {
+    setNotes(await loadDayNotes());
+  }, []);
+
+  /**
+   * Load mood ratings and the grid display mode (mood coloring, prompt and stats)
+   */
+  const loadMoods = useCallback(async () => {
+    setMoods(await loadMoodRatings());
+    setGridDisplayMode(await getGridDisplayMode());
+  }, []);
+
+  /**
+   * Load the country whose public holidays are ringed on the grid
+   */
+  const loadHolidayCountry = useCallback(async () => {
+    setHolidayCountry(await getHolidayCountry());
+  }, []);
+
   /**
    * Animate icon rotation based on dropdown visibility
    */
@@ -229,6 +317,7 @@ export default function HomeScreen() {
         const currentYear = new Date().getFullYear();
         const defaultTimeline = createTimeline(TimelineType.YEAR, {
           year: currentYear,
+          calendarSystem: await getCalendarSystem(),
           isActive: true,
         });
 
@@ -247,7 +336,9 @@ export default function HomeScreen() {
 
         if (timeline) {
           // Check if timeline needs auto-update (Week/Month/Year)
-          const { timeline: updatedTimeline, wasUpdated } = updateTimelineIfNeeded(timeline);
+          const { timeline: updatedTimeline, wasUpdated } = updateTimelineIfNeeded(timeline, {
+            weekStartDay: await getWeekStartDay(),
+          });
 
           if (wasUpdated) {
             // Save the updated timeline
@@ -273,7 +364,10 @@ export default function HomeScreen() {
     useCallback(() => {
       loadActiveTimeline();
       loadAllTimelines();
-    }, [loadActiveTimeline, loadAllTimelines])
+      loadNotes();
+      loadMoods();
+      loadHolidayCountry();
+    }, [loadActiveTimeline, loadAllTimelines, loadNotes, loadMoods, loadHolidayCountry])
   );
 
   /**
@@ -289,20 +383,166 @@ export default function HomeScreen() {
     return () => subscription.remove();
   }, [loadActiveTimeline, loadAllTimelines, t]);
 
+  /**
+   * Refresh a "Today" or pinned timeline every minute (live progress and countdown, midnight rollover)
+   */
+  useEffect(() => {
+    if (!activeTimeline || !(isDayTimeline(activeTimeline) || isPinnedTimeline(activeTimeline))) {
+      return;
+    }
+
+    const timer = setInterval(() => {
+      if (isDayTimeline(activeTimeline) && dayTimelineNeedsUpdate(activeTimeline)) {
+        loadActiveTimeline();
+        loadAllTimelines();
+        return;
+      }
+
+      // A new object recomputes the memoized grid, so each hour's dot fills on time
+      setActiveTimeline((current) => (current ? { ...current } : current));
+    }, LIVE_REFRESH_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [activeTimeline, loadActiveTimeline, loadAllTimelines]);
+
+  /**
+   * Switch an upcoming timeline to its active state the moment it starts
+   * Starts more than a day away are picked up when the app returns to the foreground
+   */
+  useEffect(() => {
+    if (!activeTimeline || !isUpcomingTimeline(activeTimeline)) {
+      return;
+    }
+
+    const delay = getTimelineStartMoment(activeTimeline).getTime() - Date.now();
+    if (delay > MAX_START_TIMER_MS) {
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      setActiveTimeline((current) => (current ? { ...current } : current));
+      try {
+        await syncAllTimelinesToWidget();
+        await syncActiveTimelineToWidget();
+      } catch (error) {
+        console.warn('Widget sync failed (non-fatal):', error);
+      }
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [activeTimeline]);
+
+  /**
+   * Save a habit or goal timeline after progress was logged and refresh the widget
+   */
+  const saveTimelineLog = useCallback(async (timeline: Timeline) => {
+    try {
+      await saveTimeline(timeline);
+      await syncAllTimelinesToWidget();
+      await syncActiveTimelineToWidget();
+    } catch (error) {
+      console.error('Error saving timeline log:', error);
+    }
+  }, []);
+
   /**
    * Handle dot press - calculate and show date
+   * On habit timelines, past days and today also cycle their status
+   * Goal dots are units of progress, not days, so they show no date
    */
   const handleDotPress = useCallback(
     (dotIndex: number, position: { x: number; y: number }) => {
-      if (!activeTimeline) return;
+      if (!activeTimeline || isGoalTimeline(activeTimeline)) return;
+
+      const date = getTimelineDotDate(activeTimeline, dotIndex);
+      const markers = getTimelineMarkersByDot(activeTimeline).get(dotIndex) ?? [];
+      const holidays = getHolidaysByDot(activeTimeline, holidayCountry).get(dotIndex) ?? [];
+      let statusLabel: string | undefined;
+
+      const day = toCalendarDate(date);
+      if (isHabitTimeline(activeTimeline) && day <= getTodayCalendarDate()) {
+        const status = getNextHabitStatus(activeTimeline.habitLog?.[day]);
+        const updatedTimeline = setTimelineHabitStatus(activeTimeline, day, status);
+        setActiveTimeline(updatedTimeline);
+        saveTimelineLog(updatedTimeline);
+        statusLabel = status ? t(`habit.${status}`) : t('habit.unmarked');
+      }
 
-      const date = getDateFromDotIndex(activeTimeline.startDate, dotIndex);
       setSelectedDate(date);
+      setSelectedMarkers(markers.map((marker) => marker.title));
+      setSelectedHolidays(holidays.map(getHolidayDisplayName));
+      setSelectedStatus(statusLabel);
+      setSelectedPinnedTime(
+        dotIndex === getTimelineTotalDots(activeTimeline) - 1
+          ? getPinnedTimeDescription(activeTimeline) ?? undefined
+          : undefined
+      );
       setTapPosition(position);
     },
+    [activeTimeline, holidayCountry, saveTimelineLog, t]
+  );
+
+  /**
+   * Handle dot long press - open the note editor for the dot's day
+   */
+  const handleDotLongPress = useCallback(
+    (dotIndex: number) => {
+      if (!activeTimeline || isGoalTimeline(activeTimeline)) return;
+
+      setNoteEditorDate(toCalendarDate(getTimelineDotDate(activeTimeline, dotIndex)));
+    },
     [activeTimeline]
   );
 
+  /**
+   * Handle note save (empty text deletes the note, a null mood clears the rating)
+   */
+  const handleNoteSave = async (date: CalendarDate, text: string, mood: MoodRating | null) => {
+    try {
+      await saveDayNote(date, text);
+      await saveMoodRating(date, mood);
+      setNoteEditorDate(null);
+      await loadNotes();
+      await loadMoods();
+    } catch (error) {
+      console.error('Error saving day note:', error);
+    }
+  };
+
+  /**
+   * Handle "+1" on a goal timeline
+   */
+  const handleGoalIncrement = () => {
+    if (!activeTimeline) return;
+
+    const updatedTimeline = logGoalProgress(activeTimeline, 1);
+    setActiveTimeline(updatedTimeline);
+    saveTimelineLog(updatedTimeline);
+  };
+
+  /**
+   * Handle today's mood from the home-screen prompt
+   */
+  const handleMoodPromptSelect = async (rating: MoodRating | null) => {
+    if (rating === null) return;
+
+    try {
+      await saveMoodRating(getTodayCalendarDate(), rating);
+      await loadMoods();
+    } catch (error) {
+      console.error('Error saving mood rating:', error);
+    }
+  };
+
+  /**
+   * Handle note selection from the notes list
+   * The list closes first so the editor isn't stacked on another modal
+   */
+  const handleNotesListEdit = (date: CalendarDate) => {
+    setShowNotesModal(false);
+    setNoteEditorDate(date);
+  };
+
   /**
    * Handle date display dismiss
    */
@@ -419,6 +659,17 @@ export default function HomeScreen() {
     setShowManagementModal(true);
   }, []);
 
+  /**
+   * Handle the end of the completion flow (timeline extended, renewed, archived or kept)
+   */
+  const handleCompletionDone = useCallback(async () => {
+    setCompletedTimeline(null);
+
+    // Reload data - an archived active timeline hands over to the next one
+    await loadActiveTimeline();
+    await loadAllTimelines();
+  }, [loadActiveTimeline, loadAllTimelines]);
+
   /**
    * Handle timeline edit from context menu
    */
@@ -528,6 +779,19 @@ export default function HomeScreen() {
   const progress = getTimelineProgress(activeTimeline);
   const remaining = getTimelineRemaining(activeTimeline);
   const percentage = getTimelineProgressPercentage(activeTimeline);
+  const nextMarker = getTimelineNextMarker(activeTimeline);
+  const pinnedTime = getPinnedTimeDescription(activeTimeline);
+  const startDateLabel = isUpcomingTimeline(activeTimeline)
+    ? parseCalendarDate(activeTimeline.startDate).toLocaleDateString(getCurrentLocale(), {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+      })
+    : null;
+  const habitStats = isHabitTimeline(activeTimeline) ? calculateHabitStats(activeTimeline) : null;
+  const isMoodMode = gridDisplayMode === 'mood';
+  const moodStats = isMoodMode ? calculateMoodStats(moods) : null;
+  const todayMood = moods[getTodayCalendarDate()];
 
   return (
     <SafeAreaView
@@ -541,6 +805,15 @@ export default function HomeScreen() {
       <View style={styles.contentContainer}>
         {/* Header - FadeIn first */}
         <Animated.View style={styles.header} entering={FadeIn.duration(400)}>
+          {/* Notes Icon - Top Left */}
+          <TouchableOpacity
+            style={styles.notesButton}
+            onPress={() => setShowNotesModal(true)}
+            activeOpacity={0.6}
+          >
+            <NotePencil size={24} color={colors.textSecondary} weight="regular" />
+          </TouchableOpacity>
+
           {/* Settings Icon - Top Right */}
           <TouchableOpacity
             style={styles.settingsButton}
@@ -592,7 +865,15 @@ export default function HomeScreen() {
 
         {/* Grid Container - FadeIn with 200ms delay */}
         <Animated.View style={styles.gridContainer} entering={FadeIn.duration(600).delay(200)}>
-          <StoicGrid timeline={activeTimeline} animated onDotPress={handleDotPress} />
+          <StoicGrid
+            timeline={activeTimeline}
+            animated
+            notes={notes}
+            moods={isMoodMode ? moods : undefined}
+            holidayCountry={holidayCountry}
+            onDotPress={handleDotPress}
+            onDotLongPress={handleDotLongPress}
+          />
         </Animated.View>
 
         {/* Footer - FadeIn with 400ms delay */}
@@ -615,13 +896,115 @@ export default function HomeScreen() {
               },
             ]}
           >
-            {t('home.percentPassed', { percent: percentage })}
+            {startDateLabel
+              ? t('home.startsOn', { date: startDateLabel })
+              : habitStats
+                ? t('home.habitSummary', {
+                    percent: habitStats.completionRate,
+                    count: habitStats.longestStreak,
+                  })
+                : isGoalTimeline(activeTimeline)
+                  ? t('home.percentOfGoal', { percent: percentage })
+                  : isOpenEndedTimeline(activeTimeline)
+                    ? t('home.percentToMilestone', { percent: percentage })
+                    : t('home.percentPassed', { percent: percentage })}
           </Text>
+          {isGoalTimeline(activeTimeline) && (
+            <TouchableOpacity
+              style={[styles.goalButton, { borderColor: colors.accent }]}
+              onPress={handleGoalIncrement}
+              accessibilityLabel={t('home.logGoalProgress')}
+              activeOpacity={0.6}
+            >
+              <Text style={[styles.goalButtonText, { color: colors.accent }]}>+1</Text>
+            </TouchableOpacity>
+          )}
+          {pinnedTime && (
+            <Text
+              style={[
+                styles.nextMarker,
+                {
+                  color: colors.textSecondary,
+                },
+              ]}
+            >
+              {pinnedTime}
+            </Text>
+          )}
+          {nextMarker && (
+            <Text
+              style={[
+                styles.nextMarker,
+                {
+                  color: colors.textSecondary,
+                },
+              ]}
+            >
+              {nextMarker}
+            </Text>
+          )}
+          {isMoodMode && !todayMood && (
+            <View style={styles.moodPrompt}>
+              <Text
+                style={[
+                  styles.moodPromptText,
+                  {
+                    color: colors.textSecondary,
+                  },
+                ]}
+              >
+                {t('mood.prompt')}
+              </Text>
+              <MoodPicker onChange={handleMoodPromptSelect} />
+            </View>
+          )}
+          {moodStats && moodStats.ratedDays > 0 && (
+            <Text
+              style={[
+                styles.nextMarker,
+                {
+                  color: colors.textSecondary,
+                },
+              ]}
+            >
+              {t('home.moodSummary', {
+                week: moodStats.weeklyAverage ?? '–',
+                month: moodStats.monthlyAverage ?? '–',
+                count: moodStats.bestStreak,
+              })}
+            </Text>
+          )}
         </Animated.View>
       </View>
 
       {/* Date Display Overlay */}
-      <DateDisplayOverlay date={selectedDate} position={tapPosition} onDismiss={handleDateDismiss} />
+      <DateDisplayOverlay
+        date={selectedDate}
+        position={tapPosition}
+        unit={getTimelineUnit(activeTimeline)}
+        markers={selectedMarkers}
+        holidays={selectedHolidays}
+        status={selectedStatus}
+        pinnedTime={selectedPinnedTime}
+        onDismiss={handleDateDismiss}
+      />
+
+      {/* Day Notes */}
+      <DayNotesModal
+        visible={showNotesModal}
+        timeline={activeTimeline}
+        notes={notes}
+        onEditNote={handleNotesListEdit}
+        onClose={() => setShowNotesModal(false)}
+      />
+
+      <DayNoteEditor
+        date={noteEditorDate}
+        note={noteEditorDate ? notes[noteEditorDate] : null}
+        mood={noteEditorDate ? moods[noteEditorDate] : null}
+        onClose={() => setNoteEditorDate(null)}
+        onSave={handleNoteSave}
+      />
 
       {/* Timeline Dropdown */}
       <TimelineDropdown
@@ -661,6 +1044,12 @@ export default function HomeScreen() {
           await loadAllTimelines();
         }}
       />
+
+      {/* Completion Flow (waits while the management modal is open) */}
+      <TimelineCompletionModal
+        timeline={showManagementModal ? null : completedTimeline}
+        onDone={handleCompletionDone}
+      />
     </SafeAreaView>
   );
 }
@@ -680,6 +1069,15 @@ const styles = StyleSheet.create({
     paddingBottom: Spacing.lg,
     position: 'relative',
   },
+  notesButton: {
+    position: 'absolute',
+    top: Spacing.sm,
+    left: 0,
+    width: 44,
+    height: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   settingsButton: {
     position: 'absolute',
     top: Spacing.sm,
@@ -723,6 +1121,31 @@ const styles = StyleSheet.create({
     fontSize: FontSizes.caption1,
     fontWeight: FontWeights.regular,
   },
+  nextMarker: {
+    fontSize: FontSizes.footnote,
+    fontWeight: FontWeights.regular,
+    marginTop: Spacing.xs,
+  },
+  goalButton: {
+    marginTop: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1.5,
+  },
+  goalButtonText: {
+    fontSize: FontSizes.body,
+    fontWeight: FontWeights.semibold,
+  },
+  moodPrompt: {
+    alignItems: 'center',
+    marginTop: Spacing.md,
+  },
+  moodPromptText: {
+    fontSize: FontSizes.footnote,
+    fontWeight: FontWeights.regular,
+    marginBottom: Spacing.sm,
+  },
   onboardingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -4,6 +4,7 @@
  *
  * Sections:
  * - Appearance (theme selection)
+ * - Calendar (first day of week, day start hour)
  * - About (version, build)
  * - Philosophy (app description)
  */
@@ -28,12 +29,36 @@ import { useRouter } from 'expo-router';
 import * as Clipboard from 'expo-clipboard';
 import Constants from 'expo-constants';
 import { useTranslation } from 'react-i18next';
-import { List, Moon, Sun, Monitor, Info, Sparkle, Bug, Check } from 'phosphor-react-native';
+import { List, Moon, Sun, Monitor, Info, Sparkle, Bug, Check, GridFour, Smiley } from 'phosphor-react-native';
 import { setDebugLanguage, SUPPORTED_LOCALES, SupportedLocale } from '@/services/i18n-service';
 import { SettingsGroup } from '@/components/settings-group';
 import { TimelineManagementModal } from '@/components/timeline-management-modal';
-import { updateThemeMode, getThemeMode, updateGridColorTheme, getGridColorTheme } from '@/services/storage';
-import { ThemeMode, GridColorTheme } from '@/types/timeline';
+import {
+  updateThemeMode,
+  getThemeMode,
+  updateGridColorTheme,
+  getGridColorTheme,
+  updateGridDisplayMode,
+  getGridDisplayMode,
+  updateWeekStartDay,
+  getWeekStartDay,
+  updateHolidayCountry,
+  getHolidayCountry,
+  updateCalendarSystem,
+  getCalendarSystem,
+  updateDayStartsAt,
+  getDayStartsAt,
+} from '@/services/storage';
+import {
+  ThemeMode,
+  GridColorTheme,
+  GridDisplayMode,
+  WeekStartDay,
+  HolidayCountry,
+  CalendarSystem,
+} from '@/types/timeline';
+import { HOLIDAY_COUNTRIES, getHolidayCountryFlag } from '@/constants/holidays';
+import { CALENDAR_SYSTEMS, isCalendarSystemSupported } from '@/utils/calendar-systems';
 import { getAnonymousUserId, isPro } from '@/services/revenue-cat-service';
 import {
   Colors,
@@ -81,6 +106,11 @@ export default function SettingsScreen() {
 
   const [currentTheme, setCurrentTheme] = useState<ThemeMode>('dark');
   const [currentGridColorTheme, setCurrentGridColorTheme] = useState<GridColorTheme>('classic');
+  const [currentGridDisplayMode, setCurrentGridDisplayMode] = useState<GridDisplayMode>('progress');
+  const [currentWeekStartDay, setCurrentWeekStartDay] = useState<WeekStartDay>(1);
+  const [currentHolidayCountry, setCurrentHolidayCountry] = useState<HolidayCountry | null>(null);
+  const [currentCalendarSystem, setCurrentCalendarSystem] = useState<CalendarSystem>('gregorian');
+  const [currentDayStartsAt, setCurrentDayStartsAt] = useState<number>(0);
   const [hasPro, setHasPro] = useState<boolean>(false);
   const [appUserId, setAppUserId] = useState<string>('Loading...');
   const [isLoadingSubscription, setIsLoadingSubscription] = useState<boolean>(true);
@@ -110,6 +140,66 @@ export default function SettingsScreen() {
     }
   }, []);
 
+  /**
+   * Load current grid display mode
+   */
+  const loadGridDisplayMode = useCallback(async () => {
+    try {
+      const mode = await getGridDisplayMode();
+      setCurrentGridDisplayMode(mode);
+    } catch (error) {
+      console.error('Error loading grid display mode:', error);
+    }
+  }, []);
+
+  /**
+   * Load current first day of week
+   */
+  const loadWeekStartDay = useCallback(async () => {
+    try {
+      const day = await getWeekStartDay();
+      setCurrentWeekStartDay(day);
+    } catch (error) {
+      console.error('Error loading week start day:', error);
+    }
+  }, []);
+
+  /**
+   * Load current day start hour
+   */
+  const loadDayStartsAt = useCallback(async () => {
+    try {
+      const hour = await getDayStartsAt();
+      setCurrentDayStartsAt(hour);
+    } catch (error) {
+      console.error('Error loading day start hour:', error);
+    }
+  }, []);
+
+  /**
+   * Load current calendar system
+   */
+  const loadCalendarSystem = useCallback(async () => {
+    try {
+      const system = await getCalendarSystem();
+      setCurrentCalendarSystem(system);
+    } catch (error) {
+      console.error('Error loading calendar system:', error);
+    }
+  }, []);
+
+  /**
+   * Load current public holiday country
+   */
+  const loadHolidayCountry = useCallback(async () => {
+    try {
+      const country = await getHolidayCountry();
+      setCurrentHolidayCountry(country);
+    } catch (error) {
+      console.error('Error loading holiday country:', error);
+    }
+  }, []);
+
   /**
    * Load subscription status
    */
@@ -146,9 +236,24 @@ export default function SettingsScreen() {
     useCallback(() => {
       loadThemeSetting();
       loadGridColorTheme();
+      loadGridDisplayMode();
+      loadWeekStartDay();
+      loadDayStartsAt();
+      loadCalendarSystem();
+      loadHolidayCountry();
       loadSubscriptionStatus();
       loadAppUserId();
-    }, [loadThemeSetting, loadGridColorTheme, loadSubscriptionStatus, loadAppUserId])
+    }, [
+      loadThemeSetting,
+      loadGridColorTheme,
+      loadGridDisplayMode,
+      loadWeekStartDay,
+      loadDayStartsAt,
+      loadCalendarSystem,
+      loadHolidayCountry,
+      loadSubscriptionStatus,
+      loadAppUserId,
+    ])
   );
 
   const handleCopyUserId = async () => {
@@ -199,6 +304,66 @@ export default function SettingsScreen() {
     }
   };
 
+  /**
+   * Handle grid display mode change
+   */
+  const handleGridDisplayModeChange = async (mode: GridDisplayMode) => {
+    try {
+      await updateGridDisplayMode(mode);
+      setCurrentGridDisplayMode(mode);
+    } catch (error) {
+      console.error('Error updating grid display mode:', error);
+    }
+  };
+
+  /**
+   * Handle first day of week change
+   */
+  const handleWeekStartDayChange = async (day: WeekStartDay) => {
+    try {
+      await updateWeekStartDay(day);
+      setCurrentWeekStartDay(day);
+    } catch (error) {
+      console.error('Error updating week start day:', error);
+    }
+  };
+
+  /**
+   * Handle day start hour change
+   */
+  const handleDayStartsAtChange = async (hour: number) => {
+    try {
+      await updateDayStartsAt(hour);
+      setCurrentDayStartsAt(hour);
+    } catch (error) {
+      console.error('Error updating day start hour:', error);
+    }
+  };
+
+  /**
+   * Handle calendar system change
+   */
+  const handleCalendarSystemChange = async (system: CalendarSystem) => {
+    try {
+      await updateCalendarSystem(system);
+      setCurrentCalendarSystem(system);
+    } catch (error) {
+      console.error('Error updating calendar system:', error);
+    }
+  };
+
+  /**
+   * Handle public holiday country change
+   */
+  const handleHolidayCountryChange = async (country: HolidayCountry | null) => {
+    try {
+      await updateHolidayCountry(country);
+      setCurrentHolidayCountry(country);
+    } catch (error) {
+      console.error('Error updating holiday country:', error);
+    }
+  };
+
   /**
    * Debug widget sync
    */
@@ -272,6 +437,62 @@ export default function SettingsScreen() {
     },
   ];
 
+  /**
+   * Grid display modes (rendered as horizontal buttons)
+   */
+  const gridDisplayModes = [
+    {
+      mode: 'progress' as GridDisplayMode,
+      label: t('settings.displayProgress'),
+      icon: <GridFour size={20} color={colors.accent} weight="regular" />,
+    },
+    {
+      mode: 'mood' as GridDisplayMode,
+      label: t('settings.displayMood'),
+      icon: <Smiley size={20} color={colors.accent} weight="regular" />,
+    },
+  ];
+
+  /**
+   * First day of week options (rendered as horizontal buttons)
+   */
+  const weekStartOptions: { day: WeekStartDay; label: string }[] = [
+    { day: 6, label: t('settings.saturday') },
+    { day: 0, label: t('settings.sunday') },
+    { day: 1, label: t('settings.monday') },
+  ];
+
+  /**
+   * Day start hour options (midnight, or early morning for night owls)
+   */
+  const dayStartOptions: { hour: number; label: string }[] = [0, 2, 3, 4, 5, 6].map((hour) => ({
+    hour,
+    label: hour === 0 ? t('settings.midnight') : `${String(hour).padStart(2, '0')}:00`,
+  }));
+
+  /**
+   * Calendar system options (only those the platform has data for)
+   */
+  const calendarSystemLabels: Record<CalendarSystem, string> = {
+    gregorian: t('settings.calendarGregorian'),
+    islamic: t('settings.calendarHijri'),
+    chinese: t('settings.calendarChinese'),
+    hebrew: t('settings.calendarHebrew'),
+    persian: t('settings.calendarPersian'),
+  };
+  const calendarSystemOptions = CALENDAR_SYSTEMS.filter(isCalendarSystemSupported);
+
+  /**
+   * Public holiday country options
+   */
+  const holidayCountryOptions: { country: HolidayCountry | null; label: string }[] = [
+    { country: null, label: t('settings.holidaysOff') },
+    ...HOLIDAY_COUNTRIES.map((country) => ({
+      country,
+      label: `${getHolidayCountryFlag(country)} ${country}`,
+    })),
+  ];
+
   /**
    * Premium settings
    */
@@ -481,6 +702,190 @@ export default function SettingsScreen() {
           </SettingsGroup>
         </Animated.View>
 
+        {/* Grid Display - 325ms delay */}
+        <Animated.View entering={FadeInDown.duration(300).delay(325)}>
+          <SettingsGroup title={t('settings.gridDisplay')} items={[]}>
+            <View style={styles.appearanceContainer}>
+              {gridDisplayModes.map((option) => {
+                const isSelected = currentGridDisplayMode === option.mode;
+                return (
+                  <TouchableOpacity
+                    key={option.mode}
+                    style={[
+                      styles.appearanceItem,
+                      {
+                        backgroundColor: colors.cardBackground,
+                        borderColor: isSelected ? colors.accent : 'transparent',
+                      },
+                    ]}
+                    onPress={() => handleGridDisplayModeChange(option.mode)}
+                    activeOpacity={0.6}
+                  >
+                    {option.icon}
+                    <Text
+                      style={[
+                        styles.appearanceLabel,
+                        { color: colors.textPrimary },
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                    {isSelected && (
+                      <Check size={16} color={colors.accent} weight="bold" />
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </SettingsGroup>
+        </Animated.View>
+
+        {/* Week Start - 350ms delay */}
+        <Animated.View entering={FadeInDown.duration(300).delay(350)}>
+          <SettingsGroup title={t('settings.weekStartsOn')} items={[]}>
+            <View style={styles.appearanceContainer}>
+              {weekStartOptions.map((option) => {
+                const isSelected = currentWeekStartDay === option.day;
+                return (
+                  <TouchableOpacity
+                    key={option.day}
+                    style={[
+                      styles.appearanceItem,
+                      {
+                        backgroundColor: colors.cardBackground,
+                        borderColor: isSelected ? colors.accent : 'transparent',
+                      },
+                    ]}
+                    onPress={() => handleWeekStartDayChange(option.day)}
+                    activeOpacity={0.6}
+                  >
+                    <Text
+                      style={[
+                        styles.appearanceLabel,
+                        { color: colors.textPrimary },
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                    {isSelected && (
+                      <Check size={16} color={colors.accent} weight="bold" />
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </SettingsGroup>
+        </Animated.View>
+
+        {/* Day Start - 355ms delay */}
+        <Animated.View entering={FadeInDown.duration(300).delay(355)}>
+          <SettingsGroup
+            title={t('settings.dayStartsAt')}
+            items={[]}
+            footer={t('settings.dayStartsAtHint')}
+          >
+            <View style={[styles.appearanceContainer, styles.wrapContainer]}>
+              {dayStartOptions.map((option) => {
+                const isSelected = currentDayStartsAt === option.hour;
+                return (
+                  <TouchableOpacity
+                    key={option.hour}
+                    style={[
+                      styles.appearanceItem,
+                      styles.calendarItem,
+                      {
+                        backgroundColor: colors.cardBackground,
+                        borderColor: isSelected ? colors.accent : 'transparent',
+                      },
+                    ]}
+                    onPress={() => handleDayStartsAtChange(option.hour)}
+                    activeOpacity={0.6}
+                  >
+                    <Text
+                      style={[
+                        styles.appearanceLabel,
+                        { color: colors.textPrimary },
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </SettingsGroup>
+        </Animated.View>
+
+        {/* Calendar - 360ms delay */}
+        <Animated.View entering={FadeInDown.duration(300).delay(360)}>
+          <SettingsGroup title={t('settings.calendar')} items={[]}>
+            <View style={[styles.appearanceContainer, styles.wrapContainer]}>
+              {calendarSystemOptions.map((system) => {
+                const isSelected = currentCalendarSystem === system;
+                return (
+                  <TouchableOpacity
+                    key={system}
+                    style={[
+                      styles.appearanceItem,
+                      styles.calendarItem,
+                      {
+                        backgroundColor: colors.cardBackground,
+                        borderColor: isSelected ? colors.accent : 'transparent',
+                      },
+                    ]}
+                    onPress={() => handleCalendarSystemChange(system)}
+                    activeOpacity={0.6}
+                  >
+                    <Text
+                      style={[
+                        styles.appearanceLabel,
+                        { color: colors.textPrimary },
+                      ]}
+                    >
+                      {calendarSystemLabels[system]}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </SettingsGroup>
+        </Animated.View>
+
+        {/* Public Holidays - 375ms delay */}
+        <Animated.View entering={FadeInDown.duration(300).delay(375)}>
+          <SettingsGroup title={t('settings.publicHolidays')} items={[]}>
+            <View style={[styles.appearanceContainer, styles.wrapContainer]}>
+              {holidayCountryOptions.map((option) => {
+                const isSelected = currentHolidayCountry === option.country;
+                return (
+                  <TouchableOpacity
+                    key={option.country ?? 'off'}
+                    style={[
+                      styles.appearanceItem,
+                      styles.countryItem,
+                      {
+                        backgroundColor: colors.cardBackground,
+                        borderColor: isSelected ? colors.accent : 'transparent',
+                      },
+                    ]}
+                    onPress={() => handleHolidayCountryChange(option.country)}
+                    activeOpacity={0.6}
+                  >
+                    <Text
+                      style={[
+                        styles.appearanceLabel,
+                        { color: colors.textPrimary },
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </SettingsGroup>
+        </Animated.View>
+
         {/* Premium - 400ms delay */}
         <Animated.View entering={FadeInDown.duration(300).delay(400)}>
           {isLoadingSubscription ? (
@@ -622,6 +1027,16 @@ const styles = StyleSheet.create({
     fontSize: FontSizes.caption1,
     fontWeight: FontWeights.medium,
   },
+  wrapContainer: {
+    flexWrap: 'wrap',
+  },
+  countryItem: {
+    flexGrow: 0,
+    flexBasis: '22%',
+  },
+  calendarItem: {
+    flexBasis: '30%',
+  },
   colorPaletteContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
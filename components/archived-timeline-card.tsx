@@ -0,0 +1,134 @@
+/**
+ * Archived Timeline Card Component
+ * Read-only card for a finished YEAR/MONTH/WEEK or recurring CUSTOM period
+ *
+ * Design:
+ * - Serif period title (e.g. "2025", "March 2026")
+ * - Type · final percentage
+ * - Final progress (X of Y days)
+ * - Mini grid on the right
+ * - No actions (archive entries cannot be edited or activated)
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, useColorScheme } from 'react-native';
+import { ArchivedTimeline } from '@/types/timeline';
+import { StoicGrid } from './stoic-grid';
+import {
+  getArchivedTimelineDescription,
+  getArchivedTimelineProgress,
+} from '@/services/timeline-calculator';
+import {
+  Colors,
+  Fonts,
+  FontSizes,
+  FontWeights,
+  Spacing,
+  BorderRadius,
+} from '@/constants/theme';
+
+export interface ArchivedTimelineCardProps {
+  /**
+   * Archived timeline period to display
+   */
+  archived: ArchivedTimeline;
+}
+
+/**
+ * Archived Timeline Card Component
+ */
+export function ArchivedTimelineCard({ archived }: ArchivedTimelineCardProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'];
+
+  return (
+    <View
+      style={[
+        styles.card,
+        {
+          backgroundColor: colors.cardBackground,
+        },
+      ]}
+    >
+      {/* Left Content */}
+      <View style={styles.leftContent}>
+        <Text
+          style={[
+            styles.title,
+            {
+              fontFamily: Fonts.serif,
+              color: colors.textPrimary,
+            },
+          ]}
+        >
+          {archived.title}
+        </Text>
+
+        <Text
+          style={[
+            styles.description,
+            {
+              color: colors.textSecondary,
+            },
+          ]}
+        >
+          {getArchivedTimelineDescription(archived)}
+        </Text>
+
+        <Text
+          style={[
+            styles.progress,
+            {
+              color: colors.textSecondary,
+            },
+          ]}
+        >
+          {getArchivedTimelineProgress(archived)}
+        </Text>
+      </View>
+
+      {/* Right Content - Mini Grid */}
+      <View style={styles.miniGridContainer}>
+        <StoicGrid timeline={archived} mini />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: Spacing.md,
+    borderRadius: BorderRadius.large,
+    marginBottom: Spacing.md,
+    overflow: 'hidden',
+    opacity: 0.8,
+  },
+  leftContent: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  title: {
+    fontSize: FontSizes.title2,
+    fontWeight: FontWeights.semibold,
+    marginBottom: Spacing.xs,
+  },
+  description: {
+    fontSize: FontSizes.subheadline,
+    fontWeight: FontWeights.regular,
+    marginBottom: 2,
+  },
+  progress: {
+    fontSize: FontSizes.subheadline,
+    fontWeight: FontWeights.regular,
+  },
+  miniGridContainer: {
+    width: 60,
+    height: 60,
+    marginLeft: Spacing.md,
+    overflow: 'hidden',
+    borderRadius: BorderRadius.small,
+  },
+});
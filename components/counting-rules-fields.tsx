@@ -0,0 +1,533 @@
+/**
+ * Counting Rules Fields Component
+ * Counting rules section of the timeline form drawer
+ *
+ * Features:
+ * - Every day or working days only
+ * - Public holidays of the settings country
+ * - Excluded date ranges (holidays, leave) added with a title and two dates
+ * - Pauses started today and resumed later
+ * - Hollow or hidden excluded days
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, TextInput, useColorScheme, Platform } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { useTranslation } from 'react-i18next';
+import { X, Plus } from 'phosphor-react-native';
+import { CountingRules, ExcludedDayDisplay, HolidayCountry } from '@/types/timeline';
+import { createExcludedRange, getExcludedRangeLabel } from '@/services/timeline-calculator';
+import { getHolidayCountry } from '@/services/storage';
+import { getHolidayCountryFlag } from '@/constants/holidays';
+import { getCurrentLocale } from '@/services/i18n-service';
+import { getTodayCalendarDate, addCalendarDays } from '@/utils/date-helpers';
+import { Colors, FontWeights } from '@/constants/theme';
+import { FormDatePickerProps, formStyles } from './timeline-form-shared';
+
+export interface CountingRulesFieldsProps extends FormDatePickerProps {
+  /**
+   * Counting rules being edited
+   */
+  rules: CountingRules;
+
+  /**
+   * Called with the updated rules
+   */
+  onChange: (rules: CountingRules) => void;
+}
+
+/**
+ * Counting Rules Fields Component
+ */
+export function CountingRulesFields({
+  rules,
+  onChange,
+  activePicker,
+  pickerLocale,
+  onOpenPicker,
+  onClosePicker,
+}: CountingRulesFieldsProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'];
+  const { t } = useTranslation();
+  const [settingsHolidayCountry, setSettingsHolidayCountry] = useState<HolidayCountry | null>(null);
+  const [excludedTitle, setExcludedTitle] = useState('');
+  const [excludedStartDate, setExcludedStartDate] = useState(new Date());
+  const [excludedEndDate, setExcludedEndDate] = useState(new Date());
+
+  const {
+    excludeWeekends,
+    holidayCountry,
+    excludedRanges = [],
+    pauses = [],
+    excludedDisplay = 'hollow',
+  } = rules;
+
+  /**
+   * Load the settings holiday country (offered as a counting rule)
+   */
+  useEffect(() => {
+    getHolidayCountry()
+      .then(setSettingsHolidayCountry)
+      .catch((error) => console.error('Error loading holiday country:', error));
+  }, []);
+
+  /**
+   * Apply changes to the rules being edited
+   */
+  const updateRules = (changes: Partial<CountingRules>) => {
+    onChange({ ...rules, ...changes });
+  };
+
+  /**
+   * Add an excluded date range from the new-exclusion inputs
+   */
+  const handleAddExcludedRange = () => {
+    updateRules({
+      excludedRanges: [
+        ...excludedRanges,
+        createExcludedRange(excludedTitle, excludedStartDate, excludedEndDate),
+      ].sort((a, b) => a.startDate.localeCompare(b.startDate)),
+    });
+    setExcludedTitle('');
+    onClosePicker();
+  };
+
+  /**
+   * Remove an excluded date range
+   */
+  const handleRemoveExcludedRange = (id: string) => {
+    updateRules({ excludedRanges: excludedRanges.filter((range) => range.id !== id) });
+  };
+
+  /**
+   * Pause the timeline from today, or resume an ongoing pause
+   * Resuming counts today again; a pause started today is dropped entirely
+   */
+  const handleTogglePause = () => {
+    const today = getTodayCalendarDate();
+    const ongoing = pauses.find((pause) => !pause.endDate);
+
+    if (!ongoing) {
+      updateRules({ pauses: [...pauses, createExcludedRange(undefined, today)] });
+      return;
+    }
+
+    updateRules({
+      pauses:
+        ongoing.startDate >= today
+          ? pauses.filter((pause) => pause.id !== ongoing.id)
+          : pauses.map((pause) =>
+              pause.id === ongoing.id ? { ...pause, endDate: addCalendarDays(today, -1) } : pause
+            ),
+    });
+  };
+
+  /**
+   * Remove a pause interval
+   */
+  const handleRemovePause = (id: string) => {
+    updateRules({ pauses: pauses.filter((pause) => pause.id !== id) });
+  };
+
+  const formatExcludedDate = (date: Date) =>
+    date.toLocaleDateString(getCurrentLocale(), { month: 'short', day: 'numeric' });
+
+  const countOptions: { value: boolean; label: string }[] = [
+    { value: false, label: t('timelineForm.countEveryDay') },
+    { value: true, label: t('timelineForm.countWorkingDays') },
+  ];
+
+  const displayOptions: { value: ExcludedDayDisplay; label: string }[] = [
+    { value: 'hollow', label: t('timelineForm.excludedHollow') },
+    { value: 'hidden', label: t('timelineForm.excludedHidden') },
+  ];
+
+  const isPaused = pauses.some((pause) => !pause.endDate);
+  const hasRules = excludeWeekends || !!holidayCountry || excludedRanges.length > 0 || pauses.length > 0;
+
+  // Timelines keep the country they were set up with, even if settings change later
+  const offeredHolidayCountry = holidayCountry ?? settingsHolidayCountry;
+
+  return (
+    <View style={formStyles.fieldContainer}>
+      <Text
+        style={[
+          formStyles.fieldLabel,
+          {
+            color: colors.textSecondary,
+          },
+        ]}
+      >
+        {t('timelineForm.countLabel')}
+      </Text>
+      <View style={formStyles.typePickerContainer}>
+        {countOptions.map((option) => {
+          const isSelected = !!excludeWeekends === option.value;
+          return (
+            <TouchableOpacity
+              key={option.label}
+              style={[
+                formStyles.optionButton,
+                {
+                  backgroundColor: isSelected
+                    ? colors.tertiaryBackground
+                    : 'transparent',
+                  borderColor: colors.separator,
+                },
+              ]}
+              onPress={() => updateRules({ excludeWeekends: option.value })}
+              activeOpacity={0.6}
+            >
+              <Text
+                style={[
+                  formStyles.optionButtonText,
+                  {
+                    color: isSelected
+                      ? colors.textPrimary
+                      : colors.textSecondary,
+                    fontWeight: isSelected
+                      ? FontWeights.medium
+                      : FontWeights.regular,
+                  },
+                ]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {/* Public holidays of the settings country */}
+      {offeredHolidayCountry && (
+        <View style={[formStyles.typePickerContainer, formStyles.stackedPickerContainer]}>
+          <TouchableOpacity
+            style={[
+              formStyles.optionButton,
+              {
+                backgroundColor: holidayCountry
+                  ? colors.tertiaryBackground
+                  : 'transparent',
+                borderColor: colors.separator,
+              },
+            ]}
+            onPress={() => updateRules({ holidayCountry: holidayCountry ? undefined : offeredHolidayCountry })}
+            activeOpacity={0.6}
+          >
+            <Text
+              style={[
+                formStyles.optionButtonText,
+                {
+                  color: holidayCountry
+                    ? colors.textPrimary
+                    : colors.textSecondary,
+                  fontWeight: holidayCountry
+                    ? FontWeights.medium
+                    : FontWeights.regular,
+                },
+              ]}
+            >
+              {t('timelineForm.skipHolidays', {
+                country: `${getHolidayCountryFlag(offeredHolidayCountry)} ${offeredHolidayCountry}`,
+              })}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* Excluded dates (holidays, leave) */}
+      <Text
+        style={[
+          formStyles.fieldLabel,
+          formStyles.subFieldLabel,
+          {
+            color: colors.textSecondary,
+          },
+        ]}
+      >
+        {t('timelineForm.excludedLabel')}
+      </Text>
+
+      {excludedRanges.map((range) => (
+        <View
+          key={range.id}
+          style={[
+            formStyles.listRow,
+            {
+              borderColor: colors.separator,
+            },
+          ]}
+        >
+          <Text
+            numberOfLines={1}
+            style={[
+              formStyles.listRowTitle,
+              {
+                color: colors.textPrimary,
+              },
+            ]}
+          >
+            {getExcludedRangeLabel(range)}
+          </Text>
+          <TouchableOpacity
+            onPress={() => handleRemoveExcludedRange(range.id)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            activeOpacity={0.6}
+          >
+            <X size={16} color={colors.textSecondary} weight="bold" />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <TextInput
+        style={[
+          formStyles.textInput,
+          formStyles.stackedInput,
+          {
+            backgroundColor: colors.secondaryBackground,
+            color: colors.textPrimary,
+            borderColor: colors.separator,
+          },
+        ]}
+        value={excludedTitle}
+        onChangeText={setExcludedTitle}
+        placeholder={t('timelineForm.excludedPlaceholder')}
+        placeholderTextColor={colors.textTertiary}
+        maxLength={40}
+      />
+      <View style={formStyles.addRow}>
+        <TouchableOpacity
+          style={[
+            formStyles.dateButton,
+            formStyles.addRowDateButton,
+            formStyles.addRowInput,
+            {
+              backgroundColor: colors.secondaryBackground,
+              borderColor: colors.separator,
+            },
+          ]}
+          onPress={() => onOpenPicker('excludedStart')}
+        >
+          <Text
+            style={[
+              formStyles.listRowDetail,
+              {
+                color: colors.textPrimary,
+              },
+            ]}
+          >
+            {formatExcludedDate(excludedStartDate)}
+          </Text>
+        </TouchableOpacity>
+        <Text style={[formStyles.listRowDetail, { color: colors.textSecondary }]}>–</Text>
+        <TouchableOpacity
+          style={[
+            formStyles.dateButton,
+            formStyles.addRowDateButton,
+            formStyles.addRowInput,
+            {
+              backgroundColor: colors.secondaryBackground,
+              borderColor: colors.separator,
+            },
+          ]}
+          onPress={() => onOpenPicker('excludedEnd')}
+        >
+          <Text
+            style={[
+              formStyles.listRowDetail,
+              {
+                color: colors.textPrimary,
+              },
+            ]}
+          >
+            {formatExcludedDate(excludedEndDate)}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            formStyles.addButton,
+            {
+              backgroundColor: colors.accent,
+            },
+          ]}
+          onPress={handleAddExcludedRange}
+          activeOpacity={0.7}
+        >
+          <Plus size={16} color="#FFFFFF" weight="bold" />
+        </TouchableOpacity>
+      </View>
+
+      {activePicker === 'excludedStart' && (
+        <DateTimePicker
+          key={`excludedStart-${pickerLocale}`}
+          value={excludedStartDate}
+          mode="date"
+          display="spinner"
+          locale={pickerLocale}
+          onChange={(_, date) => {
+            if (Platform.OS !== 'ios') {
+              onClosePicker();
+            }
+            if (date) {
+              setExcludedStartDate(date);
+              // Keep the range valid
+              if (date > excludedEndDate) setExcludedEndDate(date);
+            }
+          }}
+        />
+      )}
+
+      {activePicker === 'excludedEnd' && (
+        <DateTimePicker
+          key={`excludedEnd-${pickerLocale}`}
+          value={excludedEndDate}
+          mode="date"
+          display="spinner"
+          locale={pickerLocale}
+          minimumDate={excludedStartDate}
+          onChange={(_, date) => {
+            if (Platform.OS !== 'ios') {
+              onClosePicker();
+            }
+            if (date) setExcludedEndDate(date);
+          }}
+        />
+      )}
+
+      {/* Pauses */}
+      <Text
+        style={[
+          formStyles.fieldLabel,
+          formStyles.subFieldLabel,
+          {
+            color: colors.textSecondary,
+          },
+        ]}
+      >
+        {t('timelineForm.pausesLabel')}
+      </Text>
+
+      {pauses.map((pause) => (
+        <View
+          key={pause.id}
+          style={[
+            formStyles.listRow,
+            {
+              borderColor: colors.separator,
+            },
+          ]}
+        >
+          <Text
+            numberOfLines={1}
+            style={[
+              formStyles.listRowTitle,
+              {
+                color: colors.textPrimary,
+              },
+            ]}
+          >
+            {getExcludedRangeLabel(pause)}
+          </Text>
+          <TouchableOpacity
+            onPress={() => handleRemovePause(pause.id)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            activeOpacity={0.6}
+          >
+            <X size={16} color={colors.textSecondary} weight="bold" />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <View style={[formStyles.typePickerContainer, formStyles.stackedPickerContainer]}>
+        <TouchableOpacity
+          style={[
+            formStyles.optionButton,
+            {
+              backgroundColor: isPaused ? colors.tertiaryBackground : 'transparent',
+              borderColor: colors.separator,
+            },
+          ]}
+          onPress={handleTogglePause}
+          activeOpacity={0.6}
+        >
+          <Text
+            style={[
+              formStyles.optionButtonText,
+              {
+                color: colors.textPrimary,
+              },
+            ]}
+          >
+            {isPaused ? t('timelineForm.resumeTimeline') : t('timelineForm.pauseTimeline')}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* How excluded days are drawn */}
+      {hasRules && (
+        <>
+          <Text
+            style={[
+              formStyles.fieldLabel,
+              formStyles.subFieldLabel,
+              {
+                color: colors.textSecondary,
+              },
+            ]}
+          >
+            {t('timelineForm.excludedDisplayLabel')}
+          </Text>
+          <View style={formStyles.typePickerContainer}>
+            {displayOptions.map((option) => {
+              const isSelected = excludedDisplay === option.value;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    formStyles.optionButton,
+                    {
+                      backgroundColor: isSelected
+                        ? colors.tertiaryBackground
+                        : 'transparent',
+                      borderColor: colors.separator,
+                    },
+                  ]}
+                  onPress={() => updateRules({ excludedDisplay: option.value })}
+                  activeOpacity={0.6}
+                >
+                  <Text
+                    style={[
+                      formStyles.optionButtonText,
+                      {
+                        color: isSelected
+                          ? colors.textPrimary
+                          : colors.textSecondary,
+                        fontWeight: isSelected
+                          ? FontWeights.medium
+                          : FontWeights.regular,
+                      },
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </>
+      )}
+
+      <Text
+        style={[
+          formStyles.fieldHint,
+          {
+            color: colors.textTertiary,
+          },
+        ]}
+      >
+        {t('timelineForm.countingHint')}
+      </Text>
+    </View>
+  );
+}
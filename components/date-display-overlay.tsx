@@ -4,6 +4,8 @@
  *
  * Design:
  * - Small tooltip-style badge
+ * - Habit status, public holidays and marker names (if any) below the date
+ * - Pinned end time with its local equivalent on a pinned timeline's last dot
  * - Positioned near the tapped dot
  * - Fade in + scale animation
  * - Auto-dismiss after 1.5 seconds
@@ -18,7 +20,8 @@ import Animated, {
   withTiming,
   Easing,
 } from 'react-native-reanimated';
-import { formatShortDate, isToday } from '@/utils/date-helpers';
+import { TimelineUnit } from '@/types/timeline';
+import { formatPeriodLabel, isCurrentPeriod } from '@/utils/date-helpers';
 import {
   Colors,
   FontSizes,
@@ -40,13 +43,48 @@ export interface DateDisplayOverlayProps {
    */
   position: { x: number; y: number } | null;
 
+  /**
+   * Time represented by the tapped dot
+   * @default 'day'
+   */
+  unit?: TimelineUnit;
+
+  /**
+   * Names of markers on the tapped dot
+   */
+  markers?: string[];
+
+  /**
+   * Names of public holidays on the tapped day
+   */
+  holidays?: string[];
+
+  /**
+   * Label of the tapped day's habit status (habit timelines)
+   */
+  status?: string;
+
+  /**
+   * Pinned end time and its local equivalent (last dot of a pinned timeline)
+   */
+  pinnedTime?: string;
+
   /**
    * Called when overlay should dismiss
    */
   onDismiss: () => void;
 }
 
-export function DateDisplayOverlay({ date, position, onDismiss }: DateDisplayOverlayProps) {
+export function DateDisplayOverlay({
+  date,
+  position,
+  unit = 'day',
+  markers = [],
+  holidays = [],
+  status,
+  pinnedTime,
+  onDismiss,
+}: DateDisplayOverlayProps) {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'dark'];
 
@@ -100,13 +138,13 @@ export function DateDisplayOverlay({ date, position, onDismiss }: DateDisplayOve
   if (!date || !position) return null;
 
   // Get date status
-  const isCurrentDate = isToday(date);
-  const dateString = formatShortDate(date);
+  const isCurrentDate = isCurrentPeriod(date, unit);
+  const dateString = formatPeriodLabel(date, unit);
 
   // Calculate tooltip position
   // Tooltip dimensions (approximate)
-  const tooltipWidth = 160;
-  const tooltipHeight = 50;
+  const tooltipWidth = unit === 'week' || pinnedTime ? 200 : 160;
+  const tooltipHeight = 50 + (markers.length + holidays.length + (status ? 1 : 0) + (pinnedTime ? 2 : 0)) * 20;
   const offset = 15; // Distance from tap point
 
   // Center tooltip horizontally around tap point
@@ -158,6 +196,60 @@ export function DateDisplayOverlay({ date, position, onDismiss }: DateDisplayOve
         >
           {dateString}
         </Text>
+        {status && (
+          <Text
+            numberOfLines={1}
+            style={[
+              styles.markerText,
+              {
+                color: colors.textSecondary,
+              },
+            ]}
+          >
+            {status}
+          </Text>
+        )}
+        {pinnedTime && (
+          <Text
+            numberOfLines={2}
+            style={[
+              styles.markerText,
+              {
+                color: colors.textSecondary,
+              },
+            ]}
+          >
+            {pinnedTime}
+          </Text>
+        )}
+        {holidays.map((name, index) => (
+          <Text
+            key={`holiday-${index}`}
+            numberOfLines={1}
+            style={[
+              styles.markerText,
+              {
+                color: colors.textSecondary,
+              },
+            ]}
+          >
+            {name}
+          </Text>
+        ))}
+        {markers.map((name, index) => (
+          <Text
+            key={index}
+            numberOfLines={1}
+            style={[
+              styles.markerText,
+              {
+                color: colors.textSecondary,
+              },
+            ]}
+          >
+            {name}
+          </Text>
+        ))}
       </Animated.View>
     </View>
   );
@@ -188,4 +280,10 @@ const styles = StyleSheet.create({
     fontWeight: FontWeights.medium,
     textAlign: 'center',
   },
+  markerText: {
+    fontSize: FontSizes.footnote,
+    fontWeight: FontWeights.regular,
+    textAlign: 'center',
+    marginTop: 2,
+  },
 });
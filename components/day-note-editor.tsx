@@ -0,0 +1,268 @@
+/**
+ * Day Note Editor Component
+ * Centered dialog for writing the journal note and mood of a single day
+ *
+ * Features:
+ * - Opened by long-pressing a dot or from the notes list
+ * - 1-5 mood rating above the note
+ * - Multiline text input, focused on open
+ * - Saving empty text (or Delete) removes the note
+ * - Dimmed background with tap-to-dismiss
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  useColorScheme,
+  Platform,
+  KeyboardAvoidingView,
+  TouchableWithoutFeedback,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { CalendarDate, DayNote, MoodRating } from '@/types/timeline';
+import { MoodPicker } from './mood-picker';
+import { getCurrentLocale } from '@/services/i18n-service';
+import { parseCalendarDate } from '@/utils/date-helpers';
+import {
+  Colors,
+  Fonts,
+  FontSizes,
+  FontWeights,
+  Spacing,
+  BorderRadius,
+} from '@/constants/theme';
+
+export interface DayNoteEditorProps {
+  /**
+   * Day being edited (null hides the editor)
+   */
+  date: CalendarDate | null;
+
+  /**
+   * Existing note for the day, if any
+   */
+  note?: DayNote | null;
+
+  /**
+   * Existing mood rating for the day, if any
+   */
+  mood?: MoodRating | null;
+
+  /**
+   * Called when the editor is closed
+   */
+  onClose: () => void;
+
+  /**
+   * Called with the note text and mood when saved
+   * (empty text deletes the note, a null mood clears the rating)
+   */
+  onSave: (date: CalendarDate, text: string, mood: MoodRating | null) => void;
+}
+
+/**
+ * Day Note Editor Component
+ */
+export function DayNoteEditor({ date, note, mood, onClose, onSave }: DayNoteEditorProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'];
+  const { t } = useTranslation();
+
+  const [text, setText] = useState('');
+  const [rating, setRating] = useState<MoodRating | null>(null);
+
+  // Reset text and mood when a new day is opened
+  useEffect(() => {
+    if (date) {
+      setText(note?.text ?? '');
+      setRating(mood ?? null);
+    }
+  }, [date, note, mood]);
+
+  if (!date) return null;
+
+  const dateLabel = parseCalendarDate(date).toLocaleDateString(getCurrentLocale(), {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+  return (
+    <Modal visible animationType="fade" transparent onRequestClose={onClose}>
+      {/* Dimmed Background */}
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.overlay} />
+      </TouchableWithoutFeedback>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+        pointerEvents="box-none"
+      >
+        <View
+          style={[
+            styles.dialog,
+            {
+              backgroundColor: colors.secondaryBackground,
+            },
+          ]}
+        >
+          {/* Header */}
+          <View style={[styles.header, { borderBottomColor: colors.separator }]}>
+            <TouchableOpacity
+              onPress={onClose}
+              style={[styles.headerButton, styles.cancelButtonContainer, { borderColor: colors.separator }]}
+              activeOpacity={0.6}
+            >
+              <Text style={[styles.cancelButton, { color: colors.textSecondary }]}>
+                {t('common.cancel')}
+              </Text>
+            </TouchableOpacity>
+
+            <Text style={[styles.headerTitle, { color: colors.textPrimary }]}>
+              {t('notes.journal')}
+            </Text>
+
+            <TouchableOpacity
+              onPress={() => onSave(date, text, rating)}
+              style={[styles.headerButton, styles.saveButtonContainer, { backgroundColor: colors.accent }]}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.saveButton}>{t('common.save')}</Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Content */}
+          <View style={styles.content}>
+            <Text style={[styles.dateLabel, { color: colors.textSecondary }]}>{dateLabel}</Text>
+
+            <View style={styles.moodContainer}>
+              <MoodPicker value={rating} onChange={setRating} />
+            </View>
+
+            <TextInput
+              style={[
+                styles.textInput,
+                {
+                  backgroundColor: colors.background,
+                  color: colors.textPrimary,
+                  borderColor: colors.separator,
+                },
+              ]}
+              value={text}
+              onChangeText={setText}
+              placeholder={t('notes.placeholder')}
+              placeholderTextColor={colors.textTertiary}
+              multiline
+              autoFocus
+              maxLength={2000}
+              textAlignVertical="top"
+            />
+
+            {note && (
+              <TouchableOpacity
+                style={styles.deleteButton}
+                onPress={() => onSave(date, '', rating)}
+                activeOpacity={0.6}
+              >
+                <Text style={[styles.deleteText, { color: colors.destructive }]}>
+                  {t('notes.deleteNote')}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  keyboardView: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dialog: {
+    width: '88%',
+    borderRadius: BorderRadius.xlarge,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+    paddingBottom: Spacing.md,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  headerButton: {
+    minWidth: 60,
+  },
+  cancelButtonContainer: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: BorderRadius.small,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 5,
+  },
+  cancelButton: {
+    fontSize: FontSizes.footnote,
+    fontWeight: FontWeights.regular,
+  },
+  headerTitle: {
+    fontSize: FontSizes.title3,
+    fontWeight: FontWeights.regular,
+    fontFamily: Fonts.handwriting,
+    letterSpacing: 0.5,
+  },
+  saveButtonContainer: {
+    borderRadius: BorderRadius.small,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 5,
+    alignItems: 'center',
+  },
+  saveButton: {
+    fontSize: FontSizes.footnote,
+    fontWeight: FontWeights.medium,
+    color: '#FFFFFF',
+  },
+  content: {
+    padding: Spacing.lg,
+  },
+  dateLabel: {
+    fontSize: FontSizes.footnote,
+    fontWeight: FontWeights.regular,
+    marginBottom: Spacing.sm,
+    marginLeft: Spacing.xs,
+  },
+  moodContainer: {
+    marginBottom: Spacing.md,
+  },
+  textInput: {
+    minHeight: 160,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.small,
+    fontSize: FontSizes.body,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  deleteButton: {
+    alignSelf: 'flex-start',
+    marginTop: Spacing.md,
+    marginLeft: Spacing.xs,
+  },
+  deleteText: {
+    fontSize: FontSizes.subheadline,
+    fontWeight: FontWeights.medium,
+  },
+});
@@ -0,0 +1,263 @@
+/**
+ * Day Notes Modal Component
+ *
+ * Full-screen modal listing the journal notes of a timeline.
+ * Opened from the notes button on the Home screen.
+ *
+ * Features:
+ * - Notes within the timeline's dates, newest first
+ * - Tap a note to edit it
+ * - Write today's note
+ */
+
+import React, { useMemo } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  useColorScheme,
+  SafeAreaView,
+} from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { BlurView } from 'expo-blur';
+import { useTranslation } from 'react-i18next';
+import { X, NotePencil } from 'phosphor-react-native';
+import { Timeline, CalendarDate, DayNote } from '@/types/timeline';
+import { getTimelineDisplayTitle, getTimelineNotes } from '@/services/timeline-calculator';
+import { getCurrentLocale } from '@/services/i18n-service';
+import { getTodayCalendarDate, parseCalendarDate } from '@/utils/date-helpers';
+import {
+  Colors,
+  Fonts,
+  FontSizes,
+  FontWeights,
+  Spacing,
+  BorderRadius,
+} from '@/constants/theme';
+
+export interface DayNotesModalProps {
+  /**
+   * Whether the modal is visible
+   */
+  visible: boolean;
+
+  /**
+   * Timeline whose notes are listed
+   */
+  timeline: Timeline;
+
+  /**
+   * All day notes keyed by calendar date
+   */
+  notes: Record<CalendarDate, DayNote>;
+
+  /**
+   * Called when a note (or today's empty note) should be edited
+   */
+  onEditNote: (date: CalendarDate) => void;
+
+  /**
+   * Called when the modal is closed
+   */
+  onClose: () => void;
+}
+
+/**
+ * Day Notes Modal Component
+ */
+export function DayNotesModal({ visible, timeline, notes, onEditNote, onClose }: DayNotesModalProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'];
+  const { t } = useTranslation();
+
+  const timelineNotes = useMemo(() => getTimelineNotes(timeline, notes), [timeline, notes]);
+
+  const styles = createStyles(colors);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+      onDismiss={onClose}
+    >
+      <BlurView
+        intensity={100}
+        tint={colorScheme === 'dark' ? 'dark' : 'light'}
+        style={styles.container}
+      >
+        <SafeAreaView style={styles.safeArea}>
+          {/* Header */}
+          <View style={styles.header}>
+            <View style={styles.headerLeft}>
+              <Text style={styles.title}>{t('notes.journal')}</Text>
+              <Text style={styles.subtitle}>
+                {getTimelineDisplayTitle(timeline)} · {t('notes.noteCount', { count: timelineNotes.length })}
+              </Text>
+            </View>
+
+            <TouchableOpacity style={styles.closeButton} onPress={onClose} activeOpacity={0.6}>
+              <X size={24} color={colors.textSecondary} weight="regular" />
+            </TouchableOpacity>
+          </View>
+
+          {/* Note List */}
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.scrollContent}
+            showsVerticalScrollIndicator={false}
+          >
+            <TouchableOpacity
+              style={styles.writeButton}
+              onPress={() => onEditNote(getTodayCalendarDate())}
+              activeOpacity={0.6}
+            >
+              <NotePencil size={20} color={colors.background} weight="bold" />
+              <Text style={styles.writeButtonText}>{t('notes.writeToday')}</Text>
+            </TouchableOpacity>
+
+            {timelineNotes.map((note, index) => (
+              <Animated.View
+                key={note.date}
+                entering={FadeInDown.duration(300).delay(Math.min(index * 60, 400))}
+              >
+                <TouchableOpacity
+                  style={styles.noteCard}
+                  onPress={() => onEditNote(note.date)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.noteDate}>
+                    {parseCalendarDate(note.date).toLocaleDateString(getCurrentLocale(), {
+                      weekday: 'short',
+                      month: 'long',
+                      day: 'numeric',
+                      year: 'numeric',
+                    })}
+                  </Text>
+                  <Text style={styles.noteText} numberOfLines={4}>
+                    {note.text}
+                  </Text>
+                </TouchableOpacity>
+              </Animated.View>
+            ))}
+
+            {timelineNotes.length === 0 && (
+              <View style={styles.emptyState}>
+                <Text style={styles.emptyText}>{t('notes.noNotesYet')}</Text>
+                <Text style={styles.emptySubtext}>{t('notes.longPressHint')}</Text>
+              </View>
+            )}
+          </ScrollView>
+        </SafeAreaView>
+      </BlurView>
+    </Modal>
+  );
+}
+
+function createStyles(colors: typeof Colors.dark) {
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    safeArea: {
+      flex: 1,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      justifyContent: 'space-between',
+      paddingHorizontal: Spacing.lg,
+      paddingTop: Spacing.lg,
+      paddingBottom: Spacing.lg,
+    },
+    headerLeft: {
+      flex: 1,
+    },
+    title: {
+      fontFamily: Fonts.handwriting,
+      fontSize: FontSizes.title1,
+      fontWeight: FontWeights.bold,
+      color: colors.textPrimary,
+      marginBottom: Spacing.xs,
+    },
+    subtitle: {
+      fontSize: FontSizes.subheadline,
+      fontWeight: FontWeights.regular,
+      color: colors.textSecondary,
+    },
+    closeButton: {
+      width: 44,
+      height: 44,
+      justifyContent: 'center',
+      alignItems: 'center',
+      marginLeft: Spacing.sm,
+    },
+    scrollView: {
+      flex: 1,
+    },
+    scrollContent: {
+      paddingHorizontal: Spacing.lg,
+      paddingTop: Spacing.lg,
+      paddingBottom: Spacing.xxl,
+    },
+    writeButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: Spacing.md,
+      paddingHorizontal: Spacing.lg,
+      borderRadius: BorderRadius.full,
+      backgroundColor: colors.textPrimary,
+      marginBottom: Spacing.lg,
+    },
+    writeButtonText: {
+      fontSize: FontSizes.body,
+      fontWeight: FontWeights.semibold,
+      color: colors.background,
+      marginLeft: Spacing.sm,
+    },
+    noteCard: {
+      padding: Spacing.md,
+      borderRadius: BorderRadius.large,
+      backgroundColor: colors.cardBackground,
+      marginBottom: Spacing.md,
+    },
+    noteDate: {
+      fontSize: FontSizes.footnote,
+      fontWeight: FontWeights.semibold,
+      color: colors.textTertiary,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: Spacing.xs,
+    },
+    noteText: {
+      fontFamily: Fonts.serif,
+      fontSize: FontSizes.body,
+      color: colors.textPrimary,
+      lineHeight: 22,
+    },
+    emptyState: {
+      paddingVertical: Spacing.xxl,
+      alignItems: 'center',
+    },
+    emptyText: {
+      fontFamily: Fonts.serif,
+      fontSize: FontSizes.title2,
+      fontWeight: FontWeights.medium,
+      color: colors.textSecondary,
+      marginBottom: Spacing.sm,
+    },
+    emptySubtext: {
+      fontSize: FontSizes.body,
+      fontWeight: FontWeights.regular,
+      color: colors.textTertiary,
+      textAlign: 'center',
+      lineHeight: 24,
+    },
+  });
+}
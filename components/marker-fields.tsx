@@ -0,0 +1,202 @@
+/**
+ * Marker Fields Component
+ * Markers section of the timeline form drawer
+ *
+ * Features:
+ * - Named days inside the timeline (e.g. "Launch"), sorted by date
+ * - New markers added with a name and a date
+ */
+
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, TextInput, useColorScheme, Platform } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { useTranslation } from 'react-i18next';
+import { X, Plus } from 'phosphor-react-native';
+import { TimelineMarker } from '@/types/timeline';
+import { createTimelineMarker, sortTimelineMarkers } from '@/services/timeline-calculator';
+import { getCurrentLocale } from '@/services/i18n-service';
+import { parseCalendarDate } from '@/utils/date-helpers';
+import { Colors } from '@/constants/theme';
+import { FormDatePickerProps, formStyles } from './timeline-form-shared';
+
+export interface MarkerFieldsProps extends FormDatePickerProps {
+  /**
+   * Markers being edited
+   */
+  markers: TimelineMarker[];
+
+  /**
+   * Called with the updated markers
+   */
+  onChange: (markers: TimelineMarker[]) => void;
+}
+
+/**
+ * Marker Fields Component
+ */
+export function MarkerFields({
+  markers,
+  onChange,
+  activePicker,
+  pickerLocale,
+  onOpenPicker,
+  onClosePicker,
+}: MarkerFieldsProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'];
+  const { t } = useTranslation();
+  const [markerTitle, setMarkerTitle] = useState('');
+  const [markerDate, setMarkerDate] = useState(new Date());
+
+  /**
+   * Add the marker being entered (ignored without a name)
+   */
+  const handleAddMarker = () => {
+    const title = markerTitle.trim();
+    if (!title) return;
+
+    onChange(sortTimelineMarkers([...markers, createTimelineMarker(title, markerDate)]));
+    setMarkerTitle('');
+    onClosePicker();
+  };
+
+  /**
+   * Remove a marker
+   */
+  const handleRemoveMarker = (id: string) => {
+    onChange(markers.filter((marker) => marker.id !== id));
+  };
+
+  const formatMarkerDate = (date: Date) =>
+    date.toLocaleDateString(getCurrentLocale(), { year: 'numeric', month: 'short', day: 'numeric' });
+
+  return (
+    <View style={formStyles.fieldContainer}>
+      <Text
+        style={[
+          formStyles.fieldLabel,
+          {
+            color: colors.textSecondary,
+          },
+        ]}
+      >
+        {t('timelineForm.markersLabel')}
+      </Text>
+
+      {/* Existing markers */}
+      {markers.map((marker) => (
+        <View
+          key={marker.id}
+          style={[
+            formStyles.listRow,
+            {
+              borderColor: colors.separator,
+            },
+          ]}
+        >
+          <Text
+            numberOfLines={1}
+            style={[
+              formStyles.listRowTitle,
+              {
+                color: colors.textPrimary,
+              },
+            ]}
+          >
+            {marker.title}
+          </Text>
+          <Text
+            style={[
+              formStyles.listRowDetail,
+              {
+                color: colors.textSecondary,
+              },
+            ]}
+          >
+            {formatMarkerDate(parseCalendarDate(marker.date))}
+          </Text>
+          <TouchableOpacity
+            onPress={() => handleRemoveMarker(marker.id)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            activeOpacity={0.6}
+          >
+            <X size={16} color={colors.textSecondary} weight="bold" />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      {/* New marker */}
+      <View style={formStyles.addRow}>
+        <TextInput
+          style={[
+            formStyles.textInput,
+            formStyles.addRowInput,
+            {
+              backgroundColor: colors.secondaryBackground,
+              color: colors.textPrimary,
+              borderColor: colors.separator,
+            },
+          ]}
+          value={markerTitle}
+          onChangeText={setMarkerTitle}
+          placeholder={t('timelineForm.markerPlaceholder')}
+          placeholderTextColor={colors.textTertiary}
+          maxLength={40}
+          returnKeyType="done"
+          onSubmitEditing={handleAddMarker}
+        />
+        <TouchableOpacity
+          style={[
+            formStyles.dateButton,
+            formStyles.addRowDateButton,
+            {
+              backgroundColor: colors.secondaryBackground,
+              borderColor: colors.separator,
+            },
+          ]}
+          onPress={() => onOpenPicker('marker')}
+        >
+          <Text
+            style={[
+              formStyles.listRowDetail,
+              {
+                color: colors.textPrimary,
+              },
+            ]}
+          >
+            {formatMarkerDate(markerDate)}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            formStyles.addButton,
+            {
+              backgroundColor: markerTitle.trim() ? colors.accent : colors.tertiaryBackground,
+            },
+          ]}
+          onPress={handleAddMarker}
+          disabled={!markerTitle.trim()}
+          activeOpacity={0.7}
+        >
+          <Plus size={16} color="#FFFFFF" weight="bold" />
+        </TouchableOpacity>
+      </View>
+
+      {activePicker === 'marker' && (
+        <DateTimePicker
+          key={`marker-${pickerLocale}`}
+          value={markerDate}
+          mode="date"
+          display="spinner"
+          locale={pickerLocale}
+          onChange={(_, date) => {
+            if (Platform.OS !== 'ios') {
+              onClosePicker();
+            }
+            if (date) setMarkerDate(date);
+          }}
+        />
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * Mood Picker Component
+ * Row of the five mood ratings (1 = awful ... 5 = great)
+ *
+ * Design:
+ * - Circles colored along the mood gradient
+ * - Selected rating is filled, the others outlined
+ * - Tapping the selected rating clears it
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { MoodRating } from '@/types/timeline';
+import { MoodColors, FontSizes, FontWeights, Spacing } from '@/constants/theme';
+
+const MOOD_RATINGS: MoodRating[] = [1, 2, 3, 4, 5];
+
+export interface MoodPickerProps {
+  /**
+   * Current rating (null or undefined when the day is unrated)
+   */
+  value?: MoodRating | null;
+
+  /**
+   * Called with the new rating, or null when it is cleared
+   */
+  onChange: (rating: MoodRating | null) => void;
+}
+
+/**
+ * Mood Picker Component
+ */
+export function MoodPicker({ value, onChange }: MoodPickerProps) {
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.container}>
+      {MOOD_RATINGS.map((rating) => {
+        const isSelected = value === rating;
+        const color = MoodColors[rating];
+
+        return (
+          <TouchableOpacity
+            key={rating}
+            style={[
+              styles.option,
+              {
+                borderColor: color,
+                backgroundColor: isSelected ? color : 'transparent',
+              },
+            ]}
+            onPress={() => onChange(isSelected ? null : rating)}
+            accessibilityLabel={t(`mood.rating${rating}`)}
+            accessibilityState={{ selected: isSelected }}
+            activeOpacity={0.6}
+          >
+            <Text
+              style={[
+                styles.optionText,
+                {
+                  color: isSelected ? '#000000' : color,
+                },
+              ]}
+            >
+              {rating}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: Spacing.sm,
+  },
+  option: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    borderWidth: 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  optionText: {
+    fontSize: FontSizes.body,
+    fontWeight: FontWeights.semibold,
+  },
+});
@@ -0,0 +1,141 @@
+/**
+ * Personal Date Fields Component
+ * Occasion section of yearly custom timelines
+ *
+ * Features:
+ * - Birthday or anniversary (or no occasion)
+ * - Optional year, used to show the age or the number of years
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, TextInput, useColorScheme } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { PersonalDateKind } from '@/types/timeline';
+import { Colors, FontWeights } from '@/constants/theme';
+import { formStyles } from './timeline-form-shared';
+
+export interface PersonalDateFieldsProps {
+  /**
+   * Selected occasion ('none' for a plain yearly timeline)
+   */
+  kind: 'none' | PersonalDateKind;
+
+  /**
+   * Year input (birth year or the year of the first anniversary)
+   */
+  yearText: string;
+
+  /**
+   * Called when an occasion is picked
+   */
+  onKindChange: (kind: 'none' | PersonalDateKind) => void;
+
+  /**
+   * Called when the year input changes
+   */
+  onYearTextChange: (text: string) => void;
+}
+
+/**
+ * Personal Date Fields Component
+ */
+export function PersonalDateFields({
+  kind,
+  yearText,
+  onKindChange,
+  onYearTextChange,
+}: PersonalDateFieldsProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'];
+  const { t } = useTranslation();
+
+  const occasionOptions: { value: 'none' | PersonalDateKind; label: string }[] = [
+    { value: 'none', label: t('timelineForm.occasionNone') },
+    { value: 'birthday', label: t('timelineForm.occasionBirthday') },
+    { value: 'anniversary', label: t('timelineForm.occasionAnniversary') },
+  ];
+
+  return (
+    <View style={formStyles.fieldContainer}>
+      <Text
+        style={[
+          formStyles.fieldLabel,
+          {
+            color: colors.textSecondary,
+          },
+        ]}
+      >
+        {t('timelineForm.occasionLabel')}
+      </Text>
+      <View style={formStyles.typePickerContainer}>
+        {occasionOptions.map((option) => {
+          const isSelected = kind === option.value;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                formStyles.optionButton,
+                {
+                  backgroundColor: isSelected
+                    ? colors.tertiaryBackground
+                    : 'transparent',
+                  borderColor: colors.separator,
+                },
+              ]}
+              onPress={() => onKindChange(option.value)}
+              activeOpacity={0.6}
+            >
+              <Text
+                style={[
+                  formStyles.optionButtonText,
+                  {
+                    color: isSelected
+                      ? colors.textPrimary
+                      : colors.textSecondary,
+                    fontWeight: isSelected
+                      ? FontWeights.medium
+                      : FontWeights.regular,
+                  },
+                ]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {kind !== 'none' && (
+        <>
+          <TextInput
+            style={[
+              formStyles.textInput,
+              formStyles.stackedInput,
+              {
+                backgroundColor: colors.secondaryBackground,
+                color: colors.textPrimary,
+                borderColor: colors.separator,
+              },
+            ]}
+            value={yearText}
+            onChangeText={onYearTextChange}
+            placeholder={t('timelineForm.occasionYearPlaceholder')}
+            placeholderTextColor={colors.textTertiary}
+            keyboardType="number-pad"
+            maxLength={4}
+          />
+          <Text
+            style={[
+              formStyles.fieldHint,
+              {
+                color: colors.textTertiary,
+              },
+            ]}
+          >
+            {t(kind === 'birthday' ? 'timelineForm.occasionBirthYearHint' : 'timelineForm.occasionYearHint')}
+          </Text>
+        </>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,277 @@
+/**
+ * Phase Fields Component
+ * Phases section of the timeline form drawer
+ *
+ * Features:
+ * - Named, colored date ranges inside the timeline, sorted by start date
+ * - New phases take the next palette color; tap a color dot to change it
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, useColorScheme, Platform } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { useTranslation } from 'react-i18next';
+import { X, Plus } from 'phosphor-react-native';
+import { TimelinePhase } from '@/types/timeline';
+import { createTimelinePhase, sortTimelinePhases } from '@/services/timeline-calculator';
+import { getCurrentLocale } from '@/services/i18n-service';
+import { parseCalendarDate } from '@/utils/date-helpers';
+import { Colors, PhaseColors } from '@/constants/theme';
+import { FormDatePickerProps, formStyles } from './timeline-form-shared';
+
+export interface PhaseFieldsProps extends FormDatePickerProps {
+  /**
+   * Phases being edited
+   */
+  phases: TimelinePhase[];
+
+  /**
+   * Called with the updated phases
+   */
+  onChange: (phases: TimelinePhase[]) => void;
+}
+
+/**
+ * Phase Fields Component
+ */
+export function PhaseFields({
+  phases,
+  onChange,
+  activePicker,
+  pickerLocale,
+  onOpenPicker,
+  onClosePicker,
+}: PhaseFieldsProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'];
+  const { t } = useTranslation();
+  const [phaseTitle, setPhaseTitle] = useState('');
+  const [phaseStartDate, setPhaseStartDate] = useState(new Date());
+  const [phaseEndDate, setPhaseEndDate] = useState(new Date());
+
+  /**
+   * Add the phase being entered (ignored without a name)
+   * Colors are assigned in order from the phase palette
+   */
+  const handleAddPhase = () => {
+    const title = phaseTitle.trim();
+    if (!title) return;
+
+    const color = PhaseColors[phases.length % PhaseColors.length];
+    onChange(sortTimelinePhases([...phases, createTimelinePhase(title, phaseStartDate, phaseEndDate, color)]));
+    setPhaseTitle('');
+    onClosePicker();
+  };
+
+  /**
+   * Cycle a phase to the next palette color
+   */
+  const handleCyclePhaseColor = (id: string) => {
+    onChange(
+      phases.map((phase) => {
+        if (phase.id !== id) return phase;
+        const next = (PhaseColors.indexOf(phase.color) + 1) % PhaseColors.length;
+        return { ...phase, color: PhaseColors[next] };
+      })
+    );
+  };
+
+  /**
+   * Remove a phase
+   */
+  const handleRemovePhase = (id: string) => {
+    onChange(phases.filter((phase) => phase.id !== id));
+  };
+
+  const formatPhaseDate = (date: Date) =>
+    date.toLocaleDateString(getCurrentLocale(), { month: 'short', day: 'numeric' });
+
+  return (
+    <View style={formStyles.fieldContainer}>
+      <Text
+        style={[
+          formStyles.fieldLabel,
+          {
+            color: colors.textSecondary,
+          },
+        ]}
+      >
+        {t('timelineForm.phasesLabel')}
+      </Text>
+
+      {/* Existing phases */}
+      {phases.map((phase) => (
+        <View
+          key={phase.id}
+          style={[
+            formStyles.listRow,
+            {
+              borderColor: colors.separator,
+            },
+          ]}
+        >
+          <TouchableOpacity
+            onPress={() => handleCyclePhaseColor(phase.id)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            activeOpacity={0.6}
+          >
+            <View style={[styles.phaseColorDot, { backgroundColor: phase.color }]} />
+          </TouchableOpacity>
+          <Text
+            numberOfLines={1}
+            style={[
+              formStyles.listRowTitle,
+              {
+                color: colors.textPrimary,
+              },
+            ]}
+          >
+            {phase.title}
+          </Text>
+          <Text
+            style={[
+              formStyles.listRowDetail,
+              {
+                color: colors.textSecondary,
+              },
+            ]}
+          >
+            {`${formatPhaseDate(parseCalendarDate(phase.startDate))} – ${formatPhaseDate(parseCalendarDate(phase.endDate))}`}
+          </Text>
+          <TouchableOpacity
+            onPress={() => handleRemovePhase(phase.id)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            activeOpacity={0.6}
+          >
+            <X size={16} color={colors.textSecondary} weight="bold" />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      {/* New phase */}
+      <TextInput
+        style={[
+          formStyles.textInput,
+          formStyles.stackedInput,
+          {
+            backgroundColor: colors.secondaryBackground,
+            color: colors.textPrimary,
+            borderColor: colors.separator,
+          },
+        ]}
+        value={phaseTitle}
+        onChangeText={setPhaseTitle}
+        placeholder={t('timelineForm.phasePlaceholder')}
+        placeholderTextColor={colors.textTertiary}
+        maxLength={40}
+      />
+      <View style={formStyles.addRow}>
+        <TouchableOpacity
+          style={[
+            formStyles.dateButton,
+            formStyles.addRowDateButton,
+            formStyles.addRowInput,
+            {
+              backgroundColor: colors.secondaryBackground,
+              borderColor: colors.separator,
+            },
+          ]}
+          onPress={() => onOpenPicker('phaseStart')}
+        >
+          <Text
+            style={[
+              formStyles.listRowDetail,
+              {
+                color: colors.textPrimary,
+              },
+            ]}
+          >
+            {formatPhaseDate(phaseStartDate)}
+          </Text>
+        </TouchableOpacity>
+        <Text style={[formStyles.listRowDetail, { color: colors.textSecondary }]}>–</Text>
+        <TouchableOpacity
+          style={[
+            formStyles.dateButton,
+            formStyles.addRowDateButton,
+            formStyles.addRowInput,
+            {
+              backgroundColor: colors.secondaryBackground,
+              borderColor: colors.separator,
+            },
+          ]}
+          onPress={() => onOpenPicker('phaseEnd')}
+        >
+          <Text
+            style={[
+              formStyles.listRowDetail,
+              {
+                color: colors.textPrimary,
+              },
+            ]}
+          >
+            {formatPhaseDate(phaseEndDate)}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            formStyles.addButton,
+            {
+              backgroundColor: phaseTitle.trim() ? colors.accent : colors.tertiaryBackground,
+            },
+          ]}
+          onPress={handleAddPhase}
+          disabled={!phaseTitle.trim()}
+          activeOpacity={0.7}
+        >
+          <Plus size={16} color="#FFFFFF" weight="bold" />
+        </TouchableOpacity>
+      </View>
+
+      {activePicker === 'phaseStart' && (
+        <DateTimePicker
+          key={`phaseStart-${pickerLocale}`}
+          value={phaseStartDate}
+          mode="date"
+          display="spinner"
+          locale={pickerLocale}
+          onChange={(_, date) => {
+            if (Platform.OS !== 'ios') {
+              onClosePicker();
+            }
+            if (date) {
+              setPhaseStartDate(date);
+              // Keep the range valid
+              if (date > phaseEndDate) setPhaseEndDate(date);
+            }
+          }}
+        />
+      )}
+
+      {activePicker === 'phaseEnd' && (
+        <DateTimePicker
+          key={`phaseEnd-${pickerLocale}`}
+          value={phaseEndDate}
+          mode="date"
+          display="spinner"
+          locale={pickerLocale}
+          minimumDate={phaseStartDate}
+          onChange={(_, date) => {
+            if (Platform.OS !== 'ios') {
+              onClosePicker();
+            }
+            if (date) setPhaseEndDate(date);
+          }}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  phaseColorDot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+  },
+});
@@ -0,0 +1,177 @@
+/**
+ * Recurrence Fields Component
+ * Repeat section of the custom timeline form
+ *
+ * Features:
+ * - Never, every N days, every N weeks or yearly
+ * - Interval input for day and week rules
+ * - Hint with the rule and the end of the current period
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, TextInput, useColorScheme } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { RecurrenceRule, CalendarDate } from '@/types/timeline';
+import { getCurrentLocale } from '@/services/i18n-service';
+import { parseCalendarDate } from '@/utils/date-helpers';
+import { Colors, FontWeights } from '@/constants/theme';
+import { formStyles } from './timeline-form-shared';
+
+/**
+ * Repeat option picked in the form ('none' for one-off timelines)
+ */
+export type RecurrenceFrequency = 'none' | RecurrenceRule['frequency'];
+
+export interface RecurrenceFieldsProps {
+  /**
+   * Selected repeat option
+   */
+  frequency: RecurrenceFrequency;
+
+  /**
+   * Interval input of day and week rules
+   */
+  intervalText: string;
+
+  /**
+   * Rule built from the fields (undefined when not repeating)
+   */
+  recurrence?: RecurrenceRule;
+
+  /**
+   * Start date of the timeline (yearly rules repeat on its month and day)
+   */
+  startDate: Date;
+
+  /**
+   * Last day of the current period
+   */
+  periodEnd?: CalendarDate;
+
+  /**
+   * Called when a repeat option is picked
+   */
+  onFrequencyChange: (frequency: RecurrenceFrequency) => void;
+
+  /**
+   * Called when the interval input changes
+   */
+  onIntervalTextChange: (text: string) => void;
+}
+
+/**
+ * Recurrence Fields Component
+ */
+export function RecurrenceFields({
+  frequency,
+  intervalText,
+  recurrence,
+  startDate,
+  periodEnd,
+  onFrequencyChange,
+  onIntervalTextChange,
+}: RecurrenceFieldsProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'];
+  const { t } = useTranslation();
+
+  const recurrenceOptions: { value: RecurrenceFrequency; label: string }[] = [
+    { value: 'none', label: t('timelineForm.repeatNever') },
+    { value: 'days', label: t('timelineForm.repeatDays') },
+    { value: 'weeks', label: t('timelineForm.repeatWeeks') },
+    { value: 'yearly', label: t('timelineForm.repeatYearly') },
+  ];
+  const formatFormDate = (date: Date) =>
+    date.toLocaleDateString(getCurrentLocale(), { year: 'numeric', month: 'long', day: 'numeric' });
+
+  return (
+    <View style={formStyles.fieldContainer}>
+      <Text
+        style={[
+          formStyles.fieldLabel,
+          {
+            color: colors.textSecondary,
+          },
+        ]}
+      >
+        {t('timelineForm.repeatLabel')}
+      </Text>
+      <View style={formStyles.typePickerContainer}>
+        {recurrenceOptions.map((option) => {
+          const isSelected = frequency === option.value;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                formStyles.optionButton,
+                {
+                  backgroundColor: isSelected
+                    ? colors.tertiaryBackground
+                    : 'transparent',
+                  borderColor: colors.separator,
+                },
+              ]}
+              onPress={() => onFrequencyChange(option.value)}
+              activeOpacity={0.6}
+            >
+              <Text
+                style={[
+                  formStyles.optionButtonText,
+                  {
+                    color: isSelected
+                      ? colors.textPrimary
+                      : colors.textSecondary,
+                    fontWeight: isSelected
+                      ? FontWeights.medium
+                      : FontWeights.regular,
+                  },
+                ]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {(frequency === 'days' || frequency === 'weeks') && (
+        <TextInput
+          style={[
+            formStyles.textInput,
+            formStyles.stackedInput,
+            {
+              backgroundColor: colors.secondaryBackground,
+              color: colors.textPrimary,
+              borderColor: colors.separator,
+            },
+          ]}
+          value={intervalText}
+          onChangeText={onIntervalTextChange}
+          keyboardType="number-pad"
+          maxLength={3}
+        />
+      )}
+
+      {recurrence && periodEnd && (
+        <Text
+          style={[
+            formStyles.fieldHint,
+            {
+              color: colors.textTertiary,
+            },
+          ]}
+        >
+          {recurrence.frequency === 'yearly'
+            ? t('timelineForm.repeatYearlyOn', {
+                date: startDate.toLocaleDateString(getCurrentLocale(), { month: 'long', day: 'numeric' }),
+              })
+            : t(recurrence.frequency === 'weeks' ? 'timelineForm.repeatEveryWeeks' : 'timelineForm.repeatEveryDays', {
+                count: recurrence.interval,
+              })}
+          {' · '}
+          {t('timelineForm.periodEnds', { date: formatFormDate(parseCalendarDate(periodEnd)) })}
+        </Text>
+      )}
+    </View>
+  );
+}
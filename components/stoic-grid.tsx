@@ -1,11 +1,21 @@
 /**
  * Stoic Grid Component
- * The core visualization: 1 dot = 1 day
+ * The core visualization: 1 dot = 1 unit of time (a day by default)
  *
  * Principles:
  * - Grid must ALWAYS fit its container without scrolling
  * - Dot count never changes (no grouping, no abstraction)
  * - Filled dots = past, Empty dots = future
+ * - Marker dots (named days) are ringed in the palette's marker color
+ * - Public holidays are ringed in the palette's holiday color
+ * - Phase dots use the phase's color (faded while still ahead)
+ * - Days with journal notes get a small center dot; long-press opens the note
+ * - Habit timelines fill only marked days: done, missed or skipped colors
+ * - In mood display mode, filled dots follow the mood gradient of their rating
+ * - Goal timelines fill one dot per unit of logged progress (no day overlays)
+ * - Days skipped by counting rules (weekends, holidays, pauses) are hollow or hidden
+ * - Timelines that haven't started yet are drawn as a dimmed outline
+ * - Grids too large for their container show the page with the current dot
  * - Minimal, calm, no excessive animation
  */
 
@@ -19,10 +29,39 @@ import Animated, {
   withSequence,
   Easing,
 } from 'react-native-reanimated';
-import { Timeline, GridColorTheme } from '@/types/timeline';
-import { calculateGridLayout, generateDotPositions, calculateGridCenterOffset } from '@/utils/grid-layout';
-import { getTimelineDaysPassed, getTimelineTotalDays } from '@/services/timeline-calculator';
-import { GridColorPalettes } from '@/constants/theme';
+import {
+  Timeline,
+  TimelineMarker,
+  TimelinePhase,
+  GridColorTheme,
+  CalendarDate,
+  DayNote,
+  HabitStatus,
+  MoodRating,
+  ExcludedDayDisplay,
+  HolidayCountry,
+} from '@/types/timeline';
+import {
+  calculateGridLayout,
+  generateDotPositions,
+  calculateGridCenterOffset,
+  getGridPageStart,
+} from '@/utils/grid-layout';
+import {
+  getTimelineDotsPassed,
+  getTimelineTotalDots,
+  getTimelineMarkersByDot,
+  getTimelinePhasesByDot,
+  getNoteDotIndices,
+  getMoodRatingsByDot,
+  getHabitStatusesByDot,
+  getExcludedDotIndices,
+  getHolidaysByDot,
+  isHabitTimeline,
+  isGoalTimeline,
+  isUpcomingTimeline,
+} from '@/services/timeline-calculator';
+import { GridColorPalettes, MoodColors } from '@/constants/theme';
 import { getGridColorTheme } from '@/services/storage';
 
 export interface StoicGridProps {
@@ -49,6 +88,28 @@ export interface StoicGridProps {
    * Receives the dot index (0-based) and the tap position
    */
   onDotPress?: (dotIndex: number, position: { x: number; y: number }) => void;
+
+  /**
+   * Called when a dot is long-pressed (e.g. to open its day note)
+   * Receives the dot index (0-based)
+   */
+  onDotLongPress?: (dotIndex: number) => void;
+
+  /**
+   * Day notes keyed by calendar date; dots with notes get an indicator
+   */
+  notes?: Record<CalendarDate, DayNote>;
+
+  /**
+   * Mood ratings keyed by calendar date (mood display mode)
+   * Filled dots with a rating use its mood color instead of the palette color
+   */
+  moods?: Record<CalendarDate, MoodRating>;
+
+  /**
+   * Country whose public holidays are ringed (null or undefined shows none)
+   */
+  holidayCountry?: HolidayCountry | null;
 }
 
 /**
@@ -66,8 +127,13 @@ interface AnimatedDotProps {
   isFilled: boolean;
   fillColor: string;
   emptyColor: string;
+  markerColor?: string;
+  excluded?: ExcludedDayDisplay;
+  outlined: boolean;
+  hasNote: boolean;
   animate: boolean;
   onPress?: (index: number, position: { x: number; y: number }) => void;
+  onLongPress?: (index: number) => void;
 }
 
 const AnimatedDot = React.memo(function AnimatedDot({
@@ -81,8 +147,13 @@ const AnimatedDot = React.memo(function AnimatedDot({
   isFilled,
   fillColor,
   emptyColor,
+  markerColor,
+  excluded,
+  outlined,
+  hasNote,
   animate,
   onPress,
+  onLongPress,
 }: AnimatedDotProps) {
   // Shared value for animation progress (0 to 1)
   const progress = useSharedValue(animate ? 0 : 1);
@@ -119,8 +190,41 @@ const AnimatedDot = React.memo(function AnimatedDot({
     };
   });
 
-  // If no onPress handler, render non-interactive dot
-  if (!onPress) {
+  // Hidden excluded days keep their slot so the remaining dates line up
+  if (excluded === 'hidden') {
+    return null;
+  }
+
+  // Hollow excluded days (and every day of an upcoming timeline) are drawn as an outline in their fill color
+  const outlineStyle =
+    excluded === 'hollow' || outlined
+      ? {
+          backgroundColor: 'transparent',
+          borderWidth: Math.max(1, Math.round(dotSize * 0.15)),
+          borderColor: isFilled ? fillColor : emptyColor,
+        }
+      : null;
+
+  // Marker dots keep their fill and add a ring
+  const markerStyle = markerColor
+    ? { borderWidth: Math.max(1, Math.round(dotSize * 0.2)), borderColor: markerColor }
+    : null;
+
+  // Days with notes get a small center dot in the opposite color
+  const noteSize = Math.max(2, Math.round(dotSize * 0.36));
+  const noteIndicator = hasNote ? (
+    <View
+      style={{
+        width: noteSize,
+        height: noteSize,
+        borderRadius: noteSize / 2,
+        backgroundColor: isFilled ? emptyColor : fillColor,
+      }}
+    />
+  ) : null;
+
+  // If no press handlers, render non-interactive dot
+  if (!onPress && !onLongPress) {
     return (
       <Animated.View
         style={[
@@ -132,10 +236,16 @@ const AnimatedDot = React.memo(function AnimatedDot({
             height: dotSize,
             borderRadius: dotSize / 2,
             backgroundColor: isFilled ? fillColor : emptyColor,
+            alignItems: 'center',
+            justifyContent: 'center',
           },
+          outlineStyle,
+          markerStyle,
           animate && animatedStyle,
         ]}
-      />
+      >
+        {noteIndicator}
+      </Animated.View>
     );
   }
 
@@ -155,6 +265,7 @@ const AnimatedDot = React.memo(function AnimatedDot({
           onPress(index, { x: pageX, y: pageY });
         }
       }}
+      onLongPress={onLongPress ? () => onLongPress(index) : undefined}
       style={{
         position: 'absolute',
         left: offsetX + x,
@@ -170,10 +281,16 @@ const AnimatedDot = React.memo(function AnimatedDot({
             height: dotSize,
             borderRadius: dotSize / 2,
             backgroundColor: isFilled ? fillColor : emptyColor,
+            alignItems: 'center',
+            justifyContent: 'center',
           },
+          outlineStyle,
+          markerStyle,
           animate && animatedStyle,
         ]}
-      />
+      >
+        {noteIndicator}
+      </Animated.View>
     </Pressable>
   );
 });
@@ -181,7 +298,16 @@ const AnimatedDot = React.memo(function AnimatedDot({
 /**
  * Stoic Grid Component
  */
-export function StoicGrid({ timeline, animated = false, mini = false, onDotPress }: StoicGridProps) {
+export function StoicGrid({
+  timeline,
+  animated = false,
+  mini = false,
+  onDotPress,
+  onDotLongPress,
+  notes,
+  moods,
+  holidayCountry,
+}: StoicGridProps) {
   const colorScheme = useColorScheme();
 
   const [containerDimensions, setContainerDimensions] = useState({ width: 0, height: 0 });
@@ -206,8 +332,38 @@ export function StoicGrid({ timeline, animated = false, mini = false, onDotPress
   /**
    * Calculate timeline stats
    */
-  const daysPassed = useMemo(() => getTimelineDaysPassed(timeline), [timeline]);
-  const totalDays = useMemo(() => getTimelineTotalDays(timeline), [timeline]);
+  const dotsPassed = useMemo(() => getTimelineDotsPassed(timeline), [timeline]);
+  const totalDots = useMemo(() => getTimelineTotalDots(timeline), [timeline]);
+
+  // Goal dots count units, not days, so day-based overlays don't apply
+  const isDayGrid = !isGoalTimeline(timeline);
+  const markersByDot = useMemo(
+    () => (isDayGrid ? getTimelineMarkersByDot(timeline) : new Map<number, TimelineMarker[]>()),
+    [timeline, isDayGrid]
+  );
+  const phasesByDot = useMemo(
+    () => (isDayGrid ? getTimelinePhasesByDot(timeline) : new Map<number, TimelinePhase>()),
+    [timeline, isDayGrid]
+  );
+  const moodsByDot = useMemo(
+    () => (moods && isDayGrid ? getMoodRatingsByDot(timeline, moods) : null),
+    [timeline, moods, isDayGrid]
+  );
+  const habitStatusesByDot = useMemo(
+    () => (isHabitTimeline(timeline) ? getHabitStatusesByDot(timeline) : null),
+    [timeline]
+  );
+  const noteDots = useMemo(
+    () => (notes && isDayGrid ? getNoteDotIndices(timeline, notes) : new Set<number>()),
+    [timeline, notes, isDayGrid]
+  );
+  const holidaysByDot = useMemo(
+    () => getHolidaysByDot(timeline, holidayCountry ?? null),
+    [timeline, holidayCountry]
+  );
+  const excludedDots = useMemo(() => getExcludedDotIndices(timeline), [timeline]);
+  const excludedDisplay = timeline.countingRules?.excludedDisplay ?? 'hollow';
+  const isUpcoming = useMemo(() => isUpcomingTimeline(timeline), [timeline]);
 
   /**
    * Handle container layout measurement
@@ -228,19 +384,46 @@ export function StoicGrid({ timeline, animated = false, mini = false, onDotPress
     }
 
     return calculateGridLayout(
-      totalDays,
+      totalDots,
       containerDimensions.width,
       containerDimensions.height
     );
-  }, [totalDays, containerDimensions]);
+  }, [totalDots, containerDimensions]);
+
+  /**
+   * Resolve the visible page (the whole grid unless it is paged)
+   */
+  const pageStart = useMemo(() => {
+    if (!gridLayout) return 0;
+    return getGridPageStart(dotsPassed - 1, gridLayout.pageSize);
+  }, [dotsPassed, gridLayout]);
+
+  const pageDots = gridLayout ? Math.min(gridLayout.pageSize, totalDots - pageStart) : 0;
 
   /**
    * Generate dot positions
    */
   const dotPositions = useMemo(() => {
     if (!gridLayout) return [];
-    return generateDotPositions(totalDays, gridLayout);
-  }, [totalDays, gridLayout]);
+    return generateDotPositions(pageDots, gridLayout);
+  }, [pageDots, gridLayout]);
+
+  /**
+   * Report pressed dots by their index in the whole timeline
+   */
+  const handleDotPress = useCallback(
+    (index: number, position: { x: number; y: number }) => {
+      onDotPress?.(pageStart + index, position);
+    },
+    [onDotPress, pageStart]
+  );
+
+  const handleDotLongPress = useCallback(
+    (index: number) => {
+      onDotLongPress?.(pageStart + index);
+    },
+    [onDotLongPress, pageStart]
+  );
 
   /**
    * Calculate grid centering offset
@@ -265,6 +448,12 @@ export function StoicGrid({ timeline, animated = false, mini = false, onDotPress
     return palette[mode];
   }, [gridColorTheme, colorScheme]);
 
+  const habitColors: Record<HabitStatus, string> = {
+    done: gridColors.habitDone,
+    missed: gridColors.habitMissed,
+    skipped: gridColors.habitSkipped,
+  };
+
   /**
    * Render dots with optional wave animation
    */
@@ -272,30 +461,51 @@ export function StoicGrid({ timeline, animated = false, mini = false, onDotPress
     if (!gridLayout || dotPositions.length === 0) return null;
 
     return dotPositions.map((dot) => {
-      const isFilled = dot.index < daysPassed;
+      const phase = phasesByDot.get(pageStart + dot.index);
+      const habitStatus = habitStatusesByDot?.get(pageStart + dot.index);
+      const isFilled = habitStatusesByDot ? !!habitStatus : pageStart + dot.index < dotsPassed;
+      const mood = moodsByDot?.get(pageStart + dot.index);
+      const fillColor = habitStatus
+        ? habitColors[habitStatus]
+        : mood
+          ? MoodColors[mood]
+          : phase
+            ? phase.color
+            : gridColors.dotFilled;
 
       return (
         <AnimatedDot
           key={dot.index}
           index={dot.index}
-          totalDots={totalDays}
+          totalDots={pageDots}
           x={dot.x}
           y={dot.y}
           offsetX={centerOffset.offsetX}
           offsetY={centerOffset.offsetY}
           dotSize={gridLayout.dotSize}
           isFilled={isFilled}
-          fillColor={gridColors.dotFilled}
-          emptyColor={gridColors.dotEmpty}
+          fillColor={fillColor}
+          emptyColor={phase ? `${phase.color}40` : gridColors.dotEmpty}
+          markerColor={
+            markersByDot.has(pageStart + dot.index)
+              ? gridColors.dotMarker
+              : holidaysByDot.has(pageStart + dot.index)
+                ? gridColors.dotHoliday
+                : undefined
+          }
+          excluded={excludedDots.has(pageStart + dot.index) ? excludedDisplay : undefined}
+          outlined={isUpcoming}
+          hasNote={noteDots.has(pageStart + dot.index)}
           animate={animated}
-          onPress={onDotPress}
+          onPress={onDotPress ? handleDotPress : undefined}
+          onLongPress={onDotLongPress ? handleDotLongPress : undefined}
         />
       );
     });
   };
 
   return (
-    <View style={styles.container} onLayout={handleLayout}>
+    <View style={[styles.container, isUpcoming && styles.upcoming]} onLayout={handleLayout}>
       {renderDots()}
     </View>
   );
@@ -308,4 +518,7 @@ const styles = StyleSheet.create({
     height: '100%',
     position: 'relative',
   },
+  upcoming: {
+    opacity: 0.5,
+  },
 });
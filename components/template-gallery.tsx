@@ -0,0 +1,192 @@
+/**
+ * Template Gallery Component
+ * First step of the timeline form in create mode
+ *
+ * Features:
+ * - Blank timeline (skips to the regular form)
+ * - Built-in templates (pregnancy, 75 Hard, semester, marathon, Lent, Ramadan...)
+ * - The user's saved templates (loaded on open), removable with the X button
+ * - Feast templates show the dates they will cover
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, useColorScheme } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { X, CaretRight } from 'phosphor-react-native';
+import { TimelineTemplate } from '@/types/timeline';
+import { BUILT_IN_TEMPLATES } from '@/constants/templates';
+import { getTemplateTitle, getTemplateDates } from '@/services/timeline-calculator';
+import { getCurrentLocale } from '@/services/i18n-service';
+import { loadTimelineTemplates, deleteTimelineTemplate } from '@/services/storage';
+import { parseCalendarDate } from '@/utils/date-helpers';
+import {
+  Colors,
+  FontSizes,
+  FontWeights,
+  Spacing,
+  BorderRadius,
+} from '@/constants/theme';
+
+export interface TemplateGalleryProps {
+  /**
+   * Called with the picked template, or null for a blank timeline
+   */
+  onSelect: (template: TimelineTemplate | null) => void;
+}
+
+/**
+ * Template Gallery Component
+ */
+export function TemplateGallery({ onSelect }: TemplateGalleryProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'];
+  const { t } = useTranslation();
+  const [userTemplates, setUserTemplates] = useState<TimelineTemplate[]>([]);
+
+  /**
+   * Load the user's templates
+   */
+  useEffect(() => {
+    loadTimelineTemplates()
+      .then(setUserTemplates)
+      .catch((error) => console.error('Error loading templates:', error));
+  }, []);
+
+  /**
+   * Remove a user template from the gallery
+   */
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteTimelineTemplate(id);
+      setUserTemplates((current) => current.filter((template) => template.id !== id));
+    } catch (error) {
+      console.error('Error deleting template:', error);
+    }
+  };
+
+  /**
+   * Duration, or the actual dates for templates anchored to a feast
+   */
+  const getTemplateDetail = (template: TimelineTemplate): string => {
+    if (!template.anchor || template.anchor === 'today') {
+      return t('templates.durationDays', { count: template.durationDays });
+    }
+
+    const { startDate, endDate } = getTemplateDates(template);
+    const format = (date: string) =>
+      parseCalendarDate(date).toLocaleDateString(getCurrentLocale(), {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+      });
+    return `${format(startDate)} – ${format(endDate)}`;
+  };
+
+  const renderTemplate = (template: TimelineTemplate, removable: boolean) => (
+    <TouchableOpacity
+      key={template.id}
+      style={[
+        styles.card,
+        {
+          backgroundColor: colors.cardBackground,
+        },
+      ]}
+      onPress={() => onSelect(template)}
+      activeOpacity={0.7}
+    >
+      <View style={styles.cardText}>
+        <Text numberOfLines={1} style={[styles.cardTitle, { color: colors.textPrimary }]}>
+          {getTemplateTitle(template)}
+        </Text>
+        <Text style={[styles.cardDetail, { color: colors.textSecondary }]}>
+          {getTemplateDetail(template)}
+        </Text>
+      </View>
+      {removable ? (
+        <TouchableOpacity
+          onPress={() => handleDelete(template.id)}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          accessibilityLabel={t('templates.deleteTemplate')}
+          activeOpacity={0.6}
+        >
+          <X size={16} color={colors.textSecondary} weight="bold" />
+        </TouchableOpacity>
+      ) : (
+        <CaretRight size={16} color={colors.textTertiary} weight="bold" />
+      )}
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      {/* Blank */}
+      <TouchableOpacity
+        style={[
+          styles.card,
+          styles.blankCard,
+          {
+            borderColor: colors.separator,
+          },
+        ]}
+        onPress={() => onSelect(null)}
+        activeOpacity={0.7}
+      >
+        <Text style={[styles.cardTitle, { color: colors.textPrimary }]}>
+          {t('templates.blankTimeline')}
+        </Text>
+        <CaretRight size={16} color={colors.textTertiary} weight="bold" />
+      </TouchableOpacity>
+
+      {/* User templates */}
+      {userTemplates.length > 0 && (
+        <>
+          <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+            {t('templates.myTemplates')}
+          </Text>
+          {userTemplates.map((template) => renderTemplate(template, true))}
+        </>
+      )}
+
+      {/* Built-in templates */}
+      <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+        {t('templates.gallery')}
+      </Text>
+      {BUILT_IN_TEMPLATES.map((template) => renderTemplate(template, false))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: Spacing.md,
+    borderRadius: BorderRadius.large,
+    marginBottom: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  blankCard: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderStyle: 'dashed',
+  },
+  cardText: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: FontSizes.body,
+    fontWeight: FontWeights.medium,
+  },
+  cardDetail: {
+    fontSize: FontSizes.subheadline,
+    fontWeight: FontWeights.regular,
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: FontSizes.footnote,
+    fontWeight: FontWeights.regular,
+    marginTop: Spacing.md,
+    marginBottom: Spacing.sm,
+    marginLeft: Spacing.xs,
+  },
+});
@@ -6,6 +6,8 @@
  * - Serif title
  * - Type · percentage
  * - X of Y days
+ * - Current phase (if the timeline has phases)
+ * - "Upcoming" badge with the days to go (timelines that haven't started)
  * - Mini grid on the right
  * - Active timeline has blue left border
  * - Swipeable to delete
@@ -21,12 +23,16 @@ import {
   Pressable,
 } from 'react-native';
 import { useTranslation } from 'react-i18next';
-import { Timeline } from '@/types/timeline';
+import { Timeline, TimelineType } from '@/types/timeline';
 import { StoicGrid } from './stoic-grid';
 import {
   getTimelineDescription,
   getTimelineProgress,
   getTimelineDisplayTitle,
+  getCurrentTimelinePhase,
+  getTimelineCurrentPhase,
+  isUpcomingTimeline,
+  getDaysUntilStart,
 } from '@/services/timeline-calculator';
 import {
   Colors,
@@ -83,7 +89,12 @@ export function TimelineCard({
   const displayTitle = getTimelineDisplayTitle(timeline);
   const description = getTimelineDescription(timeline);
   const progress = getTimelineProgress(timeline);
-  const isCustomTimeline = timeline.type === 'custom';
+  const currentPhase = getCurrentTimelinePhase(timeline);
+  const isUpcoming = isUpcomingTimeline(timeline);
+  const isEditable =
+    timeline.type === TimelineType.CUSTOM ||
+    timeline.type === TimelineType.LIFE ||
+    timeline.type === TimelineType.DAY;
 
   return (
     <View style={styles.cardWrapper}>
@@ -135,8 +146,33 @@ export function TimelineCard({
             {progress}
           </Text>
 
-          {/* Edit Button - Only for Custom Timelines */}
-          {isCustomTimeline && onEdit && (
+          {isUpcoming && (
+            <View style={[styles.badge, { borderColor: colors.accent }]}>
+              <Text style={[styles.badgeText, { color: colors.accent }]}>
+                {t('timeline.upcomingBadge', { count: getDaysUntilStart(timeline) })}
+              </Text>
+            </View>
+          )}
+
+          {currentPhase && (
+            <View style={styles.phaseRow}>
+              <View style={[styles.phaseDot, { backgroundColor: currentPhase.color }]} />
+              <Text
+                numberOfLines={1}
+                style={[
+                  styles.phase,
+                  {
+                    color: colors.textSecondary,
+                  },
+                ]}
+              >
+                {getTimelineCurrentPhase(timeline)}
+              </Text>
+            </View>
+          )}
+
+          {/* Edit Button - Only for Custom and Life Timelines */}
+          {isEditable && onEdit && (
             <TouchableOpacity
               style={styles.editButton}
               onPress={(e) => {
@@ -224,6 +260,34 @@ const styles = StyleSheet.create({
     fontSize: FontSizes.subheadline,
     fontWeight: FontWeights.regular,
   },
+  badge: {
+    alignSelf: 'flex-start',
+    marginTop: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.small,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  badgeText: {
+    fontSize: FontSizes.footnote,
+    fontWeight: FontWeights.medium,
+  },
+  phaseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 2,
+  },
+  phaseDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: Spacing.xs,
+  },
+  phase: {
+    flexShrink: 1,
+    fontSize: FontSizes.subheadline,
+    fontWeight: FontWeights.regular,
+  },
   miniGridContainer: {
     width: 60,
     height: 60,
@@ -0,0 +1,391 @@
+/**
+ * Timeline Completion Modal Component
+ * Centered dialog shown on the first app open after a CUSTOM timeline's end date
+ *
+ * Features:
+ * - Summary of the finished timeline (dates, days, habit or goal results)
+ * - Extend by N days (previews the new end date)
+ * - Renew for another period of the same length, starting today
+ * - Archive (the final period moves to the archive of finished periods)
+ * - "Not now" keeps the timeline as completed without asking again
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  useColorScheme,
+  Platform,
+  KeyboardAvoidingView,
+  TouchableWithoutFeedback,
+} from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { useTranslation } from 'react-i18next';
+import { Timeline, CalendarDate } from '@/types/timeline';
+import {
+  getTimelineProgress,
+  getTimelineTotalDays,
+  isHabitTimeline,
+  calculateHabitStats,
+  isGoalTimeline,
+  calculateGoalStats,
+  extendTimeline,
+  markCompletionReviewed,
+} from '@/services/timeline-calculator';
+import { saveTimeline, archiveTimeline, renewCompletedTimeline } from '@/services/storage';
+import {
+  syncActiveTimelineToWidget,
+  syncAllTimelinesToWidget,
+} from '@/services/widget-data-service';
+import { getCurrentLocale } from '@/services/i18n-service';
+import { addCalendarDays, parseCalendarDate } from '@/utils/date-helpers';
+import {
+  Colors,
+  Fonts,
+  FontSizes,
+  FontWeights,
+  Spacing,
+  BorderRadius,
+} from '@/constants/theme';
+
+const DEFAULT_EXTEND_DAYS = 7;
+const MAX_EXTEND_DAYS = 3650;
+
+export interface TimelineCompletionModalProps {
+  /**
+   * Completed timeline to review (null hides the dialog)
+   */
+  timeline: Timeline | null;
+
+  /**
+   * Called once the user's choice is saved, so the parent can reload its timelines
+   */
+  onDone: () => void;
+}
+
+/**
+ * Timeline Completion Modal Component
+ */
+export function TimelineCompletionModal({ timeline, onDone }: TimelineCompletionModalProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'];
+  const { t } = useTranslation();
+
+  const [extendText, setExtendText] = useState(String(DEFAULT_EXTEND_DAYS));
+  const [saving, setSaving] = useState(false);
+
+  // Reset the extension when another timeline is opened
+  useEffect(() => {
+    if (timeline) {
+      setExtendText(String(DEFAULT_EXTEND_DAYS));
+      setSaving(false);
+    }
+  }, [timeline]);
+
+  if (!timeline || !timeline.endDate) return null;
+
+  const formatDate = (date: CalendarDate) =>
+    parseCalendarDate(date).toLocaleDateString(getCurrentLocale(), {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+
+  const totalDays = getTimelineTotalDays(timeline);
+  const extendDays = parseInt(extendText, 10);
+  const canExtend = extendDays >= 1 && extendDays <= MAX_EXTEND_DAYS;
+
+  /**
+   * Habit or goal results, when the timeline tracked more than time
+   */
+  const getResultSummary = (): string | null => {
+    if (isHabitTimeline(timeline)) {
+      const habitStats = calculateHabitStats(timeline);
+      return t('home.habitSummary', {
+        percent: habitStats.completionRate,
+        count: habitStats.longestStreak,
+      });
+    }
+
+    if (isGoalTimeline(timeline)) {
+      const goalStats = calculateGoalStats(timeline);
+      return goalStats.progress >= goalStats.target
+        ? t('timeline.goalReached')
+        : t('timeline.goalProgress', {
+            progress: goalStats.progress,
+            target: goalStats.target,
+            unit: goalStats.unitLabel,
+          });
+    }
+
+    return null;
+  };
+
+  /**
+   * Save the user's choice, refresh the widgets and hand control back to the parent
+   */
+  const applyChoice = async (choice: () => Promise<unknown>) => {
+    if (saving) return;
+
+    try {
+      setSaving(true);
+      await choice();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      console.error('Error completing timeline:', error);
+    }
+
+    try {
+      await syncAllTimelinesToWidget();
+      await syncActiveTimelineToWidget();
+    } catch (error) {
+      console.warn('Widget sync failed (non-fatal):', error);
+    }
+
+    onDone();
+  };
+
+  const handleExtend = () => {
+    if (!canExtend) return;
+    applyChoice(() => saveTimeline(extendTimeline(timeline, extendDays)));
+  };
+
+  const handleRenew = () => applyChoice(() => renewCompletedTimeline(timeline));
+
+  const handleArchive = () => applyChoice(() => archiveTimeline(timeline));
+
+  const handleDismiss = () => applyChoice(() => saveTimeline(markCompletionReviewed(timeline)));
+
+  const resultSummary = getResultSummary();
+
+  return (
+    <Modal visible animationType="fade" transparent onRequestClose={handleDismiss}>
+      {/* Dimmed Background */}
+      <TouchableWithoutFeedback onPress={handleDismiss}>
+        <View style={styles.overlay} />
+      </TouchableWithoutFeedback>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+        pointerEvents="box-none"
+      >
+        <View
+          style={[
+            styles.dialog,
+            {
+              backgroundColor: colors.secondaryBackground,
+            },
+          ]}
+        >
+          {/* Summary */}
+          <View style={[styles.summary, { borderBottomColor: colors.separator }]}>
+            <Text style={[styles.heading, { color: colors.textSecondary }]}>
+              {t('completion.title')}
+            </Text>
+            <Text style={[styles.title, { color: colors.textPrimary }]} numberOfLines={2}>
+              {timeline.title}
+            </Text>
+            <Text style={[styles.detail, { color: colors.textSecondary }]}>
+              {`${formatDate(timeline.startDate)} – ${formatDate(timeline.endDate)}`}
+            </Text>
+            <Text style={[styles.detail, { color: colors.textSecondary }]}>
+              {getTimelineProgress(timeline)}
+            </Text>
+            {resultSummary && (
+              <Text style={[styles.detail, { color: colors.textPrimary }]}>{resultSummary}</Text>
+            )}
+          </View>
+
+          {/* Choices */}
+          <View style={styles.content}>
+            {/* Extend */}
+            <View style={styles.extendRow}>
+              <Text style={[styles.label, { color: colors.textPrimary }]}>
+                {t('completion.extendBy')}
+              </Text>
+              <TextInput
+                style={[
+                  styles.daysInput,
+                  {
+                    backgroundColor: colors.background,
+                    color: colors.textPrimary,
+                    borderColor: colors.separator,
+                  },
+                ]}
+                value={extendText}
+                onChangeText={(text) => setExtendText(text.replace(/[^0-9]/g, ''))}
+                keyboardType="number-pad"
+                maxLength={4}
+                selectTextOnFocus
+              />
+              <Text style={[styles.label, { color: colors.textPrimary }]}>
+                {t('completion.days', { count: canExtend ? extendDays : 0 })}
+              </Text>
+            </View>
+            {canExtend && (
+              <Text style={[styles.hint, { color: colors.textSecondary }]}>
+                {t('completion.newEndDate', {
+                  date: formatDate(addCalendarDays(timeline.endDate, extendDays)),
+                })}
+              </Text>
+            )}
+            <TouchableOpacity
+              style={[
+                styles.button,
+                { backgroundColor: colors.accent },
+                (!canExtend || saving) && styles.buttonDisabled,
+              ]}
+              onPress={handleExtend}
+              disabled={!canExtend || saving}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.primaryButtonText}>{t('completion.extend')}</Text>
+            </TouchableOpacity>
+
+            {/* Renew */}
+            <TouchableOpacity
+              style={[styles.button, styles.outlineButton, { borderColor: colors.separator }]}
+              onPress={handleRenew}
+              disabled={saving}
+              activeOpacity={0.6}
+            >
+              <Text style={[styles.buttonText, { color: colors.textPrimary }]}>
+                {t('completion.renew', { count: totalDays })}
+              </Text>
+            </TouchableOpacity>
+
+            {/* Archive */}
+            <TouchableOpacity
+              style={[styles.button, styles.outlineButton, { borderColor: colors.separator }]}
+              onPress={handleArchive}
+              disabled={saving}
+              activeOpacity={0.6}
+            >
+              <Text style={[styles.buttonText, { color: colors.textPrimary }]}>
+                {t('completion.archive')}
+              </Text>
+            </TouchableOpacity>
+
+            {/* Not now */}
+            <TouchableOpacity
+              style={styles.dismissButton}
+              onPress={handleDismiss}
+              disabled={saving}
+              activeOpacity={0.6}
+            >
+              <Text style={[styles.dismissText, { color: colors.textSecondary }]}>
+                {t('completion.notNow')}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  keyboardView: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dialog: {
+    width: '88%',
+    borderRadius: BorderRadius.xlarge,
+    overflow: 'hidden',
+  },
+  summary: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+    paddingBottom: Spacing.md,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  heading: {
+    fontSize: FontSizes.title3,
+    fontWeight: FontWeights.regular,
+    fontFamily: Fonts.handwriting,
+    letterSpacing: 0.5,
+    marginBottom: Spacing.xs,
+  },
+  title: {
+    fontSize: FontSizes.title2,
+    fontWeight: FontWeights.medium,
+    fontFamily: Fonts.serif,
+    marginBottom: Spacing.sm,
+  },
+  detail: {
+    fontSize: FontSizes.subheadline,
+    fontWeight: FontWeights.regular,
+    marginTop: 2,
+  },
+  content: {
+    padding: Spacing.lg,
+  },
+  extendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  label: {
+    fontSize: FontSizes.body,
+    fontWeight: FontWeights.regular,
+  },
+  daysInput: {
+    minWidth: 56,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.small,
+    borderWidth: StyleSheet.hairlineWidth,
+    fontSize: FontSizes.body,
+    textAlign: 'center',
+  },
+  hint: {
+    fontSize: FontSizes.footnote,
+    fontWeight: FontWeights.regular,
+    marginTop: Spacing.xs,
+    marginLeft: Spacing.xs,
+  },
+  button: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: Spacing.sm + 2,
+    borderRadius: BorderRadius.medium,
+    marginTop: Spacing.md,
+    minHeight: 44,
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  outlineButton: {
+    borderWidth: StyleSheet.hairlineWidth,
+    marginTop: Spacing.sm,
+  },
+  primaryButtonText: {
+    fontSize: FontSizes.body,
+    fontWeight: FontWeights.medium,
+    color: '#FFFFFF',
+  },
+  buttonText: {
+    fontSize: FontSizes.body,
+    fontWeight: FontWeights.regular,
+  },
+  dismissButton: {
+    alignSelf: 'center',
+    marginTop: Spacing.md,
+    paddingVertical: Spacing.xs,
+  },
+  dismissText: {
+    fontSize: FontSizes.subheadline,
+    fontWeight: FontWeights.medium,
+  },
+});
@@ -7,6 +7,7 @@
  * Design:
  * - Simple list of timeline names (no previews or cards)
  * - Active timeline indicated by medium font weight + subtle checkmark
+ * - Completed timelines grouped under their own label
  * - "+ Add Timeline" button at bottom for direct creation
  * - Fade + subtle scale animation (0.98 → 1.0)
  * - No blur, no shadows - flat design
@@ -29,7 +30,7 @@ import * as Haptics from 'expo-haptics';
 import { useTranslation } from 'react-i18next';
 import { Pencil, Trash, X, Faders } from 'phosphor-react-native';
 import { Timeline, TimelineType } from '@/types/timeline';
-import { getTimelineDisplayTitle } from '@/services/timeline-calculator';
+import { getTimelineDisplayTitle, isCompletedTimeline } from '@/services/timeline-calculator';
 import {
   Colors,
   FontSizes,
@@ -145,6 +146,61 @@ export function TimelineDropdown({
 
   const styles = createStyles(colors);
 
+  // Completed timelines are grouped below the current ones
+  const currentTimelines = timelines.filter((timeline) => !isCompletedTimeline(timeline));
+  const completedTimelines = timelines.filter((timeline) => isCompletedTimeline(timeline));
+
+  const renderItem = (timeline: Timeline, index: number) => {
+    const isActive = timeline.id === activeTimelineId;
+    return (
+      <TouchableOpacity
+        key={timeline.id}
+        style={[
+          styles.item,
+          index === 0 && styles.itemFirst,
+        ]}
+        onPress={() => onSelect(timeline)}
+        onPressIn={(e) => {
+          const timer = setTimeout(() => {
+            // Trigger haptic feedback
+            if (Platform.OS === 'ios') {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            }
+
+            // Show context menu
+            setContextMenu({
+              visible: true,
+              timeline: timeline,
+              position: { x: 0, y: 0 },
+            });
+          }, 500); // 500ms long press
+
+          setPressTimer(timer);
+        }}
+        onPressOut={() => {
+          if (pressTimer) {
+            clearTimeout(pressTimer);
+            setPressTimer(null);
+          }
+        }}
+        activeOpacity={0.6}
+      >
+        <Text
+          style={[
+            styles.itemText,
+            isActive && styles.itemTextActive,
+          ]}
+          numberOfLines={1}
+        >
+          {getTimelineDisplayTitle(timeline)}
+        </Text>
+        {isActive && (
+          <Text style={styles.checkmark}>✓</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
   // Calculate dropdown position
   const dropdownStyle = {
     position: 'absolute' as const,
@@ -168,56 +224,17 @@ export function TimelineDropdown({
               contentContainerStyle={styles.scrollContent}
               showsVerticalScrollIndicator={false}
             >
-              {timelines.map((timeline, index) => {
-                const isActive = timeline.id === activeTimelineId;
-                return (
-                  <TouchableOpacity
-                    key={timeline.id}
-                    style={[
-                      styles.item,
-                      index === 0 && styles.itemFirst,
-                    ]}
-                    onPress={() => onSelect(timeline)}
-                    onPressIn={(e) => {
-                      const timer = setTimeout(() => {
-                        // Trigger haptic feedback
-                        if (Platform.OS === 'ios') {
-                          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-                        }
+              {currentTimelines.map(renderItem)}
 
-                        // Show context menu
-                        setContextMenu({
-                          visible: true,
-                          timeline: timeline,
-                          position: { x: 0, y: 0 },
-                        });
-                      }, 500); // 500ms long press
-
-                      setPressTimer(timer);
-                    }}
-                    onPressOut={() => {
-                      if (pressTimer) {
-                        clearTimeout(pressTimer);
-                        setPressTimer(null);
-                      }
-                    }}
-                    activeOpacity={0.6}
-                  >
-                    <Text
-                      style={[
-                        styles.itemText,
-                        isActive && styles.itemTextActive,
-                      ]}
-                      numberOfLines={1}
-                    >
-                      {getTimelineDisplayTitle(timeline)}
-                    </Text>
-                    {isActive && (
-                      <Text style={styles.checkmark}>✓</Text>
-                    )}
-                  </TouchableOpacity>
-                );
-              })}
+              {/* Completed timelines */}
+              {completedTimelines.length > 0 && (
+                <>
+                  <Text style={styles.sectionLabel}>{t('dropdown.completed')}</Text>
+                  {completedTimelines.map((timeline, index) =>
+                    renderItem(timeline, currentTimelines.length + index)
+                  )}
+                </>
+              )}
 
               <View style={styles.separator} />
 
@@ -260,8 +277,10 @@ export function TimelineDropdown({
                   },
                 ]}
               >
-                {/* Edit - only for custom timelines */}
-                {contextMenu.timeline.type === TimelineType.CUSTOM && (
+                {/* Edit - only for custom, life and day (hours) timelines */}
+                {(contextMenu.timeline.type === TimelineType.CUSTOM ||
+                  contextMenu.timeline.type === TimelineType.LIFE ||
+                  contextMenu.timeline.type === TimelineType.DAY) && (
                   <TouchableOpacity
                     style={styles.contextItem}
                     onPress={() => {
@@ -352,6 +371,13 @@ function createStyles(colors: typeof Colors.dark) {
       color: colors.textSecondary,
       marginLeft: Spacing.sm,
     },
+    sectionLabel: {
+      fontSize: FontSizes.footnote,
+      fontWeight: FontWeights.regular,
+      color: colors.textTertiary,
+      paddingTop: Spacing.sm,
+      paddingHorizontal: 20,
+    },
     separator: {
       height: StyleSheet.hairlineWidth,
       backgroundColor: colors.separator,
@@ -3,8 +3,13 @@
  * Bottom-anchored drawer for creating and editing timelines
  *
  * Features:
- * - Timeline type picker (Year, Month, Week, Custom)
+ * - Timeline type picker (Year, Month, Week, Custom, Life)
  * - Progressive disclosure of date inputs
+ * - Named markers (e.g. "Launch") and colored phases for any timeline
+ * - Time, habit or goal tracking (habit timelines always count days,
+ *   goal timelines count units of a numeric target such as "52 books")
+ * - Counting rules for day timelines: working days only, public holidays,
+ *   excluded dates and pauses
  * - Bottom-anchored with fixed height
  * - Dimmed background with tap-to-dismiss
  */
@@ -17,6 +22,8 @@ import {
   StyleSheet,
   TouchableOpacity,
   TextInput,
+  ScrollView,
+  Dimensions,
   useColorScheme,
   Platform,
   Animated,
@@ -27,10 +34,61 @@ import {
 } from 'react-native';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { useTranslation } from 'react-i18next';
-import { Timeline, TimelineType } from '@/types/timeline';
-import { createTimeline } from '@/services/timeline-calculator';
-import { loadTimelines } from '@/services/storage';
+import { Check } from 'phosphor-react-native';
+import {
+  Timeline,
+  TimelineType,
+  TimelineUnit,
+  RecurrenceRule,
+  PersonalDate,
+  PersonalDateKind,
+  DayHours,
+  PinnedTime,
+  TimelineMarker,
+  TimelinePhase,
+  TrackingMode,
+  CountingRules,
+  TimelineTemplate,
+} from '@/types/timeline';
+import {
+  createTimeline,
+  calculateTimelineFromType,
+  getTimelineTypeLabel,
+  sortTimelineMarkers,
+  sortTimelinePhases,
+  hasCountingRules,
+  resolveTimelineTemplate,
+  createTimelineTemplate,
+} from '@/services/timeline-calculator';
+import {
+  loadTimelines,
+  getWeekStartDay,
+  getCalendarSystem,
+  saveTimelineTemplate,
+} from '@/services/storage';
+import { TemplateGallery } from './template-gallery';
+import { RecurrenceFields, RecurrenceFrequency } from './recurrence-fields';
+import { PersonalDateFields } from './personal-date-fields';
+import { CountingRulesFields } from './counting-rules-fields';
+import { MarkerFields } from './marker-fields';
+import { PhaseFields } from './phase-fields';
+import { DatePickerTarget, FormDatePickerProps, formStyles } from './timeline-form-shared';
 import { getCurrentLocale } from '@/services/i18n-service';
+import { getLifeExpectancy, LifeExpectancySex } from '@/constants/life-expectancy';
+import {
+  getTotalUnits,
+  getTotalDays,
+  parseCalendarDate,
+  getTodayCalendarDate,
+  getDayStartHour,
+} from '@/utils/date-helpers';
+import { MAX_GRID_DOTS } from '@/utils/grid-layout';
+import { parseQuickAdd } from '@/utils/quick-add-parser';
+import {
+  getTimeZones,
+  getTimeZoneMoment,
+  parseTimeOfDay,
+} from '@/utils/time-zones';
 import {
   Colors,
   Fonts,
@@ -40,6 +98,18 @@ import {
   BorderRadius,
 } from '@/constants/theme';
 
+const { height: SCREEN_HEIGHT } = Dimensions.get('window');
+
+/**
+ * Time of day suggested for pinned timelines
+ */
+const DEFAULT_PINNED_TIME = '09:00';
+
+/**
+ * Time zones listed under the search field at most
+ */
+const MAX_TIME_ZONE_MATCHES = 5;
+
 export interface TimelineFormDrawerProps {
   /**
    * Whether the drawer is visible
@@ -62,6 +132,15 @@ export interface TimelineFormDrawerProps {
   onSave: (timeline: Timeline) => void;
 }
 
+/**
+ * Default end date for a new custom range (three months from today)
+ */
+function getDefaultEndDate(): Date {
+  const date = new Date();
+  date.setMonth(date.getMonth() + 3);
+  return date;
+}
+
 /**
  * Timeline Form Drawer Component
  */
@@ -102,7 +181,29 @@ export function TimelineFormDrawer({
   const [customTitle, setCustomTitle] = useState('');
   const [customStartDate, setCustomStartDate] = useState(new Date());
   const [customEndDate, setCustomEndDate] = useState(new Date());
-  const [activePicker, setActivePicker] = useState<'start' | 'end' | null>(null);
+  const [isCountUp, setIsCountUp] = useState(false);
+  const [trackingMode, setTrackingMode] = useState<TrackingMode>('time');
+  const [goalTargetText, setGoalTargetText] = useState('');
+  const [goalUnitLabel, setGoalUnitLabel] = useState('');
+  const [customUnit, setCustomUnit] = useState<TimelineUnit>('day');
+  const [activePicker, setActivePicker] = useState<DatePickerTarget | null>(null);
+  const [birthDate, setBirthDate] = useState(new Date());
+  const [lifeSex, setLifeSex] = useState<LifeExpectancySex>('unspecified');
+  const [lifeExpectancyText, setLifeExpectancyText] = useState('');
+  const [recurrenceFrequency, setRecurrenceFrequency] = useState<RecurrenceFrequency>('none');
+  const [recurrenceIntervalText, setRecurrenceIntervalText] = useState('1');
+  const [personalKind, setPersonalKind] = useState<'none' | PersonalDateKind>('none');
+  const [personalYearText, setPersonalYearText] = useState('');
+  const [dayStartHourText, setDayStartHourText] = useState('0');
+  const [dayEndHourText, setDayEndHourText] = useState('24');
+  const [pinnedTimeZone, setPinnedTimeZone] = useState('');
+  const [timeZoneQuery, setTimeZoneQuery] = useState('');
+  const [pinnedTimeText, setPinnedTimeText] = useState(DEFAULT_PINNED_TIME);
+  const [markers, setMarkers] = useState<TimelineMarker[]>([]);
+  const [phases, setPhases] = useState<TimelinePhase[]>([]);
+  const [countingRules, setCountingRules] = useState<CountingRules>({});
+  const [quickAddText, setQuickAddText] = useState('');
+  const [showTemplates, setShowTemplates] = useState(false);
 
   // Reset form and animate when drawer opens
   useEffect(() => {
@@ -112,18 +213,65 @@ export function TimelineFormDrawer({
         // Edit mode
         setSelectedType(timeline.type);
         setCustomTitle(timeline.title);
-        setCustomStartDate(new Date(timeline.startDate));
-        setCustomEndDate(new Date(timeline.endDate));
+        setCustomStartDate(parseCalendarDate(timeline.startDate));
+        setCustomEndDate(timeline.endDate ? parseCalendarDate(timeline.endDate) : getDefaultEndDate());
+        setIsCountUp(!timeline.endDate);
+        setTrackingMode(timeline.trackingMode ?? 'time');
+        setGoalTargetText(timeline.goal ? String(timeline.goal.target) : '');
+        setGoalUnitLabel(timeline.goal?.unitLabel ?? '');
+        setCustomUnit(timeline.unit ?? 'day');
+        setBirthDate(parseCalendarDate(timeline.startDate));
+        setLifeSex('unspecified');
+        setLifeExpectancyText(String(timeline.lifeExpectancy ?? getLifeExpectancy()));
+        setRecurrenceFrequency(timeline.recurrence?.frequency ?? 'none');
+        setRecurrenceIntervalText(
+          timeline.recurrence && timeline.recurrence.frequency !== 'yearly'
+            ? String(timeline.recurrence.interval)
+            : '1'
+        );
+        setPersonalKind(timeline.personalDate?.kind ?? 'none');
+        setPersonalYearText(timeline.personalDate?.year ? String(timeline.personalDate.year) : '');
+        setDayStartHourText(String(timeline.dayHours?.startHour ?? getDayStartHour()));
+        setDayEndHourText(String(timeline.dayHours?.endHour ?? getDayStartHour() + 24));
+        setPinnedTimeZone(timeline.pinnedTime?.timeZone ?? '');
+        setTimeZoneQuery(timeline.pinnedTime?.timeZone ?? '');
+        setPinnedTimeText(timeline.pinnedTime?.time ?? DEFAULT_PINNED_TIME);
+        setMarkers(timeline.markers ?? []);
+        setPhases(timeline.phases ?? []);
+        setCountingRules(timeline.countingRules ?? {});
       } else {
         // Create mode - reset to defaults
         setSelectedType(TimelineType.YEAR);
         setCustomTitle('');
         setCustomStartDate(new Date());
-        const futureDate = new Date();
-        futureDate.setMonth(futureDate.getMonth() + 3);
-        setCustomEndDate(futureDate);
+        setCustomEndDate(getDefaultEndDate());
+        setIsCountUp(false);
+        setTrackingMode('time');
+        setGoalTargetText('');
+        setGoalUnitLabel('');
+        setCustomUnit('day');
+        const defaultBirthDate = new Date();
+        defaultBirthDate.setFullYear(defaultBirthDate.getFullYear() - 30);
+        setBirthDate(defaultBirthDate);
+        setLifeSex('unspecified');
+        setLifeExpectancyText(String(getLifeExpectancy()));
+        setRecurrenceFrequency('none');
+        setRecurrenceIntervalText('1');
+        setPersonalKind('none');
+        setPersonalYearText('');
+        setDayStartHourText(String(getDayStartHour()));
+        setDayEndHourText(String(getDayStartHour() + 24));
+        setPinnedTimeZone('');
+        setTimeZoneQuery('');
+        setPinnedTimeText(DEFAULT_PINNED_TIME);
+        setMarkers([]);
+        setPhases([]);
+        setCountingRules({});
       }
 
+      setQuickAddText('');
+      setShowTemplates(!timeline);
+
       setActivePicker(null);
 
       // Animate in
@@ -154,6 +302,152 @@ export function TimelineFormDrawer({
     }
   }, [visible, timeline, fadeAnim, scaleAnim]);
 
+  /**
+   * Parse the lifespan input, falling back to the regional default
+   */
+  const getLifeExpectancyValue = (): number => {
+    const parsed = parseInt(lifeExpectancyText, 10);
+    if (isNaN(parsed) || parsed <= 0 || parsed > 150) {
+      return getLifeExpectancy(undefined, lifeSex);
+    }
+    return parsed;
+  };
+
+  /**
+   * Handle sex selection - refresh the lifespan default from the table
+   */
+  const handleLifeSexChange = (sex: LifeExpectancySex) => {
+    setLifeSex(sex);
+    setLifeExpectancyText(String(getLifeExpectancy(undefined, sex)));
+  };
+
+  /**
+   * Build the recurrence rule from the form (undefined when not repeating)
+   * Yearly rules are anchored at the start date's month and day
+   * Count-up timelines never repeat
+   */
+  const getRecurrenceRule = (): RecurrenceRule | undefined => {
+    if (isCountUp || recurrenceFrequency === 'none') return undefined;
+
+    if (recurrenceFrequency === 'yearly') {
+      return {
+        frequency: 'yearly',
+        month: customStartDate.getMonth(),
+        day: customStartDate.getDate(),
+      };
+    }
+
+    const interval = parseInt(recurrenceIntervalText, 10);
+    return {
+      frequency: recurrenceFrequency,
+      interval: isNaN(interval) || interval < 1 ? 1 : interval,
+    };
+  };
+
+  /**
+   * Build the birthday/anniversary details (yearly custom timelines only)
+   * Years in the future are ignored
+   */
+  const getPersonalDate = (): PersonalDate | undefined => {
+    const isCustom = timeline ? timeline.type === TimelineType.CUSTOM : selectedType === TimelineType.CUSTOM;
+    if (!isCustom || personalKind === 'none' || getRecurrenceRule()?.frequency !== 'yearly') {
+      return undefined;
+    }
+
+    const year = parseInt(personalYearText, 10);
+    if (isNaN(year) || year < 1 || year > new Date().getFullYear()) {
+      return { kind: personalKind };
+    }
+    return { kind: personalKind, year };
+  };
+
+  /**
+   * Build the hours of a DAY timeline (undefined for the whole day)
+   * The end hour is exclusive, after the start hour and at most a day later
+   * (e.g. 4-28 runs from 04:00 to 04:00 the next morning)
+   */
+  const getDayHours = (): DayHours | undefined => {
+    const dayStartHour = getDayStartHour();
+    const parsedStart = parseInt(dayStartHourText, 10);
+    const parsedEnd = parseInt(dayEndHourText, 10);
+    const startHour = isNaN(parsedStart) ? dayStartHour : Math.min(23, Math.max(0, parsedStart));
+    const endHour = isNaN(parsedEnd)
+      ? startHour + 24
+      : Math.min(startHour + 24, Math.max(startHour + 1, parsedEnd));
+
+    if (startHour === dayStartHour && endHour === dayStartHour + 24) return undefined;
+    return { startHour, endHour };
+  };
+
+  /**
+   * Build the time zone and time of day a custom timeline ends at
+   * Only time-tracked timelines with an end date and day, week or month dots can be pinned
+   */
+  const getPinnedTime = (): PinnedTime | undefined => {
+    const isCustom = timeline ? timeline.type === TimelineType.CUSTOM : selectedType === TimelineType.CUSTOM;
+    if (!isCustom || !pinnedTimeZone || isCountUp || trackingMode !== 'time' || customUnit === 'hour') {
+      return undefined;
+    }
+
+    const time = parseTimeOfDay(pinnedTimeText);
+    if (!time) return undefined;
+
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return { timeZone: pinnedTimeZone, time: `${pad(time.hours)}:${pad(time.minutes)}` };
+  };
+
+  /**
+   * Resolve the dot unit of a custom timeline
+   * Count-up, habit and goal timelines always count days (stored as no unit)
+   */
+  const getCustomUnit = (): TimelineUnit | undefined =>
+    isCountUp || trackingMode !== 'time' ? undefined : customUnit;
+
+  /**
+   * Whether counting rules can apply to the timeline being edited
+   * Only day-based, time-tracked timelines with an end date count working days
+   * (pinned timelines count calendar days in their time zone)
+   */
+  const canUseCountingRules = (): boolean => {
+    if (selectedType === TimelineType.LIFE || selectedType === TimelineType.DAY || trackingMode !== 'time') {
+      return false;
+    }
+    if (getPinnedTime()) {
+      return false;
+    }
+    return selectedType !== TimelineType.CUSTOM || (!isCountUp && customUnit === 'day');
+  };
+
+  /**
+   * Build the counting rules from the form (undefined when nothing is excluded)
+   */
+  const getCountingRules = (): CountingRules | undefined => {
+    const { excludeWeekends, holidayCountry, excludedRanges = [], pauses = [], excludedDisplay } = countingRules;
+    if (!excludeWeekends && !holidayCountry && excludedRanges.length === 0 && pauses.length === 0) {
+      return undefined;
+    }
+
+    return {
+      excludeWeekends: excludeWeekends || undefined,
+      holidayCountry,
+      excludedRanges: excludedRanges.length > 0 ? excludedRanges : undefined,
+      pauses: pauses.length > 0 ? pauses : undefined,
+      excludedDisplay: excludedDisplay ?? 'hollow',
+    };
+  };
+
+  /**
+   * Resolve the custom date range (recurring timelines derive their end date,
+   * count-up timelines have none)
+   */
+  const getCustomConfig = () =>
+    calculateTimelineFromType(TimelineType.CUSTOM, {
+      startDate: customStartDate,
+      endDate: customEndDate,
+      recurrence: getRecurrenceRule(),
+      openEnded: isCountUp,
+    });
+
   /**
    * Handle save
    */
@@ -161,31 +455,81 @@ export function TimelineFormDrawer({
     try {
       let newTimeline: Timeline;
 
-      if (timeline) {
+      // Goal targets become dots, so they must be whole and renderable
+      const isGoal = trackingMode === 'goal' && selectedType !== TimelineType.LIFE && selectedType !== TimelineType.DAY;
+      const goalTarget = parseInt(goalTargetText, 10);
+      if (isGoal && (isNaN(goalTarget) || goalTarget <= 0 || goalTarget > MAX_GRID_DOTS)) {
+        Alert.alert(t('timelineForm.invalidGoal'), t('timelineForm.invalidGoalMessage', { max: MAX_GRID_DOTS }));
+        return;
+      }
+
+      // Keep custom grids renderable (e.g. hourly dots over several years)
+      // Count-up grids page once they outgrow the container, so they are not limited
+      const isCustomRange = timeline ? timeline.type === TimelineType.CUSTOM : selectedType === TimelineType.CUSTOM;
+      if (isCustomRange) {
+        const config = getCustomConfig();
+        if (config.endDate && getTotalUnits(config.startDate, config.endDate, getCustomUnit() ?? 'day') > MAX_GRID_DOTS) {
+          Alert.alert(t('timelineForm.tooManyDots'), t('timelineForm.tooManyDotsMessage', { max: MAX_GRID_DOTS }));
+          return;
+        }
+      }
+
+      if (timeline && timeline.type === TimelineType.LIFE) {
+        // Edit mode (life) - recompute dates from birthdate and lifespan
+        const config = calculateTimelineFromType(TimelineType.LIFE, {
+          birthDate,
+          lifeExpectancy: getLifeExpectancyValue(),
+        });
+        newTimeline = {
+          ...timeline,
+          startDate: config.startDate,
+          endDate: config.endDate,
+          lifeExpectancy: config.lifeExpectancy,
+        };
+      } else if (timeline && timeline.type === TimelineType.DAY) {
+        // Edit mode (day) - only the hours change
+        newTimeline = {
+          ...timeline,
+          dayHours: getDayHours(),
+        };
+      } else if (timeline) {
         // Edit mode - preserve timeline ID and isActive status
+        const config = getCustomConfig();
         newTimeline = {
           ...timeline,
           title: customTitle || timeline.title,
-          startDate: customStartDate.toISOString(),
-          endDate: customEndDate.toISOString(),
+          startDate: config.startDate,
+          endDate: config.endDate,
+          unit: getCustomUnit(),
+          recurrence: getRecurrenceRule(),
+          // A new end date brings the completion flow back once it passes
+          completionReviewedAt:
+            config.endDate === timeline.endDate ? timeline.completionReviewedAt : undefined,
         };
       } else {
         // Duplicate check for non-custom types
         if (selectedType !== TimelineType.CUSTOM) {
           const existingTimelines = await loadTimelines();
+          const calendarSystem = await getCalendarSystem();
           const duplicate = existingTimelines.find((t) => {
             if (t.type !== selectedType) return false;
-            if (selectedType === TimelineType.WEEK) return true;
-            // Compare year for YEAR, year+month for MONTH
-            const tStart = new Date(t.startDate);
-            const newStart = selectedType === TimelineType.YEAR
-              ? new Date(new Date().getFullYear(), 0, 1)
-              : new Date(new Date().getFullYear(), new Date().getMonth(), 1);
+            if (
+              selectedType === TimelineType.DAY ||
+              selectedType === TimelineType.WEEK ||
+              selectedType === TimelineType.LIFE
+            ) {
+              return true;
+            }
+            // Compare the current period for YEAR, HALF_YEAR, QUARTER and MONTH
+            const tStart = parseCalendarDate(t.startDate);
+            const newStart = parseCalendarDate(calculateTimelineFromType(selectedType, { calendarSystem }).startDate);
             return tStart.getFullYear() === newStart.getFullYear()
-              && (selectedType === TimelineType.YEAR || tStart.getMonth() === newStart.getMonth());
+              && tStart.getMonth() === newStart.getMonth();
           });
           if (duplicate) {
-            Alert.alert(t('timelineForm.duplicateTimeline'), t('timelineForm.duplicateMessage', { type: selectedType }));
+            Alert.alert(t('timelineForm.duplicateTimeline'), t('timelineForm.duplicateMessage', {
+              type: getTimelineTypeLabel(selectedType).toLocaleLowerCase(getCurrentLocale()),
+            }));
             return;
           }
         }
@@ -197,26 +541,75 @@ export function TimelineFormDrawer({
             startDate: customStartDate,
             endDate: customEndDate,
             title: customTitle || 'Custom Timeline',
+            unit: getCustomUnit(),
+            recurrence: getRecurrenceRule(),
+            openEnded: isCountUp,
             isActive: true,
           });
         } else if (selectedType === TimelineType.YEAR) {
-          // Year timeline
+          // Year timeline (in the user's calendar system)
           newTimeline = createTimeline(TimelineType.YEAR, {
+            calendarSystem: await getCalendarSystem(),
+            isActive: true,
+          });
+        } else if (selectedType === TimelineType.DAY) {
+          // Today timeline (1 dot = 1 hour)
+          newTimeline = createTimeline(TimelineType.DAY, {
+            dayHours: getDayHours(),
+            isActive: true,
+          });
+        } else if (selectedType === TimelineType.LIFE) {
+          // Life timeline (1 dot = 1 week)
+          newTimeline = createTimeline(TimelineType.LIFE, {
+            birthDate,
+            lifeExpectancy: getLifeExpectancyValue(),
+            isActive: true,
+          });
+        } else if (selectedType === TimelineType.HALF_YEAR) {
+          // Half-year timeline
+          newTimeline = createTimeline(TimelineType.HALF_YEAR, {
+            isActive: true,
+          });
+        } else if (selectedType === TimelineType.QUARTER) {
+          // Quarter timeline
+          newTimeline = createTimeline(TimelineType.QUARTER, {
             isActive: true,
           });
         } else if (selectedType === TimelineType.MONTH) {
-          // Month timeline
+          // Month timeline (in the user's calendar system)
           newTimeline = createTimeline(TimelineType.MONTH, {
+            calendarSystem: await getCalendarSystem(),
             isActive: true,
           });
         } else {
-          // Week timeline
+          // Week timeline (aligned to the user's first day of week)
           newTimeline = createTimeline(TimelineType.WEEK, {
+            weekStartDay: await getWeekStartDay(),
             isActive: true,
           });
         }
       }
 
+      newTimeline = {
+        ...newTimeline,
+        markers: markers.length > 0 ? sortTimelineMarkers(markers) : undefined,
+        phases: phases.length > 0 ? sortTimelinePhases(phases) : undefined,
+        // Life and day timelines count weeks or hours and only track time
+        trackingMode:
+          trackingMode !== 'time' && newTimeline.type !== TimelineType.LIFE && newTimeline.type !== TimelineType.DAY
+            ? trackingMode
+            : undefined,
+        goal: isGoal ? { target: goalTarget, unitLabel: goalUnitLabel.trim() } : undefined,
+        countingRules: canUseCountingRules() ? getCountingRules() : undefined,
+        personalDate: getPersonalDate(),
+        pinnedTime: getPinnedTime(),
+      };
+
+      // Drop rules that can't apply to the saved timeline
+      if (!hasCountingRules(newTimeline)) {
+        newTimeline = { ...newTimeline, countingRules: undefined };
+      }
+
       onSave(newTimeline);
       onClose();
     } catch (error) {
@@ -224,7 +617,7 @@ export function TimelineFormDrawer({
     }
   };
 
-  const openDatePicker = (picker: 'start' | 'end') => {
+  const openDatePicker = (picker: DatePickerTarget) => {
     Keyboard.dismiss();
 
     requestAnimationFrame(() => {
@@ -232,29 +625,220 @@ export function TimelineFormDrawer({
     });
   };
 
+  /**
+   * Inline date picker state handed to the form sections
+   */
+  const datePickerProps: FormDatePickerProps = {
+    activePicker,
+    pickerLocale,
+    onOpenPicker: openDatePicker,
+    onClosePicker: () => setActivePicker(null),
+  };
+
+  /**
+   * Search time zones (editing the text unpins the timeline until a zone is picked)
+   */
+  const handleTimeZoneQueryChange = (text: string) => {
+    setTimeZoneQuery(text);
+    setPinnedTimeZone('');
+  };
+
+  /**
+   * Pin the timeline to a time zone picked from the search results
+   */
+  const handleSelectTimeZone = (zone: string) => {
+    setTimeZoneQuery(zone);
+    setPinnedTimeZone(zone);
+    Keyboard.dismiss();
+  };
+
+  /**
+   * Fill the form from a gallery template (null starts a blank timeline)
+   */
+  const handleSelectTemplate = (template: TimelineTemplate | null) => {
+    setShowTemplates(false);
+    if (!template) return;
+
+    const config = resolveTimelineTemplate(template);
+    setSelectedType(TimelineType.CUSTOM);
+    setCustomTitle(config.title);
+    setCustomStartDate(parseCalendarDate(config.startDate));
+    setCustomEndDate(parseCalendarDate(config.endDate));
+    setIsCountUp(false);
+    setCustomUnit(config.unit ?? 'day');
+    setRecurrenceFrequency('none');
+    setTrackingMode(config.trackingMode ?? 'time');
+    setGoalTargetText(config.goal ? String(config.goal.target) : '');
+    setGoalUnitLabel(config.goal?.unitLabel ?? '');
+    setMarkers(config.markers);
+    setPhases(config.phases);
+    setCountingRules((current) => ({
+      ...current,
+      excludeWeekends: config.countingRules?.excludeWeekends,
+      holidayCountry: config.countingRules?.holidayCountry,
+      excludedDisplay: config.countingRules?.excludedDisplay,
+    }));
+  };
+
+  /**
+   * Save the timeline being edited (as last saved) as a user template
+   */
+  const handleSaveAsTemplate = async () => {
+    if (!timeline) return;
+
+    try {
+      await saveTimelineTemplate(createTimelineTemplate(timeline));
+      Alert.alert(t('templates.templateSaved'), t('templates.templateSavedMessage', { title: timeline.title }));
+    } catch (error) {
+      console.error('Error saving template:', error);
+    }
+  };
+
+  /**
+   * Fill the custom timeline fields from the parsed quick-add phrase
+   */
+  const handleApplyQuickAdd = () => {
+    const result = parseQuickAdd(quickAddText, getCurrentLocale());
+    if (!result) return;
+
+    setSelectedType(TimelineType.CUSTOM);
+    setCustomTitle(result.title);
+    setCustomStartDate(parseCalendarDate(result.startDate));
+    setCustomEndDate(parseCalendarDate(result.endDate));
+    setIsCountUp(false);
+    setCustomUnit('day');
+    setRecurrenceFrequency('none');
+    setQuickAddText('');
+    Keyboard.dismiss();
+  };
+
+  /**
+   * Render the quick-add field with a live preview of the parsed range
+   * (e.g. "next 100 days", "until Dec 25", "25 Aralık'a kadar")
+   */
+  const renderQuickAddField = () => {
+    const hasText = quickAddText.trim().length > 0;
+    const result = hasText ? parseQuickAdd(quickAddText, getCurrentLocale()) : null;
+    const formatQuickAddDate = (date: string) =>
+      parseCalendarDate(date).toLocaleDateString(getCurrentLocale(), {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+      });
+
+    return (
+      <View style={formStyles.fieldContainer}>
+        <Text
+          style={[
+            formStyles.fieldLabel,
+            {
+              color: colors.textSecondary,
+            },
+          ]}
+        >
+          {t('timelineForm.quickAddLabel')}
+        </Text>
+
+        <View style={styles.quickAddRow}>
+          <TextInput
+            style={[
+              formStyles.textInput,
+              formStyles.addRowInput,
+              {
+                backgroundColor: colors.secondaryBackground,
+                color: colors.textPrimary,
+                borderColor: colors.separator,
+              },
+            ]}
+            value={quickAddText}
+            onChangeText={setQuickAddText}
+            onSubmitEditing={handleApplyQuickAdd}
+            placeholder={t('timelineForm.quickAddPlaceholder')}
+            placeholderTextColor={colors.textTertiary}
+            returnKeyType="done"
+            maxLength={120}
+          />
+          <TouchableOpacity
+            style={[
+              formStyles.addButton,
+              {
+                backgroundColor: result ? colors.accent : colors.tertiaryBackground,
+              },
+            ]}
+            onPress={handleApplyQuickAdd}
+            disabled={!result}
+            activeOpacity={0.7}
+          >
+            <Check size={16} color="#FFFFFF" weight="bold" />
+          </TouchableOpacity>
+        </View>
+
+        {/* Live preview */}
+        {hasText && result && (
+          <View style={styles.quickAddPreview}>
+            <Text
+              numberOfLines={1}
+              style={[
+                formStyles.listRowTitle,
+                {
+                  color: colors.textPrimary,
+                },
+              ]}
+            >
+              {result.title}
+            </Text>
+            <Text
+              style={[
+                formStyles.listRowDetail,
+                {
+                  color: colors.textSecondary,
+                },
+              ]}
+            >
+              {t('timelineForm.quickAddRange', {
+                start: formatQuickAddDate(result.startDate),
+                end: formatQuickAddDate(result.endDate),
+                count: getTotalDays(result.startDate, result.endDate),
+              })}
+            </Text>
+          </View>
+        )}
+        {hasText && !result && (
+          <Text
+            style={[
+              formStyles.fieldHint,
+              {
+                color: colors.textTertiary,
+              },
+            ]}
+          >
+            {t('timelineForm.quickAddNoMatch')}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
   /**
    * Render type picker buttons
    */
   const renderTypePicker = () => {
     const types: TimelineType[] = [
       TimelineType.YEAR,
+      TimelineType.HALF_YEAR,
+      TimelineType.QUARTER,
       TimelineType.MONTH,
       TimelineType.WEEK,
+      TimelineType.DAY,
       TimelineType.CUSTOM,
+      TimelineType.LIFE,
     ];
 
     return (
-      <View style={styles.typePickerContainer}>
+      <View style={formStyles.typePickerContainer}>
         {types.map((type) => {
           const isSelected = selectedType === type;
-          const label =
-            type === TimelineType.YEAR
-              ? t('timeline.year')
-              : type === TimelineType.MONTH
-                ? t('timeline.month')
-                : type === TimelineType.WEEK
-                  ? t('timeline.week')
-                  : t('timeline.custom');
+          const label = getTimelineTypeLabel(type);
 
           return (
             <TouchableOpacity
@@ -272,6 +856,8 @@ export function TimelineFormDrawer({
               activeOpacity={0.6}
             >
               <Text
+                numberOfLines={1}
+                adjustsFontSizeToFit
                 style={[
                   styles.typeButtonText,
                   {
@@ -293,20 +879,197 @@ export function TimelineFormDrawer({
     );
   };
 
+  /**
+   * Render tracking mode picker (time, habit or goal) and goal fields
+   * Hidden for life timelines, which count weeks
+   */
+  const renderTrackingFields = () => {
+    if (selectedType === TimelineType.LIFE || selectedType === TimelineType.DAY) return null;
+
+    const trackingOptions: { value: TrackingMode; label: string }[] = [
+      { value: 'time', label: t('timelineForm.trackTime') },
+      { value: 'habit', label: t('timelineForm.trackHabit') },
+      { value: 'goal', label: t('timelineForm.trackGoal') },
+    ];
+
+    // Goals need an end date to set their pace
+    const handleTrackingModeChange = (mode: TrackingMode) => {
+      setTrackingMode(mode);
+      if (mode === 'goal') {
+        setIsCountUp(false);
+      }
+    };
+
+    return (
+      <View style={formStyles.fieldContainer}>
+        <Text
+          style={[
+            formStyles.fieldLabel,
+            {
+              color: colors.textSecondary,
+            },
+          ]}
+        >
+          {t('timelineForm.trackLabel')}
+        </Text>
+        <View style={formStyles.typePickerContainer}>
+          {trackingOptions.map((option) => {
+            const isSelected = trackingMode === option.value;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[
+                  formStyles.optionButton,
+                  {
+                    backgroundColor: isSelected
+                      ? colors.tertiaryBackground
+                      : 'transparent',
+                    borderColor: colors.separator,
+                  },
+                ]}
+                onPress={() => handleTrackingModeChange(option.value)}
+                activeOpacity={0.6}
+              >
+                <Text
+                  style={[
+                    formStyles.optionButtonText,
+                    {
+                      color: isSelected
+                        ? colors.textPrimary
+                        : colors.textSecondary,
+                      fontWeight: isSelected
+                        ? FontWeights.medium
+                        : FontWeights.regular,
+                    },
+                  ]}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {trackingMode === 'habit' && (
+          <Text
+            style={[
+              formStyles.fieldHint,
+              {
+                color: colors.textTertiary,
+              },
+            ]}
+          >
+            {t('timelineForm.habitHint')}
+          </Text>
+        )}
+
+        {trackingMode === 'goal' && (
+          <>
+            <View style={formStyles.addRow}>
+              <TextInput
+                style={[
+                  formStyles.textInput,
+                  styles.goalTargetInput,
+                  {
+                    backgroundColor: colors.secondaryBackground,
+                    color: colors.textPrimary,
+                    borderColor: colors.separator,
+                  },
+                ]}
+                value={goalTargetText}
+                onChangeText={setGoalTargetText}
+                placeholder={t('timelineForm.goalTargetPlaceholder')}
+                placeholderTextColor={colors.textTertiary}
+                keyboardType="number-pad"
+                maxLength={4}
+              />
+              <TextInput
+                style={[
+                  formStyles.textInput,
+                  formStyles.addRowInput,
+                  {
+                    backgroundColor: colors.secondaryBackground,
+                    color: colors.textPrimary,
+                    borderColor: colors.separator,
+                  },
+                ]}
+                value={goalUnitLabel}
+                onChangeText={setGoalUnitLabel}
+                placeholder={t('timelineForm.goalUnitPlaceholder')}
+                placeholderTextColor={colors.textTertiary}
+                maxLength={30}
+              />
+            </View>
+            <Text
+              style={[
+                formStyles.fieldHint,
+                {
+                  color: colors.textTertiary,
+                },
+              ]}
+            >
+              {t('timelineForm.goalHint')}
+            </Text>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  /**
+   * Render counting rules (working days, excluded dates, pauses)
+   * Hidden for timelines that don't count days against an end date
+   */
+  const renderCountingFields = () => {
+    if (!canUseCountingRules()) return null;
+
+    return (
+      <CountingRulesFields
+        rules={countingRules}
+        onChange={setCountingRules}
+        {...datePickerProps}
+      />
+    );
+  };
+
   /**
    * Render custom timeline fields
    */
   const renderCustomFields = () => {
     // Show custom fields for custom type or in edit mode
     if (!timeline && selectedType !== TimelineType.CUSTOM) return null;
+    if (selectedType === TimelineType.LIFE || selectedType === TimelineType.DAY) return null;
+
+    const recurrence = getRecurrenceRule();
+    const periodEnd = recurrence ? getCustomConfig().endDate : undefined;
+    const isCustomType = selectedType === TimelineType.CUSTOM;
+    const endsOptions: { value: boolean; label: string }[] = [
+      { value: false, label: t('timelineForm.endsOnDate') },
+      { value: true, label: t('timelineForm.endsNever') },
+    ];
+    const pinnedTime = getPinnedTime();
+    const zoneQuery = timeZoneQuery.trim().toLowerCase().replace(/_/g, ' ');
+    const timeZoneMatches =
+      zoneQuery && timeZoneQuery !== pinnedTimeZone
+        ? getTimeZones()
+            .filter((zone) => zone.toLowerCase().replace(/_/g, ' ').includes(zoneQuery))
+            .slice(0, MAX_TIME_ZONE_MATCHES)
+        : [];
+
+    const unitOptions: { value: TimelineUnit; label: string }[] = [
+      { value: 'hour', label: t('timelineForm.unitHours') },
+      { value: 'day', label: t('timelineForm.unitDays') },
+      { value: 'week', label: t('timelineForm.unitWeeks') },
+      { value: 'month', label: t('timelineForm.unitMonths') },
+    ];
 
     return (
       <View style={styles.customFieldsContainer}>
         {/* Title Input */}
-        <View style={styles.fieldContainer}>
+        <View style={formStyles.fieldContainer}>
           <Text
             style={[
-              styles.fieldLabel,
+              formStyles.fieldLabel,
               {
                 color: colors.textSecondary,
               },
@@ -316,7 +1079,7 @@ export function TimelineFormDrawer({
           </Text>
           <TextInput
             style={[
-              styles.textInput,
+              formStyles.textInput,
               {
                 backgroundColor: colors.secondaryBackground,
                 color: colors.textPrimary,
@@ -332,10 +1095,10 @@ export function TimelineFormDrawer({
         </View>
 
         {/* Start Date */}
-        <View style={styles.fieldContainer}>
+        <View style={formStyles.fieldContainer}>
           <Text
             style={[
-              styles.fieldLabel,
+              formStyles.fieldLabel,
               {
                 color: colors.textSecondary,
               },
@@ -345,7 +1108,7 @@ export function TimelineFormDrawer({
           </Text>
           <TouchableOpacity
             style={[
-              styles.dateButton,
+              formStyles.dateButton,
               {
                 backgroundColor: colors.secondaryBackground,
                 borderColor: colors.separator,
@@ -370,44 +1133,291 @@ export function TimelineFormDrawer({
           </TouchableOpacity>
         </View>
 
-        {/* End Date */}
-        <View style={styles.fieldContainer}>
-          <Text
-            style={[
-              styles.fieldLabel,
-              {
-                color: colors.textSecondary,
-              },
-            ]}
-          >
-            {t('timelineForm.endDate')}
-          </Text>
-          <TouchableOpacity
-            style={[
-              styles.dateButton,
-              {
-                backgroundColor: colors.secondaryBackground,
-                borderColor: colors.separator,
-              },
-            ]}
-            onPress={() => openDatePicker('end')}
-          >
+        {/* Ends (custom timelines can count up with no end date, except goals) */}
+        {isCustomType && trackingMode !== 'goal' && (
+          <View style={formStyles.fieldContainer}>
             <Text
               style={[
-                styles.dateButtonText,
+                formStyles.fieldLabel,
                 {
-                  color: colors.textPrimary,
+                  color: colors.textSecondary,
                 },
               ]}
             >
-              {customEndDate.toLocaleDateString(getCurrentLocale(), {
-                year: 'numeric',
-                month: 'long',
-                day: 'numeric',
+              {t('timelineForm.endsLabel')}
+            </Text>
+            <View style={formStyles.typePickerContainer}>
+              {endsOptions.map((option) => {
+                const isSelected = isCountUp === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.label}
+                    style={[
+                      formStyles.optionButton,
+                      {
+                        backgroundColor: isSelected
+                          ? colors.tertiaryBackground
+                          : 'transparent',
+                        borderColor: colors.separator,
+                      },
+                    ]}
+                    onPress={() => setIsCountUp(option.value)}
+                    activeOpacity={0.6}
+                  >
+                    <Text
+                      style={[
+                        formStyles.optionButtonText,
+                        {
+                          color: isSelected
+                            ? colors.textPrimary
+                            : colors.textSecondary,
+                          fontWeight: isSelected
+                            ? FontWeights.medium
+                            : FontWeights.regular,
+                        },
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
               })}
+            </View>
+
+            {isCountUp && (
+              <Text
+                style={[
+                  formStyles.fieldHint,
+                  {
+                    color: colors.textTertiary,
+                  },
+                ]}
+              >
+                {t('timelineForm.countUpHint')}
+              </Text>
+            )}
+          </View>
+        )}
+
+        {/* Repeat */}
+        {!isCountUp && (
+          <RecurrenceFields
+            frequency={recurrenceFrequency}
+            intervalText={recurrenceIntervalText}
+            recurrence={recurrence}
+            startDate={customStartDate}
+            periodEnd={periodEnd}
+            onFrequencyChange={setRecurrenceFrequency}
+            onIntervalTextChange={setRecurrenceIntervalText}
+          />
+        )}
+
+        {/* Occasion (yearly timelines can count down to a birthday or anniversary) */}
+        {!isCountUp && recurrenceFrequency === 'yearly' && (
+          <PersonalDateFields
+            kind={personalKind}
+            yearText={personalYearText}
+            onKindChange={setPersonalKind}
+            onYearTextChange={setPersonalYearText}
+          />
+        )}
+
+        {/* End Date (derived for recurring timelines, none for count-up) */}
+        {!recurrence && !isCountUp && (
+          <View style={formStyles.fieldContainer}>
+            <Text
+              style={[
+                formStyles.fieldLabel,
+                {
+                  color: colors.textSecondary,
+                },
+              ]}
+            >
+              {t('timelineForm.endDate')}
             </Text>
-          </TouchableOpacity>
-        </View>
+            <TouchableOpacity
+              style={[
+                formStyles.dateButton,
+                {
+                  backgroundColor: colors.secondaryBackground,
+                  borderColor: colors.separator,
+                },
+              ]}
+              onPress={() => openDatePicker('end')}
+            >
+              <Text
+                style={[
+                  styles.dateButtonText,
+                  {
+                    color: colors.textPrimary,
+                  },
+                ]}
+              >
+                {customEndDate.toLocaleDateString(getCurrentLocale(), {
+                  year: 'numeric',
+                  month: 'long',
+                  day: 'numeric',
+                })}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Time Zone (ends at a time of day in another zone, e.g. a launch in Los Angeles) */}
+        {!isCountUp && trackingMode === 'time' && customUnit !== 'hour' && (
+          <View style={formStyles.fieldContainer}>
+            <Text
+              style={[
+                formStyles.fieldLabel,
+                {
+                  color: colors.textSecondary,
+                },
+              ]}
+            >
+              {t('timelineForm.pinnedTimeLabel')}
+            </Text>
+            <View style={formStyles.addRow}>
+              <TextInput
+                style={[
+                  formStyles.textInput,
+                  styles.pinnedTimeInput,
+                  {
+                    backgroundColor: colors.secondaryBackground,
+                    color: colors.textPrimary,
+                    borderColor: colors.separator,
+                  },
+                ]}
+                value={pinnedTimeText}
+                onChangeText={setPinnedTimeText}
+                placeholder={DEFAULT_PINNED_TIME}
+                placeholderTextColor={colors.textTertiary}
+                keyboardType="numbers-and-punctuation"
+                maxLength={5}
+              />
+              <TextInput
+                style={[
+                  formStyles.textInput,
+                  formStyles.addRowInput,
+                  {
+                    backgroundColor: colors.secondaryBackground,
+                    color: colors.textPrimary,
+                    borderColor: colors.separator,
+                  },
+                ]}
+                value={timeZoneQuery}
+                onChangeText={handleTimeZoneQueryChange}
+                placeholder={t('timelineForm.timeZonePlaceholder')}
+                placeholderTextColor={colors.textTertiary}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </View>
+
+            {timeZoneMatches.map((zone) => (
+              <TouchableOpacity
+                key={zone}
+                style={[
+                  formStyles.listRow,
+                  {
+                    borderColor: colors.separator,
+                  },
+                ]}
+                onPress={() => handleSelectTimeZone(zone)}
+                activeOpacity={0.6}
+              >
+                <Text
+                  numberOfLines={1}
+                  style={[
+                    formStyles.listRowTitle,
+                    {
+                      color: colors.textPrimary,
+                    },
+                  ]}
+                >
+                  {zone.replace(/_/g, ' ')}
+                </Text>
+              </TouchableOpacity>
+            ))}
+
+            <Text
+              style={[
+                formStyles.fieldHint,
+                {
+                  color: colors.textTertiary,
+                },
+              ]}
+            >
+              {pinnedTime
+                ? t('timelineForm.pinnedTimeLocal', {
+                    localTime: getTimeZoneMoment(
+                      getCustomConfig().endDate ?? getTodayCalendarDate(),
+                      pinnedTime.time,
+                      pinnedTime.timeZone
+                    ).toLocaleString(getCurrentLocale(), {
+                      weekday: 'short',
+                      month: 'short',
+                      day: 'numeric',
+                      hour: 'numeric',
+                      minute: '2-digit',
+                    }),
+                  })
+                : t('timelineForm.pinnedTimeHint')}
+            </Text>
+          </View>
+        )}
+
+        {/* Dot Unit (habit and goal timelines always count days) */}
+        {!isCountUp && trackingMode === 'time' && (
+          <View style={formStyles.fieldContainer}>
+            <Text
+              style={[
+                formStyles.fieldLabel,
+                {
+                  color: colors.textSecondary,
+                },
+              ]}
+            >
+              {t('timelineForm.unitLabel')}
+            </Text>
+            <View style={formStyles.typePickerContainer}>
+              {unitOptions.map((option) => {
+                const isSelected = customUnit === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      formStyles.optionButton,
+                      {
+                        backgroundColor: isSelected
+                          ? colors.tertiaryBackground
+                          : 'transparent',
+                        borderColor: colors.separator,
+                      },
+                    ]}
+                    onPress={() => setCustomUnit(option.value)}
+                    activeOpacity={0.6}
+                  >
+                    <Text
+                      style={[
+                        formStyles.optionButtonText,
+                        {
+                          color: isSelected
+                            ? colors.textPrimary
+                            : colors.textSecondary,
+                          fontWeight: isSelected
+                            ? FontWeights.medium
+                            : FontWeights.regular,
+                        },
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        )}
 
         {/* Date Pickers */}
         {activePicker === 'start' && (
@@ -417,7 +1427,7 @@ export function TimelineFormDrawer({
             mode="date"
             display="spinner"
             locale={pickerLocale}
-            maximumDate={customEndDate}
+            maximumDate={isCountUp ? new Date() : recurrence ? undefined : customEndDate}
             onChange={(_, date) => {
               if (Platform.OS !== 'ios') {
                 setActivePicker(null);
@@ -447,6 +1457,267 @@ export function TimelineFormDrawer({
     );
   };
 
+  /**
+   * Render marker fields (named days inside the timeline)
+   */
+  const renderMarkerFields = () => {
+    // Markers and phases are dated, so they don't fit an hourly grid
+    if (selectedType === TimelineType.DAY) return null;
+
+    return <MarkerFields markers={markers} onChange={setMarkers} {...datePickerProps} />;
+  };
+
+  /**
+   * Render phase fields (named, colored date ranges inside the timeline)
+   */
+  const renderPhaseFields = () => {
+    if (selectedType === TimelineType.DAY) return null;
+
+    return <PhaseFields phases={phases} onChange={setPhases} {...datePickerProps} />;
+  };
+
+  /**
+   * Render day timeline fields (hours shown as dots, e.g. waking hours 7-23)
+   */
+  const renderDayFields = () => {
+    if (selectedType !== TimelineType.DAY) return null;
+
+    const { startHour, endHour } = getDayHours() ?? {
+      startHour: getDayStartHour(),
+      endHour: getDayStartHour() + 24,
+    };
+    const formatHour = (hour: number) => `${String(hour % 24).padStart(2, '0')}:00`;
+
+    return (
+      <View style={styles.customFieldsContainer}>
+        <View style={formStyles.fieldContainer}>
+          <Text
+            style={[
+              formStyles.fieldLabel,
+              {
+                color: colors.textSecondary,
+              },
+            ]}
+          >
+            {t('timelineForm.dayHoursLabel')}
+          </Text>
+          <View style={formStyles.addRow}>
+            <TextInput
+              style={[
+                formStyles.textInput,
+                formStyles.addRowInput,
+                {
+                  backgroundColor: colors.secondaryBackground,
+                  color: colors.textPrimary,
+                  borderColor: colors.separator,
+                },
+              ]}
+              value={dayStartHourText}
+              onChangeText={setDayStartHourText}
+              keyboardType="number-pad"
+              maxLength={2}
+            />
+            <Text style={[styles.dateButtonText, { color: colors.textSecondary }]}>–</Text>
+            <TextInput
+              style={[
+                formStyles.textInput,
+                formStyles.addRowInput,
+                {
+                  backgroundColor: colors.secondaryBackground,
+                  color: colors.textPrimary,
+                  borderColor: colors.separator,
+                },
+              ]}
+              value={dayEndHourText}
+              onChangeText={setDayEndHourText}
+              keyboardType="number-pad"
+              maxLength={2}
+            />
+          </View>
+          <Text
+            style={[
+              formStyles.fieldHint,
+              {
+                color: colors.textTertiary,
+              },
+            ]}
+          >
+            {t('timelineForm.dayHoursHint', {
+              count: endHour - startHour,
+              start: formatHour(startHour),
+              end: formatHour(endHour),
+            })}
+          </Text>
+        </View>
+      </View>
+    );
+  };
+
+  /**
+   * Render life timeline fields (birthdate, sex, expected lifespan)
+   */
+  const renderLifeFields = () => {
+    if (selectedType !== TimelineType.LIFE) return null;
+
+    const sexOptions: { value: LifeExpectancySex; label: string }[] = [
+      { value: 'female', label: t('timelineForm.female') },
+      { value: 'male', label: t('timelineForm.male') },
+      { value: 'unspecified', label: t('timelineForm.unspecified') },
+    ];
+
+    return (
+      <View style={styles.customFieldsContainer}>
+        {/* Birthdate */}
+        <View style={formStyles.fieldContainer}>
+          <Text
+            style={[
+              formStyles.fieldLabel,
+              {
+                color: colors.textSecondary,
+              },
+            ]}
+          >
+            {t('timelineForm.birthDate')}
+          </Text>
+          <TouchableOpacity
+            style={[
+              formStyles.dateButton,
+              {
+                backgroundColor: colors.secondaryBackground,
+                borderColor: colors.separator,
+              },
+            ]}
+            onPress={() => openDatePicker('birth')}
+          >
+            <Text
+              style={[
+                styles.dateButtonText,
+                {
+                  color: colors.textPrimary,
+                },
+              ]}
+            >
+              {birthDate.toLocaleDateString(getCurrentLocale(), {
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric',
+              })}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Sex (used for the lifespan default) */}
+        <View style={formStyles.fieldContainer}>
+          <Text
+            style={[
+              formStyles.fieldLabel,
+              {
+                color: colors.textSecondary,
+              },
+            ]}
+          >
+            {t('timelineForm.sexLabel')}
+          </Text>
+          <View style={formStyles.typePickerContainer}>
+            {sexOptions.map((option) => {
+              const isSelected = lifeSex === option.value;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    formStyles.optionButton,
+                    {
+                      backgroundColor: isSelected
+                        ? colors.tertiaryBackground
+                        : 'transparent',
+                      borderColor: colors.separator,
+                    },
+                  ]}
+                  onPress={() => handleLifeSexChange(option.value)}
+                  activeOpacity={0.6}
+                >
+                  <Text
+                    style={[
+                      formStyles.optionButtonText,
+                      {
+                        color: isSelected
+                          ? colors.textPrimary
+                          : colors.textSecondary,
+                        fontWeight: isSelected
+                          ? FontWeights.medium
+                          : FontWeights.regular,
+                      },
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        {/* Expected Lifespan */}
+        <View style={formStyles.fieldContainer}>
+          <Text
+            style={[
+              formStyles.fieldLabel,
+              {
+                color: colors.textSecondary,
+              },
+            ]}
+          >
+            {t('timelineForm.lifeExpectancyLabel')}
+          </Text>
+          <TextInput
+            style={[
+              formStyles.textInput,
+              {
+                backgroundColor: colors.secondaryBackground,
+                color: colors.textPrimary,
+                borderColor: colors.separator,
+              },
+            ]}
+            value={lifeExpectancyText}
+            onChangeText={setLifeExpectancyText}
+            keyboardType="number-pad"
+            maxLength={3}
+          />
+          <Text
+            style={[
+              formStyles.fieldHint,
+              {
+                color: colors.textTertiary,
+              },
+            ]}
+          >
+            {t('timelineForm.lifeExpectancyHint')}
+          </Text>
+        </View>
+
+        {activePicker === 'birth' && (
+          <DateTimePicker
+            key={`birth-${pickerLocale}`}
+            value={birthDate}
+            mode="date"
+            display="spinner"
+            locale={pickerLocale}
+            maximumDate={new Date()}
+            onChange={(_, date) => {
+              if (Platform.OS !== 'ios') {
+                setActivePicker(null);
+              }
+              if (date) setBirthDate(date);
+            }}
+          />
+        )}
+      </View>
+    );
+  };
+
+  // Create mode opens on the template gallery
+  const isGalleryStep = !timeline && showTemplates;
+
   return (
     <Modal
       visible={visible}
@@ -505,28 +1776,73 @@ export function TimelineFormDrawer({
                 {timeline ? t('timelineForm.editTimeline') : t('timelineForm.newTimeline')}
               </Text>
 
-              <TouchableOpacity
-                onPress={handleSave}
-                style={[styles.headerButton, styles.saveButtonContainer, { backgroundColor: colors.accent }]}
-                activeOpacity={0.7}
-              >
-                <Text style={styles.saveButton}>
-                  {t('common.save')}
-                </Text>
-              </TouchableOpacity>
+              {isGalleryStep ? (
+                <View style={styles.headerButton} />
+              ) : (
+                <TouchableOpacity
+                  onPress={handleSave}
+                  style={[styles.headerButton, styles.saveButtonContainer, { backgroundColor: colors.accent }]}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.saveButton}>
+                    {t('common.save')}
+                  </Text>
+                </TouchableOpacity>
+              )}
             </View>
 
             {/* Content */}
-            <View style={styles.content}>
-              {/* Only show type picker in create mode */}
-              {!timeline && (
-                <View style={styles.section}>
-                  {renderTypePicker()}
-                </View>
-              )}
+            <ScrollView
+              style={styles.contentScroll}
+              contentContainerStyle={styles.content}
+              keyboardShouldPersistTaps="handled"
+            >
+              {isGalleryStep ? (
+                <TemplateGallery onSelect={handleSelectTemplate} />
+              ) : (
+                <>
+                  {/* Only show templates, quick add and type picker in create mode */}
+                  {!timeline && (
+                    <TouchableOpacity
+                      style={styles.textButton}
+                      onPress={() => setShowTemplates(true)}
+                      activeOpacity={0.6}
+                    >
+                      <Text style={[styles.textButtonLabel, { color: colors.accent }]}>
+                        {t('templates.browseTemplates')}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                  {!timeline && renderQuickAddField()}
+                  {!timeline && (
+                    <View style={styles.section}>
+                      {renderTypePicker()}
+                    </View>
+                  )}
 
-              {renderCustomFields()}
-            </View>
+                  {renderCustomFields()}
+                  {renderLifeFields()}
+                  {renderDayFields()}
+                  {renderTrackingFields()}
+                  {renderCountingFields()}
+                  {renderMarkerFields()}
+                  {renderPhaseFields()}
+
+                  {/* Save as template (edit mode, timelines with an end date) */}
+                  {timeline?.endDate && timeline.type !== TimelineType.LIFE && timeline.type !== TimelineType.DAY && (
+                    <TouchableOpacity
+                      style={styles.textButton}
+                      onPress={handleSaveAsTemplate}
+                      activeOpacity={0.6}
+                    >
+                      <Text style={[styles.textButtonLabel, { color: colors.accent }]}>
+                        {t('templates.saveAsTemplate')}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </>
+              )}
+            </ScrollView>
           </View>
         </Animated.View>
       </KeyboardAvoidingView>
@@ -590,6 +1906,9 @@ const styles = StyleSheet.create({
     fontWeight: FontWeights.medium,
     color: '#FFFFFF',
   },
+  contentScroll: {
+    maxHeight: SCREEN_HEIGHT * 0.7,
+  },
   content: {
     paddingHorizontal: Spacing.lg,
     paddingBottom: Spacing.lg,
@@ -603,12 +1922,9 @@ const styles = StyleSheet.create({
     marginBottom: Spacing.sm,
     marginLeft: Spacing.xs,
   },
-  typePickerContainer: {
-    flexDirection: 'row',
-    gap: Spacing.xs,
-  },
   typeButton: {
-    flex: 1,
+    flexGrow: 1,
+    flexBasis: '22%', // Four types per row
     paddingVertical: Spacing.md,
     borderRadius: BorderRadius.medium,
     alignItems: 'center',
@@ -621,27 +1937,32 @@ const styles = StyleSheet.create({
   customFieldsContainer: {
     marginTop: Spacing.md,
   },
-  fieldContainer: {
-    marginBottom: Spacing.md,
+  dateButtonText: {
+    fontSize: FontSizes.body,
   },
-  fieldLabel: {
-    fontSize: FontSizes.footnote,
-    fontWeight: FontWeights.regular,
-    marginBottom: Spacing.sm,
+  pinnedTimeInput: {
+    width: 90,
+  },
+  textButton: {
+    alignSelf: 'flex-start',
+    marginBottom: Spacing.md,
     marginLeft: Spacing.xs,
   },
-  textInput: {
-    padding: Spacing.md,
-    borderRadius: BorderRadius.small,
-    fontSize: FontSizes.body,
-    borderWidth: StyleSheet.hairlineWidth,
+  textButtonLabel: {
+    fontSize: FontSizes.subheadline,
+    fontWeight: FontWeights.medium,
   },
-  dateButton: {
-    padding: Spacing.md,
-    borderRadius: BorderRadius.small,
-    borderWidth: StyleSheet.hairlineWidth,
+  quickAddRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
   },
-  dateButtonText: {
-    fontSize: FontSizes.body,
+  quickAddPreview: {
+    marginTop: Spacing.sm,
+    marginLeft: Spacing.xs,
+    gap: 2,
+  },
+  goalTargetInput: {
+    width: 90,
   },
 });
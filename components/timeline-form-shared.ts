@@ -0,0 +1,132 @@
+/**
+ * Timeline Form Shared
+ * Styles and date picker state shared by the timeline form drawer and its sections
+ */
+
+import { StyleSheet } from 'react-native';
+import { FontSizes, FontWeights, Spacing, BorderRadius } from '@/constants/theme';
+
+/**
+ * Date fields that open the inline date picker
+ */
+export type DatePickerTarget =
+  | 'start'
+  | 'end'
+  | 'birth'
+  | 'marker'
+  | 'phaseStart'
+  | 'phaseEnd'
+  | 'excludedStart'
+  | 'excludedEnd';
+
+/**
+ * Inline date picker state, kept by the drawer so only one picker is open at a time
+ */
+export interface FormDatePickerProps {
+  /**
+   * Picker currently shown (null when none is open)
+   */
+  activePicker: DatePickerTarget | null;
+
+  /**
+   * Locale of the native picker
+   */
+  pickerLocale: string;
+
+  /**
+   * Called to show a picker (dismisses the keyboard first)
+   */
+  onOpenPicker: (picker: DatePickerTarget) => void;
+
+  /**
+   * Called to hide the open picker
+   */
+  onClosePicker: () => void;
+}
+
+export const formStyles = StyleSheet.create({
+  fieldContainer: {
+    marginBottom: Spacing.md,
+  },
+  fieldLabel: {
+    fontSize: FontSizes.footnote,
+    fontWeight: FontWeights.regular,
+    marginBottom: Spacing.sm,
+    marginLeft: Spacing.xs,
+  },
+  subFieldLabel: {
+    marginTop: Spacing.md,
+  },
+  fieldHint: {
+    fontSize: FontSizes.caption1,
+    marginTop: Spacing.xs,
+    marginLeft: Spacing.xs,
+  },
+  textInput: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.small,
+    fontSize: FontSizes.body,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  stackedInput: {
+    marginTop: Spacing.sm,
+  },
+  dateButton: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.small,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  typePickerContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+  },
+  stackedPickerContainer: {
+    marginTop: Spacing.sm,
+  },
+  optionButton: {
+    flex: 1,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.medium,
+    alignItems: 'center',
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  optionButtonText: {
+    fontSize: FontSizes.subheadline,
+    fontWeight: FontWeights.regular,
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.xs,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: Spacing.sm,
+  },
+  listRowTitle: {
+    flex: 1,
+    fontSize: FontSizes.body,
+  },
+  listRowDetail: {
+    fontSize: FontSizes.subheadline,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  addRowInput: {
+    flex: 1,
+  },
+  addRowDateButton: {
+    paddingHorizontal: Spacing.sm,
+  },
+  addButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
@@ -7,8 +7,11 @@
  * Features:
  * - List of all timelines with TimelineCard previews
  * - Create new timeline button
+ * - Import birthdays and anniversaries from a vCard (.vcf) file
  * - Edit custom timelines
  * - Delete timelines
+ * - Completed timelines grouped below, tap to extend, renew or archive them
+ * - Archive of finished year/month/week periods
  * - Premium tier limit enforcement
  */
 
@@ -29,17 +32,28 @@ import { BlurView } from 'expo-blur';
 import * as Haptics from 'expo-haptics';
 import { useRouter } from 'expo-router';
 import { useTranslation } from 'react-i18next';
-import { X, Plus } from 'phosphor-react-native';
-import { Timeline } from '@/types/timeline';
+import { File } from 'expo-file-system';
+import { X, Plus, Cake } from 'phosphor-react-native';
+import { ArchivedTimeline, Timeline } from '@/types/timeline';
 import { TimelineCard } from './timeline-card';
+import { ArchivedTimelineCard } from './archived-timeline-card';
 import { TimelineFormDrawer } from './timeline-form-drawer';
+import { TimelineCompletionModal } from './timeline-completion-modal';
 import {
   loadTimelines,
+  loadArchivedTimelines,
   saveTimeline,
+  addTimelines,
   deleteTimeline,
   setActiveTimeline,
 } from '@/services/storage';
-import { sortTimelinesWithActiveFirst } from '@/services/timeline-calculator';
+import {
+  sortTimelinesWithActiveFirst,
+  sortArchivedTimelines,
+  createPersonalDateTimeline,
+  isCompletedTimeline,
+} from '@/services/timeline-calculator';
+import { parseVCardDates } from '@/utils/vcard-parser';
 import { isPro, FREE_TIER_LIMITS } from '@/services/revenue-cat-service';
 import {
   syncActiveTimelineToWidget,
@@ -86,14 +100,20 @@ export function TimelineManagementModal({
 
   // Data state
   const [timelines, setTimelines] = useState<Timeline[]>([]);
+  const [archivedTimelines, setArchivedTimelines] = useState<ArchivedTimeline[]>([]);
   const [loading, setLoading] = useState(true);
 
   // Modal state
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [editingTimeline, setEditingTimeline] = useState<Timeline | undefined>(undefined);
+  const [reviewingTimeline, setReviewingTimeline] = useState<Timeline | null>(null);
+
+  // Completed timelines are grouped below the current ones
+  const currentTimelines = timelines.filter((timeline) => !isCompletedTimeline(timeline));
+  const completedTimelines = timelines.filter((timeline) => isCompletedTimeline(timeline));
 
   /**
-   * Load all timelines from storage
+   * Load all timelines (and the archive of finished periods) from storage
    */
   const loadAllTimelines = useCallback(async () => {
     try {
@@ -101,6 +121,10 @@ export function TimelineManagementModal({
       const allTimelines = await loadTimelines();
       const sorted = sortTimelinesWithActiveFirst(allTimelines);
       setTimelines(sorted);
+
+      // Archive is loaded after timelines, since loading may archive rolled-over periods
+      const archived = await loadArchivedTimelines();
+      setArchivedTimelines(sortArchivedTimelines(archived));
     } catch (error) {
       console.error('Error loading timelines:', error);
     } finally {
@@ -203,6 +227,82 @@ export function TimelineManagementModal({
     }
   };
 
+  /**
+   * Handle vCard import
+   * Adds a birthday or anniversary timeline for each dated contact not imported yet
+   */
+  const handleImportVCard = async () => {
+    let text: string;
+    try {
+      const picked = await File.pickFileAsync(undefined, 'text/vcard');
+      const file = Array.isArray(picked) ? picked[0] : picked;
+      if (!file) return;
+      text = await file.text();
+    } catch (error) {
+      // Also thrown when the picker is cancelled
+      console.error('Error reading vCard file:', error);
+      return;
+    }
+
+    try {
+      const titles = new Set(
+        timelines.filter((timeline) => timeline.personalDate).map((timeline) => timeline.title)
+      );
+      const imported = parseVCardDates(text)
+        .map((date) =>
+          createPersonalDateTimeline(
+            t(date.kind === 'birthday' ? 'management.birthdayOf' : 'management.anniversaryOf', {
+              name: date.name,
+            }),
+            date.year ? { kind: date.kind, year: date.year } : { kind: date.kind },
+            date.month,
+            date.day
+          )
+        )
+        .filter((timeline) => {
+          // Skip dates already imported (or repeated in the file)
+          if (titles.has(timeline.title)) return false;
+          titles.add(timeline.title);
+          return true;
+        });
+
+      if (imported.length === 0) {
+        Alert.alert(t('management.importContacts'), t('management.importNoDates'));
+        return;
+      }
+
+      // Bulk import counts toward the free tier limit like any other timeline
+      const hasPro = await isPro();
+      if (!hasPro && timelines.length + imported.length > FREE_TIER_LIMITS.MAX_TIMELINES) {
+        onClose();
+        router.push('/paywall');
+        return;
+      }
+
+      await addTimelines(imported);
+      await loadAllTimelines();
+      await syncAllTimelinesToWidget();
+      onRefresh?.();
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      Alert.alert(
+        t('management.importContacts'),
+        t('management.importedDates', { count: imported.length })
+      );
+    } catch (error) {
+      console.error('Error importing vCard dates:', error);
+    }
+  };
+
+  /**
+   * Handle the end of the completion flow (timeline extended, renewed, archived or kept)
+   */
+  const handleCompletionDone = async () => {
+    setReviewingTimeline(null);
+    await loadAllTimelines();
+    onRefresh?.();
+  };
+
   /**
    * Handle timeline edit
    */
@@ -283,7 +383,7 @@ export function TimelineManagementModal({
               contentContainerStyle={styles.scrollContent}
               showsVerticalScrollIndicator={false}
             >
-              {timelines.map((timeline, index) => (
+              {currentTimelines.map((timeline, index) => (
                 <Animated.View
                   key={timeline.id}
                   entering={FadeInDown.duration(300).delay(Math.min(index * 80, 400))}
@@ -309,7 +409,7 @@ export function TimelineManagementModal({
 
               {/* Create Button */}
               <Animated.View
-                entering={FadeInDown.duration(300).delay(Math.min(timelines.length * 80 + 80, 500))}
+                entering={FadeInDown.duration(300).delay(Math.min(currentTimelines.length * 80 + 80, 500))}
               >
                 <TouchableOpacity
                   style={styles.createButton}
@@ -319,7 +419,43 @@ export function TimelineManagementModal({
                   <Plus size={20} color={colors.background} weight="bold" />
                   <Text style={styles.createButtonText}>{t('management.createTimeline')}</Text>
                 </TouchableOpacity>
+
+                <TouchableOpacity
+                  style={styles.importButton}
+                  onPress={handleImportVCard}
+                  activeOpacity={0.6}
+                >
+                  <Cake size={16} color={colors.textSecondary} weight="regular" />
+                  <Text style={styles.importButtonText}>{t('management.importContacts')}</Text>
+                </TouchableOpacity>
               </Animated.View>
+
+              {/* Completed timelines */}
+              {completedTimelines.length > 0 && (
+                <View style={styles.listSection}>
+                  <Text style={styles.sectionHeader}>{t('management.completed')}</Text>
+                  {completedTimelines.map((timeline) => (
+                    <TimelineCard
+                      key={timeline.id}
+                      timeline={timeline}
+                      onPress={setReviewingTimeline}
+                      onEdit={handleTimelineEdit}
+                      onDelete={handleTimelineDelete}
+                      showDelete={timelines.length > 1}
+                    />
+                  ))}
+                </View>
+              )}
+
+              {/* Archive of finished periods */}
+              {archivedTimelines.length > 0 && (
+                <View style={styles.listSection}>
+                  <Text style={styles.sectionHeader}>{t('management.archive')}</Text>
+                  {archivedTimelines.map((archived) => (
+                    <ArchivedTimelineCard key={archived.id} archived={archived} />
+                  ))}
+                </View>
+              )}
             </ScrollView>
           </View>
         </SafeAreaView>
@@ -332,6 +468,9 @@ export function TimelineManagementModal({
         onSave={handleTimelineSave}
       />
 
+      {/* Completion Flow */}
+      <TimelineCompletionModal timeline={reviewingTimeline} onDone={handleCompletionDone} />
+
       {/* Edit Drawer */}
       <TimelineFormDrawer
         visible={!!editingTimeline}
@@ -427,5 +566,29 @@ function createStyles(colors: typeof Colors.dark) {
       color: colors.background,
       marginLeft: Spacing.sm,
     },
+    importButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: Spacing.sm,
+      marginTop: Spacing.sm,
+    },
+    importButtonText: {
+      fontSize: FontSizes.subheadline,
+      fontWeight: FontWeights.regular,
+      color: colors.textSecondary,
+      marginLeft: Spacing.xs,
+    },
+    listSection: {
+      marginTop: Spacing.xl,
+    },
+    sectionHeader: {
+      fontSize: FontSizes.footnote,
+      fontWeight: FontWeights.semibold,
+      color: colors.textTertiary,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: Spacing.sm,
+    },
   });
 }
@@ -0,0 +1,179 @@
+import { HolidayCountry } from '@/types/timeline';
+import {
+  HOLIDAY_COUNTRIES,
+  getDefaultHolidayCountry,
+  getEasterDate,
+  getHolidayCountryFlag,
+  getPublicHolidays,
+  getPublicHolidaysBetween,
+  getWeekendDays,
+  isPublicHoliday,
+  isWeekendDay,
+} from '@/constants/holidays';
+
+/**
+ * Dates of a country's holidays with a given English name in a year
+ */
+function getHolidayDates(country: HolidayCountry, year: number, name: string): string[] {
+  return getPublicHolidays(country, year)
+    .filter((holiday) => holiday.name === name)
+    .map((holiday) => holiday.date);
+}
+
+describe('holidays', () => {
+  beforeEach(() => {
+    setTimeZone('America/New_York');
+  });
+
+  describe('getPublicHolidays', () => {
+    it.each(HOLIDAY_COUNTRIES)('returns sorted, real dates within the year for %s', (country) => {
+      for (const year of [2019, 2020, 2024, 2045, 2046]) {
+        const dates = getPublicHolidays(country, year).map((holiday) => holiday.date);
+
+        expect(dates.length).toBeGreaterThan(0);
+        expect(dates).toEqual([...dates].sort());
+        for (const date of dates) {
+          expect(date.startsWith(`${year}-`)).toBe(true);
+          expect(new Date(`${date}T12:00:00`).toISOString().slice(0, 10)).toBe(date);
+        }
+      }
+    });
+
+    it('tags holidays with their country and local name', () => {
+      const [newYear] = getPublicHolidays('TR', 2026);
+
+      expect(newYear).toEqual({ date: '2026-01-01', name: "New Year's Day", localName: 'Yılbaşı', country: 'TR' });
+    });
+
+    it('follows rule changes by year', () => {
+      // Denmark abolished General Prayer Day from 2024, Saudi Founding Day started in 2022
+      expect(getHolidayDates('DK', 2023, 'General Prayer Day')).toEqual(['2023-05-05']);
+      expect(getHolidayDates('DK', 2024, 'General Prayer Day')).toEqual([]);
+      expect(getHolidayDates('SA', 2021, 'Founding Day')).toEqual([]);
+      expect(getHolidayDates('SA', 2022, 'Founding Day')).toEqual(['2022-02-22']);
+    });
+
+    it('moves US weekend holidays to the nearest weekday, across the year boundary', () => {
+      // Jan 1, 2022 was a Saturday: observed on Friday, Dec 31, 2021
+      expect(getHolidayDates('US', 2021, "New Year's Day (observed)")).toEqual(['2021-12-31']);
+      expect(getHolidayDates('US', 2022, "New Year's Day (observed)")).toEqual([]);
+      // Jul 4, 2021 was a Sunday
+      expect(getHolidayDates('US', 2021, 'Independence Day (observed)')).toEqual(['2021-07-05']);
+    });
+
+    it('gives UK substitute days on the next free weekday', () => {
+      // Christmas on Saturday and Boxing Day on Sunday (2021), Christmas on Sunday (2022)
+      expect(getHolidayDates('GB', 2021, 'Christmas Day (substitute day)')).toEqual(['2021-12-27']);
+      expect(getHolidayDates('GB', 2021, 'Boxing Day (substitute day)')).toEqual(['2021-12-28']);
+      expect(getHolidayDates('GB', 2022, 'Christmas Day (substitute day)')).toEqual(['2022-12-27']);
+      expect(getHolidayDates('GB', 2022, "New Year's Day (substitute day)")).toEqual(['2022-01-03']);
+    });
+
+    it('computes Orthodox Easter for Greece', () => {
+      expect(getHolidayDates('GR', 2024, 'Orthodox Easter Sunday')).toEqual(['2024-05-05']);
+      expect(getHolidayDates('GR', 2025, 'Orthodox Easter Sunday')).toEqual(['2025-04-20']);
+      expect(getHolidayDates('GR', 2026, 'Orthodox Easter Sunday')).toEqual(['2026-04-12']);
+    });
+
+    it('covers the first and last years of the lunar tables', () => {
+      expect(getHolidayDates('CN', 2020, 'Spring Festival')).toEqual(['2020-01-25', '2020-01-26', '2020-01-27']);
+      expect(getHolidayDates('CN', 2045, 'Spring Festival')).toEqual([
+        '2045-02-16',
+        '2045-02-17',
+        '2045-02-18',
+        '2045-02-19',
+      ]);
+      expect(getHolidayDates('SA', 2045, 'Eid al-Adha')).toEqual(['2045-10-21', '2045-10-22', '2045-10-23']);
+    });
+
+    it('leaves lunar holidays out of years outside the tables', () => {
+      expect(getHolidayDates('CN', 2019, 'Spring Festival')).toEqual([]);
+      expect(getHolidayDates('CN', 2046, 'Spring Festival')).toEqual([]);
+      expect(getHolidayDates('TR', 2046, 'Eid al-Fitr')).toEqual([]);
+      expect(getHolidayDates('CN', 2046, "New Year's Day")).toEqual(['2046-01-01']);
+    });
+
+    it('keeps both Islamic holidays of years that have two', () => {
+      expect(getHolidayDates('SA', 2033, 'Eid al-Fitr')).toEqual([
+        '2033-01-03',
+        '2033-01-04',
+        '2033-01-05',
+        '2033-12-23',
+        '2033-12-24',
+        '2033-12-25',
+      ]);
+      expect(getHolidayDates('SA', 2039, 'Arafat Day')).toEqual(['2039-01-04', '2039-12-25']);
+    });
+  });
+
+  describe('getPublicHolidaysBetween', () => {
+    it('spans the year boundary', () => {
+      const dates = getPublicHolidaysBetween('US', '2025-12-20', '2026-01-31').map((holiday) => holiday.date);
+
+      expect(dates).toEqual(['2025-12-25', '2026-01-01', '2026-01-19']);
+    });
+
+    it('is empty for reversed ranges', () => {
+      expect(getPublicHolidaysBetween('US', '2026-12-31', '2026-01-01')).toEqual([]);
+    });
+  });
+
+  describe('isPublicHoliday', () => {
+    it('matches holidays and observed days only', () => {
+      // Jul 4, 2026 is a Saturday
+      expect(isPublicHoliday('US', '2026-07-04')).toBe(true);
+      expect(isPublicHoliday('US', '2026-07-03')).toBe(true);
+      expect(isPublicHoliday('US', '2026-07-06')).toBe(false);
+      expect(isPublicHoliday('FR', '2026-07-14')).toBe(true);
+      expect(isPublicHoliday('FR', '2026-07-04')).toBe(false);
+    });
+  });
+
+  describe('getEasterDate', () => {
+    it('computes Western Easter, including the earliest and latest dates', () => {
+      expect(getEasterDate(2024)).toBe('2024-03-31');
+      expect(getEasterDate(2026)).toBe('2026-04-05');
+      expect(getEasterDate(2008)).toBe('2008-03-23');
+      expect(getEasterDate(2285)).toBe('2285-03-22');
+      expect(getEasterDate(2038)).toBe('2038-04-25');
+    });
+  });
+
+  describe('weekends', () => {
+    it('uses Friday and Saturday in Saudi Arabia and Saturday and Sunday elsewhere', () => {
+      expect(getWeekendDays('SA')).toEqual([5, 6]);
+      expect(getWeekendDays('TR')).toEqual([0, 6]);
+      expect(getWeekendDays(null)).toEqual([0, 6]);
+      expect(getWeekendDays()).toEqual([0, 6]);
+    });
+
+    it('checks dates against the country weekend', () => {
+      // Jan 2, 2026 is a Friday, Jan 4 a Sunday
+      expect(isWeekendDay('SA', '2026-01-02')).toBe(true);
+      expect(isWeekendDay('SA', '2026-01-04')).toBe(false);
+      expect(isWeekendDay('US', '2026-01-02')).toBe(false);
+      expect(isWeekendDay(undefined, '2026-01-04')).toBe(true);
+    });
+  });
+
+  describe('getDefaultHolidayCountry', () => {
+    it('maps regions with bundled calendars', () => {
+      expect(getDefaultHolidayCountry('tr')).toBe('TR');
+      expect(getDefaultHolidayCountry('UK')).toBe('GB');
+      expect(getDefaultHolidayCountry('SA')).toBe('SA');
+    });
+
+    it('returns null for other or missing regions', () => {
+      expect(getDefaultHolidayCountry('DE')).toBeNull();
+      expect(getDefaultHolidayCountry('')).toBeNull();
+      expect(getDefaultHolidayCountry(null)).toBeNull();
+    });
+  });
+
+  describe('getHolidayCountryFlag', () => {
+    it('builds the flag from regional indicator letters', () => {
+      expect(getHolidayCountryFlag('TR')).toBe('🇹🇷');
+      expect(getHolidayCountryFlag('GB')).toBe('🇬🇧');
+    });
+  });
+});
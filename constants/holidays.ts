@@ -0,0 +1,503 @@
+/**
+ * Public Holiday Calendars
+ * Bundled offline public holidays for the countries behind the supported locales
+ *
+ * Fixed-date, Easter-based and nth-weekday holidays are computed by rule.
+ * Lunar holidays (Chinese and Umm al-Qura Hijri calendars) come from the
+ * precomputed tables below, which cover 2020-2045; other years leave them out.
+ * Only nationwide days off are included (no regional holidays or bridge days),
+ * and Islamic holidays follow Umm al-Qura, which may differ by a day locally.
+ */
+
+import { CalendarDate, HolidayCountry, PublicHoliday } from '@/types/timeline';
+import { getDeviceRegionCode } from '@/constants/life-expectancy';
+import { addCalendarDays, parseCalendarDate } from '@/utils/date-helpers';
+
+/**
+ * Countries with bundled holiday calendars
+ */
+export const HOLIDAY_COUNTRIES: HolidayCountry[] = ['TR', 'FR', 'ES', 'DK', 'GR', 'RU', 'CN', 'SA', 'US', 'GB'];
+
+/**
+ * Language of each country's local holiday names (matches the app locales)
+ */
+export const HolidayCountryLanguages: Record<HolidayCountry, string> = {
+  CN: 'zh',
+  DK: 'da',
+  ES: 'es',
+  FR: 'fr',
+  GB: 'en',
+  GR: 'el',
+  RU: 'ru',
+  SA: 'ar',
+  TR: 'tr',
+  US: 'en',
+};
+
+/**
+ * First day of Chinese New Year (1st day of the 1st lunar month)
+ */
+const CHINESE_NEW_YEAR: CalendarDate[] = [
+  '2020-01-25', '2021-02-12', '2022-02-01', '2023-01-22',
+  '2024-02-10', '2025-01-29', '2026-02-17', '2027-02-06',
+  '2028-01-26', '2029-02-13', '2030-02-03', '2031-01-23',
+  '2032-02-11', '2033-01-31', '2034-02-19', '2035-02-08',
+  '2036-01-28', '2037-02-15', '2038-02-04', '2039-01-24',
+  '2040-02-12', '2041-02-01', '2042-01-22', '2043-02-10',
+  '2044-01-30', '2045-02-17',
+];
+
+/**
+ * Dragon Boat Festival (5th day of the 5th lunar month)
+ */
+const DRAGON_BOAT_FESTIVAL: CalendarDate[] = [
+  '2020-06-25', '2021-06-14', '2022-06-03', '2023-06-22',
+  '2024-06-10', '2025-05-31', '2026-06-19', '2027-06-09',
+  '2028-05-28', '2029-06-16', '2030-06-05', '2031-06-24',
+  '2032-06-12', '2033-06-01', '2034-06-20', '2035-06-10',
+  '2036-05-30', '2037-06-18', '2038-06-07', '2039-05-27',
+  '2040-06-14', '2041-06-03', '2042-06-22', '2043-06-11',
+  '2044-05-31', '2045-06-19',
+];
+
+/**
+ * Mid-Autumn Festival (15th day of the 8th lunar month)
+ */
+const MID_AUTUMN_FESTIVAL: CalendarDate[] = [
+  '2020-10-01', '2021-09-21', '2022-09-10', '2023-09-29',
+  '2024-09-17', '2025-10-06', '2026-09-25', '2027-09-15',
+  '2028-10-03', '2029-09-22', '2030-09-12', '2031-10-01',
+  '2032-09-19', '2033-09-08', '2034-09-27', '2035-09-16',
+  '2036-10-04', '2037-09-24', '2038-09-13', '2039-10-02',
+  '2040-09-20', '2041-09-10', '2042-09-28', '2043-09-17',
+  '2044-10-05', '2045-09-25',
+];
+
+/**
+ * First day of Eid al-Fitr (1 Shawwal, Umm al-Qura)
+ */
+const EID_AL_FITR: CalendarDate[] = [
+  '2020-05-24', '2021-05-13', '2022-05-02', '2023-04-21',
+  '2024-04-10', '2025-03-30', '2026-03-20', '2027-03-09',
+  '2028-02-26', '2029-02-14', '2030-02-04', '2031-01-24',
+  '2032-01-14', '2033-01-03', '2033-12-23', '2034-12-12',
+  '2035-12-01', '2036-11-19', '2037-11-09', '2038-10-29',
+  '2039-10-19', '2040-10-07', '2041-09-27', '2042-09-16',
+  '2043-09-05', '2044-08-24', '2045-08-14',
+];
+
+/**
+ * First day of Eid al-Adha (10 Dhu al-Hijjah, Umm al-Qura)
+ */
+const EID_AL_ADHA: CalendarDate[] = [
+  '2020-07-31', '2021-07-20', '2022-07-09', '2023-06-28',
+  '2024-06-16', '2025-06-06', '2026-05-27', '2027-05-16',
+  '2028-05-05', '2029-04-24', '2030-04-13', '2031-04-02',
+  '2032-03-22', '2033-03-12', '2034-03-01', '2035-02-19',
+  '2036-02-08', '2037-01-27', '2038-01-16', '2039-01-05',
+  '2039-12-26', '2040-12-15', '2041-12-04', '2042-11-23',
+  '2043-11-12', '2044-11-01', '2045-10-21',
+];
+
+/**
+ * Holiday as built by the country rules: [date, English name, local name]
+ */
+type HolidayEntry = [CalendarDate, string, string];
+
+/**
+ * How weekend holidays are made up for with a weekday off
+ * - nearestWeekday: Saturday moves to Friday, Sunday to Monday (US)
+ * - nextWeekday: the next weekday that isn't already a holiday (UK substitute days)
+ */
+type HolidayObservance = 'nearestWeekday' | 'nextWeekday';
+
+const HOLIDAY_OBSERVANCE: Partial<Record<HolidayCountry, { rule: HolidayObservance; suffix: string }>> = {
+  US: { rule: 'nearestWeekday', suffix: 'observed' },
+  GB: { rule: 'nextWeekday', suffix: 'substitute day' },
+};
+
+/**
+ * Holiday rules by country, for a single year
+ */
+const HOLIDAY_RULES: Record<HolidayCountry, (year: number) => HolidayEntry[]> = {
+  TR: (year) => [
+    [calendarDate(year, 1, 1), "New Year's Day", 'Yılbaşı'],
+    [calendarDate(year, 4, 23), "National Sovereignty and Children's Day", 'Ulusal Egemenlik ve Çocuk Bayramı'],
+    [calendarDate(year, 5, 1), 'Labour and Solidarity Day', 'Emek ve Dayanışma Günü'],
+    [calendarDate(year, 5, 19), 'Commemoration of Atatürk, Youth and Sports Day', "Atatürk'ü Anma, Gençlik ve Spor Bayramı"],
+    [calendarDate(year, 7, 15), 'Democracy and National Unity Day', 'Demokrasi ve Millî Birlik Günü'],
+    [calendarDate(year, 8, 30), 'Victory Day', 'Zafer Bayramı'],
+    [calendarDate(year, 10, 29), 'Republic Day', 'Cumhuriyet Bayramı'],
+    ...getLunarHolidays(EID_AL_FITR, year, 0, 3, 'Eid al-Fitr', 'Ramazan Bayramı'),
+    ...getLunarHolidays(EID_AL_ADHA, year, 0, 4, 'Eid al-Adha', 'Kurban Bayramı'),
+  ],
+  FR: (year) => {
+    const easter = getEasterDate(year);
+    return [
+      [calendarDate(year, 1, 1), "New Year's Day", "Jour de l'an"],
+      [addCalendarDays(easter, 1), 'Easter Monday', 'Lundi de Pâques'],
+      [calendarDate(year, 5, 1), 'Labour Day', 'Fête du Travail'],
+      [calendarDate(year, 5, 8), 'Victory in Europe Day', 'Victoire 1945'],
+      [addCalendarDays(easter, 39), 'Ascension Day', 'Ascension'],
+      [addCalendarDays(easter, 50), 'Whit Monday', 'Lundi de Pentecôte'],
+      [calendarDate(year, 7, 14), 'Bastille Day', 'Fête nationale'],
+      [calendarDate(year, 8, 15), 'Assumption Day', 'Assomption'],
+      [calendarDate(year, 11, 1), "All Saints' Day", 'Toussaint'],
+      [calendarDate(year, 11, 11), 'Armistice Day', 'Armistice 1918'],
+      [calendarDate(year, 12, 25), 'Christmas Day', 'Noël'],
+    ];
+  },
+  ES: (year) => [
+    [calendarDate(year, 1, 1), "New Year's Day", 'Año Nuevo'],
+    [calendarDate(year, 1, 6), 'Epiphany', 'Epifanía del Señor'],
+    [addCalendarDays(getEasterDate(year), -2), 'Good Friday', 'Viernes Santo'],
+    [calendarDate(year, 5, 1), 'Labour Day', 'Fiesta del Trabajo'],
+    [calendarDate(year, 8, 15), 'Assumption Day', 'Asunción de la Virgen'],
+    [calendarDate(year, 10, 12), 'National Day', 'Fiesta Nacional de España'],
+    [calendarDate(year, 11, 1), "All Saints' Day", 'Todos los Santos'],
+    [calendarDate(year, 12, 6), 'Constitution Day', 'Día de la Constitución'],
+    [calendarDate(year, 12, 8), 'Immaculate Conception', 'Inmaculada Concepción'],
+    [calendarDate(year, 12, 25), 'Christmas Day', 'Navidad'],
+  ],
+  DK: (year) => {
+    const easter = getEasterDate(year);
+    return [
+      [calendarDate(year, 1, 1), "New Year's Day", 'Nytårsdag'],
+      [addCalendarDays(easter, -3), 'Maundy Thursday', 'Skærtorsdag'],
+      [addCalendarDays(easter, -2), 'Good Friday', 'Langfredag'],
+      [easter, 'Easter Sunday', 'Påskedag'],
+      [addCalendarDays(easter, 1), 'Easter Monday', 'Anden påskedag'],
+      // Abolished from 2024
+      ...(year <= 2023
+        ? [[addCalendarDays(easter, 26), 'General Prayer Day', 'Store bededag'] as HolidayEntry]
+        : []),
+      [addCalendarDays(easter, 39), 'Ascension Day', 'Kristi himmelfartsdag'],
+      [addCalendarDays(easter, 49), 'Whit Sunday', 'Pinsedag'],
+      [addCalendarDays(easter, 50), 'Whit Monday', 'Anden pinsedag'],
+      [calendarDate(year, 6, 5), 'Constitution Day', 'Grundlovsdag'],
+      [calendarDate(year, 12, 25), 'Christmas Day', 'Juledag'],
+      [calendarDate(year, 12, 26), 'Second Day of Christmas', 'Anden juledag'],
+    ];
+  },
+  GR: (year) => {
+    const easter = getOrthodoxEasterDate(year);
+    return [
+      [calendarDate(year, 1, 1), "New Year's Day", 'Πρωτοχρονιά'],
+      [calendarDate(year, 1, 6), 'Epiphany', 'Θεοφάνεια'],
+      [addCalendarDays(easter, -48), 'Clean Monday', 'Καθαρά Δευτέρα'],
+      [calendarDate(year, 3, 25), 'Independence Day', 'Ευαγγελισμός της Θεοτόκου'],
+      [addCalendarDays(easter, -2), 'Orthodox Good Friday', 'Μεγάλη Παρασκευή'],
+      [easter, 'Orthodox Easter Sunday', 'Κυριακή του Πάσχα'],
+      [addCalendarDays(easter, 1), 'Orthodox Easter Monday', 'Δευτέρα του Πάσχα'],
+      [calendarDate(year, 5, 1), 'Labour Day', 'Εργατική Πρωτομαγιά'],
+      [addCalendarDays(easter, 50), 'Orthodox Whit Monday', 'Αγίου Πνεύματος'],
+      [calendarDate(year, 8, 15), 'Assumption Day', 'Κοίμηση της Θεοτόκου'],
+      [calendarDate(year, 10, 28), 'Ohi Day', 'Επέτειος του Όχι'],
+      [calendarDate(year, 12, 25), 'Christmas Day', 'Χριστούγεννα'],
+      [calendarDate(year, 12, 26), 'Synaxis of the Mother of God', 'Σύναξη της Θεοτόκου'],
+    ];
+  },
+  RU: (year) => [
+    ...getConsecutiveDays(calendarDate(year, 1, 1), 6).map(
+      (date): HolidayEntry => [date, 'New Year Holidays', 'Новогодние каникулы']
+    ),
+    [calendarDate(year, 1, 7), 'Orthodox Christmas', 'Рождество Христово'],
+    [calendarDate(year, 1, 8), 'New Year Holidays', 'Новогодние каникулы'],
+    [calendarDate(year, 2, 23), 'Defender of the Fatherland Day', 'День защитника Отечества'],
+    [calendarDate(year, 3, 8), "International Women's Day", 'Международный женский день'],
+    [calendarDate(year, 5, 1), 'Spring and Labour Day', 'Праздник Весны и Труда'],
+    [calendarDate(year, 5, 9), 'Victory Day', 'День Победы'],
+    [calendarDate(year, 6, 12), 'Russia Day', 'День России'],
+    [calendarDate(year, 11, 4), 'Unity Day', 'День народного единства'],
+  ],
+  CN: (year) => [
+    [calendarDate(year, 1, 1), "New Year's Day", '元旦'],
+    // New Year's Eve became part of the Spring Festival holiday in 2025
+    ...(year >= 2025
+      ? getLunarHolidays(CHINESE_NEW_YEAR, year, -1, 4, 'Spring Festival', '春节')
+      : getLunarHolidays(CHINESE_NEW_YEAR, year, 0, 3, 'Spring Festival', '春节')),
+    [getQingmingDate(year), 'Qingming Festival', '清明节'],
+    ...getConsecutiveDays(calendarDate(year, 5, 1), year >= 2025 ? 2 : 1).map(
+      (date): HolidayEntry => [date, 'Labour Day', '劳动节']
+    ),
+    ...getLunarHolidays(DRAGON_BOAT_FESTIVAL, year, 0, 1, 'Dragon Boat Festival', '端午节'),
+    ...getLunarHolidays(MID_AUTUMN_FESTIVAL, year, 0, 1, 'Mid-Autumn Festival', '中秋节'),
+    ...getConsecutiveDays(calendarDate(year, 10, 1), 3).map(
+      (date): HolidayEntry => [date, 'National Day', '国庆节']
+    ),
+  ],
+  SA: (year) => [
+    ...(year >= 2022
+      ? [[calendarDate(year, 2, 22), 'Founding Day', 'يوم التأسيس'] as HolidayEntry]
+      : []),
+    ...getLunarHolidays(EID_AL_FITR, year, 0, 3, 'Eid al-Fitr', 'عيد الفطر'),
+    ...getLunarHolidays(EID_AL_ADHA, year, -1, 1, 'Arafat Day', 'يوم عرفة'),
+    ...getLunarHolidays(EID_AL_ADHA, year, 0, 3, 'Eid al-Adha', 'عيد الأضحى'),
+    [calendarDate(year, 9, 23), 'Saudi National Day', 'اليوم الوطني'],
+  ],
+  US: (year) =>
+    [
+      [calendarDate(year, 1, 1), "New Year's Day"],
+      [getNthWeekday(year, 1, 1, 3), 'Martin Luther King Jr. Day'],
+      [getNthWeekday(year, 2, 1, 3), "Washington's Birthday"],
+      [getNthWeekday(year, 5, 1, -1), 'Memorial Day'],
+      ...(year >= 2021 ? [[calendarDate(year, 6, 19), 'Juneteenth']] : []),
+      [calendarDate(year, 7, 4), 'Independence Day'],
+      [getNthWeekday(year, 9, 1, 1), 'Labor Day'],
+      [getNthWeekday(year, 10, 1, 2), 'Columbus Day'],
+      [calendarDate(year, 11, 11), 'Veterans Day'],
+      [getNthWeekday(year, 11, 4, 4), 'Thanksgiving Day'],
+      [calendarDate(year, 12, 25), 'Christmas Day'],
+    ].map(([date, name]): HolidayEntry => [date, name, name]),
+  GB: (year) => {
+    const easter = getEasterDate(year);
+    return [
+      [calendarDate(year, 1, 1), "New Year's Day"],
+      [addCalendarDays(easter, -2), 'Good Friday'],
+      [addCalendarDays(easter, 1), 'Easter Monday'],
+      [getNthWeekday(year, 5, 1, 1), 'Early May Bank Holiday'],
+      [getNthWeekday(year, 5, 1, -1), 'Spring Bank Holiday'],
+      [getNthWeekday(year, 8, 1, -1), 'Summer Bank Holiday'],
+      [calendarDate(year, 12, 25), 'Christmas Day'],
+      [calendarDate(year, 12, 26), 'Boxing Day'],
+    ].map(([date, name]): HolidayEntry => [date, name, name]);
+  },
+};
+
+/**
+ * Holidays already computed, keyed by "country-year"
+ */
+const holidayCache = new Map<string, PublicHoliday[]>();
+
+/**
+ * Get the public holidays of a country in a year, sorted by date
+ * Weekend holidays in the US and UK also get their observed weekday off
+ *
+ * @param country - Holiday country
+ * @param year - Gregorian year
+ * @returns Holidays falling within the year (a date may have several)
+ */
+export function getPublicHolidays(country: HolidayCountry, year: number): PublicHoliday[] {
+  const cacheKey = `${country}-${year}`;
+  const cached = holidayCache.get(cacheKey);
+  if (cached) return cached;
+
+  // Neighboring years can spill into this one (multi-day festivals, observed days)
+  const entries = [year - 1, year, year + 1].flatMap((ruleYear) =>
+    addObservedHolidays(country, HOLIDAY_RULES[country](ruleYear))
+  );
+
+  const prefix = `${year}-`;
+  const holidays = entries
+    .filter(([date]) => date.startsWith(prefix))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, name, localName]) => ({ date, name, localName, country }));
+
+  holidayCache.set(cacheKey, holidays);
+  return holidays;
+}
+
+/**
+ * Get the public holidays of a country between two dates (inclusive)
+ */
+export function getPublicHolidaysBetween(
+  country: HolidayCountry,
+  startDate: CalendarDate,
+  endDate: CalendarDate
+): PublicHoliday[] {
+  const holidays: PublicHoliday[] = [];
+  const lastYear = parseInt(endDate.slice(0, 4), 10);
+
+  for (let year = parseInt(startDate.slice(0, 4), 10); year <= lastYear; year++) {
+    for (const holiday of getPublicHolidays(country, year)) {
+      if (holiday.date >= startDate && holiday.date <= endDate) holidays.push(holiday);
+    }
+  }
+
+  return holidays;
+}
+
+/**
+ * Check if a date is a public holiday in a country
+ */
+export function isPublicHoliday(country: HolidayCountry, date: CalendarDate): boolean {
+  return getPublicHolidays(country, parseInt(date.slice(0, 4), 10)).some((holiday) => holiday.date === date);
+}
+
+/**
+ * Weekend days by country (0 = Sunday); countries not listed rest on Saturday and Sunday
+ */
+const WEEKEND_DAYS: Partial<Record<HolidayCountry, number[]>> = {
+  SA: [5, 6],
+};
+
+const DEFAULT_WEEKEND_DAYS = [0, 6];
+
+/**
+ * Get the weekend days of a country (0 = Sunday)
+ * Without a country the weekend is Saturday and Sunday
+ */
+export function getWeekendDays(country?: HolidayCountry | null): number[] {
+  return (country && WEEKEND_DAYS[country]) || DEFAULT_WEEKEND_DAYS;
+}
+
+/**
+ * Check if a date falls on a country's weekend
+ */
+export function isWeekendDay(country: HolidayCountry | null | undefined, date: CalendarDate): boolean {
+  return getWeekendDays(country).includes(parseCalendarDate(date).getDay());
+}
+
+/**
+ * Get the holiday country for a region, if it has a bundled calendar
+ *
+ * @param regionCode - ISO 3166-1 alpha-2 code; defaults to the device region
+ * @returns Holiday country, or null for regions without a calendar
+ */
+export function getDefaultHolidayCountry(
+  regionCode: string | null = getDeviceRegionCode()
+): HolidayCountry | null {
+  const code = regionCode?.toUpperCase() === 'UK' ? 'GB' : regionCode?.toUpperCase();
+  return HOLIDAY_COUNTRIES.find((country) => country === code) ?? null;
+}
+
+/**
+ * Get the flag emoji of a holiday country (e.g. 'TR' -> 🇹🇷)
+ */
+export function getHolidayCountryFlag(country: HolidayCountry): string {
+  return String.fromCodePoint(...[...country].map((letter) => 0x1f1e6 + letter.charCodeAt(0) - 65));
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Format a year, month (1-based) and day as a calendar date
+ */
+function calendarDate(year: number, month: number, day: number): CalendarDate {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Get a run of consecutive days starting at a date
+ */
+function getConsecutiveDays(start: CalendarDate, count: number): CalendarDate[] {
+  return Array.from({ length: count }, (_, index) => addCalendarDays(start, index));
+}
+
+/**
+ * Get the days of a lunar holiday from its table
+ *
+ * @param table - First days of the holiday
+ * @param year - Gregorian year the holiday starts in
+ * @param offset - Days from the table date to the first day off (e.g. -1 for an eve)
+ * @param days - Number of consecutive days off
+ */
+function getLunarHolidays(
+  table: CalendarDate[],
+  year: number,
+  offset: number,
+  days: number,
+  name: string,
+  localName: string
+): HolidayEntry[] {
+  return table
+    .filter((date) => date.startsWith(`${year}-`))
+    .flatMap((date) => getConsecutiveDays(addCalendarDays(date, offset), days))
+    .map((date) => [date, name, localName]);
+}
+
+/**
+ * Get the nth weekday of a month (n = -1 for the last one)
+ * Example: getNthWeekday(2026, 11, 4, 4) -> fourth Thursday of November
+ *
+ * @param month - Month (1-based)
+ * @param weekday - JavaScript weekday (0 = Sunday)
+ */
+function getNthWeekday(year: number, month: number, weekday: number, n: number): CalendarDate {
+  if (n < 0) {
+    const lastDay = new Date(year, month, 0).getDate();
+    const lastWeekday = new Date(year, month - 1, lastDay).getDay();
+    return calendarDate(year, month, lastDay - ((lastWeekday - weekday + 7) % 7));
+  }
+
+  const firstWeekday = new Date(year, month - 1, 1).getDay();
+  return calendarDate(year, month, 1 + ((weekday - firstWeekday + 7) % 7) + (n - 1) * 7);
+}
+
+/**
+ * Get Western (Gregorian) Easter Sunday (anonymous Gregorian algorithm)
+ */
+export function getEasterDate(year: number): CalendarDate {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return calendarDate(year, month, day);
+}
+
+/**
+ * Get Orthodox Easter Sunday (Julian computus, shifted to the Gregorian calendar)
+ * The 13-day shift holds for 1900-2099
+ */
+function getOrthodoxEasterDate(year: number): CalendarDate {
+  const a = year % 4;
+  const b = year % 7;
+  const c = year % 19;
+  const d = (19 * c + 15) % 30;
+  const e = (2 * a + 4 * b - d + 34) % 7;
+  const month = Math.floor((d + e + 114) / 31);
+  const day = ((d + e + 114) % 31) + 1;
+
+  return addCalendarDays(calendarDate(year, month, day), 13);
+}
+
+/**
+ * Get the Qingming Festival date (solar term, April 4 or 5)
+ * Uses the standard 21st-century approximation
+ */
+function getQingmingDate(year: number): CalendarDate {
+  const y = year % 100;
+  return calendarDate(year, 4, Math.floor(y * 0.2422 + 4.81) - Math.floor(y / 4));
+}
+
+/**
+ * Add the weekday off for holidays that fall on a weekend (US and UK)
+ */
+function addObservedHolidays(country: HolidayCountry, entries: HolidayEntry[]): HolidayEntry[] {
+  const observance = HOLIDAY_OBSERVANCE[country];
+  if (!observance) return entries;
+
+  const taken = new Set(entries.map(([date]) => date));
+  const observed: HolidayEntry[] = [];
+
+  for (const [date, name, localName] of [...entries].sort(([a], [b]) => a.localeCompare(b))) {
+    const weekday = parseCalendarDate(date).getDay();
+    if (weekday !== 0 && weekday !== 6) continue;
+
+    let observedDate: CalendarDate;
+    if (observance.rule === 'nearestWeekday') {
+      observedDate = addCalendarDays(date, weekday === 6 ? -1 : 1);
+    } else {
+      observedDate = addCalendarDays(date, weekday === 6 ? 2 : 1);
+      while (taken.has(observedDate)) observedDate = addCalendarDays(observedDate, 1);
+    }
+
+    taken.add(observedDate);
+    observed.push([observedDate, `${name} (${observance.suffix})`, `${localName} (${observance.suffix})`]);
+  }
+
+  return [...entries, ...observed];
+}
@@ -0,0 +1,115 @@
+/**
+ * Life Expectancy Table
+ * Bundled offline defaults for the "Memento Mori" life timeline
+ *
+ * Values are approximate period life expectancy at birth (in years),
+ * rounded to whole years, based on WHO Global Health Observatory estimates.
+ * They are only a starting point — users can always adjust the lifespan.
+ */
+
+import * as Localization from 'expo-localization';
+
+/**
+ * Sex options used to pick a life expectancy value
+ * 'unspecified' uses the average of female and male values
+ */
+export type LifeExpectancySex = 'female' | 'male' | 'unspecified';
+
+interface LifeExpectancyEntry {
+  female: number;
+  male: number;
+}
+
+/**
+ * Fallback used when the country is unknown (global average)
+ */
+const WORLD_LIFE_EXPECTANCY: LifeExpectancyEntry = { female: 76, male: 71 };
+
+/**
+ * Life expectancy at birth by ISO 3166-1 alpha-2 country code
+ */
+export const LifeExpectancyByCountry: Record<string, LifeExpectancyEntry> = {
+  AE: { female: 79, male: 77 },
+  AR: { female: 80, male: 74 },
+  AT: { female: 84, male: 79 },
+  AU: { female: 85, male: 81 },
+  BE: { female: 84, male: 79 },
+  BR: { female: 79, male: 72 },
+  CA: { female: 84, male: 80 },
+  CH: { female: 86, male: 82 },
+  CL: { female: 83, male: 78 },
+  CN: { female: 80, male: 75 },
+  CY: { female: 85, male: 81 },
+  CZ: { female: 82, male: 76 },
+  DE: { female: 83, male: 79 },
+  DK: { female: 83, male: 80 },
+  DZ: { female: 78, male: 76 },
+  EG: { female: 74, male: 69 },
+  ES: { female: 86, male: 80 },
+  FI: { female: 84, male: 79 },
+  FR: { female: 85, male: 80 },
+  GB: { female: 83, male: 79 },
+  GR: { female: 84, male: 79 },
+  HK: { female: 88, male: 83 },
+  HU: { female: 80, male: 73 },
+  ID: { female: 73, male: 69 },
+  IE: { female: 84, male: 80 },
+  IL: { female: 85, male: 81 },
+  IN: { female: 72, male: 69 },
+  IQ: { female: 75, male: 71 },
+  IR: { female: 79, male: 76 },
+  IT: { female: 85, male: 81 },
+  JO: { female: 79, male: 76 },
+  JP: { female: 87, male: 81 },
+  KR: { female: 86, male: 80 },
+  KW: { female: 82, male: 80 },
+  KZ: { female: 77, male: 68 },
+  LB: { female: 79, male: 76 },
+  MA: { female: 75, male: 72 },
+  MX: { female: 79, male: 73 },
+  NG: { female: 64, male: 62 },
+  NL: { female: 83, male: 80 },
+  NO: { female: 84, male: 81 },
+  NZ: { female: 84, male: 80 },
+  PK: { female: 67, male: 65 },
+  PL: { female: 82, male: 74 },
+  PT: { female: 84, male: 79 },
+  QA: { female: 79, male: 77 },
+  RO: { female: 80, male: 73 },
+  RU: { female: 78, male: 68 },
+  SA: { female: 79, male: 76 },
+  SE: { female: 84, male: 81 },
+  SG: { female: 86, male: 82 },
+  TN: { female: 79, male: 75 },
+  TR: { female: 80, male: 75 },
+  TW: { female: 84, male: 78 },
+  UA: { female: 77, male: 68 },
+  US: { female: 81, male: 76 },
+  ZA: { female: 68, male: 62 },
+};
+
+/**
+ * Get the device region as an ISO 3166-1 alpha-2 code (e.g. 'TR'), if known
+ */
+export function getDeviceRegionCode(): string | null {
+  return Localization.getLocales()[0]?.regionCode?.toUpperCase() ?? null;
+}
+
+/**
+ * Look up the expected lifespan for a country and sex
+ *
+ * @param countryCode - ISO 3166-1 alpha-2 code; defaults to the device region
+ * @param sex - Sex used for the lookup; 'unspecified' averages both values
+ * @returns Expected lifespan in whole years
+ */
+export function getLifeExpectancy(
+  countryCode: string | null = getDeviceRegionCode(),
+  sex: LifeExpectancySex = 'unspecified'
+): number {
+  const entry =
+    (countryCode && LifeExpectancyByCountry[countryCode.toUpperCase()]) || WORLD_LIFE_EXPECTANCY;
+
+  if (sex === 'female') return entry.female;
+  if (sex === 'male') return entry.male;
+  return Math.round((entry.female + entry.male) / 2);
+}
@@ -0,0 +1,105 @@
+/**
+ * Timeline Templates
+ * Built-in gallery of ready-made CUSTOM timelines
+ *
+ * Titles are i18n keys (translated when a template is shown or applied).
+ * Offsets count days from the start date, so a template fits any start.
+ * Lent and Ramadan start on the current or next feast instead of today.
+ */
+
+import { TimelineTemplate } from '@/types/timeline';
+import { PhaseColors } from '@/constants/theme';
+
+export const BUILT_IN_TEMPLATES: TimelineTemplate[] = [
+  {
+    id: 'builtin_pregnancy',
+    title: 'templates.pregnancy',
+    durationDays: 280,
+    unit: 'week',
+    phases: [
+      { title: 'templates.firstTrimester', startOffset: 0, endOffset: 90, color: PhaseColors[0] },
+      { title: 'templates.secondTrimester', startOffset: 91, endOffset: 188, color: PhaseColors[1] },
+      { title: 'templates.thirdTrimester', startOffset: 189, endOffset: 279, color: PhaseColors[2] },
+    ],
+    markers: [
+      { title: 'templates.firstScan', dayOffset: 77 },
+      { title: 'templates.anatomyScan', dayOffset: 133 },
+      { title: 'templates.dueDate', dayOffset: 279 },
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'builtin_75_hard',
+    title: 'templates.seventyFiveHard',
+    durationDays: 75,
+    trackingMode: 'habit',
+    markers: [{ title: 'templates.halfway', dayOffset: 37 }],
+    builtIn: true,
+  },
+  {
+    id: 'builtin_semester',
+    title: 'templates.semester',
+    durationDays: 112,
+    phases: [
+      { title: 'templates.classes', startOffset: 0, endOffset: 97, color: PhaseColors[4] },
+      { title: 'templates.finals', startOffset: 98, endOffset: 111, color: PhaseColors[3] },
+    ],
+    markers: [{ title: 'templates.midterms', dayOffset: 49 }],
+    builtIn: true,
+  },
+  {
+    id: 'builtin_100_day_project',
+    title: 'templates.hundredDayProject',
+    durationDays: 100,
+    trackingMode: 'habit',
+    markers: [{ title: 'templates.halfway', dayOffset: 49 }],
+    builtIn: true,
+  },
+  {
+    id: 'builtin_sabbatical',
+    title: 'templates.sabbatical',
+    durationDays: 182,
+    phases: [
+      { title: 'templates.unwind', startOffset: 0, endOffset: 29, color: PhaseColors[4] },
+      { title: 'templates.explore', startOffset: 30, endOffset: 167, color: PhaseColors[1] },
+      { title: 'templates.reentry', startOffset: 168, endOffset: 181, color: PhaseColors[0] },
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'builtin_marathon',
+    title: 'templates.marathonTraining',
+    durationDays: 112,
+    phases: [
+      { title: 'templates.base', startOffset: 0, endOffset: 27, color: PhaseColors[1] },
+      { title: 'templates.build', startOffset: 28, endOffset: 69, color: PhaseColors[0] },
+      { title: 'templates.peak', startOffset: 70, endOffset: 90, color: PhaseColors[3] },
+      { title: 'templates.taper', startOffset: 91, endOffset: 111, color: PhaseColors[4] },
+    ],
+    markers: [{ title: 'templates.raceDay', dayOffset: 111 }],
+    builtIn: true,
+  },
+  {
+    // Ash Wednesday through Holy Saturday
+    id: 'builtin_lent',
+    title: 'templates.lent',
+    durationDays: 46,
+    anchor: 'lent',
+    phases: [{ title: 'templates.holyWeek', startOffset: 39, endOffset: 45, color: PhaseColors[2] }],
+    markers: [
+      { title: 'templates.palmSunday', dayOffset: 39 },
+      { title: 'templates.goodFriday', dayOffset: 44 },
+    ],
+    builtIn: true,
+  },
+  {
+    // The Hijri month of Ramadan (29 or 30 days)
+    id: 'builtin_ramadan',
+    title: 'templates.ramadan',
+    durationDays: 30,
+    anchor: 'ramadan',
+    phases: [{ title: 'templates.lastTenNights', startOffset: 20, endOffset: 29, color: PhaseColors[2] }],
+    markers: [{ title: 'templates.laylatAlQadr', dayOffset: 26 }],
+    builtIn: true,
+  },
+];
@@ -8,6 +8,7 @@
  */
 
 import { Platform } from 'react-native';
+import { MoodRating } from '@/types/timeline';
 
 /**
  * Color System
@@ -86,6 +87,9 @@ export const Colors = {
  * Grid Color Palettes
  * Predefined color themes for grid visualization
  * Filled dots = vibrant color, Empty dots = neutral gray (high contrast)
+ * Marker dots = ring in a contrasting accent color
+ * Holiday dots = ring in a second accent color
+ * Habit dots = done (palette color) / missed / skipped
  */
 export const GridColorPalettes = {
   classic: {
@@ -93,10 +97,20 @@ export const GridColorPalettes = {
     light: {
       dotFilled: '#007AFF',
       dotEmpty: '#D1D1D6',
+      dotMarker: '#FF9500',
+      dotHoliday: '#FF2D55',
+      habitDone: '#007AFF',
+      habitMissed: '#FF3B30',
+      habitSkipped: '#A2A2A8',
     },
     dark: {
       dotFilled: '#007AFF',
       dotEmpty: '#333333',
+      dotMarker: '#FF9F0A',
+      dotHoliday: '#FF375F',
+      habitDone: '#007AFF',
+      habitMissed: '#FF453A',
+      habitSkipped: '#636366',
     },
   },
   forest: {
@@ -104,10 +118,20 @@ export const GridColorPalettes = {
     light: {
       dotFilled: '#34C759',
       dotEmpty: '#D1D1D6',
+      dotMarker: '#FF9500',
+      dotHoliday: '#AF52DE',
+      habitDone: '#34C759',
+      habitMissed: '#FF3B30',
+      habitSkipped: '#A2A2A8',
     },
     dark: {
       dotFilled: '#30D158',
       dotEmpty: '#333333',
+      dotMarker: '#FF9F0A',
+      dotHoliday: '#BF5AF2',
+      habitDone: '#30D158',
+      habitMissed: '#FF453A',
+      habitSkipped: '#636366',
     },
   },
   sunset: {
@@ -115,10 +139,20 @@ export const GridColorPalettes = {
     light: {
       dotFilled: '#FF9500',
       dotEmpty: '#D1D1D6',
+      dotMarker: '#007AFF',
+      dotHoliday: '#34C759',
+      habitDone: '#FF9500',
+      habitMissed: '#FF3B30',
+      habitSkipped: '#A2A2A8',
     },
     dark: {
       dotFilled: '#FF9F0A',
       dotEmpty: '#333333',
+      dotMarker: '#0A84FF',
+      dotHoliday: '#30D158',
+      habitDone: '#FF9F0A',
+      habitMissed: '#FF453A',
+      habitSkipped: '#636366',
     },
   },
   monochrome: {
@@ -126,14 +160,43 @@ export const GridColorPalettes = {
     light: {
       dotFilled: '#000000',
       dotEmpty: '#D1D1D6',
+      dotMarker: '#FF3B30',
+      dotHoliday: '#007AFF',
+      habitDone: '#000000',
+      habitMissed: '#FF3B30',
+      habitSkipped: '#A2A2A8',
     },
     dark: {
       dotFilled: '#FFFFFF',
       dotEmpty: '#333333',
+      dotMarker: '#FF453A',
+      dotHoliday: '#0A84FF',
+      habitDone: '#FFFFFF',
+      habitMissed: '#FF453A',
+      habitSkipped: '#636366',
     },
   },
 };
 
+/**
+ * Phase Colors
+ * Fill colors for timeline phases, offered in order
+ */
+export const PhaseColors = ['#FF9500', '#34C759', '#AF52DE', '#FF2D55', '#5AC8FA', '#FFCC00'];
+
+/**
+ * Mood Colors
+ * Gradient for mood ratings, from 1 (red) to 5 (green)
+ * Used for filled dots in the 'mood' grid display mode
+ */
+export const MoodColors: Record<MoodRating, string> = {
+  1: '#FF453A',
+  2: '#FF9F0A',
+  3: '#FFD60A',
+  4: '#A4D65E',
+  5: '#30D158',
+};
+
 /**
  * Typography System
  * SF Pro for body text, Serif (New York/Georgia) for timeline titles only
@@ -275,6 +338,7 @@ export const Layout = {
 
   // Grid dot sizing (calculated dynamically, these are reference values)
   minDotSize: 6,
+  minDotSizeDense: 1, // Life-in-weeks grids (thousands of dots)
   maxDotSize: 14,
   dotSpacingRatioHorizontal: 0.25, // 25% of dot size
   dotSpacingRatioVertical: 0.25,   // 25% of dot size (symmetric spacing)
@@ -0,0 +1,31 @@
+/**
+ * Jest environment with a switchable device timezone
+ *
+ * Tests run in a sandbox whose process.env is a copy, so assigning TZ there
+ * never reaches the date library. This environment exposes setTimeZone(),
+ * which changes TZ on the real worker process (Dates created afterwards use
+ * the new zone), and restores the original zone after each test file.
+ *
+ * Usage (in a test): setTimeZone('America/New_York');
+ */
+
+const ReactNativeEnvironment = require('react-native/jest/react-native-env');
+
+module.exports = class TimezoneEnvironment extends ReactNativeEnvironment {
+  constructor(config, context) {
+    super(config, context);
+    this.originalTimeZone = process.env.TZ;
+    this.global.setTimeZone = (timeZone) => {
+      process.env.TZ = timeZone;
+    };
+  }
+
+  async teardown() {
+    if (this.originalTimeZone === undefined) {
+      delete process.env.TZ;
+    } else {
+      process.env.TZ = this.originalTimeZone;
+    }
+    await super.teardown();
+  }
+};
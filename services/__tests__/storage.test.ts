@@ -0,0 +1,186 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Timeline, TimelineType } from '@/types/timeline';
+import { exportData, loadTimelines, saveTimeline, saveTimelineTemplate } from '@/services/storage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const TIMELINES_KEY = '@stoic_calendar:timelines';
+
+function createTimeline(overrides: Partial<Timeline> = {}): Timeline {
+  return {
+    id: 'timeline-1',
+    type: TimelineType.CUSTOM,
+    title: 'Project',
+    startDate: '2026-03-08',
+    endDate: '2099-02-28',
+    createdAt: '2026-03-08T12:00:00.000Z',
+    isActive: true,
+    ...overrides,
+  };
+}
+
+/**
+ * Legacy timeline as older versions stored it: local midnight of the start
+ * date and local end of day of the end date, as UTC instants
+ */
+function createLegacyTimeline(id: string, startDate: [number, number, number], endDate: [number, number, number]) {
+  const [startYear, startMonth, startDay] = startDate;
+  const [endYear, endMonth, endDay] = endDate;
+
+  return createTimeline({
+    id,
+    startDate: new Date(startYear, startMonth - 1, startDay).toISOString(),
+    endDate: new Date(endYear, endMonth - 1, endDay, 23, 59, 59, 999).toISOString(),
+  });
+}
+
+async function storeTimelines(timelines: Timeline[]): Promise<void> {
+  await AsyncStorage.setItem(TIMELINES_KEY, JSON.stringify(timelines));
+}
+
+async function readStoredTimelines(): Promise<Timeline[]> {
+  return JSON.parse((await AsyncStorage.getItem(TIMELINES_KEY)) ?? '[]');
+}
+
+describe('storage', () => {
+  beforeEach(async () => {
+    setTimeZone('America/New_York');
+    await AsyncStorage.clear();
+  });
+
+  describe('migrateTimelineDates (via loadTimelines)', () => {
+    it('converts legacy local midnight / end of day instants to calendar dates', async () => {
+      await storeTimelines([createLegacyTimeline('leap', [2024, 2, 29], [2099, 2, 28])]);
+
+      const [timeline] = await loadTimelines();
+
+      expect(timeline.startDate).toBe('2024-02-29');
+      expect(timeline.endDate).toBe('2099-02-28');
+    });
+
+    it('persists the migrated dates', async () => {
+      await storeTimelines([createLegacyTimeline('leap', [2024, 2, 29], [2099, 2, 28])]);
+
+      await loadTimelines();
+      const [stored] = await readStoredTimelines();
+
+      expect(stored.startDate).toBe('2024-02-29');
+      expect(stored.endDate).toBe('2099-02-28');
+    });
+
+    it.each([
+      ['Feb 29 end', [2024, 1, 1], [2096, 2, 29], '2024-01-01', '2096-02-29'],
+      ['Feb 28 end', [2024, 2, 29], [2097, 2, 28], '2024-02-29', '2097-02-28'],
+      ['January end', [2026, 1, 31], [2098, 1, 31], '2026-01-31', '2098-01-31'],
+      ['April end', [2026, 4, 30], [2098, 4, 30], '2026-04-30', '2098-04-30'],
+      ['year end', [2025, 12, 31], [2098, 12, 31], '2025-12-31', '2098-12-31'],
+      ['year start', [2026, 1, 1], [2099, 1, 1], '2026-01-01', '2099-01-01'],
+    ] as const)('keeps the %s', async (_, start, end, expectedStart, expectedEnd) => {
+      await storeTimelines([createLegacyTimeline('legacy', [...start], [...end])]);
+
+      const [timeline] = await loadTimelines();
+
+      expect(timeline.startDate).toBe(expectedStart);
+      expect(timeline.endDate).toBe(expectedEnd);
+    });
+
+    it.each(['Asia/Tokyo', 'Pacific/Kiritimati', 'Pacific/Pago_Pago', 'Australia/Sydney'])(
+      'converts instants written and read in %s',
+      async (timeZone) => {
+        setTimeZone(timeZone);
+        await storeTimelines([
+          createLegacyTimeline('leap', [2024, 2, 29], [2096, 2, 29]),
+          createLegacyTimeline('year-end', [2025, 12, 31], [2098, 12, 31]),
+        ]);
+
+        const [leap, yearEnd] = await loadTimelines();
+
+        expect(leap.startDate).toBe('2024-02-29');
+        expect(leap.endDate).toBe('2096-02-29');
+        expect(yearEnd.startDate).toBe('2025-12-31');
+        expect(yearEnd.endDate).toBe('2098-12-31');
+      }
+    );
+
+    it('converts instants written on spring-forward and fall-back days', async () => {
+      await storeTimelines([
+        createLegacyTimeline('spring', [2026, 3, 8], [2099, 3, 8]),
+        createLegacyTimeline('fall', [2026, 11, 1], [2099, 11, 1]),
+      ]);
+
+      const [spring, fall] = await loadTimelines();
+
+      expect(spring.startDate).toBe('2026-03-08');
+      expect(spring.endDate).toBe('2099-03-08');
+      expect(fall.startDate).toBe('2026-11-01');
+      expect(fall.endDate).toBe('2099-11-01');
+    });
+
+    it('keeps open-ended timelines without an end date', async () => {
+      await storeTimelines([
+        createTimeline({ startDate: new Date(2026, 0, 1).toISOString(), endDate: undefined }),
+      ]);
+
+      const [timeline] = await loadTimelines();
+
+      expect(timeline.startDate).toBe('2026-01-01');
+      expect(timeline.endDate).toBeUndefined();
+    });
+
+    it('leaves timelines that already use calendar dates untouched', async () => {
+      const stored = createTimeline();
+      await storeTimelines([stored]);
+
+      expect(await loadTimelines()).toEqual([stored]);
+    });
+
+    it('keeps migrated dates when the device time zone changes afterwards', async () => {
+      await storeTimelines([createLegacyTimeline('leap', [2024, 2, 29], [2096, 2, 29])]);
+      await loadTimelines();
+
+      setTimeZone('Pacific/Kiritimati');
+      const [timeline] = await loadTimelines();
+
+      expect(timeline.startDate).toBe('2024-02-29');
+      expect(timeline.endDate).toBe('2096-02-29');
+    });
+  });
+
+  describe('device time zone change between save and load', () => {
+    it.each(['Asia/Tokyo', 'Pacific/Kiritimati', 'Pacific/Pago_Pago', 'Europe/London'])(
+      'keeps saved dates when read in %s',
+      async (timeZone) => {
+        await saveTimeline(createTimeline({ startDate: '2024-02-29', endDate: '2099-12-31' }));
+
+        setTimeZone(timeZone);
+        const [timeline] = await loadTimelines();
+
+        expect(timeline.startDate).toBe('2024-02-29');
+        expect(timeline.endDate).toBe('2099-12-31');
+      }
+    );
+
+    it('keeps dates saved on a DST transition day', async () => {
+      await saveTimeline(createTimeline({ id: 'spring', startDate: '2026-03-08', endDate: '2099-11-01' }));
+
+      setTimeZone('Europe/London');
+      const [timeline] = await loadTimelines();
+
+      expect(timeline.startDate).toBe('2026-03-08');
+      expect(timeline.endDate).toBe('2099-11-01');
+    });
+  });
+
+  describe('exportData', () => {
+    it('includes saved templates', async () => {
+      const template = { id: 'template-1', title: 'Exam prep', durationDays: 30 };
+      await saveTimelineTemplate(template);
+
+      const data = JSON.parse(await exportData());
+
+      expect(data.templates).toEqual([template]);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { Timeline, TimelineType } from '@/types/timeline';
+import {
+  calculateTimelineStats,
+  getRecurrencePeriod,
+  getTimelineDaysPassed,
+  getTimelineDaysRemaining,
+  getTimelineProgressPercentage,
+  getTimelineTotalDays,
+} from '@/services/timeline-calculator';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+function createTimeline(overrides: Partial<Timeline> = {}): Timeline {
+  return {
+    id: 'timeline-1',
+    type: TimelineType.CUSTOM,
+    title: 'Sprint',
+    startDate: '2026-01-05',
+    endDate: '2026-01-18',
+    createdAt: '2026-01-01T12:00:00.000Z',
+    isActive: true,
+    ...overrides,
+  };
+}
+
+describe('timeline-calculator', () => {
+  beforeEach(() => {
+    setTimeZone('America/New_York');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('counting rules', () => {
+    it('skips Saturdays and Sundays without a holiday country', () => {
+      jest.useFakeTimers({ now: new Date(2026, 0, 10, 12) });
+      const timeline = createTimeline({ countingRules: { excludeWeekends: true } });
+
+      expect(getTimelineTotalDays(timeline)).toBe(10);
+      expect(getTimelineDaysPassed(timeline)).toBe(5);
+      expect(getTimelineDaysRemaining(timeline)).toBe(5);
+      expect(getTimelineProgressPercentage(timeline)).toBe(50);
+    });
+
+    it("skips the holiday country's weekend", () => {
+      // Jan 5, 2026 is a Monday; the Saudi weekend is Friday and Saturday
+      jest.useFakeTimers({ now: new Date(2026, 0, 8, 12) });
+      const timeline = createTimeline({ countingRules: { excludeWeekends: true, holidayCountry: 'SA' } });
+
+      expect(getTimelineTotalDays(timeline)).toBe(10);
+      expect(getTimelineDaysPassed(timeline)).toBe(4);
+      expect(calculateTimelineStats(timeline).excludedDays).toBe(4);
+    });
+
+    it('recounts when the day changes', () => {
+      jest.useFakeTimers({ now: new Date(2026, 0, 9, 23, 59) });
+      const timeline = createTimeline({ countingRules: { excludeWeekends: true } });
+      expect(getTimelineDaysPassed(timeline)).toBe(5);
+
+      jest.setSystemTime(new Date(2026, 0, 12, 0, 1));
+      expect(getTimelineDaysPassed(timeline)).toBe(6);
+      expect(getTimelineDaysRemaining(timeline)).toBe(4);
+    });
+
+    it('recounts an edited copy of the timeline', () => {
+      jest.useFakeTimers({ now: new Date(2026, 0, 10, 12) });
+      const timeline = createTimeline({ countingRules: { excludeWeekends: true } });
+      expect(getTimelineTotalDays(timeline)).toBe(10);
+
+      const pause = { id: 'pause', startDate: '2026-01-12', endDate: '2026-01-13' };
+      const edited = { ...timeline, countingRules: { excludeWeekends: true, pauses: [pause] } };
+      expect(getTimelineTotalDays(edited)).toBe(8);
+    });
+
+    it('does not share stats objects between calls', () => {
+      jest.useFakeTimers({ now: new Date(2026, 0, 10, 12) });
+      const timeline = createTimeline({ countingRules: { excludeWeekends: true } });
+
+      const stats = calculateTimelineStats(timeline);
+      stats.daysPassed = 0;
+
+      expect(calculateTimelineStats(timeline).daysPassed).toBe(5);
+    });
+  });
+
+  describe('getRecurrencePeriod', () => {
+    it('finds the day period containing a date', () => {
+      const rule = { frequency: 'days', interval: 10 } as const;
+
+      expect(getRecurrencePeriod(rule, '2026-01-01', '2026-01-01')).toEqual({
+        startDate: '2026-01-01',
+        endDate: '2026-01-10',
+      });
+      expect(getRecurrencePeriod(rule, '2026-01-01', '2026-01-10').startDate).toBe('2026-01-01');
+      expect(getRecurrencePeriod(rule, '2026-01-01', '2026-01-11')).toEqual({
+        startDate: '2026-01-11',
+        endDate: '2026-01-20',
+      });
+    });
+
+    it('runs week periods across the year boundary', () => {
+      const rule = { frequency: 'weeks', interval: 2 } as const;
+
+      expect(getRecurrencePeriod(rule, '2025-12-22', '2026-01-02')).toEqual({
+        startDate: '2025-12-22',
+        endDate: '2026-01-04',
+      });
+      expect(getRecurrencePeriod(rule, '2025-12-22', '2026-01-05')).toEqual({
+        startDate: '2026-01-05',
+        endDate: '2026-01-18',
+      });
+    });
+
+    it('counts periods back from the anchor for earlier dates', () => {
+      expect(getRecurrencePeriod({ frequency: 'days', interval: 10 }, '2026-01-01', '2025-12-31')).toEqual({
+        startDate: '2025-12-22',
+        endDate: '2025-12-31',
+      });
+    });
+
+    it('treats intervals below one as a single day or week', () => {
+      expect(getRecurrencePeriod({ frequency: 'days', interval: 0 }, '2026-01-01', '2026-03-15')).toEqual({
+        startDate: '2026-03-15',
+        endDate: '2026-03-15',
+      });
+      expect(getRecurrencePeriod({ frequency: 'weeks', interval: -2 }, '2026-01-05', '2026-01-14')).toEqual({
+        startDate: '2026-01-12',
+        endDate: '2026-01-18',
+      });
+    });
+
+    it('keeps one-day periods across DST transitions', () => {
+      const rule = { frequency: 'days', interval: 1 } as const;
+
+      expect(getRecurrencePeriod(rule, '2026-03-01', '2026-03-08').startDate).toBe('2026-03-08');
+      expect(getRecurrencePeriod(rule, '2026-03-01', '2026-11-01').endDate).toBe('2026-11-01');
+    });
+
+    it('starts yearly periods on the anchor month and day', () => {
+      // April 1 fiscal year
+      const rule = { frequency: 'yearly', month: 3, day: 1 } as const;
+
+      expect(getRecurrencePeriod(rule, '2026-04-01', '2026-03-31')).toEqual({
+        startDate: '2025-04-01',
+        endDate: '2026-03-31',
+      });
+      expect(getRecurrencePeriod(rule, '2026-04-01', '2026-04-01')).toEqual({
+        startDate: '2026-04-01',
+        endDate: '2027-03-31',
+      });
+    });
+
+    it('rolls January 1 periods over at New Year', () => {
+      const rule = { frequency: 'yearly', month: 0, day: 1 } as const;
+
+      expect(getRecurrencePeriod(rule, '2025-01-01', '2025-12-31')).toEqual({
+        startDate: '2025-01-01',
+        endDate: '2025-12-31',
+      });
+      expect(getRecurrencePeriod(rule, '2025-01-01', '2026-01-01')).toEqual({
+        startDate: '2026-01-01',
+        endDate: '2026-12-31',
+      });
+    });
+
+    it('moves Feb 29 anchors to Feb 28 in common years', () => {
+      const rule = { frequency: 'yearly', month: 1, day: 29 } as const;
+
+      expect(getRecurrencePeriod(rule, '2024-02-29', '2026-03-01')).toEqual({
+        startDate: '2026-02-28',
+        endDate: '2027-02-27',
+      });
+      expect(getRecurrencePeriod(rule, '2024-02-29', '2027-12-31')).toEqual({
+        startDate: '2027-02-28',
+        endDate: '2028-02-28',
+      });
+      expect(getRecurrencePeriod(rule, '2024-02-29', '2028-02-29')).toEqual({
+        startDate: '2028-02-29',
+        endDate: '2029-02-27',
+      });
+    });
+
+    it('clamps anchor days past the end of the month', () => {
+      const rule = { frequency: 'yearly', month: 3, day: 31 } as const;
+
+      expect(getRecurrencePeriod(rule, '2026-04-30', '2026-05-01')).toEqual({
+        startDate: '2026-04-30',
+        endDate: '2027-04-29',
+      });
+    });
+  });
+});
@@ -7,8 +7,35 @@
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Timeline, AppSettings, ThemeMode, GridColorTheme } from '@/types/timeline';
-import { updateTimelineIfNeeded } from '@/services/timeline-calculator';
+import * as Localization from 'expo-localization';
+import {
+  Timeline,
+  TimelineType,
+  ArchivedTimeline,
+  DayNote,
+  MoodRating,
+  CalendarDate,
+  AppSettings,
+  ThemeMode,
+  GridColorTheme,
+  GridDisplayMode,
+  WeekStartDay,
+  HolidayCountry,
+  CalendarSystem,
+  TimelineTemplate,
+} from '@/types/timeline';
+import {
+  updateTimelineIfNeeded,
+  updateWeekTimeline,
+  updateMonthTimeline,
+  updateYearTimeline,
+  createArchivedTimeline,
+  isPersonalDateTimeline,
+  isDayTimeline,
+  renewTimeline,
+} from '@/services/timeline-calculator';
+import { getDefaultHolidayCountry } from '@/constants/holidays';
+import { isCalendarDate, toCalendarDate, nowISO, setDayStartHour } from '@/utils/date-helpers';
 
 // Lazy import to avoid require cycle with widget-data-service
 const syncWidgetData = async (type: 'timeline' | 'settings') => {
@@ -25,6 +52,10 @@ const syncWidgetData = async (type: 'timeline' | 'settings') => {
  */
 const STORAGE_KEYS = {
   TIMELINES: '@stoic_calendar:timelines',
+  ARCHIVED_TIMELINES: '@stoic_calendar:archived_timelines',
+  DAY_NOTES: '@stoic_calendar:day_notes',
+  MOOD_RATINGS: '@stoic_calendar:mood_ratings',
+  TEMPLATES: '@stoic_calendar:templates',
   SETTINGS: '@stoic_calendar:settings',
   ACTIVE_TIMELINE_ID: '@stoic_calendar:active_timeline_id',
   FIRST_LAUNCH_PAYWALL_SHOWN: '@stoic_calendar:first_launch_paywall_shown',
@@ -37,12 +68,30 @@ const STORAGE_KEYS = {
 
 const PAYWALL_EXPERIMENT_VERSION = '2';
 
+/**
+ * Get the first day of the week for the device locale
+ * Regions that start on another day fall back to Monday (ISO 8601)
+ */
+function getLocaleWeekStartDay(): WeekStartDay {
+  // expo-localization uses 1 = Sunday ... 7 = Saturday
+  const firstWeekday = Localization.getCalendars()[0]?.firstWeekday;
+
+  if (firstWeekday === 1) return 0;
+  if (firstWeekday === 7) return 6;
+  return 1;
+}
+
 /**
  * Default Settings
  */
 const DEFAULT_SETTINGS: AppSettings = {
   themeMode: 'dark', // Dark mode by default (dark-mode-first)
   gridColorTheme: 'classic', // Classic Blue by default
+  gridDisplayMode: 'progress', // Palette-colored progress by default
+  weekStartDay: getLocaleWeekStartDay(), // Follows the device locale by default
+  holidayCountry: getDefaultHolidayCountry(), // Follows the device region by default
+  calendarSystem: 'gregorian',
+  dayStartsAt: 0, // Days start at midnight by default
 };
 
 // ============================================================================
@@ -51,6 +100,7 @@ const DEFAULT_SETTINGS: AppSettings = {
 
 /**
  * Load all timelines from storage
+ * Timelines that rolled over (YEAR/MONTH/WEEK and recurring CUSTOM) are archived before being updated
  * @returns Array of timelines (empty array if none exist)
  */
 export async function loadTimelines(): Promise<Timeline[]> {
@@ -58,18 +108,31 @@ export async function loadTimelines(): Promise<Timeline[]> {
     const data = await AsyncStorage.getItem(STORAGE_KEYS.TIMELINES);
     if (!data) return [];
 
-    const timelines: Timeline[] = JSON.parse(data);
+    const storedTimelines: Timeline[] = JSON.parse(data);
+    const { weekStartDay } = await loadSettings();
+
+    // One-time migration from ISO instants to calendar dates
+    const timelines = storedTimelines.map(migrateTimelineDates);
+    let hasUpdates = timelines.some((timeline, index) => timeline !== storedTimelines[index]);
 
-    let hasUpdates = false;
+    const finishedPeriods: ArchivedTimeline[] = [];
     const normalizedTimelines = timelines.map((timeline) => {
-      const { timeline: updatedTimeline, wasUpdated } = updateTimelineIfNeeded(timeline);
+      const { timeline: updatedTimeline, wasUpdated } = updateTimelineIfNeeded(timeline, {
+        weekStartDay,
+      });
       if (wasUpdated) {
         hasUpdates = true;
+        // Past days of "Today" and past years of a birthday are not worth archiving
+        if (!isDayTimeline(timeline) && !isPersonalDateTimeline(timeline)) {
+          finishedPeriods.push(createArchivedTimeline(timeline));
+        }
       }
       return updatedTimeline;
     });
 
     if (hasUpdates) {
+      // Archive first so a finished period is never lost
+      await addArchivedTimelines(finishedPeriods);
       await AsyncStorage.setItem(STORAGE_KEYS.TIMELINES, JSON.stringify(normalizedTimelines));
     }
 
@@ -106,6 +169,20 @@ export async function saveTimeline(timeline: Timeline): Promise<void> {
   }
 }
 
+/**
+ * Add several new timelines at once (e.g. dates imported from a vCard)
+ * @param newTimelines - Timelines to add
+ */
+export async function addTimelines(newTimelines: Timeline[]): Promise<void> {
+  try {
+    const timelines = await loadTimelines();
+    await AsyncStorage.setItem(STORAGE_KEYS.TIMELINES, JSON.stringify([...timelines, ...newTimelines]));
+  } catch (error) {
+    console.error('Error adding timelines:', error);
+    throw error;
+  }
+}
+
 /**
  * Delete a timeline by ID
  * @param id - Timeline ID to delete
@@ -156,6 +233,124 @@ export async function clearAllTimelines(): Promise<void> {
   }
 }
 
+// ============================================================================
+// Archived Timeline Operations
+// ============================================================================
+
+/**
+ * Load all archived timeline periods from storage
+ * @returns Array of archived timelines (empty array if none exist)
+ */
+export async function loadArchivedTimelines(): Promise<ArchivedTimeline[]> {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.ARCHIVED_TIMELINES);
+    if (!data) return [];
+
+    const archived: ArchivedTimeline[] = JSON.parse(data);
+    return archived.map(migrateTimelineDates);
+  } catch (error) {
+    console.error('Error loading archived timelines:', error);
+    return [];
+  }
+}
+
+/**
+ * Add finished periods to the archive
+ * Storage errors are logged instead of thrown (see storeArchivedTimelines)
+ *
+ * @param periods - Archived timelines to add
+ */
+async function addArchivedTimelines(periods: ArchivedTimeline[]): Promise<void> {
+  try {
+    await storeArchivedTimelines(periods);
+  } catch (error) {
+    // Non-fatal: the rollover itself must still go through
+    console.error('Error archiving timelines:', error);
+  }
+}
+
+/**
+ * Write finished periods to the archive (throws if storage fails)
+ * Skips periods that are already archived (same source timeline and start date)
+ *
+ * @param periods - Archived timelines to add
+ */
+async function storeArchivedTimelines(periods: ArchivedTimeline[]): Promise<void> {
+  if (periods.length === 0) return;
+
+  const archived = await loadArchivedTimelines();
+
+  periods.forEach((period) => {
+    const exists = archived.some(
+      (a) => a.sourceTimelineId === period.sourceTimelineId && a.startDate === period.startDate
+    );
+    if (!exists) {
+      archived.push(period);
+    }
+  });
+
+  await AsyncStorage.setItem(STORAGE_KEYS.ARCHIVED_TIMELINES, JSON.stringify(archived));
+}
+
+/**
+ * Archive a completed timeline
+ * Its final period joins the archive and the timeline leaves the list (and the widget)
+ * @param timeline - Timeline to archive
+ */
+export async function archiveTimeline(timeline: Timeline): Promise<void> {
+  try {
+    // Only remove the timeline once its period is safely archived
+    await storeArchivedTimelines([createArchivedTimeline(timeline)]);
+    await deleteTimeline(timeline.id);
+  } catch (error) {
+    console.error('Error archiving timeline:', error);
+    throw error;
+  }
+}
+
+/**
+ * Start a completed timeline over for the same number of days, from today
+ * The finished period is archived first, like a recurring rollover
+ *
+ * @param timeline - Timeline to renew
+ * @returns The renewed timeline
+ */
+export async function renewCompletedTimeline(timeline: Timeline): Promise<Timeline> {
+  try {
+    const renewed = renewTimeline(timeline);
+    await storeArchivedTimelines([createArchivedTimeline(timeline)]);
+    await saveTimeline(renewed);
+    return renewed;
+  } catch (error) {
+    console.error('Error renewing timeline:', error);
+    throw error;
+  }
+}
+
+/**
+ * Migrate a timeline stored with ISO 8601 instants to calendar dates (YYYY-MM-DD)
+ * Older versions stored local midnight / end of day as UTC instants, so each
+ * instant is converted back to the local date it was created for
+ *
+ * @param timeline - Timeline as stored
+ * @returns The same object if already migrated, otherwise a migrated copy
+ */
+function migrateTimelineDates<T extends Timeline>(timeline: T): T {
+  // Open-ended count-up timelines have no end date
+  if (
+    isCalendarDate(timeline.startDate) &&
+    (timeline.endDate === undefined || isCalendarDate(timeline.endDate))
+  ) {
+    return timeline;
+  }
+
+  return {
+    ...timeline,
+    startDate: toCalendarDate(timeline.startDate),
+    ...(timeline.endDate !== undefined && { endDate: toCalendarDate(timeline.endDate) }),
+  };
+}
+
 // ============================================================================
 // Active Timeline Operations
 // ============================================================================
@@ -242,6 +437,177 @@ export async function clearActiveTimeline(): Promise<void> {
   }
 }
 
+// ============================================================================
+// Day Note Operations
+// ============================================================================
+
+/**
+ * Load all day notes from storage
+ * @returns Notes keyed by calendar date (empty object if none exist)
+ */
+export async function loadDayNotes(): Promise<Record<CalendarDate, DayNote>> {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.DAY_NOTES);
+    if (!data) return {};
+
+    return JSON.parse(data);
+  } catch (error) {
+    console.error('Error loading day notes:', error);
+    return {};
+  }
+}
+
+/**
+ * Get the note for a single day
+ * @param date - Calendar date (YYYY-MM-DD)
+ * @returns Note or null if the day has none
+ */
+export async function getDayNote(date: CalendarDate): Promise<DayNote | null> {
+  const notes = await loadDayNotes();
+  return notes[date] ?? null;
+}
+
+/**
+ * Save the note for a day (creates or updates)
+ * Saving empty text deletes the note
+ *
+ * @param date - Calendar date (YYYY-MM-DD)
+ * @param text - Note text
+ */
+export async function saveDayNote(date: CalendarDate, text: string): Promise<void> {
+  try {
+    const notes = await loadDayNotes();
+    const trimmed = text.trim();
+
+    if (!trimmed) {
+      delete notes[date];
+    } else {
+      const now = nowISO();
+      notes[date] = {
+        date,
+        text: trimmed,
+        createdAt: notes[date]?.createdAt ?? now,
+        updatedAt: now,
+      };
+    }
+
+    await AsyncStorage.setItem(STORAGE_KEYS.DAY_NOTES, JSON.stringify(notes));
+  } catch (error) {
+    console.error('Error saving day note:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete the note for a day
+ * @param date - Calendar date (YYYY-MM-DD)
+ */
+export async function deleteDayNote(date: CalendarDate): Promise<void> {
+  await saveDayNote(date, '');
+}
+
+// ============================================================================
+// Mood Rating Operations
+// ============================================================================
+
+/**
+ * Load all mood ratings from storage
+ * @returns Ratings keyed by calendar date (empty object if none exist)
+ */
+export async function loadMoodRatings(): Promise<Record<CalendarDate, MoodRating>> {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.MOOD_RATINGS);
+    if (!data) return {};
+
+    return JSON.parse(data);
+  } catch (error) {
+    console.error('Error loading mood ratings:', error);
+    return {};
+  }
+}
+
+/**
+ * Save the mood rating for a day
+ * Saving null clears the rating
+ *
+ * @param date - Calendar date (YYYY-MM-DD)
+ * @param rating - Mood rating (1-5) or null
+ */
+export async function saveMoodRating(date: CalendarDate, rating: MoodRating | null): Promise<void> {
+  try {
+    const ratings = await loadMoodRatings();
+
+    if (rating === null) {
+      delete ratings[date];
+    } else {
+      ratings[date] = rating;
+    }
+
+    await AsyncStorage.setItem(STORAGE_KEYS.MOOD_RATINGS, JSON.stringify(ratings));
+  } catch (error) {
+    console.error('Error saving mood rating:', error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// Template Operations
+// ============================================================================
+
+/**
+ * Load the user's saved timeline templates
+ * @returns Templates, newest first (empty array if none exist)
+ */
+export async function loadTimelineTemplates(): Promise<TimelineTemplate[]> {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.TEMPLATES);
+    if (!data) return [];
+
+    return JSON.parse(data);
+  } catch (error) {
+    console.error('Error loading templates:', error);
+    return [];
+  }
+}
+
+/**
+ * Save a user template (added first, or updated in place)
+ * @param template - Template to save
+ */
+export async function saveTimelineTemplate(template: TimelineTemplate): Promise<void> {
+  try {
+    const templates = await loadTimelineTemplates();
+    const existingIndex = templates.findIndex((t) => t.id === template.id);
+
+    if (existingIndex >= 0) {
+      templates[existingIndex] = template;
+    } else {
+      templates.unshift(template);
+    }
+
+    await AsyncStorage.setItem(STORAGE_KEYS.TEMPLATES, JSON.stringify(templates));
+  } catch (error) {
+    console.error('Error saving template:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a user template by ID
+ * @param id - Template ID to delete
+ */
+export async function deleteTimelineTemplate(id: string): Promise<void> {
+  try {
+    const templates = await loadTimelineTemplates();
+    const filtered = templates.filter((t) => t.id !== id);
+
+    await AsyncStorage.setItem(STORAGE_KEYS.TEMPLATES, JSON.stringify(filtered));
+  } catch (error) {
+    console.error('Error deleting template:', error);
+    throw error;
+  }
+}
+
 // ============================================================================
 // Settings Operations
 // ============================================================================
@@ -255,8 +621,11 @@ export async function loadSettings(): Promise<AppSettings> {
     const data = await AsyncStorage.getItem(STORAGE_KEYS.SETTINGS);
     if (!data) return DEFAULT_SETTINGS;
 
-    const settings: AppSettings = JSON.parse(data);
-    return { ...DEFAULT_SETTINGS, ...settings }; // Merge with defaults
+    const settings: AppSettings = { ...DEFAULT_SETTINGS, ...JSON.parse(data) }; // Merge with defaults
+
+    // Every load (including loadTimelines) keeps "today" on the user's day boundary
+    setDayStartHour(settings.dayStartsAt);
+    return settings;
   } catch (error) {
     console.error('Error loading settings:', error);
     return DEFAULT_SETTINGS;
@@ -341,6 +710,202 @@ export async function getGridColorTheme(): Promise<GridColorTheme> {
   }
 }
 
+/**
+ * Update grid display mode
+ * @param mode - Grid display mode to set
+ */
+export async function updateGridDisplayMode(mode: GridDisplayMode): Promise<void> {
+  try {
+    const settings = await loadSettings();
+    settings.gridDisplayMode = mode;
+    await saveSettings(settings);
+  } catch (error) {
+    console.error('Error updating grid display mode:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get current grid display mode
+ * @returns Current grid display mode
+ */
+export async function getGridDisplayMode(): Promise<GridDisplayMode> {
+  try {
+    const settings = await loadSettings();
+    return settings.gridDisplayMode;
+  } catch (error) {
+    console.error('Error getting grid display mode:', error);
+    return 'progress'; // Default to progress
+  }
+}
+
+/**
+ * Update the first day of the week
+ * Realigns WEEK timelines to the new start day without archiving the current week
+ * @param weekStartDay - First day of the week to set
+ */
+export async function updateWeekStartDay(weekStartDay: WeekStartDay): Promise<void> {
+  try {
+    const settings = await loadSettings();
+    settings.weekStartDay = weekStartDay;
+    await saveSettings(settings);
+
+    // Read raw timelines: loadTimelines() would treat the realignment as a rollover
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.TIMELINES);
+    if (!data) return;
+
+    const timelines: Timeline[] = JSON.parse(data);
+    const realignedTimelines = timelines.map((timeline) =>
+      timeline.type === TimelineType.WEEK ? updateWeekTimeline(timeline, weekStartDay) : timeline
+    );
+    await AsyncStorage.setItem(STORAGE_KEYS.TIMELINES, JSON.stringify(realignedTimelines));
+
+    // Sync to widgets (non-fatal)
+    try {
+      await syncWidgetData('timeline');
+    } catch (widgetError) {
+      console.warn('Widget sync failed (non-fatal):', widgetError);
+    }
+  } catch (error) {
+    console.error('Error updating week start day:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the first day of the week
+ * @returns Current first day of the week
+ */
+export async function getWeekStartDay(): Promise<WeekStartDay> {
+  try {
+    const settings = await loadSettings();
+    return settings.weekStartDay;
+  } catch (error) {
+    console.error('Error getting week start day:', error);
+    return DEFAULT_SETTINGS.weekStartDay;
+  }
+}
+
+/**
+ * Update the country whose public holidays are shown
+ * @param country - Holiday country to set (null turns holidays off)
+ */
+export async function updateHolidayCountry(country: HolidayCountry | null): Promise<void> {
+  try {
+    const settings = await loadSettings();
+    settings.holidayCountry = country;
+    await saveSettings(settings);
+  } catch (error) {
+    console.error('Error updating holiday country:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the country whose public holidays are shown
+ * @returns Current holiday country (null when holidays are off)
+ */
+export async function getHolidayCountry(): Promise<HolidayCountry | null> {
+  try {
+    const settings = await loadSettings();
+    return settings.holidayCountry;
+  } catch (error) {
+    console.error('Error getting holiday country:', error);
+    return DEFAULT_SETTINGS.holidayCountry;
+  }
+}
+
+/**
+ * Update the calendar system that "This Year" and "This Month" follow
+ * Existing YEAR/MONTH timelines are realigned to the new calendar
+ * @param calendarSystem - Calendar system to set
+ */
+export async function updateCalendarSystem(calendarSystem: CalendarSystem): Promise<void> {
+  try {
+    const settings = await loadSettings();
+    settings.calendarSystem = calendarSystem;
+    await saveSettings(settings);
+
+    // Read raw timelines: loadTimelines() would treat the realignment as a rollover
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.TIMELINES);
+    if (!data) return;
+
+    const timelines: Timeline[] = JSON.parse(data);
+    const realignedTimelines = timelines.map((timeline) => {
+      const switched: Timeline = {
+        ...timeline,
+        calendarSystem: calendarSystem === 'gregorian' ? undefined : calendarSystem,
+      };
+      if (timeline.type === TimelineType.YEAR) return updateYearTimeline(switched);
+      if (timeline.type === TimelineType.MONTH) return updateMonthTimeline(switched);
+      return timeline;
+    });
+    await AsyncStorage.setItem(STORAGE_KEYS.TIMELINES, JSON.stringify(realignedTimelines));
+
+    // Sync to widgets (non-fatal)
+    try {
+      await syncWidgetData('timeline');
+    } catch (widgetError) {
+      console.warn('Widget sync failed (non-fatal):', widgetError);
+    }
+  } catch (error) {
+    console.error('Error updating calendar system:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the calendar system that "This Year" and "This Month" follow
+ * @returns Current calendar system
+ */
+export async function getCalendarSystem(): Promise<CalendarSystem> {
+  try {
+    const settings = await loadSettings();
+    return settings.calendarSystem;
+  } catch (error) {
+    console.error('Error getting calendar system:', error);
+    return DEFAULT_SETTINGS.calendarSystem;
+  }
+}
+
+/**
+ * Update the hour when a new day begins
+ * Timelines roll over at the new boundary on their next load
+ * @param hour - Hour to set (0 = midnight)
+ */
+export async function updateDayStartsAt(hour: number): Promise<void> {
+  try {
+    const settings = await loadSettings();
+    settings.dayStartsAt = hour;
+    setDayStartHour(hour);
+    await saveSettings(settings);
+
+    // Sync to widgets (non-fatal)
+    try {
+      await syncWidgetData('timeline');
+    } catch (widgetError) {
+      console.warn('Widget sync failed (non-fatal):', widgetError);
+    }
+  } catch (error) {
+    console.error('Error updating day start hour:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the hour when a new day begins
+ * @returns Current day start hour (0 = midnight)
+ */
+export async function getDayStartsAt(): Promise<number> {
+  try {
+    const settings = await loadSettings();
+    return settings.dayStartsAt;
+  } catch (error) {
+    console.error('Error getting day start hour:', error);
+    return DEFAULT_SETTINGS.dayStartsAt;
+  }
+}
+
 // ============================================================================
 // Utility Operations
 // ============================================================================
@@ -353,6 +918,10 @@ export async function clearAllData(): Promise<void> {
   try {
     await AsyncStorage.multiRemove([
       STORAGE_KEYS.TIMELINES,
+      STORAGE_KEYS.ARCHIVED_TIMELINES,
+      STORAGE_KEYS.DAY_NOTES,
+      STORAGE_KEYS.MOOD_RATINGS,
+      STORAGE_KEYS.TEMPLATES,
       STORAGE_KEYS.SETTINGS,
       STORAGE_KEYS.ACTIVE_TIMELINE_ID,
       STORAGE_KEYS.FIRST_LAUNCH_PAYWALL_SHOWN,
@@ -533,16 +1102,25 @@ export async function getAllKeys(): Promise<string[]> {
 
 /**
  * Export all data as JSON (for debugging or backup)
+ * Timeline markers are stored on their timelines and exported with them
  */
 export async function exportData(): Promise<string> {
   try {
     const timelines = await loadTimelines();
+    const archivedTimelines = await loadArchivedTimelines();
+    const dayNotes = await loadDayNotes();
+    const moodRatings = await loadMoodRatings();
+    const templates = await loadTimelineTemplates();
     const settings = await loadSettings();
     const activeId = await getActiveTimelineId();
     const firstLaunchPaywallShown = await hasShownFirstLaunchPaywall();
 
     const data = {
       timelines,
+      archivedTimelines,
+      dayNotes: Object.values(dayNotes),
+      moodRatings,
+      templates,
       settings,
       activeTimelineId: activeId,
       firstLaunchPaywallShown,
@@ -3,8 +3,40 @@
  * Business logic for creating and calculating timeline properties
  */
 
-import { Timeline, TimelineType } from '@/types/timeline';
+import {
+  Timeline,
+  TimelineType,
+  TimelineUnit,
+  ArchivedTimeline,
+  WeekStartDay,
+  CalendarDate,
+  RecurrenceRule,
+  TimelineMarker,
+  TimelinePhase,
+  DayNote,
+  HabitStatus,
+  MoodRating,
+  ExcludedRange,
+  HolidayCountry,
+  PublicHoliday,
+  CalendarSystem,
+  TimelineTemplate,
+  TrackingMode,
+  TimelineGoal,
+  CountingRules,
+  PersonalDate,
+  DayHours,
+  PinnedTime,
+} from '@/types/timeline';
 import i18n, { getCurrentLocale } from '@/services/i18n-service';
+import { getLifeExpectancy } from '@/constants/life-expectancy';
+import {
+  getPublicHolidaysBetween,
+  isPublicHoliday,
+  isWeekendDay,
+  HolidayCountryLanguages,
+  getEasterDate,
+} from '@/constants/holidays';
 import {
   getStartOfCurrentYear,
   getEndOfCurrentYear,
@@ -19,19 +51,74 @@ import {
   getDaysPassed,
   getDaysRemaining,
   getTotalDays,
+  getUnitsPassed,
+  getUnitsRemaining,
+  getTotalUnits,
+  getUnitIndex,
+  getUnitProgressPercentage,
   getProgressPercentage,
-  toISOString,
+  getDateFromDotIndex,
+  addDays,
+  addYears,
+  toCalendarDate,
+  parseCalendarDate,
+  isCalendarDate,
+  addCalendarDays,
+  getDaysBetween,
+  getTodayCalendarDate,
+  isPast,
   nowISO,
+  getHourOfDate,
+  getMinutesBetween,
+  getDayStartHour,
 } from '@/utils/date-helpers';
+import {
+  formatTimeZoneName,
+  getTimeZoneCalendarDate,
+  getTimeZoneMoment,
+} from '@/utils/time-zones';
+import {
+  AlternateCalendarSystem,
+  getCalendarYear,
+  getCalendarMonth,
+  formatCalendarPeriod,
+  getUpcomingCalendarMonth,
+  isCalendarSystemSupported,
+} from '@/utils/calendar-systems';
 
 /**
  * Timeline Configuration
  * Used when creating a new timeline from a type
  */
 export interface TimelineConfig {
-  startDate: string;
-  endDate: string;
+  startDate: CalendarDate;
+  endDate?: CalendarDate;
+  title: string;
+  lifeExpectancy?: number;
+}
+
+/**
+ * Timeline Update Options
+ * User settings that affect how auto-updating timelines are aligned
+ */
+export interface TimelineUpdateOptions {
+  weekStartDay?: WeekStartDay;
+}
+
+/**
+ * Template Timeline Configuration
+ * Fields a template fills in the timeline form (saved as a CUSTOM timeline)
+ */
+export interface TemplateTimelineConfig {
   title: string;
+  startDate: CalendarDate;
+  endDate: CalendarDate;
+  unit?: TimelineUnit;
+  trackingMode?: TrackingMode;
+  goal?: TimelineGoal;
+  markers: TimelineMarker[];
+  phases: TimelinePhase[];
+  countingRules?: CountingRules;
 }
 
 /**
@@ -43,8 +130,143 @@ export interface TimelineStats {
   daysRemaining: number;
   totalDays: number;
   progressPercentage: number;
+
+  /**
+   * Dot-based stats, counted in the timeline's unit (1 dot = 1 unit)
+   */
+  unit: TimelineUnit;
+  unitsPassed: number;
+  unitsRemaining: number;
+  totalUnits: number;
+
+  /**
+   * Count-up stats (open-ended timelines only)
+   * Progress and remaining units are measured toward the next milestone
+   */
+  isOpenEnded: boolean;
+  nextMilestone?: number;
+  daysToNextMilestone?: number;
+
+  /**
+   * Days until the start date (upcoming timelines only)
+   * Present only before the timeline starts; nothing has passed yet
+   */
+  daysUntilStart?: number;
+
+  /**
+   * Habit stats (habit-tracking timelines only)
+   */
+  habit?: HabitStats;
+
+  /**
+   * Goal stats (goal timelines only)
+   * Units and progress percentage then count goal units instead of time
+   */
+  goal?: GoalStats;
+
+  /**
+   * Days skipped by the timeline's counting rules (weekends, holidays, pauses)
+   * Present only when counting rules apply; day counts then cover counted days only
+   */
+  excludedDays?: number;
+
+  /**
+   * Minute-precise stats (DAY timelines; pinned timelines only count down minutesRemaining)
+   * progressPercentage of DAY timelines then keeps one decimal so it moves every few minutes
+   */
+  minutesPassed?: number;
+  minutesRemaining?: number;
+}
+
+/**
+ * Goal Stats
+ * Logged progress of a goal timeline compared with a steady pace
+ */
+export interface GoalStats {
+  target: number;
+  progress: number;
+  unitLabel: string;
+
+  /**
+   * Progress expected by today when moving at a steady pace from startDate to endDate
+   */
+  expected: number;
+
+  /**
+   * progress - expected, rounded to whole units (negative = behind pace)
+   */
+  paceDifference: number;
+}
+
+/**
+ * Habit Stats
+ * Day counts, streaks and completion rate of a habit-tracking timeline
+ */
+export interface HabitStats {
+  done: number;
+  missed: number;
+  skipped: number;
+
+  /**
+   * Consecutive done days up to today (skipped days don't break a streak)
+   */
+  currentStreak: number;
+  longestStreak: number;
+
+  /**
+   * Done days as a percentage of tracked days (0-100), skipped days excluded
+   */
+  completionRate: number;
+}
+
+/**
+ * Phase Stats
+ * Day-based progress within a single phase
+ */
+export interface PhaseStats {
+  daysPassed: number;
+  daysRemaining: number;
+  totalDays: number;
+  progressPercentage: number;
+}
+
+/**
+ * Mood Stats
+ * Averages and streaks across all rated days
+ */
+export interface MoodStats {
+  ratedDays: number;
+
+  /**
+   * Average rating over the last 7 / 30 days (including today),
+   * rounded to one decimal; null when no day in the window is rated
+   */
+  weeklyAverage: number | null;
+  monthlyAverage: number | null;
+
+  /**
+   * Longest run of consecutive days rated MOOD_GOOD_RATING or higher
+   */
+  bestStreak: number;
 }
 
+/**
+ * Round-number day counts celebrated by count-up timelines
+ * After the last entry, milestones continue every COUNT_UP_MILESTONE_STEP days
+ */
+const COUNT_UP_MILESTONES = [7, 30, 50, 100, 200, 365, 500, 1000];
+const COUNT_UP_MILESTONE_STEP = 500;
+
+/**
+ * Lowest mood rating that counts toward a good-day streak
+ */
+const MOOD_GOOD_RATING = 4;
+
+/**
+ * Minutes in a day; pinned countdowns switch from days to hours below it
+ */
+const MINUTES_PER_DAY = 24 * 60;
+
 // ============================================================================
 // Timeline Creation
 // ============================================================================
@@ -52,37 +274,99 @@ export interface TimelineStats {
 /**
  * Generate timeline configuration from a timeline type
  *
- * @param type - Timeline type (YEAR, MONTH, WEEK, CUSTOM)
- * @param customOptions - Optional custom date range (required for CUSTOM type)
+ * @param type - Timeline type (YEAR, HALF_YEAR, QUARTER, MONTH, WEEK, CUSTOM, LIFE)
+ * @param customOptions - Optional custom date range (required for CUSTOM type,
+ *   endDate derived from recurrence when set and omitted when openEnded;
+ *   birthDate required for LIFE type, weekStartDay used by WEEK type)
  * @returns Timeline configuration with start/end dates and title
  */
 export function calculateTimelineFromType(
   type: TimelineType,
   customOptions?: {
     year?: number;
+    half?: number;
+    quarter?: number;
     month?: number;
     startDate?: Date;
     endDate?: Date;
     title?: string;
+    birthDate?: Date;
+    lifeExpectancy?: number;
+    weekStartDay?: WeekStartDay;
+    calendarSystem?: CalendarSystem;
+    recurrence?: RecurrenceRule;
+    openEnded?: boolean;
   }
 ): TimelineConfig {
   switch (type) {
     case TimelineType.YEAR: {
+      // Non-Gregorian calendars always use their current year
+      const calendar = getAlternateCalendar(customOptions?.calendarSystem);
+      if (calendar) {
+        const period = getCalendarYear(calendar);
+        return {
+          ...period,
+          title: formatCalendarPeriod(calendar, 'year', period.startDate, getCurrentLocale()),
+        };
+      }
+
       // Use custom year if provided, otherwise current year
-      const year = customOptions?.year ?? new Date().getFullYear();
+      const year = customOptions?.year ?? parseCalendarDate(getTodayCalendarDate()).getFullYear();
       const startDate = getStartOfYear(year);
       const endDate = getEndOfYear(year);
 
       return {
-        startDate: toISOString(startDate),
-        endDate: toISOString(endDate),
+        startDate: toCalendarDate(startDate),
+        endDate: toCalendarDate(endDate),
         title: year.toString(),
       };
     }
 
+    case TimelineType.HALF_YEAR: {
+      // Use custom half (0 = Jan–Jun, 1 = Jul–Dec) if provided, otherwise current half
+      const now = parseCalendarDate(getTodayCalendarDate());
+      const year = customOptions?.year ?? now.getFullYear();
+      const half = customOptions?.half ?? Math.floor(now.getMonth() / 6);
+
+      const startDate = getStartOfMonth(year, half * 6);
+      const endDate = getEndOfMonth(year, half * 6 + 5);
+
+      return {
+        startDate: toCalendarDate(startDate),
+        endDate: toCalendarDate(endDate),
+        title: i18n.t('timeline.halfYearTitle', { half: half + 1, year }),
+      };
+    }
+
+    case TimelineType.QUARTER: {
+      // Use custom quarter (0-3) if provided, otherwise current quarter
+      const now = parseCalendarDate(getTodayCalendarDate());
+      const year = customOptions?.year ?? now.getFullYear();
+      const quarter = customOptions?.quarter ?? Math.floor(now.getMonth() / 3);
+
+      const startDate = getStartOfMonth(year, quarter * 3);
+      const endDate = getEndOfMonth(year, quarter * 3 + 2);
+
+      return {
+        startDate: toCalendarDate(startDate),
+        endDate: toCalendarDate(endDate),
+        title: i18n.t('timeline.quarterTitle', { quarter: quarter + 1, year }),
+      };
+    }
+
     case TimelineType.MONTH: {
+      // Non-Gregorian calendars always use their current month (e.g. Ramadan 1448)
+      const calendar = getAlternateCalendar(customOptions?.calendarSystem);
+      if (calendar) {
+        const period = getCalendarMonth(calendar);
+        return {
+          ...period,
+          title: formatCalendarPeriod(calendar, 'month', period.startDate, getCurrentLocale()),
+        };
+      }
+
       // Use custom month/year if provided, otherwise current month
-      const now = new Date();
+      const now = parseCalendarDate(getTodayCalendarDate());
       const year = customOptions?.year ?? now.getFullYear();
       const month = customOptions?.month ?? now.getMonth();
 
@@ -93,37 +377,93 @@ export function calculateTimelineFromType(
       const title = monthName;
 
       return {
-        startDate: toISOString(startDate),
-        endDate: toISOString(endDate),
+        startDate: toCalendarDate(startDate),
+        endDate: toCalendarDate(endDate),
         title,
       };
     }
 
     case TimelineType.WEEK: {
-      // Always current week (auto-updates)
-      const startDate = getStartOfCurrentWeek();
-      const endDate = getEndOfCurrentWeek();
+      // Always current week (auto-updates), aligned to the user's first day of week
+      const startDate = getStartOfCurrentWeek(customOptions?.weekStartDay);
+      const endDate = getEndOfCurrentWeek(customOptions?.weekStartDay);
 
       return {
-        startDate: toISOString(startDate),
-        endDate: toISOString(endDate),
+        startDate: toCalendarDate(startDate),
+        endDate: toCalendarDate(endDate),
         title: i18n.t('timeline.thisWeek'),
       };
     }
 
+    case TimelineType.DAY: {
+      // Always today (auto-updates at midnight); dots are hours
+      const today = getTodayCalendarDate();
+
+      return {
+        startDate: today,
+        endDate: today,
+        title: i18n.t('timeline.today'),
+      };
+    }
+
     case TimelineType.CUSTOM: {
+      // Recurring: the period starting at startDate, or the current one if it already passed
+      if (customOptions?.startDate && customOptions.recurrence) {
+        const anchor = toCalendarDate(customOptions.startDate);
+        const period = getRecurrencePeriod(
+          customOptions.recurrence,
+          anchor,
+          isPast(anchor) ? getTodayCalendarDate() : anchor
+        );
+
+        return {
+          ...period,
+          title: customOptions.title || i18n.t('timeline.customTimeline'),
+        };
+      }
+
+      // Open-ended count-up - counts days since startDate with no end
+      if (customOptions?.openEnded) {
+        if (!customOptions.startDate) {
+          throw new Error('Count-up timeline requires startDate');
+        }
+
+        return {
+          startDate: toCalendarDate(customOptions.startDate),
+          title: customOptions.title || i18n.t('timeline.customTimeline'),
+        };
+      }
+
       // Custom date range - requires customOptions
       if (!customOptions?.startDate || !customOptions?.endDate) {
         throw new Error('Custom timeline requires startDate and endDate');
       }
 
       return {
-        startDate: toISOString(customOptions.startDate),
-        endDate: toISOString(customOptions.endDate),
+        startDate: toCalendarDate(customOptions.startDate),
+        endDate: toCalendarDate(customOptions.endDate),
         title: customOptions.title || i18n.t('timeline.customTimeline'),
       };
     }
 
+    case TimelineType.LIFE: {
+      // Birthdate to the day before the expected final birthday
+      if (!customOptions?.birthDate) {
+        throw new Error('Life timeline requires birthDate');
+      }
+
+      const lifeExpectancy = customOptions.lifeExpectancy ?? getLifeExpectancy();
+      const startDate = customOptions.birthDate;
+      const endDate = addDays(addYears(startDate, lifeExpectancy), -1);
+
+      return {
+        startDate: toCalendarDate(startDate),
+        endDate: toCalendarDate(endDate),
+        title: i18n.t('timeline.mementoMori'),
+        lifeExpectancy,
+      };
+    }
+
     default:
       throw new Error(`Unknown timeline type: ${type}`);
   }
@@ -140,10 +480,20 @@ export function createTimeline(
   type: TimelineType,
   customOptions?: {
     year?: number;
+    half?: number;
+    quarter?: number;
     month?: number;
     startDate?: Date;
     endDate?: Date;
     title?: string;
+    birthDate?: Date;
+    lifeExpectancy?: number;
+    weekStartDay?: WeekStartDay;
+    calendarSystem?: CalendarSystem;
+    recurrence?: RecurrenceRule;
+    openEnded?: boolean;
+    unit?: TimelineUnit;
+    dayHours?: DayHours;
     isActive?: boolean;
   }
 ): Timeline {
@@ -152,15 +502,41 @@ export function createTimeline(
   // Generate a simple unique ID (timestamp + random)
   const id = `timeline_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-  return {
+  const timeline: Timeline = {
     id,
     type,
     title: config.title,
     startDate: config.startDate,
-    endDate: config.endDate,
     createdAt: nowISO(),
     isActive: customOptions?.isActive ?? false,
   };
+
+  if (config.endDate !== undefined) {
+    timeline.endDate = config.endDate;
+  }
+
+  if (config.lifeExpectancy !== undefined) {
+    timeline.lifeExpectancy = config.lifeExpectancy;
+  }
+
+  if (customOptions?.unit) {
+    timeline.unit = customOptions.unit;
+  }
+
+  if (type === TimelineType.CUSTOM && customOptions?.recurrence) {
+    timeline.recurrence = customOptions.recurrence;
+  }
+
+  if (type === TimelineType.DAY && customOptions?.dayHours) {
+    timeline.dayHours = customOptions.dayHours;
+  }
+
+  const calendar = getAlternateCalendar(customOptions?.calendarSystem);
+  if ((type === TimelineType.YEAR || type === TimelineType.MONTH) && calendar) {
+    timeline.calendarSystem = calendar;
+  }
+
+  return timeline;
 }
 
 // ============================================================================
@@ -174,45 +550,1481 @@ export function createTimeline(
  * @returns Timeline statistics
  */
 export function calculateTimelineStats(timeline: Timeline): TimelineStats {
-  const daysPassed = getDaysPassed(timeline.startDate, timeline.endDate);
-  const daysRemaining = getDaysRemaining(timeline.startDate, timeline.endDate);
-  const totalDays = getTotalDays(timeline.startDate, timeline.endDate);
-  const progressPercentage = getProgressPercentage(timeline.startDate, timeline.endDate);
+  const stats = calculateCurrentStats(timeline);
+
+  if (isUpcomingTimeline(timeline)) {
+    stats.daysUntilStart = getDaysUntilStart(timeline);
+  }
+
+  return stats;
+}
+
+/**
+ * Calculate the statistics of a timeline's kind (day, goal, pinned, range or count-up)
+ */
+function calculateCurrentStats(timeline: Timeline): TimelineStats {
+  if (isDayTimeline(timeline)) {
+    return calculateDayStats(timeline);
+  }
+
+  if (isGoalTimeline(timeline)) {
+    return calculateGoalTimelineStats(timeline);
+  }
+
+  if (isPinnedTimeline(timeline)) {
+    return calculatePinnedStats(timeline);
+  }
+
+  const stats = timeline.endDate ? calculateRangeStats(timeline, timeline.endDate) : calculateCountUpStats(timeline);
+
+  if (isHabitTimeline(timeline)) {
+    stats.habit = calculateHabitStats(timeline);
+  }
+
+  return stats;
+}
+
+/**
+ * Calculate statistics for a timeline with a fixed end date
+ */
+function calculateRangeStats(timeline: Timeline, endDate: CalendarDate): TimelineStats {
+  if (hasCountingRules(timeline)) {
+    return calculateCountedStats(timeline, endDate);
+  }
+
+  const unit = getTimelineUnit(timeline);
+  const daysPassed = getDaysPassed(timeline.startDate, endDate);
+  const daysRemaining = getDaysRemaining(timeline.startDate, endDate);
+  const totalDays = getTotalDays(timeline.startDate, endDate);
+  const progressPercentage = getUnitProgressPercentage(timeline.startDate, endDate, unit);
 
   return {
     daysPassed,
     daysRemaining,
     totalDays,
     progressPercentage,
+    unit,
+    unitsPassed: getUnitsPassed(timeline.startDate, endDate, unit),
+    unitsRemaining: getUnitsRemaining(timeline.startDate, endDate, unit),
+    totalUnits: getTotalUnits(timeline.startDate, endDate, unit),
+    isOpenEnded: false,
+  };
+}
+
+/**
+ * Counted stats already computed, per timeline object and day
+ * Counting walks every day of the range, and the day getters each need the stats
+ */
+const countedStatsCache = new WeakMap<Timeline, { key: string; stats: TimelineStats }>();
+
+/**
+ * Calculate statistics for a timeline with counting rules
+ * Day counts and progress cover counted days only; dots still map one per calendar day
+ */
+function calculateCountedStats(timeline: Timeline, endDate: CalendarDate): TimelineStats {
+  const today = getTodayCalendarDate();
+  const cacheKey = `${timeline.startDate}-${endDate}-${today}`;
+  const cached = countedStatsCache.get(timeline);
+  if (cached?.key === cacheKey) return { ...cached.stats };
+
+  const totalDays = getCountedDays(timeline, timeline.startDate, endDate);
+  const daysPassed =
+    today < timeline.startDate ? 0 : getCountedDays(timeline, timeline.startDate, today < endDate ? today : endDate);
+
+  const stats: TimelineStats = {
+    daysPassed,
+    daysRemaining: totalDays - daysPassed,
+    totalDays,
+    progressPercentage: totalDays === 0 ? 100 : Math.round((daysPassed / totalDays) * 100),
+    unit: 'day',
+    unitsPassed: getUnitsPassed(timeline.startDate, endDate, 'day'),
+    unitsRemaining: getUnitsRemaining(timeline.startDate, endDate, 'day'),
+    totalUnits: getTotalUnits(timeline.startDate, endDate, 'day'),
+    isOpenEnded: false,
+    excludedDays: getTotalDays(timeline.startDate, endDate) - totalDays,
+  };
+
+  countedStatsCache.set(timeline, { key: cacheKey, stats });
+  return { ...stats };
+}
+
+/**
+ * Calculate statistics for a goal timeline
+ * Days follow the date range; units and progress count goal units (1 dot = 1 unit)
+ */
+function calculateGoalTimelineStats(timeline: Timeline): TimelineStats {
+  const goal = calculateGoalStats(timeline);
+  const unitsPassed = getGoalDotsFilled(goal);
+
+  return {
+    ...calculateRangeStats(timeline, getTimelineEndDate(timeline)),
+    progressPercentage: Math.min(100, Math.floor((goal.progress / goal.target) * 100)),
+    unit: 'day',
+    unitsPassed,
+    unitsRemaining: goal.target - unitsPassed,
+    totalUnits: goal.target,
+    goal,
+  };
+}
+
+/**
+ * Calculate statistics for an open-ended count-up timeline
+ * Days elapsed are counted from startDate (inclusive); units are measured
+ * toward the next round-number milestone
+ */
+function calculateCountUpStats(timeline: Timeline): TimelineStats {
+  const daysPassed = getCountUpDays(timeline);
+  const nextMilestone = getNextCountUpMilestone(daysPassed);
+  const daysToNextMilestone = nextMilestone - daysPassed;
+
+  return {
+    daysPassed,
+    daysRemaining: 0,
+    totalDays: daysPassed,
+    progressPercentage: Math.floor((daysPassed / nextMilestone) * 100),
+    unit: 'day',
+    unitsPassed: daysPassed,
+    unitsRemaining: daysToNextMilestone,
+    totalUnits: nextMilestone,
+    isOpenEnded: true,
+    nextMilestone,
+    daysToNextMilestone,
   };
 }
 
+/**
+ * Check if a timeline is an open-ended count-up ("days since ...")
+ */
+export function isOpenEndedTimeline(timeline: Timeline): boolean {
+  return !timeline.endDate;
+}
+
+/**
+ * Get the last day of a timeline
+ * Open-ended count-up timelines end today
+ */
+export function getTimelineEndDate(timeline: Timeline): CalendarDate {
+  return timeline.endDate ?? getTodayCalendarDate();
+}
+
+/**
+ * Get the number of days elapsed in a count-up timeline (inclusive)
+ * Returns 0 if the start date is in the future
+ */
+function getCountUpDays(timeline: Timeline): number {
+  return Math.max(0, getDaysBetween(timeline.startDate, getTodayCalendarDate()));
+}
+
+/**
+ * Get the next round-number milestone after a day count
+ * Examples: 3 -> 7, 30 -> 50, 1000 -> 1500
+ */
+export function getNextCountUpMilestone(days: number): number {
+  const milestone = COUNT_UP_MILESTONES.find((value) => value > days);
+  if (milestone !== undefined) {
+    return milestone;
+  }
+
+  return (Math.floor(days / COUNT_UP_MILESTONE_STEP) + 1) * COUNT_UP_MILESTONE_STEP;
+}
+
+/**
+ * Get the dot unit for a timeline
+ * Falls back to weeks for LIFE timelines and days for everything else
+ * Count-up, habit and goal timelines always count days
+ */
+export function getTimelineUnit(timeline: Timeline): TimelineUnit {
+  if (isDayTimeline(timeline)) return 'hour';
+  if (!timeline.endDate || isHabitTimeline(timeline) || isGoalTimeline(timeline)) return 'day';
+  return timeline.unit ?? (timeline.type === TimelineType.LIFE ? 'week' : 'day');
+}
+
 /**
  * Get days passed for a timeline
  */
 export function getTimelineDaysPassed(timeline: Timeline): number {
+  if (isPinnedTimeline(timeline)) return calculatePinnedStats(timeline).daysPassed;
+  if (!timeline.endDate) return getCountUpDays(timeline);
+  if (hasCountingRules(timeline)) return calculateCountedStats(timeline, timeline.endDate).daysPassed;
   return getDaysPassed(timeline.startDate, timeline.endDate);
 }
 
 /**
- * Get days remaining for a timeline
+ * Get days remaining for a timeline
+ * Count-up timelines never run out of days
+ */
+export function getTimelineDaysRemaining(timeline: Timeline): number {
+  if (isPinnedTimeline(timeline)) return calculatePinnedStats(timeline).daysRemaining;
+  if (!timeline.endDate) return 0;
+  if (hasCountingRules(timeline)) return calculateCountedStats(timeline, timeline.endDate).daysRemaining;
+  return getDaysRemaining(timeline.startDate, timeline.endDate);
+}
+
+/**
+ * Get total days for a timeline
+ */
+export function getTimelineTotalDays(timeline: Timeline): number {
+  if (!timeline.endDate) return getCountUpDays(timeline);
+  if (hasCountingRules(timeline)) return calculateCountedStats(timeline, timeline.endDate).totalDays;
+  return getTotalDays(timeline.startDate, timeline.endDate);
+}
+
+/**
+ * Get progress percentage for a timeline (0-100)
+ * Count-up timelines report progress toward the next milestone,
+ * goal timelines progress toward their target
+ */
+export function getTimelineProgressPercentage(timeline: Timeline): number {
+  if (isDayTimeline(timeline)) return calculateDayStats(timeline).progressPercentage;
+  if (isGoalTimeline(timeline)) return calculateGoalTimelineStats(timeline).progressPercentage;
+  if (isPinnedTimeline(timeline)) return calculatePinnedStats(timeline).progressPercentage;
+  if (!timeline.endDate) return calculateCountUpStats(timeline).progressPercentage;
+  if (hasCountingRules(timeline)) return calculateCountedStats(timeline, timeline.endDate).progressPercentage;
+  return getUnitProgressPercentage(timeline.startDate, timeline.endDate, getTimelineUnit(timeline));
+}
+
+/**
+ * Get number of filled dots for a timeline (units passed)
+ * Goal timelines fill one dot per whole unit of logged progress
+ */
+export function getTimelineDotsPassed(timeline: Timeline): number {
+  if (isDayTimeline(timeline)) return calculateDayStats(timeline).unitsPassed;
+  if (isGoalTimeline(timeline)) return getGoalDotsFilled(calculateGoalStats(timeline));
+  if (isPinnedTimeline(timeline)) return calculatePinnedStats(timeline).unitsPassed;
+  if (!timeline.endDate) return getCountUpDays(timeline);
+  return getUnitsPassed(timeline.startDate, timeline.endDate, getTimelineUnit(timeline));
+}
+
+/**
+ * Get total number of dots for a timeline (total units)
+ * Count-up grids grow to the next milestone as days pass; goal grids have one dot per target unit
+ */
+export function getTimelineTotalDots(timeline: Timeline): number {
+  if (isDayTimeline(timeline)) return getDayTimelineHourCount(timeline);
+  if (isGoalTimeline(timeline)) return calculateGoalStats(timeline).target;
+  if (!timeline.endDate) return getNextCountUpMilestone(getCountUpDays(timeline));
+  return getTotalUnits(timeline.startDate, timeline.endDate, getTimelineUnit(timeline));
+}
+
+/**
+ * Get the date a dot represents (start of the dot's period)
+ * Dot index is 0-based
+ */
+export function getTimelineDotDate(timeline: Timeline, dotIndex: number): Date {
+  if (isDayTimeline(timeline)) {
+    return getHourOfDate(timeline.startDate, getDayTimelineHours(timeline).startHour + dotIndex);
+  }
+  return getDateFromDotIndex(timeline.startDate, dotIndex, getTimelineUnit(timeline));
+}
+
+// ============================================================================
+// Day Timelines
+// ============================================================================
+
+/**
+ * Check if a timeline is a "Today" timeline (one dot per hour)
+ */
+export function isDayTimeline(timeline: Timeline): boolean {
+  return timeline.type === TimelineType.DAY;
+}
+
+/**
+ * Get the hours a DAY timeline covers
+ * Defaults to the whole day, from one day boundary to the next (e.g. 04:00-04:00)
+ */
+export function getDayTimelineHours(timeline: Timeline): DayHours {
+  return timeline.dayHours ?? { startHour: getDayStartHour(), endHour: getDayStartHour() + 24 };
+}
+
+/**
+ * Get the number of hour dots of a DAY timeline
+ */
+export function getDayTimelineHourCount(timeline: Timeline): number {
+  const { startHour, endHour } = getDayTimelineHours(timeline);
+  return Math.max(1, endHour - startHour);
+}
+
+/**
+ * Calculate minute-precise statistics for a DAY timeline
+ * Units are the hours of the day; the current hour counts as passed
+ *
+ * @param timeline - DAY timeline
+ * @param now - Moment to measure at (defaults to now)
+ * @returns Timeline statistics with minute counts
+ */
+export function calculateDayStats(timeline: Timeline, now: Date = new Date()): TimelineStats {
+  const { startHour } = getDayTimelineHours(timeline);
+  const totalUnits = getDayTimelineHourCount(timeline);
+  const start = getHourOfDate(timeline.startDate, startHour);
+  const end = getHourOfDate(timeline.startDate, startHour + totalUnits);
+
+  const totalMinutes = getMinutesBetween(start, end);
+  const minutesPassed = Math.min(totalMinutes, Math.max(0, getMinutesBetween(start, now)));
+
+  // Count started hours on the wall clock (DST days keep one dot per hour label)
+  let unitsPassed = 0;
+  while (unitsPassed < totalUnits && getHourOfDate(timeline.startDate, startHour + unitsPassed) <= now) {
+    unitsPassed++;
+  }
+
+  return {
+    daysPassed: now >= start ? 1 : 0,
+    daysRemaining: 0,
+    totalDays: 1,
+    progressPercentage: Math.round((minutesPassed / totalMinutes) * 1000) / 10,
+    unit: 'hour',
+    unitsPassed,
+    unitsRemaining: totalUnits - unitsPassed,
+    totalUnits,
+    isOpenEnded: false,
+    minutesPassed,
+    minutesRemaining: totalMinutes - minutesPassed,
+  };
+}
+
+/**
+ * Get the upcoming hour boundaries of a DAY timeline, when its grid changes
+ * Used to schedule hourly widget entries ahead of time
+ *
+ * @param timeline - DAY timeline
+ * @param now - Moment to start from (defaults to now)
+ * @returns Start of every remaining hour, then the end of the covered hours
+ */
+export function getDayTimelineRefreshTimes(timeline: Timeline, now: Date = new Date()): Date[] {
+  const { startHour } = getDayTimelineHours(timeline);
+  const times: Date[] = [];
+
+  for (let hour = startHour; hour <= startHour + getDayTimelineHourCount(timeline); hour++) {
+    const time = getHourOfDate(timeline.startDate, hour);
+    if (time > now) times.push(time);
+  }
+
+  return times;
+}
+
+// ============================================================================
+// Upcoming Timelines
+// ============================================================================
+
+/**
+ * Get the moment a timeline starts
+ * Days start at the day boundary (midnight by default), or at midnight in a pinned timeline's zone
+ */
+export function getTimelineStartMoment(timeline: Timeline): Date {
+  if (isPinnedTimeline(timeline) && timeline.pinnedTime) {
+    return getTimeZoneMoment(timeline.startDate, '00:00', timeline.pinnedTime.timeZone);
+  }
+  return getHourOfDate(timeline.startDate, getDayStartHour());
+}
+
+/**
+ * Check if a timeline has not started yet (its start date is in the future)
+ * "Today" timelines always cover the current day and are never upcoming
+ *
+ * @param timeline - Timeline to check
+ * @param now - Moment to check at (defaults to now)
+ */
+export function isUpcomingTimeline(timeline: Timeline, now: Date = new Date()): boolean {
+  return !isDayTimeline(timeline) && now < getTimelineStartMoment(timeline);
+}
+
+/**
+ * Get the number of days until a timeline starts (0 once it has started)
+ * Example: a timeline starting tomorrow starts in 1 day
+ */
+export function getDaysUntilStart(timeline: Timeline): number {
+  const today =
+    isPinnedTimeline(timeline) && timeline.pinnedTime
+      ? getTimeZoneCalendarDate(timeline.pinnedTime.timeZone)
+      : getTodayCalendarDate();
+
+  return Math.max(0, getDaysBetween(today, timeline.startDate) - 1);
+}
+
+// ============================================================================
+// Completed Timelines
+// ============================================================================
+
+/**
+ * Get the moment a timeline ends
+ * The end date lasts until the next day boundary; pinned timelines end at their pinned moment
+ */
+export function getTimelineEndMoment(timeline: Timeline): Date {
+  if (isPinnedTimeline(timeline) && timeline.pinnedTime) {
+    return getPinnedMoment(timeline, timeline.pinnedTime);
+  }
+  return getHourOfDate(addCalendarDays(getTimelineEndDate(timeline), 1), getDayStartHour());
+}
+
+/**
+ * Check if a CUSTOM timeline has passed its end date
+ * Recurring timelines roll over instead, and count-up timelines never end
+ *
+ * @param timeline - Timeline to check
+ * @param now - Moment to check at (defaults to now)
+ */
+export function isCompletedTimeline(timeline: Timeline, now: Date = new Date()): boolean {
+  if (timeline.type !== TimelineType.CUSTOM || !timeline.endDate || timeline.recurrence) {
+    return false;
+  }
+  return now >= getTimelineEndMoment(timeline);
+}
+
+/**
+ * Check if a completed timeline still needs its completion flow
+ * (summary, then extend, renew or archive), shown once after the end date
+ */
+export function needsCompletionReview(timeline: Timeline): boolean {
+  return isCompletedTimeline(timeline) && !timeline.completionReviewedAt;
+}
+
+/**
+ * Mark a completed timeline as reviewed, so the completion flow doesn't open again
+ */
+export function markCompletionReviewed(timeline: Timeline): Timeline {
+  return { ...timeline, completionReviewedAt: nowISO() };
+}
+
+/**
+ * Extend a timeline past its end date
+ * The completion flow opens again once the new end date passes
+ *
+ * @param timeline - Timeline with an end date
+ * @param days - Number of days to add
+ * @returns Updated timeline
+ */
+export function extendTimeline(timeline: Timeline, days: number): Timeline {
+  if (!timeline.endDate) {
+    throw new Error('Can only extend timelines with an end date');
+  }
+
+  return {
+    ...timeline,
+    endDate: addCalendarDays(timeline.endDate, days),
+    completionReviewedAt: undefined,
+  };
+}
+
+/**
+ * Start a finished timeline over for the same number of days
+ * Markers and phases move with the dates; skipped dates and pauses belonged
+ * to the finished period and are dropped. Logs stay, like a recurring rollover.
+ *
+ * @param timeline - Timeline with an end date
+ * @param startDate - First day of the new period (defaults to today)
+ * @returns Updated timeline
+ */
+export function renewTimeline(
+  timeline: Timeline,
+  startDate: CalendarDate = getTodayCalendarDate()
+): Timeline {
+  if (!timeline.endDate) {
+    throw new Error('Can only renew timelines with an end date');
+  }
+
+  const offset = getDaysBetween(timeline.startDate, startDate) - 1;
+  const shift = (date: CalendarDate) => addCalendarDays(date, offset);
+  const rules = timeline.countingRules;
+
+  return {
+    ...timeline,
+    startDate,
+    endDate: shift(timeline.endDate),
+    markers: timeline.markers?.map((marker) => ({ ...marker, date: shift(marker.date) })),
+    phases: timeline.phases?.map((phase) => ({
+      ...phase,
+      startDate: shift(phase.startDate),
+      endDate: shift(phase.endDate),
+    })),
+    countingRules: rules && {
+      excludeWeekends: rules.excludeWeekends,
+      holidayCountry: rules.holidayCountry,
+      excludedDisplay: rules.excludedDisplay,
+    },
+    completionReviewedAt: undefined,
+  };
+}
+
+// ============================================================================
+// Counting Rules
+// ============================================================================
+
+/**
+ * Check if a timeline's counting rules apply
+ * Rules only affect day-based, time-tracked timelines with an end date
+ */
+export function hasCountingRules(timeline: Timeline): boolean {
+  const rules = timeline.countingRules;
+  if (!rules || !timeline.endDate) return false;
+  if ((timeline.trackingMode ?? 'time') !== 'time' || getTimelineUnit(timeline) !== 'day') return false;
+
+  return (
+    !!rules.excludeWeekends ||
+    !!rules.holidayCountry ||
+    !!rules.excludedRanges?.length ||
+    !!rules.pauses?.length
+  );
+}
+
+/**
+ * Check if a day is skipped by a timeline's counting rules
+ * Ongoing pauses (no end date) exclude every day up to and including today
+ */
+export function isExcludedDay(timeline: Timeline, date: CalendarDate): boolean {
+  const rules = timeline.countingRules;
+  if (!rules) return false;
+  if (rules.excludeWeekends && isWeekendDay(rules.holidayCountry, date)) return true;
+  if (rules.holidayCountry && isPublicHoliday(rules.holidayCountry, date)) return true;
+
+  const today = getTodayCalendarDate();
+  const inRange = (range: ExcludedRange) => range.startDate <= date && date <= (range.endDate ?? today);
+
+  return !!rules.excludedRanges?.some(inRange) || !!rules.pauses?.some(inRange);
+}
+
+/**
+ * Count the days between two dates (inclusive) that aren't excluded
+ */
+function getCountedDays(timeline: Timeline, from: CalendarDate, to: CalendarDate): number {
+  let count = 0;
+  for (let date = from; date <= to; date = addCalendarDays(date, 1)) {
+    if (!isExcludedDay(timeline, date)) count++;
+  }
+
+  return count;
+}
+
+/**
+ * Get the indices of the dots skipped by a timeline's counting rules
+ *
+ * @param timeline - Timeline with counting rules
+ * @returns Set of 0-based dot indices (empty when no rules apply)
+ */
+export function getExcludedDotIndices(timeline: Timeline): Set<number> {
+  const indices = new Set<number>();
+  if (!hasCountingRules(timeline) || !timeline.endDate) return indices;
+
+  let index = 0;
+  for (let date = timeline.startDate; date <= timeline.endDate; date = addCalendarDays(date, 1)) {
+    if (isExcludedDay(timeline, date)) indices.add(index);
+    index++;
+  }
+
+  return indices;
+}
+
+/**
+ * Create an excluded range (holiday, leave or pause)
+ * Leave endDate out for a pause that is still ongoing
+ */
+export function createExcludedRange(
+  title: string | undefined,
+  startDate: Date | CalendarDate,
+  endDate?: Date | CalendarDate
+): ExcludedRange {
+  const start = toCalendarDate(startDate);
+  const end = endDate ? toCalendarDate(endDate) : undefined;
+
+  return {
+    id: `excluded_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    title: title?.trim() || undefined,
+    startDate: end && end < start ? end : start,
+    endDate: end && end < start ? start : end,
+  };
+}
+
+/**
+ * Get a short label for an excluded range
+ * Examples: "Holiday · Dec 25", "Annual leave · Aug 4 – Aug 15", "Since Mar 3"
+ */
+export function getExcludedRangeLabel(range: ExcludedRange): string {
+  const format = (date: CalendarDate) =>
+    parseCalendarDate(date).toLocaleDateString(getCurrentLocale(), { month: 'short', day: 'numeric' });
+
+  const dates = !range.endDate
+    ? i18n.t('timeline.pausedSince', { date: format(range.startDate) })
+    : range.endDate === range.startDate
+      ? format(range.startDate)
+      : `${format(range.startDate)} – ${format(range.endDate)}`;
+
+  return range.title ? `${range.title} · ${dates}` : dates;
+}
+
+// ============================================================================
+// Public Holidays
+// ============================================================================
+
+/**
+ * Get the public holidays within a timeline's dates
+ * Only day grids show holidays (a week or month dot would hide which day it was)
+ *
+ * @param timeline - Timeline to check
+ * @param country - Holiday country (null when holidays are off)
+ * @returns Holidays sorted by date
+ */
+export function getTimelineHolidays(timeline: Timeline, country: HolidayCountry | null): PublicHoliday[] {
+  if (!country || isGoalTimeline(timeline) || getTimelineUnit(timeline) !== 'day') return [];
+  return getPublicHolidaysBetween(country, timeline.startDate, getTimelineEndDate(timeline));
+}
+
+/**
+ * Map each dot of a timeline to the public holidays on its day
+ *
+ * @param timeline - Timeline to check
+ * @param country - Holiday country (null when holidays are off)
+ * @returns Map of dot index to holidays (dots without holidays are left out)
+ */
+export function getHolidaysByDot(
+  timeline: Timeline,
+  country: HolidayCountry | null
+): Map<number, PublicHoliday[]> {
+  const byDot = new Map<number, PublicHoliday[]>();
+
+  for (const holiday of getTimelineHolidays(timeline, country)) {
+    const index = getUnitIndex(timeline.startDate, holiday.date, 'day');
+    byDot.set(index, [...(byDot.get(index) ?? []), holiday]);
+  }
+
+  return byDot;
+}
+
+/**
+ * Get the display name of a holiday
+ * Uses the local name when the app speaks the country's language
+ */
+export function getHolidayDisplayName(holiday: PublicHoliday): string {
+  const language = getCurrentLocale().toLowerCase().split('-')[0];
+  return HolidayCountryLanguages[holiday.country] === language ? holiday.localName : holiday.name;
+}
+
+// ============================================================================
+// Habit Tracking
+// ============================================================================
+
+/**
+ * Order in which a tapped dot cycles through habit states
+ * (unmarked -> done -> missed -> skipped -> unmarked)
+ */
+const HABIT_STATUS_CYCLE: HabitStatus[] = ['done', 'missed', 'skipped'];
+
+/**
+ * Check if a timeline tracks a daily habit instead of elapsed time
+ */
+export function isHabitTimeline(timeline: Timeline): boolean {
+  return timeline.trackingMode === 'habit';
+}
+
+/**
+ * Calculate habit stats for a timeline
+ * Walks every day from startDate up to today (or endDate, if earlier).
+ * Unmarked past days count as missed; today only counts once it is marked.
+ */
+export function calculateHabitStats(timeline: Timeline): HabitStats {
+  const log = timeline.habitLog ?? {};
+  const today = getTodayCalendarDate();
+  const lastDay = timeline.endDate && timeline.endDate < today ? timeline.endDate : today;
+
+  let done = 0;
+  let missed = 0;
+  let skipped = 0;
+  let streak = 0;
+  let longestStreak = 0;
+
+  for (let date = timeline.startDate; date <= lastDay; date = addCalendarDays(date, 1)) {
+    const status = log[date];
+
+    if (status === 'done') {
+      done++;
+      streak++;
+      longestStreak = Math.max(longestStreak, streak);
+    } else if (status === 'skipped') {
+      skipped++;
+    } else if (status === 'missed' || date !== today) {
+      missed++;
+      streak = 0;
+    }
+  }
+
+  const tracked = done + missed;
+
+  return {
+    done,
+    missed,
+    skipped,
+    currentStreak: streak,
+    longestStreak,
+    completionRate: tracked > 0 ? Math.round((done / tracked) * 100) : 0,
+  };
+}
+
+/**
+ * Get the habit status of every marked day, keyed by dot index
+ */
+export function getHabitStatusesByDot(timeline: Timeline): Map<number, HabitStatus> {
+  const statusesByDot = new Map<number, HabitStatus>();
+  const totalDots = getTimelineTotalDots(timeline);
+
+  for (const [date, status] of Object.entries(timeline.habitLog ?? {})) {
+    const dotIndex = getDaysBetween(timeline.startDate, date) - 1;
+    if (dotIndex >= 0 && dotIndex < totalDots) {
+      statusesByDot.set(dotIndex, status);
+    }
+  }
+
+  return statusesByDot;
+}
+
+/**
+ * Get the status a day moves to when its dot is tapped
+ * Returns undefined when the day goes back to unmarked
+ */
+export function getNextHabitStatus(status?: HabitStatus): HabitStatus | undefined {
+  if (!status) return HABIT_STATUS_CYCLE[0];
+  return HABIT_STATUS_CYCLE[HABIT_STATUS_CYCLE.indexOf(status) + 1];
+}
+
+/**
+ * Set (or clear) the habit status of a single day
+ * Future days cannot be marked
+ *
+ * @param timeline - Habit timeline to update
+ * @param date - Day to mark
+ * @param status - New status, or undefined to unmark the day
+ * @returns Updated timeline (unchanged if the day is in the future)
+ */
+export function setTimelineHabitStatus(
+  timeline: Timeline,
+  date: CalendarDate,
+  status?: HabitStatus
+): Timeline {
+  if (date > getTodayCalendarDate()) {
+    return timeline;
+  }
+
+  const habitLog = { ...timeline.habitLog };
+  if (status) {
+    habitLog[date] = status;
+  } else {
+    delete habitLog[date];
+  }
+
+  return { ...timeline, habitLog };
+}
+
+// ============================================================================
+// Goal Progress
+// ============================================================================
+
+/**
+ * Check if a timeline tracks progress toward a numeric goal
+ */
+export function isGoalTimeline(timeline: Timeline): boolean {
+  return timeline.trackingMode === 'goal' && timeline.goal !== undefined;
+}
+
+/**
+ * Calculate goal stats for a timeline
+ * Only progress logged within the timeline's dates counts, so a rolled-over
+ * period starts from zero. The expected pace grows linearly over the
+ * timeline's days (today included).
+ */
+export function calculateGoalStats(timeline: Timeline): GoalStats {
+  const target = timeline.goal?.target ?? 0;
+  const endDate = getTimelineEndDate(timeline);
+  const progress = Object.entries(timeline.goalLog ?? {})
+    .filter(([date]) => date >= timeline.startDate && date <= endDate)
+    .reduce((sum, [, amount]) => sum + amount, 0);
+  const totalDays = getTotalDays(timeline.startDate, endDate);
+  const expected = totalDays > 0 ? (target * getDaysPassed(timeline.startDate, endDate)) / totalDays : 0;
+
+  return {
+    target,
+    progress: roundGoalAmount(progress),
+    unitLabel: timeline.goal?.unitLabel ?? '',
+    expected: roundGoalAmount(expected),
+    paceDifference: Math.round(progress - expected),
+  };
+}
+
+/**
+ * Log progress toward a goal (use a negative amount to correct a mistake)
+ * Amounts are added to the day's total, which never drops below zero
+ *
+ * @param timeline - Goal timeline to update
+ * @param amount - Amount to add (e.g. 1 for "+1")
+ * @param date - Day the progress is logged for (defaults to today)
+ * @returns Updated timeline
+ */
+export function logGoalProgress(
+  timeline: Timeline,
+  amount: number,
+  date: CalendarDate = getTodayCalendarDate()
+): Timeline {
+  const goalLog = { ...timeline.goalLog };
+  const dayTotal = roundGoalAmount(Math.max(0, (goalLog[date] ?? 0) + amount));
+
+  if (dayTotal > 0) {
+    goalLog[date] = dayTotal;
+  } else {
+    delete goalLog[date];
+  }
+
+  return { ...timeline, goalLog };
+}
+
+/**
+ * Get the goal's pace as a localized string
+ * Examples: "4 books behind pace", "2 km ahead of pace", "On pace", "Goal reached"
+ *
+ * @param timeline - Goal timeline to describe
+ * @returns Pace string, or null for non-goal timelines
+ */
+export function getTimelineGoalPace(timeline: Timeline): string | null {
+  if (!isGoalTimeline(timeline)) return null;
+
+  const goal = calculateGoalStats(timeline);
+  if (goal.progress >= goal.target) {
+    return i18n.t('timeline.goalReached');
+  }
+  if (goal.paceDifference < 0) {
+    return i18n.t('timeline.goalBehindPace', { count: -goal.paceDifference, unit: goal.unitLabel });
+  }
+  if (goal.paceDifference > 0) {
+    return i18n.t('timeline.goalAheadPace', { count: goal.paceDifference, unit: goal.unitLabel });
+  }
+  return i18n.t('timeline.goalOnPace');
+}
+
+/**
+ * Get the number of filled dots for goal stats (whole units, capped at the target)
+ */
+function getGoalDotsFilled(goal: GoalStats): number {
+  return Math.min(goal.target, Math.floor(goal.progress));
+}
+
+/**
+ * Round a goal amount to one decimal (e.g. 12.5 km)
+ */
+function roundGoalAmount(amount: number): number {
+  return Math.round(amount * 10) / 10;
+}
+
+// ============================================================================
+// Timeline Markers
+// ============================================================================
+
+/**
+ * Create a new marker (ready to be added to a timeline)
+ *
+ * @param title - Marker name (e.g. "Launch")
+ * @param date - Marked day
+ * @returns TimelineMarker object
+ */
+export function createTimelineMarker(title: string, date: Date | CalendarDate): TimelineMarker {
+  return {
+    id: `marker_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    title,
+    date: toCalendarDate(date),
+  };
+}
+
+/**
+ * Sort markers chronologically (earliest first)
+ */
+export function sortTimelineMarkers(markers: TimelineMarker[]): TimelineMarker[] {
+  // Calendar dates (YYYY-MM-DD) sort chronologically as strings
+  return [...markers].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Get the dot index (0-based) a marker falls on
+ */
+export function getMarkerDotIndex(timeline: Timeline, marker: TimelineMarker): number {
+  return getUnitIndex(timeline.startDate, marker.date, getTimelineUnit(timeline));
+}
+
+/**
+ * Group a timeline's markers by the dot they fall on
+ * Markers outside the grid are left out
+ *
+ * @param timeline - Timeline with markers
+ * @returns Map of dot index to the markers on that dot
+ */
+export function getTimelineMarkersByDot(timeline: Timeline): Map<number, TimelineMarker[]> {
+  const byDot = new Map<number, TimelineMarker[]>();
+  if (!timeline.markers?.length) return byDot;
+
+  const totalDots = getTimelineTotalDots(timeline);
+  for (const marker of sortTimelineMarkers(timeline.markers)) {
+    const index = getMarkerDotIndex(timeline, marker);
+    if (index < 0 || index >= totalDots) continue;
+
+    byDot.set(index, [...(byDot.get(index) ?? []), marker]);
+  }
+
+  return byDot;
+}
+
+/**
+ * Get the next upcoming marker (today or later) and the days until it
+ *
+ * @param timeline - Timeline with markers
+ * @returns Next marker with days until it (0 = today), or null if none are left
+ */
+export function getNextTimelineMarker(
+  timeline: Timeline
+): { marker: TimelineMarker; daysUntil: number } | null {
+  const today = getTodayCalendarDate();
+  const marker = sortTimelineMarkers(timeline.markers ?? []).find((m) => m.date >= today);
+  if (!marker) return null;
+
+  return { marker, daysUntil: getDaysBetween(today, marker.date) - 1 };
+}
+
+/**
+ * Get a human-readable string for the next upcoming marker
+ * Examples: "Next milestone: Launch in 12 days", "Today: Exam"
+ *
+ * @param timeline - Timeline with markers
+ * @returns Next marker string, or null if no upcoming markers
+ */
+export function getTimelineNextMarker(timeline: Timeline): string | null {
+  const next = getNextTimelineMarker(timeline);
+  if (!next) return null;
+
+  if (next.daysUntil === 0) {
+    return i18n.t('timeline.markerToday', { title: next.marker.title });
+  }
+
+  return i18n.t('timeline.nextMarker', { title: next.marker.title, count: next.daysUntil });
+}
+
+// ============================================================================
+// Day Notes
+// ============================================================================
+
+/**
+ * Get the day notes that fall within a timeline (newest first)
+ *
+ * @param timeline - Timeline to filter by
+ * @param notes - All day notes keyed by calendar date
+ * @returns Notes between the timeline's start and end dates
+ */
+export function getTimelineNotes(timeline: Timeline, notes: Record<CalendarDate, DayNote>): DayNote[] {
+  const start = timeline.startDate;
+  const end = getTimelineEndDate(timeline);
+
+  return Object.values(notes)
+    .filter((note) => note.date >= start && note.date <= end)
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * Get the indices of dots that contain at least one day note
+ * (a week or month dot counts if any of its days has a note)
+ *
+ * @param timeline - Timeline to map notes onto
+ * @param notes - All day notes keyed by calendar date
+ * @returns Set of dot indices with notes
+ */
+export function getNoteDotIndices(timeline: Timeline, notes: Record<CalendarDate, DayNote>): Set<number> {
+  const unit = getTimelineUnit(timeline);
+  const totalDots = getTimelineTotalDots(timeline);
+  const indices = new Set<number>();
+
+  for (const date of Object.keys(notes)) {
+    const index = getUnitIndex(timeline.startDate, date, unit);
+    if (index >= 0 && index < totalDots) {
+      indices.add(index);
+    }
+  }
+
+  return indices;
+}
+
+// ============================================================================
+// Mood Ratings
+// ============================================================================
+
+/**
+ * Get the average mood rating of every rated dot
+ * (a week or month dot averages the ratings of its days)
+ *
+ * @param timeline - Timeline to map ratings onto
+ * @param moods - All mood ratings keyed by calendar date
+ * @returns Map of dot index to rounded average rating
+ */
+export function getMoodRatingsByDot(
+  timeline: Timeline,
+  moods: Record<CalendarDate, MoodRating>
+): Map<number, MoodRating> {
+  const unit = getTimelineUnit(timeline);
+  const totalDots = getTimelineTotalDots(timeline);
+  const totals = new Map<number, { sum: number; count: number }>();
+
+  for (const [date, rating] of Object.entries(moods)) {
+    const index = getUnitIndex(timeline.startDate, date, unit);
+    if (index >= 0 && index < totalDots) {
+      const total = totals.get(index) ?? { sum: 0, count: 0 };
+      totals.set(index, { sum: total.sum + rating, count: total.count + 1 });
+    }
+  }
+
+  const ratingsByDot = new Map<number, MoodRating>();
+  totals.forEach(({ sum, count }, index) => {
+    ratingsByDot.set(index, Math.round(sum / count) as MoodRating);
+  });
+
+  return ratingsByDot;
+}
+
+/**
+ * Calculate mood stats across all rated days
+ *
+ * @param moods - All mood ratings keyed by calendar date
+ * @returns Rated day count, 7/30-day averages and best good-day streak
+ */
+export function calculateMoodStats(moods: Record<CalendarDate, MoodRating>): MoodStats {
+  const today = getTodayCalendarDate();
+  const dates = Object.keys(moods).sort();
+
+  const getAverage = (days: number): number | null => {
+    const since = addCalendarDays(today, -(days - 1));
+    const ratings = dates.filter((date) => date >= since && date <= today).map((date) => moods[date]);
+    if (ratings.length === 0) return null;
+
+    const sum = ratings.reduce<number>((total, rating) => total + rating, 0);
+    return Math.round((sum / ratings.length) * 10) / 10;
+  };
+
+  let streak = 0;
+  let bestStreak = 0;
+  let previousDate: CalendarDate | null = null;
+
+  for (const date of dates) {
+    if (moods[date] < MOOD_GOOD_RATING) {
+      streak = 0;
+    } else {
+      const continues = previousDate !== null && addCalendarDays(previousDate, 1) === date;
+      streak = continues && streak > 0 ? streak + 1 : 1;
+      bestStreak = Math.max(bestStreak, streak);
+    }
+    previousDate = date;
+  }
+
+  return {
+    ratedDays: dates.length,
+    weeklyAverage: getAverage(7),
+    monthlyAverage: getAverage(30),
+    bestStreak,
+  };
+}
+
+// ============================================================================
+// Timeline Phases
+// ============================================================================
+
+/**
+ * Create a new phase (ready to be added to a timeline)
+ *
+ * @param title - Phase name (e.g. "Semester 1")
+ * @param startDate - First day of the phase
+ * @param endDate - Last day of the phase
+ * @param color - Fill color for the phase's dots
+ * @returns TimelinePhase object
+ */
+export function createTimelinePhase(
+  title: string,
+  startDate: Date | CalendarDate,
+  endDate: Date | CalendarDate,
+  color: string
+): TimelinePhase {
+  return {
+    id: `phase_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    title,
+    startDate: toCalendarDate(startDate),
+    endDate: toCalendarDate(endDate),
+    color,
+  };
+}
+
+/**
+ * Sort phases chronologically (earliest start first)
+ */
+export function sortTimelinePhases(phases: TimelinePhase[]): TimelinePhase[] {
+  // Calendar dates (YYYY-MM-DD) sort chronologically as strings
+  return [...phases].sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
+
+/**
+ * Calculate day-based statistics for a phase
+ *
+ * @param phase - Phase to calculate stats for
+ * @returns Phase statistics
+ */
+export function calculatePhaseStats(phase: TimelinePhase): PhaseStats {
+  return {
+    daysPassed: getDaysPassed(phase.startDate, phase.endDate),
+    daysRemaining: getDaysRemaining(phase.startDate, phase.endDate),
+    totalDays: getTotalDays(phase.startDate, phase.endDate),
+    progressPercentage: getProgressPercentage(phase.startDate, phase.endDate),
+  };
+}
+
+/**
+ * Get the phase containing today, if any
+ * When phases overlap, the one that started last wins
+ */
+export function getCurrentTimelinePhase(timeline: Timeline): TimelinePhase | null {
+  const today = getTodayCalendarDate();
+  const current = sortTimelinePhases(timeline.phases ?? []).filter(
+    (phase) => phase.startDate <= today && today <= phase.endDate
+  );
+
+  return current[current.length - 1] ?? null;
+}
+
+/**
+ * Map each dot of a timeline to the phase it falls in
+ * When phases overlap, the one that started last wins
+ *
+ * @param timeline - Timeline with phases
+ * @returns Map of dot index to phase (dots outside every phase are left out)
+ */
+export function getTimelinePhasesByDot(timeline: Timeline): Map<number, TimelinePhase> {
+  const byDot = new Map<number, TimelinePhase>();
+  if (!timeline.phases?.length) return byDot;
+
+  const unit = getTimelineUnit(timeline);
+  const totalDots = getTimelineTotalDots(timeline);
+  for (const phase of sortTimelinePhases(timeline.phases)) {
+    const first = Math.max(0, getUnitIndex(timeline.startDate, phase.startDate, unit));
+    const last = Math.min(totalDots - 1, getUnitIndex(timeline.startDate, phase.endDate, unit));
+
+    for (let index = first; index <= last; index++) {
+      byDot.set(index, phase);
+    }
+  }
+
+  return byDot;
+}
+
+/**
+ * Get a human-readable string for the current phase
+ * Examples: "Semester 1 · 12 days left", "Break · last day"
+ *
+ * @param timeline - Timeline with phases
+ * @returns Current phase string, or null if today is outside every phase
+ */
+export function getTimelineCurrentPhase(timeline: Timeline): string | null {
+  const phase = getCurrentTimelinePhase(timeline);
+  if (!phase) return null;
+
+  const stats = calculatePhaseStats(phase);
+  if (stats.daysRemaining === 0) {
+    return i18n.t('timeline.phaseLastDay', { title: phase.title });
+  }
+
+  return i18n.t('timeline.currentPhase', { title: phase.title, count: stats.daysRemaining });
+}
+
+// ============================================================================
+// Timeline Templates
+// ============================================================================
+
+/**
+ * Get a template's display title (built-in titles are translated)
+ */
+export function getTemplateTitle(template: TimelineTemplate): string {
+  return template.builtIn ? i18n.t(template.title) : template.title;
+}
+
+/**
+ * Get the dates a template covers when applied on a day
+ * Lent and Ramadan use the current feast, or the next one once it is over
+ *
+ * @param template - Template to place
+ * @param today - Day the template is applied (defaults to today)
+ */
+export function getTemplateDates(
+  template: TimelineTemplate,
+  today: CalendarDate = getTodayCalendarDate()
+): { startDate: CalendarDate; endDate: CalendarDate } {
+  if (template.anchor === 'lent') {
+    // Ash Wednesday (46 days before Easter) through Holy Saturday
+    const year = parseCalendarDate(today).getFullYear();
+    const holySaturday = addCalendarDays(getEasterDate(year), -1);
+    const easter = today > holySaturday ? getEasterDate(year + 1) : getEasterDate(year);
+    return { startDate: addCalendarDays(easter, -46), endDate: addCalendarDays(easter, -1) };
+  }
+
+  if (template.anchor === 'ramadan' && isCalendarSystemSupported('islamic')) {
+    // Ramadan is the ninth Hijri month
+    const ramadan = getUpcomingCalendarMonth('islamic', 9, today);
+    if (ramadan) return ramadan;
+  }
+
+  return { startDate: today, endDate: addCalendarDays(today, template.durationDays - 1) };
+}
+
+/**
+ * Resolve a template into timeline fields
+ * Markers and phases outside the dates (e.g. past a 29-day Ramadan) are dropped or clamped
+ *
+ * @param template - Template to apply
+ * @param today - Day the template is applied (defaults to today)
+ * @returns Title, dates, tracking and dated markers/phases for the timeline form
+ */
+export function resolveTimelineTemplate(
+  template: TimelineTemplate,
+  today: CalendarDate = getTodayCalendarDate()
+): TemplateTimelineConfig {
+  const { startDate, endDate } = getTemplateDates(template, today);
+  const translate = (text: string) => (template.builtIn ? i18n.t(text) : text);
+
+  const markers = (template.markers ?? [])
+    .map((marker) => createTimelineMarker(translate(marker.title), addCalendarDays(startDate, marker.dayOffset)))
+    .filter((marker) => marker.date >= startDate && marker.date <= endDate);
+
+  const phases = (template.phases ?? [])
+    .filter((phase) => phase.endOffset >= 0 && addCalendarDays(startDate, phase.startOffset) <= endDate)
+    .map((phase) => {
+      const phaseEnd = addCalendarDays(startDate, phase.endOffset);
+      return createTimelinePhase(
+        translate(phase.title),
+        addCalendarDays(startDate, Math.max(phase.startOffset, 0)),
+        phaseEnd < endDate ? phaseEnd : endDate,
+        phase.color
+      );
+    });
+
+  return {
+    title: getTemplateTitle(template),
+    startDate,
+    endDate,
+    unit: template.unit,
+    trackingMode: template.trackingMode,
+    goal: template.goal,
+    markers: sortTimelineMarkers(markers),
+    phases: sortTimelinePhases(phases),
+    countingRules: template.countingRules ? { ...template.countingRules } : undefined,
+  };
+}
+
+/**
+ * Create a user template from a timeline
+ * Dates become offsets from the start, so the template can be reused on any day
+ *
+ * @param timeline - Timeline with an end date
+ * @returns New user template
+ */
+export function createTimelineTemplate(timeline: Timeline): TimelineTemplate {
+  if (!timeline.endDate) {
+    throw new Error('Can only save timelines with an end date as templates');
+  }
+
+  const getOffset = (date: CalendarDate) => getDaysBetween(timeline.startDate, date) - 1;
+  const rules = timeline.countingRules;
+
+  const template: TimelineTemplate = {
+    id: `template_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    title: timeline.title,
+    durationDays: getTotalDays(timeline.startDate, timeline.endDate),
+    createdAt: nowISO(),
+  };
+
+  if (timeline.unit) template.unit = timeline.unit;
+  if (timeline.trackingMode) template.trackingMode = timeline.trackingMode;
+  if (timeline.goal) template.goal = { ...timeline.goal };
+
+  if (timeline.markers?.length) {
+    template.markers = timeline.markers.map((marker) => ({
+      title: marker.title,
+      dayOffset: getOffset(marker.date),
+    }));
+  }
+
+  if (timeline.phases?.length) {
+    template.phases = timeline.phases.map((phase) => ({
+      title: phase.title,
+      startOffset: getOffset(phase.startDate),
+      endOffset: getOffset(phase.endDate),
+      color: phase.color,
+    }));
+  }
+
+  if (rules && (rules.excludeWeekends || rules.holidayCountry)) {
+    template.countingRules = {
+      excludeWeekends: rules.excludeWeekends,
+      holidayCountry: rules.holidayCountry,
+      excludedDisplay: rules.excludedDisplay,
+    };
+  }
+
+  return template;
+}
+
+// ============================================================================
+// Personal Dates
+// ============================================================================
+
+/**
+ * Check if a timeline counts down to a birthday or anniversary
+ */
+export function isPersonalDateTimeline(timeline: Timeline): boolean {
+  return !!timeline.personalDate && timeline.recurrence?.frequency === 'yearly';
+}
+
+/**
+ * Create a birthday or anniversary timeline
+ * Runs from the last occurrence of the month/day to the day before the next one
+ *
+ * @param title - Timeline title (e.g. "Mom's birthday")
+ * @param personalDate - Kind and optional original year
+ * @param month - Month of the date (0-11)
+ * @param day - Day of the month (Feb 29 falls on Feb 28 in common years)
+ * @returns New timeline object
+ */
+export function createPersonalDateTimeline(
+  title: string,
+  personalDate: PersonalDate,
+  month: number,
+  day: number
+): Timeline {
+  const recurrence: RecurrenceRule = { frequency: 'yearly', month, day };
+  const period = getRecurrencePeriod(recurrence, getTodayCalendarDate(), getTodayCalendarDate());
+
+  const timeline = createTimeline(TimelineType.CUSTOM, {
+    title,
+    startDate: parseCalendarDate(period.startDate),
+    recurrence,
+  });
+  timeline.personalDate = { ...personalDate };
+
+  return timeline;
+}
+
+/**
+ * Get the countdown string of a birthday or anniversary timeline
+ * Examples: "Turning 64 in 38 days", "10 years in 5 days", "In 12 days", "Today"
+ *
+ * @param timeline - Timeline to describe
+ * @returns Countdown string, or null for other timelines
+ */
+export function getPersonalDateCountdown(timeline: Timeline): string | null {
+  if (!isPersonalDateTimeline(timeline) || !timeline.personalDate || !timeline.endDate) {
+    return null;
+  }
+
+  // The period starts on the date itself, so its first day is the occasion
+  const today = getTodayCalendarDate();
+  const isToday = timeline.startDate === today;
+  const nextDate = isToday ? today : addCalendarDays(timeline.endDate, 1);
+  const count = getDaysBetween(today, nextDate) - 1;
+
+  const { kind, year } = timeline.personalDate;
+  const years = year ? parseCalendarDate(nextDate).getFullYear() - year : 0;
+
+  if (years > 0 && kind === 'birthday') {
+    return isToday
+      ? i18n.t('timeline.turningAgeToday', { age: years })
+      : i18n.t('timeline.turningAgeIn', { age: years, count });
+  }
+
+  if (years > 0) {
+    return isToday
+      ? i18n.t('timeline.anniversaryYearsToday', { count: years })
+      : i18n.t('timeline.anniversaryYearsIn', { years, count });
+  }
+
+  return isToday ? i18n.t('timeline.personalDateToday') : i18n.t('timeline.personalDateIn', { count });
+}
+
+// ============================================================================
+// Pinned Times
+// ============================================================================
+
+/**
+ * Check if a timeline ends at a time of day in a specific time zone
+ */
+export function isPinnedTimeline(timeline: Timeline): boolean {
+  return (
+    timeline.type === TimelineType.CUSTOM &&
+    !!timeline.pinnedTime &&
+    !!timeline.endDate &&
+    (timeline.trackingMode ?? 'time') === 'time' &&
+    timeline.unit !== 'hour'
+  );
+}
+
+/**
+ * Get the moment a pinned timeline ends (its time of day on the end date, in its zone)
  */
-export function getTimelineDaysRemaining(timeline: Timeline): number {
-  return getDaysRemaining(timeline.startDate, timeline.endDate);
+export function getPinnedMoment(timeline: Timeline, pinnedTime: PinnedTime): Date {
+  return getTimeZoneMoment(getTimelineEndDate(timeline), pinnedTime.time, pinnedTime.timeZone);
 }
 
 /**
- * Get total days for a timeline
+ * Calculate statistics for a pinned timeline
+ * Days follow the calendar of the pinned zone, whatever the device's zone;
+ * minutesRemaining counts down to the pinned moment
+ *
+ * @param timeline - Pinned CUSTOM timeline
+ * @param now - Moment to measure at (defaults to now)
+ * @returns Timeline statistics with the minutes left
  */
-export function getTimelineTotalDays(timeline: Timeline): number {
-  return getTotalDays(timeline.startDate, timeline.endDate);
+export function calculatePinnedStats(timeline: Timeline, now: Date = new Date()): TimelineStats {
+  const pinnedTime = timeline.pinnedTime as PinnedTime;
+  const endDate = getTimelineEndDate(timeline);
+  const unit = getTimelineUnit(timeline);
+  const today = getTimeZoneCalendarDate(pinnedTime.timeZone, now);
+
+  const totalDays = getTotalDays(timeline.startDate, endDate);
+  const daysPassed = Math.min(totalDays, Math.max(0, getDaysBetween(timeline.startDate, today)));
+  const totalUnits = getTotalUnits(timeline.startDate, endDate, unit);
+  const unitsPassed =
+    unit === 'day'
+      ? daysPassed
+      : Math.min(totalUnits, Math.max(0, getUnitIndex(timeline.startDate, today, unit) + 1));
+
+  return {
+    daysPassed,
+    daysRemaining: totalDays - daysPassed,
+    totalDays,
+    progressPercentage: totalUnits === 0 ? 0 : Math.round((unitsPassed / totalUnits) * 100),
+    unit,
+    unitsPassed,
+    unitsRemaining: totalUnits - unitsPassed,
+    totalUnits,
+    isOpenEnded: false,
+    minutesRemaining: Math.max(0, getMinutesBetween(now, getPinnedMoment(timeline, pinnedTime))),
+  };
 }
 
 /**
- * Get progress percentage for a timeline (0-100)
+ * Describe a pinned timeline's end time and its local equivalent
+ * Example: "09:00 Los Angeles · Tue, Mar 3, 6:00 PM your time"
+ *
+ * @returns Description, or null when the timeline is not pinned
  */
-export function getTimelineProgressPercentage(timeline: Timeline): number {
-  return getProgressPercentage(timeline.startDate, timeline.endDate);
+export function getPinnedTimeDescription(timeline: Timeline): string | null {
+  if (!isPinnedTimeline(timeline) || !timeline.pinnedTime) {
+    return null;
+  }
+
+  const localTime = getPinnedMoment(timeline, timeline.pinnedTime).toLocaleString(getCurrentLocale(), {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+  return i18n.t('timeline.pinnedTime', {
+    time: timeline.pinnedTime.time,
+    zone: formatTimeZoneName(timeline.pinnedTime.timeZone),
+    localTime,
+  });
 }
 
 // ============================================================================
@@ -224,14 +2036,15 @@ export function getTimelineProgressPercentage(timeline: Timeline): number {
  * Should be called when the app detects a week change
  *
  * @param timeline - Week timeline to update
+ * @param weekStartDay - First day of the week (defaults to Monday)
  * @returns Updated timeline with new dates
  */
-export function updateWeekTimeline(timeline: Timeline): Timeline {
+export function updateWeekTimeline(timeline: Timeline, weekStartDay?: WeekStartDay): Timeline {
   if (timeline.type !== TimelineType.WEEK) {
     throw new Error('Can only update WEEK timelines');
   }
 
-  const config = calculateTimelineFromType(TimelineType.WEEK);
+  const config = calculateTimelineFromType(TimelineType.WEEK, { weekStartDay });
 
   return {
     ...timeline,
@@ -246,18 +2059,55 @@ export function updateWeekTimeline(timeline: Timeline): Timeline {
  * Returns true if the timeline's week is not the current week
  *
  * @param timeline - Week timeline to check
+ * @param weekStartDay - First day of the week (defaults to Monday)
  * @returns True if update is needed
  */
-export function weekTimelineNeedsUpdate(timeline: Timeline): boolean {
+export function weekTimelineNeedsUpdate(timeline: Timeline, weekStartDay?: WeekStartDay): boolean {
   if (timeline.type !== TimelineType.WEEK) {
     return false;
   }
 
-  const currentWeekStart = getStartOfCurrentWeek();
-  const timelineWeekStart = new Date(timeline.startDate);
+  const currentWeekStart = toCalendarDate(getStartOfCurrentWeek(weekStartDay));
 
   // Compare week start dates
-  return currentWeekStart.getTime() !== timelineWeekStart.getTime();
+  return currentWeekStart !== toCalendarDate(timeline.startDate);
+}
+
+/**
+ * Update a "Today" timeline to the current day
+ * Custom hours are kept
+ *
+ * @param timeline - Day timeline to update
+ * @returns Updated timeline with new dates
+ */
+export function updateDayTimeline(timeline: Timeline): Timeline {
+  if (timeline.type !== TimelineType.DAY) {
+    throw new Error('Can only update DAY timelines');
+  }
+
+  const config = calculateTimelineFromType(TimelineType.DAY);
+
+  return {
+    ...timeline,
+    startDate: config.startDate,
+    endDate: config.endDate,
+    title: config.title,
+  };
+}
+
+/**
+ * Check if a day timeline needs to be updated
+ * Returns true once midnight (or the user's day boundary) has passed
+ *
+ * @param timeline - Day timeline to check
+ * @returns True if update is needed
+ */
+export function dayTimelineNeedsUpdate(timeline: Timeline): boolean {
+  if (timeline.type !== TimelineType.DAY) {
+    return false;
+  }
+
+  return timeline.startDate !== getTodayCalendarDate();
 }
 
 /**
@@ -272,7 +2122,9 @@ export function updateMonthTimeline(timeline: Timeline): Timeline {
     throw new Error('Can only update MONTH timelines');
   }
 
-  const config = calculateTimelineFromType(TimelineType.MONTH);
+  const config = calculateTimelineFromType(TimelineType.MONTH, {
+    calendarSystem: timeline.calendarSystem,
+  });
 
   return {
     ...timeline,
@@ -294,8 +2146,13 @@ export function monthTimelineNeedsUpdate(timeline: Timeline): boolean {
     return false;
   }
 
+  const calendar = getAlternateCalendar(timeline.calendarSystem);
+  if (calendar) {
+    return getCalendarMonth(calendar).startDate !== timeline.startDate;
+  }
+
   const currentMonthStart = getStartOfCurrentMonth();
-  const timelineMonthStart = new Date(timeline.startDate);
+  const timelineMonthStart = parseCalendarDate(timeline.startDate);
 
   // Compare month start dates
   return (
@@ -304,6 +2161,82 @@ export function monthTimelineNeedsUpdate(timeline: Timeline): boolean {
   );
 }
 
+/**
+ * Update a "This Quarter" timeline to the current quarter
+ * Should be called when the app detects a quarter change
+ *
+ * @param timeline - Quarter timeline to update
+ * @returns Updated timeline with new dates
+ */
+export function updateQuarterTimeline(timeline: Timeline): Timeline {
+  if (timeline.type !== TimelineType.QUARTER) {
+    throw new Error('Can only update QUARTER timelines');
+  }
+
+  const config = calculateTimelineFromType(TimelineType.QUARTER);
+
+  return {
+    ...timeline,
+    startDate: config.startDate,
+    endDate: config.endDate,
+    title: config.title,
+  };
+}
+
+/**
+ * Check if a quarter timeline needs to be updated
+ * Returns true if the timeline's quarter is not the current quarter
+ *
+ * @param timeline - Quarter timeline to check
+ * @returns True if update is needed
+ */
+export function quarterTimelineNeedsUpdate(timeline: Timeline): boolean {
+  if (timeline.type !== TimelineType.QUARTER) {
+    return false;
+  }
+
+  // Compare quarter start dates
+  return calculateTimelineFromType(TimelineType.QUARTER).startDate !== toCalendarDate(timeline.startDate);
+}
+
+/**
+ * Update a "This Half-Year" timeline to the current half-year
+ * Should be called when the app detects a half-year change
+ *
+ * @param timeline - Half-year timeline to update
+ * @returns Updated timeline with new dates
+ */
+export function updateHalfYearTimeline(timeline: Timeline): Timeline {
+  if (timeline.type !== TimelineType.HALF_YEAR) {
+    throw new Error('Can only update HALF_YEAR timelines');
+  }
+
+  const config = calculateTimelineFromType(TimelineType.HALF_YEAR);
+
+  return {
+    ...timeline,
+    startDate: config.startDate,
+    endDate: config.endDate,
+    title: config.title,
+  };
+}
+
+/**
+ * Check if a half-year timeline needs to be updated
+ * Returns true if the timeline's half-year is not the current half-year
+ *
+ * @param timeline - Half-year timeline to check
+ * @returns True if update is needed
+ */
+export function halfYearTimelineNeedsUpdate(timeline: Timeline): boolean {
+  if (timeline.type !== TimelineType.HALF_YEAR) {
+    return false;
+  }
+
+  // Compare half-year start dates
+  return calculateTimelineFromType(TimelineType.HALF_YEAR).startDate !== toCalendarDate(timeline.startDate);
+}
+
 /**
  * Update a "Current Year" timeline to the current year
  * Should be called when the app detects a year change
@@ -316,7 +2249,9 @@ export function updateYearTimeline(timeline: Timeline): Timeline {
     throw new Error('Can only update YEAR timelines');
   }
 
-  const config = calculateTimelineFromType(TimelineType.YEAR);
+  const config = calculateTimelineFromType(TimelineType.YEAR, {
+    calendarSystem: timeline.calendarSystem,
+  });
 
   return {
     ...timeline,
@@ -338,25 +2273,110 @@ export function yearTimelineNeedsUpdate(timeline: Timeline): boolean {
     return false;
   }
 
-  const currentYear = new Date().getFullYear();
-  const timelineYear = new Date(timeline.startDate).getFullYear();
+  const calendar = getAlternateCalendar(timeline.calendarSystem);
+  if (calendar) {
+    return getCalendarYear(calendar).startDate !== timeline.startDate;
+  }
+
+  const currentYear = parseCalendarDate(getTodayCalendarDate()).getFullYear();
+  const timelineYear = parseCalendarDate(timeline.startDate).getFullYear();
 
   // Compare years
   return currentYear !== timelineYear;
 }
 
+/**
+ * Get the period of a recurrence rule that contains a date
+ * - days/weeks: consecutive periods counted from the anchor start date
+ * - yearly: from the anchor month/day to the day before the next one
+ *   (Feb 29 anchors fall on Feb 28 in common years)
+ *
+ * @param rule - Recurrence rule
+ * @param anchor - Start date of any period of the rule (used by days/weeks)
+ * @param date - Date the period should contain
+ * @returns Start and end calendar dates of the period
+ */
+export function getRecurrencePeriod(
+  rule: RecurrenceRule,
+  anchor: CalendarDate,
+  date: CalendarDate
+): { startDate: CalendarDate; endDate: CalendarDate } {
+  if (rule.frequency === 'yearly') {
+    const year = parseCalendarDate(date).getFullYear();
+    let startDate = getYearlyAnchorDate(rule, year);
+    if (startDate > date) {
+      startDate = getYearlyAnchorDate(rule, year - 1);
+    }
+    const nextStart = getYearlyAnchorDate(rule, parseCalendarDate(startDate).getFullYear() + 1);
+
+    return { startDate, endDate: addCalendarDays(nextStart, -1) };
+  }
+
+  const periodDays = Math.max(1, rule.interval) * (rule.frequency === 'weeks' ? 7 : 1);
+  const periodIndex = Math.floor((getDaysBetween(anchor, date) - 1) / periodDays);
+  const startDate = addCalendarDays(anchor, periodIndex * periodDays);
+
+  return { startDate, endDate: addCalendarDays(startDate, periodDays - 1) };
+}
+
+/**
+ * Update a recurring CUSTOM timeline to the period containing today
+ * Keeps the user's title; only the dates advance
+ *
+ * @param timeline - Recurring custom timeline to update
+ * @returns Updated timeline with new dates
+ */
+export function updateRecurringTimeline(timeline: Timeline): Timeline {
+  if (timeline.type !== TimelineType.CUSTOM || !timeline.recurrence) {
+    throw new Error('Can only update recurring CUSTOM timelines');
+  }
+
+  const period = getRecurrencePeriod(timeline.recurrence, timeline.startDate, getTodayCalendarDate());
+
+  return {
+    ...timeline,
+    startDate: period.startDate,
+    endDate: period.endDate,
+  };
+}
+
+/**
+ * Check if a recurring timeline needs to be updated
+ * Returns true once the timeline's current period has ended
+ *
+ * @param timeline - Custom timeline to check
+ * @returns True if update is needed
+ */
+export function recurringTimelineNeedsUpdate(timeline: Timeline): boolean {
+  if (timeline.type !== TimelineType.CUSTOM || !timeline.recurrence || !timeline.endDate) {
+    return false;
+  }
+
+  return isPast(timeline.endDate);
+}
+
 /**
  * Check if any timeline needs to be updated and return updated version
  * Automatically detects timeline type and applies appropriate update
  *
  * @param timeline - Timeline to check and potentially update
+ * @param options - User settings used for alignment (e.g. first day of week)
  * @returns Updated timeline if update was needed, otherwise original timeline
  */
-export function updateTimelineIfNeeded(timeline: Timeline): { timeline: Timeline; wasUpdated: boolean } {
+export function updateTimelineIfNeeded(
+  timeline: Timeline,
+  options: TimelineUpdateOptions = {}
+): { timeline: Timeline; wasUpdated: boolean } {
   switch (timeline.type) {
+    case TimelineType.DAY:
+      if (dayTimelineNeedsUpdate(timeline)) {
+        return { timeline: updateDayTimeline(timeline), wasUpdated: true };
+      }
+      break;
+
     case TimelineType.WEEK:
-      if (weekTimelineNeedsUpdate(timeline)) {
-        return { timeline: updateWeekTimeline(timeline), wasUpdated: true };
+      if (weekTimelineNeedsUpdate(timeline, options.weekStartDay)) {
+        return { timeline: updateWeekTimeline(timeline, options.weekStartDay), wasUpdated: true };
       }
       break;
 
@@ -366,6 +2386,18 @@ export function updateTimelineIfNeeded(timeline: Timeline): { timeline: Timeline
       }
       break;
 
+    case TimelineType.QUARTER:
+      if (quarterTimelineNeedsUpdate(timeline)) {
+        return { timeline: updateQuarterTimeline(timeline), wasUpdated: true };
+      }
+      break;
+
+    case TimelineType.HALF_YEAR:
+      if (halfYearTimelineNeedsUpdate(timeline)) {
+        return { timeline: updateHalfYearTimeline(timeline), wasUpdated: true };
+      }
+      break;
+
     case TimelineType.YEAR:
       if (yearTimelineNeedsUpdate(timeline)) {
         return { timeline: updateYearTimeline(timeline), wasUpdated: true };
@@ -373,13 +2405,129 @@ export function updateTimelineIfNeeded(timeline: Timeline): { timeline: Timeline
       break;
 
     case TimelineType.CUSTOM:
-      // Custom timelines never auto-update
+      // Custom timelines only auto-update when they have a recurrence rule
+      // (birthdays and anniversaries advance to the occurrence just passed)
+      if (recurringTimelineNeedsUpdate(timeline)) {
+        return { timeline: updateRecurringTimeline(timeline), wasUpdated: true };
+      }
+      break;
+
+    case TimelineType.LIFE:
+      // Life timelines are fixed by birthdate and lifespan
       break;
   }
 
   return { timeline, wasUpdated: false };
 }
 
+// ============================================================================
+// Timeline Archive
+// ============================================================================
+
+/**
+ * Create a read-only archived copy of a timeline's period
+ * Should be called with the timeline as it was before a rollover
+ *
+ * @param timeline - Finished YEAR/MONTH/WEEK or recurring CUSTOM timeline period
+ * @returns Archived timeline with final stats
+ */
+export function createArchivedTimeline(timeline: Timeline): ArchivedTimeline {
+  const stats = calculateTimelineStats(timeline);
+  const id = `archive_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  return {
+    ...timeline,
+    id,
+    title: getArchivedTimelineTitle(timeline),
+    isActive: false,
+    sourceTimelineId: timeline.id,
+    archivedAt: nowISO(),
+    finalStats: {
+      daysPassed: stats.daysPassed,
+      totalDays: stats.totalDays,
+      unitsPassed: stats.unitsPassed,
+      totalUnits: stats.totalUnits,
+      progressPercentage: stats.progressPercentage,
+    },
+  };
+}
+
+/**
+ * Get a period title for an archived timeline
+ * Examples: "2025", "March 2026", "Mar 2 – Mar 8, 2026", "Sprint · Mar 2 – Mar 15, 2026"
+ */
+export function getArchivedTimelineTitle(timeline: Timeline): string {
+  const start = parseCalendarDate(timeline.startDate);
+  const end = parseCalendarDate(getTimelineEndDate(timeline));
+
+  // Non-Gregorian month names already include their year
+  if (getAlternateCalendar(timeline.calendarSystem)) {
+    return getTimelineDisplayTitle(timeline);
+  }
+
+  switch (timeline.type) {
+    case TimelineType.YEAR:
+      return start.getFullYear().toString();
+    case TimelineType.MONTH:
+      return start.toLocaleDateString(getCurrentLocale(), { month: 'long', year: 'numeric' });
+    case TimelineType.QUARTER:
+    case TimelineType.HALF_YEAR:
+      return getTimelineDisplayTitle(timeline);
+    case TimelineType.WEEK:
+      return formatDateRange(start, end);
+    case TimelineType.CUSTOM:
+      return `${timeline.title} · ${formatDateRange(start, end)}`;
+    default:
+      return timeline.title;
+  }
+}
+
+/**
+ * Format a short localized date range
+ * Example: "Mar 2 – Mar 8, 2026"
+ */
+function formatDateRange(start: Date, end: Date): string {
+  const startLabel = start.toLocaleDateString(getCurrentLocale(), { month: 'short', day: 'numeric' });
+  const endLabel = end.toLocaleDateString(getCurrentLocale(), {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+  return `${startLabel} – ${endLabel}`;
+}
+
+/**
+ * Get the final description of an archived timeline
+ * Examples: "Year · 100%", "Week · 100%"
+ */
+export function getArchivedTimelineDescription(archived: ArchivedTimeline): string {
+  return i18n.t('timeline.description', {
+    type: getTimelineTypeLabel(archived.type),
+    percent: archived.finalStats.progressPercentage,
+  });
+}
+
+/**
+ * Get the final progress string of an archived timeline
+ * Examples: "365 of 365 days", "7 of 7 days"
+ */
+export function getArchivedTimelineProgress(archived: ArchivedTimeline): string {
+  return i18n.t(UNIT_PROGRESS_KEYS[getTimelineUnit(archived)], {
+    passed: archived.finalStats.unitsPassed,
+    total: archived.finalStats.totalUnits,
+  });
+}
+
+/**
+ * Sort archived timelines by period (most recent period first)
+ */
+export function sortArchivedTimelines(archived: ArchivedTimeline[]): ArchivedTimeline[] {
+  return [...archived].sort((a, b) => {
+    // Calendar dates (YYYY-MM-DD) sort chronologically as strings
+    return toCalendarDate(b.startDate).localeCompare(toCalendarDate(a.startDate));
+  });
+}
+
 // ============================================================================
 // Timeline Validation
 // ============================================================================
@@ -404,18 +2552,39 @@ export function validateTimeline(timeline: Partial<Timeline>): boolean {
     throw new Error('Timeline must have a title');
   }
 
-  if (!timeline.startDate || !timeline.endDate) {
+  if (!timeline.startDate) {
+    throw new Error('Timeline must have a start date');
+  }
+
+  // End date is optional for open-ended count-up timelines (CUSTOM only)
+  if (!timeline.endDate && timeline.type !== TimelineType.CUSTOM) {
     throw new Error('Timeline must have start and end dates');
   }
 
-  const startDate = new Date(timeline.startDate);
-  const endDate = new Date(timeline.endDate);
+  if (!timeline.endDate && timeline.recurrence) {
+    throw new Error('Recurring timeline must have an end date');
+  }
+
+  // Goal timelines need an end date to set their pace
+  if (timeline.trackingMode === 'goal' && (!timeline.endDate || !timeline.goal || timeline.goal.target <= 0)) {
+    throw new Error('Goal timeline must have an end date and a positive target');
+  }
+
+  if (
+    !isCalendarDate(timeline.startDate) ||
+    (timeline.endDate !== undefined && !isCalendarDate(timeline.endDate))
+  ) {
+    throw new Error('Timeline dates must be valid calendar dates (YYYY-MM-DD)');
+  }
+
+  const startDate = parseCalendarDate(timeline.startDate);
+  const endDate = timeline.endDate ? parseCalendarDate(timeline.endDate) : null;
 
-  if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+  if (isNaN(startDate.getTime()) || (endDate && isNaN(endDate.getTime()))) {
     throw new Error('Timeline dates must be valid');
   }
 
-  if (startDate > endDate) {
+  if (endDate && startDate > endDate) {
     throw new Error('Timeline start date must be before end date');
   }
 
@@ -430,6 +2599,35 @@ export function validateTimeline(timeline: Partial<Timeline>): boolean {
 // Helper Functions
 // ============================================================================
 
+/**
+ * Get the anchor date of a yearly recurrence rule in a given year
+ * The day is clamped to the month length (e.g. Feb 29 -> Feb 28 in common years)
+ */
+function getYearlyAnchorDate(
+  rule: { month: number; day: number },
+  year: number
+): CalendarDate {
+  const daysInMonth = new Date(year, rule.month + 1, 0).getDate();
+  return toCalendarDate(new Date(year, rule.month, Math.min(rule.day, daysInMonth)));
+}
+
+/**
+ * Translation keys for progress/remaining strings per dot unit
+ */
+const UNIT_PROGRESS_KEYS: Record<TimelineUnit, string> = {
+  hour: 'timeline.progressHours',
+  day: 'timeline.progress',
+  week: 'timeline.progressWeeks',
+  month: 'timeline.progressMonths',
+};
+
+const UNIT_REMAINING_KEYS: Record<TimelineUnit, string> = {
+  hour: 'timeline.remainingHours',
+  day: 'timeline.remaining',
+  week: 'timeline.remainingWeeks',
+  month: 'timeline.remainingMonths',
+};
+
 /**
  * Get the locale-aware display title for a timeline.
  * For non-custom types, derives the title from the timeline's startDate and
@@ -439,17 +2637,41 @@ export function validateTimeline(timeline: Partial<Timeline>): boolean {
  * CUSTOM timelines keep their user-chosen title unchanged.
  */
 export function getTimelineDisplayTitle(timeline: Timeline): string {
+  const calendar = getAlternateCalendar(timeline.calendarSystem);
+  if (calendar && (timeline.type === TimelineType.YEAR || timeline.type === TimelineType.MONTH)) {
+    const unit = timeline.type === TimelineType.YEAR ? 'year' : 'month';
+    return formatCalendarPeriod(calendar, unit, timeline.startDate, getCurrentLocale());
+  }
+
   switch (timeline.type) {
+    case TimelineType.DAY:
+      return i18n.t('timeline.today');
     case TimelineType.WEEK:
       return i18n.t('timeline.thisWeek');
     case TimelineType.MONTH: {
-      const date = new Date(timeline.startDate);
+      const date = parseCalendarDate(timeline.startDate);
       return date.toLocaleDateString(getCurrentLocale(), { month: 'long' });
     }
     case TimelineType.YEAR:
-      return new Date(timeline.startDate).getFullYear().toString();
+      return parseCalendarDate(timeline.startDate).getFullYear().toString();
+    case TimelineType.QUARTER: {
+      const date = parseCalendarDate(timeline.startDate);
+      return i18n.t('timeline.quarterTitle', {
+        quarter: Math.floor(date.getMonth() / 3) + 1,
+        year: date.getFullYear(),
+      });
+    }
+    case TimelineType.HALF_YEAR: {
+      const date = parseCalendarDate(timeline.startDate);
+      return i18n.t('timeline.halfYearTitle', {
+        half: Math.floor(date.getMonth() / 6) + 1,
+        year: date.getFullYear(),
+      });
+    }
     case TimelineType.CUSTOM:
       return timeline.title;
+    case TimelineType.LIFE:
+      return i18n.t('timeline.mementoMori');
     default:
       return timeline.title;
   }
@@ -457,49 +2679,161 @@ export function getTimelineDisplayTitle(timeline: Timeline): string {
 
 /**
  * Get a human-readable description of a timeline
- * Examples: "Year · 1%", "Week · 100%", "Custom · 50%"
+ * Examples: "Year · 1%", "Week · 100%", "Custom · 50%", "Count-up · since Mar 2, 2026",
+ * "Habit · 85%" (completion rate), "Goal · 23%" (progress toward the target)
  *
  * @param timeline - Timeline to describe
  * @returns Description string
  */
 export function getTimelineDescription(timeline: Timeline): string {
-  const stats = calculateTimelineStats(timeline);
+  if (isGoalTimeline(timeline)) {
+    return i18n.t('timeline.description', {
+      type: i18n.t('timeline.goal'),
+      percent: getTimelineProgressPercentage(timeline),
+    });
+  }
+
+  if (isHabitTimeline(timeline)) {
+    return i18n.t('timeline.description', {
+      type: i18n.t('timeline.habit'),
+      percent: calculateHabitStats(timeline).completionRate,
+    });
+  }
+
+  if (!timeline.endDate) {
+    return i18n.t('timeline.countUpDescription', {
+      date: parseCalendarDate(timeline.startDate).toLocaleDateString(getCurrentLocale(), {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+      }),
+    });
+  }
 
-  const typeLabel =
-    timeline.type === TimelineType.YEAR
-      ? i18n.t('timeline.year')
-      : timeline.type === TimelineType.MONTH
-        ? i18n.t('timeline.month')
-        : timeline.type === TimelineType.WEEK
-          ? i18n.t('timeline.week')
-          : i18n.t('timeline.custom');
+  const stats = calculateTimelineStats(timeline);
+  const typeLabel = getTimelineTypeLabel(timeline.type);
 
   return i18n.t('timeline.description', { type: typeLabel, percent: stats.progressPercentage });
 }
 
+/**
+ * Get the localized label for a timeline type
+ * Examples: "Year", "Quarter", "Month", "Week", "Custom", "Life"
+ */
+export function getTimelineTypeLabel(type: TimelineType): string {
+  switch (type) {
+    case TimelineType.YEAR:
+      return i18n.t('timeline.year');
+    case TimelineType.HALF_YEAR:
+      return i18n.t('timeline.halfYear');
+    case TimelineType.QUARTER:
+      return i18n.t('timeline.quarter');
+    case TimelineType.MONTH:
+      return i18n.t('timeline.month');
+    case TimelineType.WEEK:
+      return i18n.t('timeline.week');
+    case TimelineType.DAY:
+      return i18n.t('timeline.day');
+    case TimelineType.LIFE:
+      return i18n.t('timeline.life');
+    default:
+      return i18n.t('timeline.custom');
+  }
+}
+
 /**
  * Get a human-readable progress string
- * Examples: "3 of 365 days", "7 of 7 days"
+ * Examples: "3 of 365 days", "7 of 7 days", "1520 of 4174 weeks", "Day 43",
+ * "12-day streak" (habit timelines), "12 of 52 books" (goal timelines)
  *
  * @param timeline - Timeline to describe
  * @returns Progress string
  */
 export function getTimelineProgress(timeline: Timeline): string {
   const stats = calculateTimelineStats(timeline);
-  return i18n.t('timeline.progress', { passed: stats.daysPassed, total: stats.totalDays });
+  if (stats.goal) {
+    return i18n.t('timeline.goalProgress', {
+      progress: stats.goal.progress,
+      target: stats.goal.target,
+      unit: stats.goal.unitLabel,
+    });
+  }
+
+  if (stats.habit) {
+    return i18n.t('timeline.habitStreak', { count: stats.habit.currentStreak });
+  }
+
+  if (stats.isOpenEnded) {
+    return i18n.t('timeline.dayCount', { count: stats.daysPassed });
+  }
+
+  if (stats.excludedDays !== undefined) {
+    return i18n.t('timeline.workingDaysProgress', { passed: stats.daysPassed, total: stats.totalDays });
+  }
+
+  return i18n.t(UNIT_PROGRESS_KEYS[stats.unit], { passed: stats.unitsPassed, total: stats.totalUnits });
 }
 
 /**
  * Get a human-readable remaining string
- * Examples: "362 days remaining", "0 days remaining"
+ * Examples: "362 days remaining", "0 days remaining", "2654 weeks remaining",
+ * "7 days to 50" (count-up timelines, next milestone),
+ * "4 books behind pace" (goal timelines),
+ * "Turning 64 in 38 days" (birthdays), "5 h 20 min remaining" (today),
+ * "12 days 4 h remaining" (pinned timelines), "Starts in 12 days" (upcoming),
+ * "Completed" (CUSTOM timelines past their end date)
  *
  * @param timeline - Timeline to describe
  * @returns Remaining string
  */
 export function getTimelineRemaining(timeline: Timeline): string {
+  if (isUpcomingTimeline(timeline)) {
+    return i18n.t('timeline.startsIn', { count: getDaysUntilStart(timeline) });
+  }
+
+  if (isCompletedTimeline(timeline)) {
+    return i18n.t('timeline.completed');
+  }
+
+  const countdown = getPersonalDateCountdown(timeline);
+  if (countdown) {
+    return countdown;
+  }
+
+  const goalPace = getTimelineGoalPace(timeline);
+  if (goalPace) {
+    return goalPace;
+  }
+
   const stats = calculateTimelineStats(timeline);
-  const days = stats.daysRemaining;
-  return i18n.t('timeline.remaining', { count: days });
+  // Pinned countdowns show days and hours until the last 24 hours
+  const { minutesRemaining } = stats;
+  if (isPinnedTimeline(timeline) && minutesRemaining !== undefined && minutesRemaining >= MINUTES_PER_DAY) {
+    return i18n.t('timeline.daysHoursRemaining', {
+      count: Math.floor(minutesRemaining / MINUTES_PER_DAY),
+      hours: Math.floor((minutesRemaining % MINUTES_PER_DAY) / 60),
+    });
+  }
+
+  if (stats.minutesRemaining !== undefined) {
+    return i18n.t('timeline.timeRemaining', {
+      hours: Math.floor(stats.minutesRemaining / 60),
+      minutes: stats.minutesRemaining % 60,
+    });
+  }
+
+  if (stats.isOpenEnded) {
+    return i18n.t('timeline.daysToMilestone', {
+      count: stats.daysToNextMilestone,
+      milestone: stats.nextMilestone,
+    });
+  }
+
+  if (stats.excludedDays !== undefined) {
+    return i18n.t('timeline.workingDaysRemaining', { count: stats.daysRemaining });
+  }
+
+  return i18n.t(UNIT_REMAINING_KEYS[stats.unit], { count: stats.unitsRemaining });
 }
 
 /**
@@ -521,3 +2855,10 @@ export function sortTimelinesWithActiveFirst(timelines: Timeline[]): Timeline[]
     return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
   });
 }
+
+/**
+ * Get the non-Gregorian calendar a YEAR/MONTH timeline follows, if any
+ */
+function getAlternateCalendar(calendarSystem?: CalendarSystem): AlternateCalendarSystem | null {
+  return calendarSystem && calendarSystem !== 'gregorian' ? calendarSystem : null;
+}
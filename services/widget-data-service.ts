@@ -10,8 +10,30 @@
 
 import { Platform } from 'react-native';
 import { Timeline } from '@/types/timeline';
-import { calculateTimelineStats } from '@/services/timeline-calculator';
-import { loadTimelines, getActiveTimelineId, loadSettings } from '@/services/storage';
+import {
+  calculateTimelineStats,
+  calculateDayStats,
+  calculatePhaseStats,
+  getCurrentTimelinePhase,
+  getNextTimelineMarker,
+  isGoalTimeline,
+  isDayTimeline,
+  getDayTimelineRefreshTimes,
+  getTimelineStartMoment,
+  isCompletedTimeline,
+  hasCountingRules,
+  isPinnedTimeline,
+  getPinnedMoment,
+  logGoalProgress,
+} from '@/services/timeline-calculator';
+import { addCalendarDays } from '@/utils/date-helpers';
+import {
+  loadTimelines,
+  getActiveTimelineId,
+  loadSettings,
+  getTimelineById,
+  saveTimeline,
+} from '@/services/storage';
 
 /**
  * App Group identifier - must match app.json entitlements
@@ -30,6 +52,12 @@ const WIDGET_DATA_KEYS = {
   DATA_VERSION: 'widget_data_version',
 } as const;
 
+/**
+ * Deep link a widget opens to log "+1" on a goal timeline
+ * Format: stoiccalendar://goal/increment?id=<timelineId>
+ */
+export const GOAL_INCREMENT_URL = 'stoiccalendar://goal/increment';
+
 /**
  * Widget timeline metadata (lightweight version for widget configuration)
  * Used to populate timeline picker in widget configuration
@@ -48,8 +76,64 @@ export interface WidgetTimelineData {
   id: string;
   type: string;
   title: string;
-  startDate: string; // ISO 8601
-  endDate: string; // ISO 8601
+  startDate: string; // Calendar date (YYYY-MM-DD)
+  endDate: string; // Calendar date (YYYY-MM-DD); next milestone for count-up timelines
+  daysPassed: number;
+  daysRemaining: number;
+  totalDays: number;
+  progressPercentage: number; // 0-100
+  unit: string; // 'hour' | 'day' | 'week' | 'month' (1 dot = 1 unit)
+  unitsPassed: number;
+  unitsRemaining: number;
+  totalUnits: number;
+  isOpenEnded: boolean; // Count-up timeline: units are counted toward the next milestone
+  hasCountingRules: boolean; // Day counts skip excluded days, so widgets keep these stats instead of recounting
+  state: WidgetTimelineState; // 'upcoming' before the start date, 'active', then 'completed' after a CUSTOM end date
+  daysUntilStart?: number; // Upcoming timelines: days until the start date
+  startsAt?: string; // Upcoming timelines: ISO 8601 instant the timeline starts, so widgets switch on time
+  endsAt?: string; // Pinned timelines: ISO 8601 instant of the pinned end time
+  pinnedTimeZone?: string; // Pinned timelines: IANA zone whose calendar the days follow
+  nextMarkerTitle?: string; // Next upcoming marker (e.g. "Launch")
+  nextMarkerDate?: string; // Calendar date (YYYY-MM-DD)
+  daysToNextMarker?: number; // 0 = today
+  currentPhase?: WidgetPhaseData; // Phase containing today, if any
+  currentStreak?: number; // Habit timelines: consecutive done days up to today
+  longestStreak?: number; // Habit timelines: best streak so far
+  completionRate?: number; // Habit timelines: 0-100, skipped days excluded
+  goalProgress?: number; // Goal timelines: logged amount (e.g. 12 books)
+  goalTarget?: number; // Goal timelines: target amount (1 dot = 1 unit)
+  goalUnit?: string; // Goal timelines: what is counted (e.g. "books")
+  goalPaceDifference?: number; // Goal timelines: progress minus expected pace (negative = behind)
+  goalIncrementUrl?: string; // Goal timelines: "+1" deep link
+  refreshEntries?: WidgetRefreshEntry[]; // Today timelines: stats at each upcoming hour
+}
+
+/**
+ * Widget timeline state
+ * Upcoming timelines haven't started yet (widgets can show a countdown to the start)
+ * Completed timelines are past their end date and wait to be extended, renewed or archived
+ */
+export type WidgetTimelineState = 'upcoming' | 'active' | 'completed';
+
+/**
+ * Widget refresh entry (stats precomputed for an upcoming moment)
+ * Lets widgets fill "Today" dots hourly without the app running
+ */
+export interface WidgetRefreshEntry {
+  date: string; // ISO 8601 instant the entry takes effect
+  unitsPassed: number;
+  unitsRemaining: number;
+  progressPercentage: number; // 0-100
+}
+
+/**
+ * Widget phase data (current phase of a timeline)
+ */
+export interface WidgetPhaseData {
+  title: string;
+  color: string; // Hex color (e.g. "#FF9500")
+  startDate: string; // Calendar date (YYYY-MM-DD)
+  endDate: string; // Calendar date (YYYY-MM-DD)
   daysPassed: number;
   daysRemaining: number;
   totalDays: number;
@@ -63,6 +147,7 @@ export interface WidgetTimelineData {
 export interface WidgetSettingsData {
   gridColorTheme: string; // 'classic' | 'forest' | 'sunset' | 'monochrome'
   themeMode: string; // 'system' | 'light' | 'dark'
+  dayStartsAt: number; // Hour (0-23) when a new day begins
 }
 
 /**
@@ -88,6 +173,83 @@ function getExtensionStorage() {
   return extensionStorage;
 }
 
+/**
+ * Build the hourly refresh entries of a "Today" timeline
+ */
+function buildWidgetRefreshEntries(timeline: Timeline): WidgetRefreshEntry[] {
+  return getDayTimelineRefreshTimes(timeline).map((time) => {
+    const stats = calculateDayStats(timeline, time);
+    return {
+      date: time.toISOString(),
+      unitsPassed: stats.unitsPassed,
+      unitsRemaining: stats.unitsRemaining,
+      progressPercentage: Math.round(stats.progressPercentage),
+    };
+  });
+}
+
+/**
+ * Build the widget payload (timeline + calculated stats) for a timeline
+ */
+function buildWidgetTimelineData(timeline: Timeline): WidgetTimelineData {
+  const stats = calculateTimelineStats(timeline);
+  const nextMarker = getNextTimelineMarker(timeline);
+  const phase = getCurrentTimelinePhase(timeline);
+  const pinnedTime = isPinnedTimeline(timeline) ? timeline.pinnedTime : undefined;
+  const isUpcoming = stats.daysUntilStart !== undefined;
+  const state: WidgetTimelineState = isUpcoming
+    ? 'upcoming'
+    : isCompletedTimeline(timeline)
+      ? 'completed'
+      : 'active';
+
+  return {
+    id: timeline.id,
+    type: timeline.type,
+    title: timeline.title,
+    startDate: timeline.startDate,
+    // Count-up timelines have no end; the widget grid runs to the next milestone
+    endDate: timeline.endDate ?? addCalendarDays(timeline.startDate, stats.totalUnits - 1),
+    daysPassed: stats.daysPassed,
+    daysRemaining: stats.daysRemaining,
+    totalDays: stats.totalDays,
+    // Widgets decode whole percents (Today timelines keep a decimal in the app)
+    progressPercentage: Math.round(stats.progressPercentage),
+    unit: stats.unit,
+    unitsPassed: stats.unitsPassed,
+    unitsRemaining: stats.unitsRemaining,
+    totalUnits: stats.totalUnits,
+    isOpenEnded: stats.isOpenEnded,
+    hasCountingRules: hasCountingRules(timeline),
+    state,
+    daysUntilStart: stats.daysUntilStart,
+    startsAt: isUpcoming ? getTimelineStartMoment(timeline).toISOString() : undefined,
+    endsAt: pinnedTime ? getPinnedMoment(timeline, pinnedTime).toISOString() : undefined,
+    pinnedTimeZone: pinnedTime?.timeZone,
+    nextMarkerTitle: nextMarker?.marker.title,
+    nextMarkerDate: nextMarker?.marker.date,
+    daysToNextMarker: nextMarker?.daysUntil,
+    currentPhase: phase
+      ? {
+          title: phase.title,
+          color: phase.color,
+          startDate: phase.startDate,
+          endDate: phase.endDate,
+          ...calculatePhaseStats(phase),
+        }
+      : undefined,
+    currentStreak: stats.habit?.currentStreak,
+    longestStreak: stats.habit?.longestStreak,
+    completionRate: stats.habit?.completionRate,
+    goalProgress: stats.goal?.progress,
+    goalTarget: stats.goal?.target,
+    goalUnit: stats.goal?.unitLabel,
+    goalPaceDifference: stats.goal?.paceDifference,
+    goalIncrementUrl: stats.goal ? `${GOAL_INCREMENT_URL}?id=${encodeURIComponent(timeline.id)}` : undefined,
+    refreshEntries: isDayTimeline(timeline) ? buildWidgetRefreshEntries(timeline) : undefined,
+  };
+}
+
 /**
  * Check if widget sync is available (requires development build)
  */
@@ -131,21 +293,8 @@ export async function syncActiveTimelineToWidget(): Promise<void> {
       return;
     }
 
-    // Calculate timeline stats
-    const stats = calculateTimelineStats(activeTimeline);
-
-    // Create widget-optimized data structure
-    const widgetData: WidgetTimelineData = {
-      id: activeTimeline.id,
-      type: activeTimeline.type,
-      title: activeTimeline.title,
-      startDate: activeTimeline.startDate,
-      endDate: activeTimeline.endDate,
-      daysPassed: stats.daysPassed,
-      daysRemaining: stats.daysRemaining,
-      totalDays: stats.totalDays,
-      progressPercentage: stats.progressPercentage,
-    };
+    // Create widget-optimized data structure (with calculated stats)
+    const widgetData = buildWidgetTimelineData(activeTimeline);
 
     // Write to App Groups using ExtensionStorage
     storage.set(WIDGET_DATA_KEYS.ACTIVE_TIMELINE, JSON.stringify(widgetData));
@@ -175,7 +324,10 @@ export async function syncActiveTimelineToWidget(): Promise<void> {
  * - On app launch
  * - When a timeline is created
  * - When a timeline is updated (title/type changes)
- * - When a timeline is deleted
+ * - When a timeline is deleted or archived
+ *
+ * Archived timelines are moved out of the timeline list into the archive,
+ * so they are never exported.
  *
  * NOTE: Widget sync requires a development build and will not work in Expo Go.
  */
@@ -189,20 +341,7 @@ export async function syncAllTimelinesToWidget(): Promise<void> {
     const timelines = await loadTimelines();
 
     // Create full data array with stats for each timeline
-    const timelineDataArray: WidgetTimelineData[] = timelines.map((t) => {
-      const stats = calculateTimelineStats(t);
-      return {
-        id: t.id,
-        type: t.type,
-        title: t.title,
-        startDate: t.startDate,
-        endDate: t.endDate,
-        daysPassed: stats.daysPassed,
-        daysRemaining: stats.daysRemaining,
-        totalDays: stats.totalDays,
-        progressPercentage: stats.progressPercentage,
-      };
-    });
+    const timelineDataArray: WidgetTimelineData[] = timelines.map(buildWidgetTimelineData);
 
     // Write to App Groups using ExtensionStorage with version markers
     // This helps widgets detect partial writes during race conditions
@@ -216,6 +355,27 @@ export async function syncAllTimelinesToWidget(): Promise<void> {
   }
 }
 
+/**
+ * Log one unit of progress on a goal timeline from the widget's "+1" deep link
+ * and refresh the widgets
+ *
+ * @param timelineId - Goal timeline to update
+ */
+export async function incrementGoalFromWidget(timelineId: string): Promise<void> {
+  try {
+    const timeline = await getTimelineById(timelineId);
+    if (!timeline || !isGoalTimeline(timeline)) {
+      return;
+    }
+
+    await saveTimeline(logGoalProgress(timeline, 1));
+    await syncAllTimelinesToWidget();
+    await syncActiveTimelineToWidget();
+  } catch (error) {
+    console.error('❌ Error logging goal progress from widget:', error);
+  }
+}
+
 /**
  * Export settings to App Groups for widgets
  *
@@ -238,6 +398,7 @@ export async function syncSettingsToWidget(): Promise<void> {
     const widgetSettings: WidgetSettingsData = {
       gridColorTheme: settings.gridColorTheme,
       themeMode: settings.themeMode,
+      dayStartsAt: settings.dayStartsAt,
     };
 
     storage.set(WIDGET_DATA_KEYS.SETTINGS, JSON.stringify(widgetSettings));
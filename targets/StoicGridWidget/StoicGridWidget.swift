@@ -2,7 +2,7 @@
  * Stoic Calendar Widgets
  * Home Screen & Lock Screen Widget Extensions
  *
- * Displays active timeline as a grid of dots (1 dot = 1 day)
+ * Displays active timeline as a grid of dots (1 dot = 1 hour, day, week or month)
  */
 
 import WidgetKit
@@ -18,52 +18,250 @@ struct WidgetTimelineData: Codable {
     let title: String
     let startDate: String
     let endDate: String
-    let daysPassed: Int
-    let daysRemaining: Int
-    let totalDays: Int
-    let progressPercentage: Int
+    var daysPassed: Int
+    var daysRemaining: Int
+    var totalDays: Int
+    var progressPercentage: Int
+    /// What one dot stands for: "hour", "day", "week" or "month" (missing in data from older app versions)
+    var unit: String? = nil
+    var unitsPassed: Int? = nil
+    var unitsRemaining: Int? = nil
+    var totalUnits: Int? = nil
+    /// Goal timelines: logged amount and target (1 dot = 1 goal unit)
+    var goalProgress: Double? = nil
+    var goalTarget: Double? = nil
+    /// Goal timelines: what is counted (e.g. "books")
+    var goalUnit: String? = nil
+    /// Goal timelines: "+1" deep link (stoiccalendar://goal/increment?id=...)
+    var goalIncrementUrl: String? = nil
+    /// Counting rules skip days (weekends, holidays, pauses) only the app knows about
+    var hasCountingRules: Bool? = nil
+    /// "Today" timelines: stats at each upcoming hour, precomputed by the app
+    var refreshEntries: [WidgetRefreshEntry]? = nil
+    /// Pinned timelines: ISO 8601 instant of the pinned end time
+    var endsAt: String? = nil
+    /// Pinned timelines: IANA zone whose calendar the days follow
+    var pinnedTimeZone: String? = nil
+
+    /// "upcoming" before the start date, "active", then "completed" after a CUSTOM end date
+    var state: String? = nil
+    /// Upcoming timelines: days until the start date
+    var daysUntilStart: Int? = nil
+    /// Upcoming timelines: ISO 8601 instant the timeline starts
+    var startsAt: String? = nil
+
+    /// Zone of a pinned timeline (nil when the days follow the device's zone)
+    var pinnedZone: TimeZone? { pinnedTimeZone.flatMap(TimeZone.init(identifier:)) }
+
+    /// Upcoming timelines haven't started: their grid is empty and dimmed
+    var isUpcoming: Bool { state == "upcoming" }
+
+    /// Countdown caption of an upcoming timeline, e.g. "Starts in 3 days"
+    var startsInText: String {
+        let days = daysUntilStart ?? 0
+        return days == 1 ? "Starts in 1 day" : "Starts in \(days) days"
+    }
+
+    /// Goal timelines fill dots by logged progress instead of by date
+    var isGoal: Bool { goalTarget != nil }
+
+    /// Dots in the grid (1 dot = 1 unit)
+    var totalDots: Int { totalUnits ?? totalDays }
+
+    /// Filled dots in the grid
+    var dotsPassed: Int { unitsPassed ?? daysPassed }
+
+    /// Progress caption, e.g. "12 of 52 weeks" or "12 of 52 books" ("Starts in 3 days" before the start)
+    var progressText: String {
+        if isUpcoming {
+            return startsInText
+        }
+
+        if let goalTarget = goalTarget {
+            let amounts = "\(WidgetTimelineData.formatAmount(goalProgress ?? 0)) of \(WidgetTimelineData.formatAmount(goalTarget))"
+            guard let goalUnit = goalUnit, !goalUnit.isEmpty else { return amounts }
+            return "\(amounts) \(goalUnit)"
+        }
+
+        let unitName: String
+        switch unit {
+        case "hour": unitName = "hours"
+        case "week": unitName = "weeks"
+        case "month": unitName = "months"
+        default: unitName = "days"
+        }
+        return "\(dotsPassed) of \(totalDots) \(unitName)"
+    }
 
     /// Returns a new copy with daysPassed/daysRemaining/progressPercentage
-    /// recalculated from startDate/endDate relative to today.
+    /// (and week or month units) recalculated from startDate/endDate relative to today.
+    /// Goal timelines only update their days: dots and percentage follow logged progress.
+    /// Timelines with counting rules keep the app's stats, which skip excluded days, and
+    /// "Today" timelines (1 dot = 1 hour) keep theirs until the next refresh entry.
+    /// Pinned timelines count days on the calendar of their zone, like the app.
+    /// Upcoming timelines count down to their start and become active once it passes.
     /// This ensures the widget shows the correct value even when the app
     /// hasn't been opened since the last day change.
-    func recalculated() -> WidgetTimelineData {
-        let formatter = ISO8601DateFormatter()
-        formatter.formatOptions = [.withInternetDateTime, .withFractionalSeconds]
-        let calendar = Calendar.current
-        let today = calendar.startOfDay(for: Date())
+    /// - Parameter dayStartsAt: Hour when a new day begins (hours before it still count as yesterday)
+    func recalculated(dayStartsAt: Int = 0) -> WidgetTimelineData {
+        var calendar = Calendar.current
+        var today = calendar.startOfDay(for: calendar.date(byAdding: .hour, value: -dayStartsAt, to: Date())!)
+        if let zone = pinnedZone {
+            calendar.timeZone = zone
+            today = calendar.startOfDay(for: Date())
+        }
 
-        guard let start = formatter.date(from: startDate),
-              let end   = formatter.date(from: endDate) else {
+        guard let start = WidgetTimelineData.parseDate(startDate, timeZone: calendar.timeZone),
+              let end   = WidgetTimelineData.parseDate(endDate, timeZone: calendar.timeZone) else {
             return self
         }
 
         let startDay = calendar.startOfDay(for: start)
         let endDay   = calendar.startOfDay(for: end)
 
+        var updated = self
+
+        // Upcoming timelines become active at their start moment (the day boundary on the start date)
+        if isUpcoming {
+            if let startMoment = startsAt.flatMap({ WidgetTimelineData.parseDate($0) }), Date() >= startMoment {
+                updated.state = "active"
+                updated.daysUntilStart = nil
+            } else {
+                updated.daysUntilStart = max(0, calendar.dateComponents([.day], from: today, to: startDay).day!)
+            }
+        }
+
+        // Excluded days and hour dots are only known to the app
+        if hasCountingRules == true || unit == "hour" {
+            return updated
+        }
+
         let total    = max(1, calendar.dateComponents([.day], from: startDay, to: endDay).day! + 1)
         let passed   = max(0, min(total, calendar.dateComponents([.day], from: startDay, to: today).day! + 1))
         let remaining = max(0, total - passed)
         let progress  = Int((Double(passed) / Double(total) * 100).rounded())
 
-        return WidgetTimelineData(
-            id: id,
-            type: type,
-            title: title,
-            startDate: startDate,
-            endDate: endDate,
-            daysPassed: passed,
-            daysRemaining: remaining,
-            totalDays: total,
-            progressPercentage: progress
-        )
+        updated.daysPassed = passed
+        updated.daysRemaining = remaining
+        updated.totalDays = total
+
+        if isGoal {
+            return updated
+        }
+
+        updated.progressPercentage = progress
+
+        // Week and month dots: the current unit counts as passed (same rule as the app)
+        if let unit = unit, unit == "week" || unit == "month" {
+            let unitIndex = { (day: Date) -> Int in
+                WidgetTimelineData.unitIndex(from: startDay, to: day, unit: unit, calendar: calendar)
+            }
+            let totalUnits = max(0, unitIndex(endDay) + 1)
+            let unitsPassed = min(totalUnits, max(0, unitIndex(today) + 1))
+
+            updated.totalUnits = totalUnits
+            updated.unitsPassed = unitsPassed
+            updated.unitsRemaining = max(0, totalUnits - unitsPassed)
+            updated.progressPercentage = totalUnits > 0
+                ? Int((Double(unitsPassed) / Double(totalUnits) * 100).rounded())
+                : 0
+        } else if unit == "day" {
+            updated.totalUnits = total
+            updated.unitsPassed = passed
+            updated.unitsRemaining = remaining
+        }
+
+        return updated
     }
+
+    /// Next moment the stats change apart from the device's day boundary: the start of an
+    /// upcoming timeline, or midnight in a pinned timeline's zone and its pinned end time
+    func nextChange(after now: Date) -> Date? {
+        var changes: [Date] = []
+
+        if isUpcoming, let startMoment = startsAt.flatMap({ WidgetTimelineData.parseDate($0) }), startMoment > now {
+            changes.append(startMoment)
+        }
+
+        if let zone = pinnedZone {
+            var calendar = Calendar.current
+            calendar.timeZone = zone
+            changes.append(calendar.startOfDay(for: calendar.date(byAdding: .day, value: 1, to: now)!))
+
+            if let end = endsAt.flatMap({ WidgetTimelineData.parseDate($0) }), end > now {
+                changes.append(end)
+            }
+        }
+
+        return changes.min()
+    }
+
+    /// Returns a new copy with the hour dots and percentage of a refresh entry
+    func applying(_ refresh: WidgetRefreshEntry) -> WidgetTimelineData {
+        var updated = self
+        updated.unitsPassed = refresh.unitsPassed
+        updated.unitsRemaining = refresh.unitsRemaining
+        updated.progressPercentage = refresh.progressPercentage
+        return updated
+    }
+
+    /// 0-based index of the week or month containing a day, counted from the start day
+    /// Months are counted from the start's day of month, clamped to shorter months
+    /// (Jan 31 -> Feb 28 -> Mar 31), like the app
+    static func unitIndex(from startDay: Date, to day: Date, unit: String, calendar: Calendar) -> Int {
+        let dayIndex = calendar.dateComponents([.day], from: startDay, to: day).day!
+
+        if unit == "week" {
+            return Int(floor(Double(dayIndex) / 7))
+        }
+
+        let startParts = calendar.dateComponents([.year, .month], from: startDay)
+        let dayParts = calendar.dateComponents([.year, .month], from: day)
+        let months = (dayParts.year! - startParts.year!) * 12 + (dayParts.month! - startParts.month!)
+        let anchor = calendar.date(byAdding: .month, value: months, to: startDay)!
+        return day < anchor ? months - 1 : months
+    }
+
+    /// Formats a goal amount without a trailing ".0" (12 -> "12", 12.5 -> "12.5")
+    static func formatAmount(_ value: Double) -> String {
+        value == value.rounded() ? String(Int(value)) : String(format: "%.1f", value)
+    }
+
+    /// Parses a calendar date ("2026-01-01") as local midnight, so the day never
+    /// shifts with the device timezone. Falls back to ISO 8601 instants sent by
+    /// older app versions.
+    /// - Parameter timeZone: Zone whose midnight the date starts at (a pinned timeline's zone)
+    static func parseDate(_ value: String, timeZone: TimeZone = .current) -> Date? {
+        let calendarFormatter = DateFormatter()
+        calendarFormatter.calendar = Calendar(identifier: .gregorian)
+        calendarFormatter.locale = Locale(identifier: "en_US_POSIX")
+        calendarFormatter.timeZone = timeZone
+        calendarFormatter.dateFormat = "yyyy-MM-dd"
+        if let date = calendarFormatter.date(from: value) {
+            return date
+        }
+
+        let isoFormatter = ISO8601DateFormatter()
+        isoFormatter.formatOptions = [.withInternetDateTime, .withFractionalSeconds]
+        return isoFormatter.date(from: value)
+    }
+}
+
+/// Stats of a "Today" timeline at an upcoming hour
+struct WidgetRefreshEntry: Codable {
+    /// ISO 8601 instant the entry takes effect
+    let date: String
+    let unitsPassed: Int
+    let unitsRemaining: Int
+    let progressPercentage: Int
 }
 
 /// Settings data read from App Groups
 struct WidgetSettingsData: Codable {
     let gridColorTheme: String
     let themeMode: String
+    /// Hour when a new day begins (missing in data from older app versions)
+    var dayStartsAt: Int? = nil
 }
 
 
@@ -153,6 +351,30 @@ struct StoicGridEntry: TimelineEntry {
     let timeline: WidgetTimelineData?
     let settings: WidgetSettingsData?
     let isPro: Bool
+
+    /// This entry followed by one entry per upcoming refresh entry of a "Today" timeline,
+    /// so hour dots fill on time without the app running
+    func withScheduledEntries() -> [StoicGridEntry] {
+        guard let timeline = timeline, let refreshEntries = timeline.refreshEntries else {
+            return [self]
+        }
+
+        var current = timeline
+        var upcoming: [StoicGridEntry] = []
+
+        for refresh in refreshEntries {
+            guard let refreshDate = WidgetTimelineData.parseDate(refresh.date) else { continue }
+
+            if refreshDate <= date {
+                // Passed since the app last synced: this is the current state
+                current = timeline.applying(refresh)
+            } else {
+                upcoming.append(StoicGridEntry(date: refreshDate, timeline: timeline.applying(refresh), settings: settings, isPro: isPro))
+            }
+        }
+
+        return [StoicGridEntry(date: date, timeline: current, settings: settings, isPro: isPro)] + upcoming
+    }
 }
 
 // MARK: - Timeline Provider
@@ -170,8 +392,8 @@ struct StoicGridProvider: AppIntentTimelineProvider {
                 id: "placeholder",
                 type: "year",
                 title: "2026",
-                startDate: "2026-01-01T00:00:00.000Z",
-                endDate: "2026-12-31T23:59:59.999Z",
+                startDate: "2026-01-01",
+                endDate: "2026-12-31",
                 daysPassed: 7,
                 daysRemaining: 358,
                 totalDays: 365,
@@ -186,7 +408,7 @@ struct StoicGridProvider: AppIntentTimelineProvider {
     }
 
     func snapshot(for configuration: SelectTimelineIntent, in context: Context) async -> StoicGridEntry {
-        let entry = loadTimelineData(for: configuration)
+        let entry = loadTimelineData(for: configuration).withScheduledEntries()[0]
 
         // If no real data available, use placeholder for preview
         if entry.timeline == nil {
@@ -197,17 +419,26 @@ struct StoicGridProvider: AppIntentTimelineProvider {
     }
 
     func timeline(for configuration: SelectTimelineIntent, in context: Context) async -> Timeline<StoicGridEntry> {
-        let entry = loadTimelineData(for: configuration)
+        let entries = loadTimelineData(for: configuration).withScheduledEntries()
+        let entry = entries[0]
 
-        // Update every hour, or at midnight for day changes
+        // Update every hour, or at the day boundary (midnight by default) for day changes
         let calendar = Calendar.current
         let now = Date()
-        let nextMidnight = calendar.startOfDay(for: calendar.date(byAdding: .day, value: 1, to: now)!)
+        let dayStartsAt = entry.settings?.dayStartsAt ?? 0
+        let logicalNow = calendar.date(byAdding: .hour, value: -dayStartsAt, to: now)!
+        let nextLogicalDay = calendar.startOfDay(for: calendar.date(byAdding: .day, value: 1, to: logicalNow)!)
+        let nextDayStart = calendar.date(byAdding: .hour, value: dayStartsAt, to: nextLogicalDay)!
         let nextHour = calendar.date(byAdding: .hour, value: 1, to: now)!
 
-        let nextUpdate = min(nextMidnight, nextHour)
+        // Upcoming timelines also change at their start, pinned timelines at midnight
+        // in their zone and at their pinned end time
+        let nextChange = entry.timeline?.nextChange(after: now) ?? nextDayStart
 
-        return Timeline(entries: [entry], policy: .after(nextUpdate))
+        // "Today" timelines reload once their last scheduled hour has passed
+        let nextUpdate = max(min(nextDayStart, nextHour, nextChange), entries.last!.date)
+
+        return Timeline(entries: entries, policy: .after(nextUpdate))
     }
 
     /// Load active timeline from App Groups (helper method)
@@ -266,7 +497,12 @@ struct StoicGridProvider: AppIntentTimelineProvider {
         // Load Pro status
         let isPro = ProGating.loadProStatus()
 
-        return StoicGridEntry(date: Date(), timeline: timelineData?.recalculated(), settings: settingsData, isPro: isPro)
+        return StoicGridEntry(
+            date: Date(),
+            timeline: timelineData?.recalculated(dayStartsAt: settingsData?.dayStartsAt ?? 0),
+            settings: settingsData,
+            isPro: isPro
+        )
     }
 }
 
@@ -294,23 +530,29 @@ struct StoicGridWidgetView: View {
                                     .font(.system(size: 22, weight: .semibold))
                                     .foregroundColor(textColor)
                                     .lineLimit(2)
-                                Text("\(timeline.daysPassed) of \(timeline.totalDays) days")
+                                Text(timeline.progressText)
                                     .font(.system(size: 11))
                                     .foregroundColor(secondaryTextColor)
                                     .lineLimit(1)
+
+                                if let url = goalIncrementURL {
+                                    GoalIncrementLink(url: url, color: accentColor)
+                                        .padding(.top, 4)
+                                }
                             }
                             .frame(width: 110)
 
                             // Right: Grid (fills remaining space)
                             GeometryReader { geometry in
                                 StoicGridView(
-                                    daysPassed: timeline.daysPassed,
-                                    totalDays: timeline.totalDays,
+                                    dotsPassed: timeline.dotsPassed,
+                                    totalDots: timeline.totalDots,
                                     colorTheme: entry.settings?.gridColorTheme ?? "classic",
                                     effectiveColorScheme: effectiveColorScheme,
                                     containerSize: geometry.size,
                                     widgetFamily: family
                                 )
+                                .opacity(timeline.isUpcoming ? 0.5 : 1)
                             }
                         }
                         .padding(paddingSize)
@@ -318,13 +560,14 @@ struct StoicGridWidgetView: View {
                         // Small widget: grid only, no title, minimal padding
                         GeometryReader { geometry in
                             StoicGridView(
-                                daysPassed: timeline.daysPassed,
-                                totalDays: timeline.totalDays,
+                                dotsPassed: timeline.dotsPassed,
+                                totalDots: timeline.totalDots,
                                 colorTheme: entry.settings?.gridColorTheme ?? "classic",
                                 effectiveColorScheme: effectiveColorScheme,
                                 containerSize: geometry.size,
                                 widgetFamily: family
                             )
+                            .opacity(timeline.isUpcoming ? 0.5 : 1)
                         }
                         .padding(paddingSize)
                     } else {
@@ -339,19 +582,26 @@ struct StoicGridWidgetView: View {
                             // Grid
                             GeometryReader { geometry in
                                 StoicGridView(
-                                    daysPassed: timeline.daysPassed,
-                                    totalDays: timeline.totalDays,
+                                    dotsPassed: timeline.dotsPassed,
+                                    totalDots: timeline.totalDots,
                                     colorTheme: entry.settings?.gridColorTheme ?? "classic",
                                     effectiveColorScheme: effectiveColorScheme,
                                     containerSize: geometry.size,
                                     widgetFamily: family
                                 )
+                                .opacity(timeline.isUpcoming ? 0.5 : 1)
                             }
 
-                            // Progress text
-                            Text("\(timeline.daysPassed) of \(timeline.totalDays) days")
-                                .font(.system(size: captionFontSize))
-                                .foregroundColor(secondaryTextColor)
+                            // Progress text (with "+1" for goal timelines)
+                            HStack(spacing: 8) {
+                                Text(timeline.progressText)
+                                    .font(.system(size: captionFontSize))
+                                    .foregroundColor(secondaryTextColor)
+
+                                if let url = goalIncrementURL {
+                                    GoalIncrementLink(url: url, color: accentColor)
+                                }
+                            }
                         }
                         .padding(paddingSize)
                     }
@@ -394,6 +644,17 @@ struct StoicGridWidgetView: View {
         Color(red: 0.557, green: 0.557, blue: 0.576) // iOS gray
     }
 
+    /// Filled dot color of the grid theme
+    private var accentColor: Color {
+        getColorForTheme(entry.settings?.gridColorTheme ?? "classic", scheme: effectiveColorScheme, filled: true)
+    }
+
+    /// "+1" deep link of a goal timeline (links only work in medium and large widgets)
+    private var goalIncrementURL: URL? {
+        guard family != .systemSmall, let url = entry.timeline?.goalIncrementUrl else { return nil }
+        return URL(string: url)
+    }
+
     private var effectiveColorScheme: ColorScheme {
         if let themeMode = entry.settings?.themeMode {
             if themeMode == "light" { return .light }
@@ -443,8 +704,8 @@ struct StoicLockScreenProvider: TimelineProvider {
                 id: "placeholder",
                 type: "year",
                 title: "2026",
-                startDate: "2026-01-01T00:00:00.000Z",
-                endDate: "2026-12-31T23:59:59.999Z",
+                startDate: "2026-01-01",
+                endDate: "2026-12-31",
                 daysPassed: 7,
                 daysRemaining: 358,
                 totalDays: 365,
@@ -459,16 +720,20 @@ struct StoicLockScreenProvider: TimelineProvider {
     }
 
     func getSnapshot(in context: Context, completion: @escaping (StoicGridEntry) -> Void) {
-        let entry = loadActiveTimelineData()
+        let entry = loadActiveTimelineData().withScheduledEntries()[0]
         completion(entry)
     }
 
     func getTimeline(in context: Context, completion: @escaping (Timeline<StoicGridEntry>) -> Void) {
-        let entry = loadActiveTimelineData()
+        let entries = loadActiveTimelineData().withScheduledEntries()
 
-        // Update every hour
-        let nextUpdate = Calendar.current.date(byAdding: .hour, value: 1, to: Date())!
-        let timeline = Timeline(entries: [entry], policy: .after(nextUpdate))
+        // Update every hour ("Today" timelines: after their last scheduled hour),
+        // or sooner when an upcoming timeline starts or a pinned timeline changes
+        let now = Date()
+        let nextHour = Calendar.current.date(byAdding: .hour, value: 1, to: now)!
+        let nextChange = entries[0].timeline?.nextChange(after: now) ?? nextHour
+        let nextUpdate = max(min(nextHour, nextChange), entries.last!.date)
+        let timeline = Timeline(entries: entries, policy: .after(nextUpdate))
         completion(timeline)
     }
 
@@ -497,7 +762,12 @@ struct StoicLockScreenProvider: TimelineProvider {
         // Load Pro status
         let isPro = ProGating.loadProStatus()
 
-        return StoicGridEntry(date: Date(), timeline: timelineData?.recalculated(), settings: settingsData, isPro: isPro)
+        return StoicGridEntry(
+            date: Date(),
+            timeline: timelineData?.recalculated(dayStartsAt: settingsData?.dayStartsAt ?? 0),
+            settings: settingsData,
+            isPro: isPro
+        )
     }
 }
 
@@ -539,7 +809,7 @@ struct StoicLockScreenWidgetView: View {
                             Text("\(timeline.progressPercentage)%")
                                 .font(.system(size: 20, weight: .bold))
                                 .foregroundColor(.white)
-                            Text("\(timeline.daysRemaining)d left")
+                            Text(timeline.isUpcoming ? timeline.startsInText : "\(timeline.daysRemaining)d left")
                                 .font(.caption2)
                                 .foregroundColor(.white.opacity(0.7))
                         }
@@ -575,7 +845,7 @@ struct StoicLockScreenWidgetView: View {
                         }
                         .frame(height: 6)
 
-                        Text("\(timeline.daysPassed)/\(timeline.totalDays) days")
+                        Text(timeline.isUpcoming ? timeline.startsInText : "\(timeline.daysPassed)/\(timeline.totalDays) days")
                             .font(.caption2)
                             .foregroundColor(.white.opacity(0.8))
                     }
@@ -584,7 +854,9 @@ struct StoicLockScreenWidgetView: View {
 
             case .accessoryInline:
                 // Inline widget: Text only
-                Text("\(timeline.title): \(timeline.progressPercentage)%")
+                Text(timeline.isUpcoming
+                    ? "\(timeline.title): \(timeline.startsInText)"
+                    : "\(timeline.title): \(timeline.progressPercentage)%")
                     .widgetURL(URL(string: "stoiccalendar://home"))
 
             default:
@@ -608,11 +880,30 @@ struct StoicLockScreenWidgetView: View {
     }
 }
 
+// MARK: - Goal Increment Link
+
+/// "+1" button of goal timelines: opens the app, which logs one unit and refreshes the widgets
+struct GoalIncrementLink: View {
+    let url: URL
+    let color: Color
+
+    var body: some View {
+        Link(destination: url) {
+            Text("+1")
+                .font(.system(size: 13, weight: .semibold))
+                .foregroundColor(color)
+                .padding(.horizontal, 10)
+                .padding(.vertical, 4)
+                .overlay(Capsule().stroke(color, lineWidth: 1))
+        }
+    }
+}
+
 // MARK: - Grid View Component
 
 struct StoicGridView: View {
-    let daysPassed: Int
-    let totalDays: Int
+    let dotsPassed: Int
+    let totalDots: Int
     let colorTheme: String
     let effectiveColorScheme: ColorScheme
     let containerSize: CGSize
@@ -621,7 +912,7 @@ struct StoicGridView: View {
     var body: some View {
         Canvas { context, size in
             let layout = calculateGridLayout(
-                totalDays: totalDays,
+                totalDays: totalDots,
                 width: size.width,
                 height: size.height,
                 widgetFamily: widgetFamily
@@ -632,14 +923,14 @@ struct StoicGridView: View {
             let offsetY = (size.height - layout.gridHeight) / 2
 
             // Draw each dot with asymmetric spacing
-            for index in 0..<totalDays {
+            for index in 0..<totalDots {
                 let row = index / layout.columns
                 let col = index % layout.columns
 
                 let x = offsetX + CGFloat(col) * (layout.dotSize + layout.spacingHorizontal)
                 let y = offsetY + CGFloat(row) * (layout.dotSize + layout.spacingVertical)
 
-                let isFilled = index < daysPassed
+                let isFilled = index < dotsPassed
                 let color = isFilled ? filledColor : emptyColor
 
                 let rect = CGRect(x: x, y: y, width: layout.dotSize, height: layout.dotSize)
@@ -864,8 +1155,8 @@ struct StoicWidgetBundle: WidgetBundle {
             id: "preview",
             type: "year",
             title: "2026",
-            startDate: "2026-01-01T00:00:00.000Z",
-            endDate: "2026-12-31T23:59:59.999Z",
+            startDate: "2026-01-01",
+            endDate: "2026-12-31",
             daysPassed: 28,
             daysRemaining: 337,
             totalDays: 365,
@@ -888,8 +1179,8 @@ struct StoicWidgetBundle: WidgetBundle {
             id: "preview",
             type: "year",
             title: "2026",
-            startDate: "2026-01-01T00:00:00.000Z",
-            endDate: "2026-12-31T23:59:59.999Z",
+            startDate: "2026-01-01",
+            endDate: "2026-12-31",
             daysPassed: 28,
             daysRemaining: 337,
             totalDays: 365,
@@ -912,8 +1203,8 @@ struct StoicWidgetBundle: WidgetBundle {
             id: "preview",
             type: "year",
             title: "2026",
-            startDate: "2026-01-01T00:00:00.000Z",
-            endDate: "2026-12-31T23:59:59.999Z",
+            startDate: "2026-01-01",
+            endDate: "2026-12-31",
             daysPassed: 28,
             daysRemaining: 337,
             totalDays: 365,
@@ -936,8 +1227,8 @@ struct StoicWidgetBundle: WidgetBundle {
             id: "preview",
             type: "year",
             title: "2026",
-            startDate: "2026-01-01T00:00:00.000Z",
-            endDate: "2026-12-31T23:59:59.999Z",
+            startDate: "2026-01-01",
+            endDate: "2026-12-31",
             daysPassed: 28,
             daysRemaining: 337,
             totalDays: 365,
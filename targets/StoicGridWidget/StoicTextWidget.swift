@@ -1,7 +1,7 @@
 /**
  * Stoic Text Widget
  * Pro-only widget displaying timeline progress as minimalist text
- * Shows "X days left" in stoic typography
+ * Shows "X days left" (or "X days to start") in stoic typography
  */
 
 import SwiftUI
@@ -29,8 +29,18 @@ struct StoicTextWidgetView: View {
                         .tracking(1.5)
                         .lineLimit(1)
 
-                    // Primary text: "7 days left" or "Complete"
-                    if timeline.daysRemaining > 0 {
+                    // Primary text: "3 days to start", "7 days left" or "Complete"
+                    if timeline.isUpcoming {
+                        let days = timeline.daysUntilStart ?? 0
+                        HStack(alignment: .firstTextBaseline, spacing: 4) {
+                            Text("\(days)")
+                                .font(.system(size: 48, weight: .thin))
+                                .foregroundColor(primaryColor)
+                            Text(days == 1 ? "day to start" : "days to start")
+                                .font(.system(size: 16, weight: .light))
+                                .foregroundColor(secondaryColor)
+                        }
+                    } else if timeline.daysRemaining > 0 {
                         HStack(alignment: .firstTextBaseline, spacing: 4) {
                             Text("\(timeline.daysRemaining)")
                                 .font(.system(size: 48, weight: .thin))
@@ -0,0 +1,9 @@
+/**
+ * Globals provided by scripts/jest-timezone-environment.js
+ */
+
+/**
+ * Change the device timezone for the rest of the test file
+ * Example: setTimeZone('America/New_York')
+ */
+declare function setTimeZone(timeZone: string): void;
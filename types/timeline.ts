@@ -1,12 +1,109 @@
 /**
  * Timeline Type Enum
- * Defines the four timeline categories available in Stoic Calendar
+ * Defines the timeline categories available in Stoic Calendar
  */
 export enum TimelineType {
   YEAR = 'year',
+  HALF_YEAR = 'half_year',
+  QUARTER = 'quarter',
   MONTH = 'month',
   WEEK = 'week',
+  DAY = 'day',
   CUSTOM = 'custom',
+  LIFE = 'life',
+}
+
+/**
+ * Dot Unit Options
+ * How much time a single grid dot represents
+ */
+export type TimelineUnit = 'hour' | 'day' | 'week' | 'month';
+
+/**
+ * Calendar Date
+ * A plain local calendar date in YYYY-MM-DD format (no time, no timezone)
+ * Example: "2026-01-01"
+ */
+export type CalendarDate = string;
+
+/**
+ * Tracking Mode Options
+ * 'time' fills dots as time passes; 'habit' fills past days by their logged status;
+ * 'goal' fills one dot per unit of logged progress toward a numeric target
+ */
+export type TrackingMode = 'time' | 'habit' | 'goal';
+
+/**
+ * Habit Status
+ * Logged outcome of a day in a habit timeline
+ * Skipped days (rest days, sick days) neither break nor extend a streak
+ */
+export type HabitStatus = 'done' | 'missed' | 'skipped';
+
+/**
+ * Timeline Goal
+ * Numeric target of a goal timeline (e.g. 52 books, 1000 km)
+ * The timeline's start and end dates set the expected pace
+ */
+export interface TimelineGoal {
+  /**
+   * Target amount (1 dot = 1 unit)
+   */
+  target: number;
+
+  /**
+   * What is counted, as entered by the user (e.g. "books", "km")
+   */
+  unitLabel: string;
+}
+
+/**
+ * Recurrence Rule
+ * Lets a CUSTOM timeline roll over automatically when its period ends
+ * - days/weeks: consecutive periods of `interval` days or weeks (e.g. 2-week sprints)
+ * - yearly: one-year periods anchored at a month (0-11) and day (e.g. April 1 fiscal year)
+ */
+export type RecurrenceRule =
+  | { frequency: 'days' | 'weeks'; interval: number }
+  | { frequency: 'yearly'; month: number; day: number };
+
+/**
+ * Day Hours
+ * Hours covered by a DAY timeline (e.g. waking hours 7-23)
+ * endHour is exclusive and may pass 24 (4-28 runs until 04:00 the next morning)
+ */
+export interface DayHours {
+  startHour: number;
+  endHour: number;
+}
+
+/**
+ * Personal Date Kind
+ */
+export type PersonalDateKind = 'birthday' | 'anniversary';
+
+/**
+ * Personal Date
+ * Marks a yearly-recurring CUSTOM timeline as a birthday or anniversary
+ * The recurrence holds the month and day (Feb 29 falls on Feb 28 in common years)
+ */
+export interface PersonalDate {
+  kind: PersonalDateKind;
+
+  /**
+   * Year of the original date (e.g. birth year), when known
+   */
+  year?: number;
+}
+
+/**
+ * Pinned Time
+ * Pins the end of a CUSTOM timeline to a time of day in an IANA time zone
+ * (e.g. a launch at 09:00 in America/Los_Angeles); days then count in that zone
+ */
+export interface PinnedTime {
+  timeZone: string; // IANA time zone, e.g. 'America/Los_Angeles'
+  time: string; // Time of day in that zone, 'HH:mm'
 }
 
 /**
@@ -43,7 +140,7 @@ export interface Timeline {
   id: string;
 
   /**
-   * Timeline type: year, month, week, or custom
+   * Timeline type: year, half-year, quarter, month, week, custom, or life
    */
   type: TimelineType;
 
@@ -54,16 +151,19 @@ export interface Timeline {
   title: string;
 
   /**
-   * Start date (ISO 8601 format)
-   * Examples: "2026-01-01T00:00:00.000Z"
+   * First day of the timeline (calendar date, inclusive)
+   * Examples: "2026-01-01"
+   * For LIFE timelines this is the birthdate
    */
-  startDate: string;
+  startDate: CalendarDate;
 
   /**
-   * End date (ISO 8601 format)
-   * Examples: "2026-12-31T23:59:59.999Z"
+   * Last day of the timeline (calendar date, inclusive)
+   * Examples: "2026-12-31"
+   * Omitted for open-ended count-up timelines ("days since ..."), which
+   * keep counting from startDate with no end
    */
-  endDate: string;
+  endDate?: CalendarDate;
 
   /**
    * Creation timestamp (ISO 8601 format)
@@ -76,12 +176,402 @@ export interface Timeline {
    */
   isActive: boolean;
 
+  /**
+   * Time represented by one grid dot
+   * Defaults to 'day' ('week' for LIFE timelines) when not set
+   */
+  unit?: TimelineUnit;
+
+  /**
+   * Calendar whose year/month boundaries a YEAR or MONTH timeline follows
+   * Omitted for Gregorian (the default)
+   */
+  calendarSystem?: CalendarSystem;
+
+  /**
+   * Expected lifespan in years (LIFE timelines only)
+   * endDate is derived from startDate + lifeExpectancy
+   */
+  lifeExpectancy?: number;
+
+  /**
+   * Recurrence rule (CUSTOM timelines only)
+   * When set, the timeline advances to the next period after endDate
+   */
+  recurrence?: RecurrenceRule;
+
+  /**
+   * Hours shown as dots (DAY timelines only, defaults to the whole day)
+   */
+  dayHours?: DayHours;
+
+  /**
+   * Birthday or anniversary the yearly recurrence counts down to
+   */
+  personalDate?: PersonalDate;
+
+  /**
+   * Time zone and time of day the timeline ends at (time-tracked CUSTOM timelines with an end date)
+   */
+  pinnedTime?: PinnedTime;
+
+  /**
+   * How dots are filled (defaults to 'time')
+   * Habit timelines always use day dots
+   */
+  trackingMode?: TrackingMode;
+
+  /**
+   * Logged day outcomes (habit timelines only), keyed by calendar date
+   */
+  habitLog?: Record<CalendarDate, HabitStatus>;
+
+  /**
+   * Numeric target (goal timelines only)
+   */
+  goal?: TimelineGoal;
+
+  /**
+   * Progress logged per day (goal timelines only), keyed by calendar date
+   */
+  goalLog?: Record<CalendarDate, number>;
+
+  /**
+   * Named, dated markers inside the timeline (e.g. "Launch", "Exam")
+   */
+  markers?: TimelineMarker[];
+
+  /**
+   * Named, colored date ranges splitting the timeline (e.g. "Semester 1", "Break")
+   */
+  phases?: TimelinePhase[];
+
+  /**
+   * Which days count toward the timeline (e.g. working days only)
+   * Applies to day-based, time-tracked timelines with an end date
+   */
+  countingRules?: CountingRules;
+
+  /**
+   * When the user reviewed the timeline after its end date (ISO 8601 format)
+   * Set once the completion flow was shown, so it only opens once per end date
+   */
+  completionReviewedAt?: string;
+
   /**
    * Widget configuration (reserved for future iOS widget integration)
    */
   widgetPreferences?: WidgetPreferences;
 }
 
+/**
+ * Timeline Marker
+ * A named day inside a timeline, shown as a distinct dot in the grid
+ */
+export interface TimelineMarker {
+  /**
+   * Unique identifier
+   */
+  id: string;
+
+  /**
+   * Display name
+   * Examples: "Launch", "Exam", "Vacation starts"
+   */
+  title: string;
+
+  /**
+   * Marked day (calendar date)
+   */
+  date: CalendarDate;
+}
+
+/**
+ * Timeline Phase
+ * A named date range inside a timeline, filled with its own color in the grid
+ */
+export interface TimelinePhase {
+  /**
+   * Unique identifier
+   */
+  id: string;
+
+  /**
+   * Display name
+   * Examples: "Semester 1", "Break", "Second trimester"
+   */
+  title: string;
+
+  /**
+   * First day of the phase (calendar date, inclusive)
+   */
+  startDate: CalendarDate;
+
+  /**
+   * Last day of the phase (calendar date, inclusive)
+   */
+  endDate: CalendarDate;
+
+  /**
+   * Fill color for the phase's dots (hex, e.g. "#FF9500")
+   */
+  color: string;
+}
+
+/**
+ * Excluded Day Display
+ * How days skipped by counting rules are drawn in the grid
+ */
+export type ExcludedDayDisplay = 'hollow' | 'hidden';
+
+/**
+ * Excluded Range
+ * Days that don't count toward a timeline (holidays, leave, pauses)
+ */
+export interface ExcludedRange {
+  /**
+   * Unique identifier
+   */
+  id: string;
+
+  /**
+   * Optional display name
+   * Examples: "Holiday", "Annual leave"
+   */
+  title?: string;
+
+  /**
+   * First excluded day (calendar date, inclusive)
+   */
+  startDate: CalendarDate;
+
+  /**
+   * Last excluded day (calendar date, inclusive)
+   * Omitted for a pause that is still ongoing (excluded through today)
+   */
+  endDate?: CalendarDate;
+}
+
+/**
+ * Counting Rules
+ * Per-timeline rules for which days count toward its stats
+ * Excluded days keep their dot (so dates line up) but are drawn hollow or hidden
+ */
+export interface CountingRules {
+  /**
+   * Skip weekend days (count working days only)
+   * The weekend follows holidayCountry (e.g. Friday and Saturday in SA), else Saturday and Sunday
+   */
+  excludeWeekends?: boolean;
+
+  /**
+   * Skipped dates and ranges (holidays, leave)
+   */
+  excludedRanges?: ExcludedRange[];
+
+  /**
+   * Intervals during which the timeline was paused
+   */
+  pauses?: ExcludedRange[];
+
+  /**
+   * Skip the public holidays of this country
+   */
+  holidayCountry?: HolidayCountry;
+
+  /**
+   * How excluded days are drawn in the grid
+   * @default 'hollow'
+   */
+  excludedDisplay?: ExcludedDayDisplay;
+}
+
+/**
+ * Holiday Country
+ * Countries with bundled public holiday calendars (ISO 3166-1 alpha-2)
+ */
+export type HolidayCountry = 'CN' | 'DK' | 'ES' | 'FR' | 'GB' | 'GR' | 'RU' | 'SA' | 'TR' | 'US';
+
+/**
+ * Public Holiday
+ * A nationwide statutory day off in a holiday country
+ */
+export interface PublicHoliday {
+  /**
+   * Day of the holiday (calendar date)
+   */
+  date: CalendarDate;
+
+  /**
+   * English name
+   * Example: "Republic Day"
+   */
+  name: string;
+
+  /**
+   * Name in the country's own language
+   * Example: "Cumhuriyet Bayramı"
+   */
+  localName: string;
+
+  /**
+   * Country observing the holiday
+   */
+  country: HolidayCountry;
+}
+
+/**
+ * Archived Timeline Interface
+ * Read-only snapshot of a YEAR/HALF_YEAR/QUARTER/MONTH/WEEK (or recurring CUSTOM) period,
+ * saved when the timeline rolls over to the next period
+ */
+export interface ArchivedTimeline extends Timeline {
+  /**
+   * ID of the timeline this period was archived from
+   */
+  sourceTimelineId: string;
+
+  /**
+   * Archive timestamp (ISO 8601 format)
+   */
+  archivedAt: string;
+
+  /**
+   * Stats at the end of the period
+   */
+  finalStats: {
+    daysPassed: number;
+    totalDays: number;
+    unitsPassed: number;
+    totalUnits: number;
+    progressPercentage: number;
+  };
+}
+
+/**
+ * Template Anchor
+ * How a template picks its start date: today, or the current/next movable feast
+ */
+export type TemplateAnchor = 'today' | 'lent' | 'ramadan';
+
+/**
+ * Template Marker
+ * A marker placed a number of days after the template's start
+ */
+export interface TemplateMarker {
+  title: string;
+
+  /**
+   * Days after the start date (0 = first day)
+   */
+  dayOffset: number;
+}
+
+/**
+ * Template Phase
+ * A phase placed relative to the template's start
+ */
+export interface TemplatePhase {
+  title: string;
+
+  /**
+   * First day of the phase, in days after the start date
+   */
+  startOffset: number;
+
+  /**
+   * Last day of the phase, in days after the start date (inclusive)
+   */
+  endOffset: number;
+
+  color: string;
+}
+
+/**
+ * Timeline Template
+ * Ready-made CUSTOM timeline (duration, markers, phases, tracking) that fills
+ * the timeline form. Built-in templates store i18n keys as titles;
+ * user templates store the text they were saved with
+ */
+export interface TimelineTemplate {
+  /**
+   * Unique identifier
+   */
+  id: string;
+
+  /**
+   * Display title (an i18n key for built-in templates)
+   */
+  title: string;
+
+  /**
+   * Length in days (the feast's actual length is used for lent/ramadan anchors)
+   */
+  durationDays: number;
+
+  /**
+   * How the start date is picked
+   * @default 'today'
+   */
+  anchor?: TemplateAnchor;
+
+  unit?: TimelineUnit;
+  trackingMode?: TrackingMode;
+  goal?: TimelineGoal;
+  markers?: TemplateMarker[];
+  phases?: TemplatePhase[];
+
+  /**
+   * Weekday and holiday rules (dated exclusions are not carried over)
+   */
+  countingRules?: Pick<CountingRules, 'excludeWeekends' | 'holidayCountry' | 'excludedDisplay'>;
+
+  /**
+   * True for the templates bundled with the app
+   */
+  builtIn?: boolean;
+
+  /**
+   * Save timestamp of a user template (ISO 8601 format)
+   */
+  createdAt?: string;
+}
+
+/**
+ * Day Note
+ * Journal entry for a single calendar day
+ * Notes belong to the day, not to a timeline, so every timeline covering
+ * the day shows the same note
+ */
+export interface DayNote {
+  /**
+   * Day the note is written for (calendar date)
+   */
+  date: CalendarDate;
+
+  /**
+   * Note text
+   */
+  text: string;
+
+  /**
+   * Creation timestamp (ISO 8601 format)
+   */
+  createdAt: string;
+
+  /**
+   * Last edit timestamp (ISO 8601 format)
+   */
+  updatedAt: string;
+}
+
+/**
+ * Mood Rating
+ * How a day felt, from 1 (awful) to 5 (great)
+ * Like notes, ratings belong to the day, not to a timeline
+ */
+export type MoodRating = 1 | 2 | 3 | 4 | 5;
+
 /**
  * Theme Mode Options
  */
@@ -93,6 +583,26 @@ export type ThemeMode = 'system' | 'light' | 'dark';
  */
 export type GridColorTheme = 'classic' | 'forest' | 'sunset' | 'monochrome';
 
+/**
+ * Grid Display Mode
+ * 'progress' fills past dots with the palette color,
+ * 'mood' colors them by the day's mood rating
+ */
+export type GridDisplayMode = 'progress' | 'mood';
+
+/**
+ * Calendar System
+ * Calendar used for YEAR and MONTH timeline boundaries
+ * 'islamic' is the Umm al-Qura Hijri calendar
+ */
+export type CalendarSystem = 'gregorian' | 'islamic' | 'chinese' | 'hebrew' | 'persian';
+
+/**
+ * First day of the week, as a JavaScript weekday index
+ * 0 = Sunday, 1 = Monday (ISO 8601), 6 = Saturday
+ */
+export type WeekStartDay = 0 | 1 | 6;
+
 /**
  * App Settings Interface
  * For storing user preferences in AsyncStorage
@@ -100,5 +610,10 @@ export type GridColorTheme = 'classic' | 'forest' | 'sunset' | 'monochrome';
 export interface AppSettings {
   themeMode: ThemeMode;
   gridColorTheme: GridColorTheme;
+  gridDisplayMode: GridDisplayMode;
+  weekStartDay: WeekStartDay;
+  holidayCountry: HolidayCountry | null; // null = public holidays off
+  calendarSystem: CalendarSystem;
+  dayStartsAt: number; // Hour (0-23) when a new day begins, e.g. 4 for night owls
   // Future: notification preferences, widget settings, etc.
 }
@@ -0,0 +1,106 @@
+import {
+  CALENDAR_SYSTEMS,
+  formatCalendarPeriod,
+  getCalendarMonth,
+  getCalendarYear,
+  getUpcomingCalendarMonth,
+  isCalendarSystemSupported,
+} from '@/utils/calendar-systems';
+
+describe('calendar-systems', () => {
+  beforeEach(() => {
+    setTimeZone('America/New_York');
+  });
+
+  describe('isCalendarSystemSupported', () => {
+    it.each(CALENDAR_SYSTEMS)('supports %s', (system) => {
+      expect(isCalendarSystemSupported(system)).toBe(true);
+    });
+  });
+
+  describe('getCalendarMonth', () => {
+    it('finds Hijri months (Umm al-Qura)', () => {
+      // Ramadan 1447 and 1446
+      expect(getCalendarMonth('islamic', '2026-03-01')).toEqual({ startDate: '2026-02-18', endDate: '2026-03-19' });
+      expect(getCalendarMonth('islamic', '2025-03-15')).toEqual({ startDate: '2025-03-01', endDate: '2025-03-29' });
+    });
+
+    it('includes its own first and last days', () => {
+      expect(getCalendarMonth('islamic', '2026-02-18').startDate).toBe('2026-02-18');
+      expect(getCalendarMonth('islamic', '2026-03-19').startDate).toBe('2026-02-18');
+      expect(getCalendarMonth('islamic', '2026-03-20').startDate).toBe('2026-03-20');
+    });
+
+    it('spans the Gregorian year boundary', () => {
+      expect(getCalendarMonth('chinese', '2025-12-31')).toEqual({ startDate: '2025-12-20', endDate: '2026-01-18' });
+      expect(getCalendarMonth('chinese', '2026-01-01')).toEqual({ startDate: '2025-12-20', endDate: '2026-01-18' });
+    });
+
+    it('ends the last Persian month on the day before Nowruz', () => {
+      expect(getCalendarMonth('persian', '2026-03-20')).toEqual({ startDate: '2026-02-20', endDate: '2026-03-20' });
+      expect(getCalendarMonth('persian', '2026-03-21').startDate).toBe('2026-03-21');
+    });
+  });
+
+  describe('getCalendarYear', () => {
+    it('runs Hijri years from 1 Muharram', () => {
+      expect(getCalendarYear('islamic', '2026-01-01')).toEqual({ startDate: '2025-06-26', endDate: '2026-06-15' });
+    });
+
+    it('runs Chinese years from New Year at the edges of the holiday tables', () => {
+      expect(getCalendarYear('chinese', '2020-01-24')).toEqual({ startDate: '2019-02-05', endDate: '2020-01-24' });
+      expect(getCalendarYear('chinese', '2020-06-01')).toEqual({ startDate: '2020-01-25', endDate: '2021-02-11' });
+      expect(getCalendarYear('chinese', '2045-06-01').startDate).toBe('2045-02-17');
+    });
+
+    it('follows 13-month Hebrew leap years', () => {
+      // 5784 is a leap year, 5786 a common one
+      expect(getCalendarYear('hebrew', '2024-01-01')).toEqual({ startDate: '2023-09-16', endDate: '2024-10-02' });
+      expect(getCalendarYear('hebrew', '2026-01-01')).toEqual({ startDate: '2025-09-23', endDate: '2026-09-11' });
+    });
+
+    it('runs Persian years from Nowruz', () => {
+      expect(getCalendarYear('persian', '2026-01-01')).toEqual({ startDate: '2025-03-21', endDate: '2026-03-20' });
+      expect(getCalendarYear('persian', '2026-03-21')).toEqual({ startDate: '2026-03-21', endDate: '2027-03-20' });
+    });
+
+    it('is not shifted by the device time zone', () => {
+      setTimeZone('Pacific/Kiritimati');
+      expect(getCalendarYear('persian', '2026-03-21').startDate).toBe('2026-03-21');
+
+      setTimeZone('Pacific/Pago_Pago');
+      expect(getCalendarYear('persian', '2026-03-21').startDate).toBe('2026-03-21');
+    });
+  });
+
+  describe('getUpcomingCalendarMonth', () => {
+    it('returns the month containing the date when it matches', () => {
+      expect(getUpcomingCalendarMonth('islamic', 9, '2026-03-01')).toEqual({
+        startDate: '2026-02-18',
+        endDate: '2026-03-19',
+      });
+    });
+
+    it('moves to the next year once the month has passed', () => {
+      expect(getUpcomingCalendarMonth('islamic', 9, '2026-03-20')).toEqual({
+        startDate: '2027-02-08',
+        endDate: '2027-03-08',
+      });
+      expect(getUpcomingCalendarMonth('persian', 1, '2025-12-31')?.startDate).toBe('2026-03-21');
+    });
+
+    it('returns null for months the calendar does not have', () => {
+      expect(getUpcomingCalendarMonth('islamic', 0, '2026-03-01')).toBeNull();
+      expect(getUpcomingCalendarMonth('islamic', 13, '2026-03-01')).toBeNull();
+    });
+  });
+
+  describe('formatCalendarPeriod', () => {
+    it('names months with their year and years alone', () => {
+      expect(formatCalendarPeriod('islamic', 'month', '2026-03-01', 'en')).toBe('Ramadan 1447 AH');
+      expect(formatCalendarPeriod('islamic', 'year', '2026-03-01', 'en')).toBe('1447 AH');
+      expect(formatCalendarPeriod('persian', 'month', '2026-03-21', 'en')).toBe('Farvardin 1405 AP');
+      expect(formatCalendarPeriod('hebrew', 'year', '2026-01-01', 'en')).toBe('5786');
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import {
+  addCalendarDays,
+  getDaysBetween,
+  getDaysPassed,
+  getDaysRemaining,
+  getTotalDays,
+  isCalendarDate,
+  parseCalendarDate,
+  setDayStartHour,
+  toCalendarDate,
+} from '@/utils/date-helpers';
+
+/**
+ * Zones with DST transitions on both hemispheres, one with a transition at
+ * midnight (the start of the day is skipped) and one without DST
+ */
+const TIME_ZONES = [
+  'America/New_York',
+  'Europe/London',
+  'Australia/Sydney',
+  'America/Sao_Paulo',
+  'Asia/Tokyo',
+];
+
+/**
+ * DST transition days per zone: [spring-forward, fall-back]
+ */
+const DST_DAYS: Record<string, [string, string]> = {
+  'America/New_York': ['2026-03-08', '2026-11-01'],
+  'Europe/London': ['2026-03-29', '2026-10-25'],
+  'Australia/Sydney': ['2026-10-04', '2026-04-05'],
+  'America/Sao_Paulo': ['2018-11-04', '2019-02-16'],
+};
+
+describe('date-helpers', () => {
+  beforeEach(() => {
+    setTimeZone('America/New_York');
+    setDayStartHour(0);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('isCalendarDate', () => {
+    it('accepts YYYY-MM-DD only', () => {
+      expect(isCalendarDate('2024-02-29')).toBe(true);
+      expect(isCalendarDate('2024-02-29T05:00:00.000Z')).toBe(false);
+      expect(isCalendarDate('2024-2-29')).toBe(false);
+      expect(isCalendarDate('')).toBe(false);
+    });
+  });
+
+  describe('toCalendarDate / parseCalendarDate', () => {
+    it('round-trips calendar dates through local midnight', () => {
+      const date = parseCalendarDate('2024-02-29');
+
+      expect(date.getFullYear()).toBe(2024);
+      expect(date.getMonth()).toBe(1);
+      expect(date.getDate()).toBe(29);
+      expect(date.getHours()).toBe(0);
+      expect(toCalendarDate(date)).toBe('2024-02-29');
+    });
+
+    it('returns calendar date strings unchanged', () => {
+      expect(toCalendarDate('2026-03-08')).toBe('2026-03-08');
+      expect(toCalendarDate('2028-02-29')).toBe('2028-02-29');
+    });
+
+    it('converts legacy ISO instants to the local date they fall on', () => {
+      // 2026-01-01 00:30 UTC is still Dec 31 in New York
+      expect(toCalendarDate('2026-01-01T00:30:00.000Z')).toBe('2025-12-31');
+      expect(toCalendarDate(parseCalendarDate('2026-01-01T00:30:00.000Z'))).toBe('2025-12-31');
+
+      setTimeZone('Asia/Tokyo');
+      // ...and already Jan 1 in Tokyo
+      expect(toCalendarDate('2025-12-31T15:30:00.000Z')).toBe('2026-01-01');
+    });
+
+    it.each(Object.entries(DST_DAYS))('keeps DST transition days intact in %s', (timeZone, days) => {
+      setTimeZone(timeZone);
+
+      for (const day of days) {
+        const start = parseCalendarDate(day);
+        expect(toCalendarDate(start)).toBe(day);
+        expect(start.getHours()).toBeLessThanOrEqual(1);
+        expect(toCalendarDate(new Date(start.getFullYear(), start.getMonth(), start.getDate(), 23, 59))).toBe(day);
+      }
+    });
+
+    it('starts a day at 01:00 when its midnight is skipped', () => {
+      // Sao Paulo skipped 2018-11-04 00:00-01:00
+      setTimeZone('America/Sao_Paulo');
+
+      expect(parseCalendarDate('2018-11-04').getHours()).toBe(1);
+      expect(toCalendarDate(parseCalendarDate('2018-11-04'))).toBe('2018-11-04');
+    });
+  });
+
+  describe('addCalendarDays', () => {
+    it('steps through Feb 29 in leap years', () => {
+      expect(addCalendarDays('2024-02-28', 1)).toBe('2024-02-29');
+      expect(addCalendarDays('2024-02-29', 1)).toBe('2024-03-01');
+      expect(addCalendarDays('2028-03-01', -1)).toBe('2028-02-29');
+    });
+
+    it('skips Feb 29 in common years', () => {
+      expect(addCalendarDays('2026-02-28', 1)).toBe('2026-03-01');
+      expect(addCalendarDays('2026-03-01', -1)).toBe('2026-02-28');
+      expect(addCalendarDays('2100-02-28', 1)).toBe('2100-03-01');
+    });
+
+    it('crosses month and year boundaries', () => {
+      expect(addCalendarDays('2026-01-31', 1)).toBe('2026-02-01');
+      expect(addCalendarDays('2025-12-31', 1)).toBe('2026-01-01');
+      expect(addCalendarDays('2026-01-01', -1)).toBe('2025-12-31');
+      expect(addCalendarDays('2024-01-01', 366)).toBe('2025-01-01');
+      expect(addCalendarDays('2026-01-01', 365)).toBe('2027-01-01');
+    });
+
+    it.each(TIME_ZONES)('moves exactly one day across DST transitions in %s', (timeZone) => {
+      setTimeZone(timeZone);
+
+      for (const day of DST_DAYS[timeZone] ?? ['2026-03-08', '2026-11-01']) {
+        const next = addCalendarDays(day, 1);
+        expect(addCalendarDays(next, -1)).toBe(day);
+        expect(getDaysBetween(day, next)).toBe(2);
+      }
+    });
+  });
+
+  describe('getDaysBetween / getTotalDays', () => {
+    it('counts both ends', () => {
+      expect(getDaysBetween('2026-01-01', '2026-01-03')).toBe(3);
+      expect(getDaysBetween('2026-01-01', '2026-01-01')).toBe(1);
+      expect(getTotalDays('2026-01-01', '2026-12-31')).toBe(365);
+    });
+
+    it('counts Feb 29 in leap years', () => {
+      expect(getDaysBetween('2024-02-01', '2024-03-01')).toBe(30);
+      expect(getDaysBetween('2026-02-01', '2026-03-01')).toBe(29);
+      expect(getTotalDays('2028-01-01', '2028-12-31')).toBe(366);
+      expect(getTotalDays('2100-01-01', '2100-12-31')).toBe(365);
+    });
+
+    it.each(TIME_ZONES)('is not shifted by 23-hour and 25-hour days in %s', (timeZone) => {
+      setTimeZone(timeZone);
+
+      expect(getTotalDays('2026-01-01', '2026-12-31')).toBe(365);
+      expect(getTotalDays('2018-01-01', '2019-12-31')).toBe(730);
+
+      for (const day of DST_DAYS[timeZone] ?? []) {
+        const date = parseCalendarDate(day);
+        const lateThatDay = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 30);
+        const earlyNextDay = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1, 0, 30);
+
+        expect(getDaysBetween(addCalendarDays(day, -1), addCalendarDays(day, 1))).toBe(3);
+        expect(getDaysBetween(date, lateThatDay)).toBe(1);
+        expect(getDaysBetween(lateThatDay, earlyNextDay)).toBe(2);
+      }
+    });
+  });
+
+  describe('getDaysPassed / getDaysRemaining', () => {
+    it('counts today as passed once it has started', () => {
+      jest.useFakeTimers({ now: new Date(2026, 0, 3, 0, 1) });
+
+      expect(getDaysPassed('2026-01-01', '2026-01-10')).toBe(3);
+      expect(getDaysRemaining('2026-01-01', '2026-01-10')).toBe(7);
+    });
+
+    it('is all remaining before the start and all passed after the end', () => {
+      jest.useFakeTimers({ now: new Date(2026, 0, 3, 12) });
+
+      expect(getDaysPassed('2026-01-04', '2026-01-10')).toBe(0);
+      expect(getDaysRemaining('2026-01-04', '2026-01-10')).toBe(7);
+      expect(getDaysPassed('2025-12-01', '2025-12-31')).toBe(31);
+      expect(getDaysRemaining('2025-12-01', '2025-12-31')).toBe(0);
+    });
+
+    it('counts Feb 29 in leap years', () => {
+      jest.useFakeTimers({ now: new Date(2024, 2, 1, 12) });
+
+      expect(getDaysPassed('2024-02-28', '2024-03-31')).toBe(3);
+      expect(getDaysRemaining('2024-02-28', '2024-03-31')).toBe(30);
+    });
+
+    it('rolls over at midnight on New Year', () => {
+      jest.useFakeTimers({ now: new Date(2025, 11, 31, 23, 59) });
+      expect(getDaysPassed('2025-12-01', '2026-01-31')).toBe(31);
+
+      jest.setSystemTime(new Date(2026, 0, 1, 0, 0));
+      expect(getDaysPassed('2025-12-01', '2026-01-31')).toBe(32);
+    });
+
+    it.each(Object.entries(DST_DAYS))('counts one day per day across DST transitions in %s', (timeZone, days) => {
+      setTimeZone(timeZone);
+
+      for (const day of days) {
+        const date = parseCalendarDate(day);
+        const startDate = addCalendarDays(day, -7);
+        const endDate = addCalendarDays(day, 7);
+
+        // Just after the transition and just before the next midnight
+        jest.useFakeTimers({ now: new Date(date.getFullYear(), date.getMonth(), date.getDate(), 3, 30) });
+        expect(getDaysPassed(startDate, endDate)).toBe(8);
+        expect(getDaysRemaining(startDate, endDate)).toBe(7);
+
+        jest.setSystemTime(new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59));
+        expect(getDaysPassed(startDate, endDate)).toBe(8);
+
+        jest.setSystemTime(new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1, 1, 0));
+        expect(getDaysPassed(startDate, endDate)).toBe(9);
+      }
+    });
+  });
+
+  describe('day start hour', () => {
+    it('counts hours before it as the previous day', () => {
+      setDayStartHour(4);
+      jest.useFakeTimers({ now: new Date(2026, 0, 3, 3, 59) });
+      expect(getDaysPassed('2026-01-01', '2026-01-10')).toBe(2);
+
+      jest.setSystemTime(new Date(2026, 0, 3, 4, 0));
+      expect(getDaysPassed('2026-01-01', '2026-01-10')).toBe(3);
+    });
+
+    it('moves New Year to the day start hour', () => {
+      setDayStartHour(4);
+      jest.useFakeTimers({ now: new Date(2026, 0, 1, 3, 0) });
+      expect(getDaysPassed('2025-12-01', '2026-01-31')).toBe(31);
+
+      jest.setSystemTime(new Date(2026, 0, 1, 4, 0));
+      expect(getDaysPassed('2025-12-01', '2026-01-31')).toBe(32);
+    });
+  });
+
+  describe('device time zone change', () => {
+    it.each(['Asia/Tokyo', 'Pacific/Kiritimati', 'Pacific/Pago_Pago', 'Europe/London'])(
+      'keeps dates and counts written in New York when read in %s',
+      (timeZone) => {
+        const startDate = toCalendarDate(new Date(2024, 1, 29, 22));
+        const endDate = addCalendarDays(startDate, 29);
+
+        setTimeZone(timeZone);
+
+        expect(startDate).toBe('2024-02-29');
+        expect(endDate).toBe('2024-03-29');
+        expect(parseCalendarDate(startDate).getDate()).toBe(29);
+        expect(parseCalendarDate(startDate).getHours()).toBe(0);
+        expect(getTotalDays(startDate, endDate)).toBe(30);
+
+        jest.useFakeTimers({ now: new Date(2024, 2, 1, 9) });
+        expect(getDaysPassed(startDate, endDate)).toBe(2);
+        expect(getDaysRemaining(startDate, endDate)).toBe(28);
+      }
+    );
+
+    it('follows the new zone for "today" right after the change', () => {
+      // 2026-03-08 22:00 in New York is already Mar 9 in Tokyo
+      jest.useFakeTimers({ now: new Date(2026, 2, 8, 22) });
+      expect(getDaysPassed('2026-03-01', '2026-03-31')).toBe(8);
+
+      setTimeZone('Asia/Tokyo');
+      expect(getDaysPassed('2026-03-01', '2026-03-31')).toBe(9);
+
+      setTimeZone('Pacific/Pago_Pago');
+      expect(getDaysPassed('2026-03-01', '2026-03-31')).toBe(8);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { parseQuickAdd } from '@/utils/quick-add-parser';
+
+// A Monday
+const TODAY = '2026-10-19';
+
+describe('quick-add-parser', () => {
+  beforeEach(() => {
+    setTimeZone('America/New_York');
+  });
+
+  describe('English', () => {
+    it.each([
+      ['next 100 days', '2026-10-19', '2027-01-26', 'Next 100 days'],
+      ['detox for 30 days', '2026-10-19', '2026-11-17', 'Detox'],
+      ['for a year', '2026-10-19', '2027-10-18', 'For a year'],
+      ['until dec 25', '2026-10-19', '2026-12-25', 'Until dec 25'],
+      ['Rest of the semester until June 14', '2026-10-19', '2027-06-14', 'Rest of the semester'],
+      ['2 weeks from monday', '2026-10-26', '2026-11-08', '2 weeks from monday'],
+      ['Training for 12 weeks starting Mar 3', '2027-03-03', '2027-05-25', 'Training'],
+      ['from Nov 1 to Dec 25', '2026-11-01', '2026-12-25', 'From Nov 1 to Dec 25'],
+      ['Exams from Jun 1 until Jun 14', '2027-06-01', '2027-06-14', 'Exams'],
+      ['end of the year', '2026-10-19', '2026-12-31', 'End of the year'],
+      ['25th of december 2027', '2026-10-19', '2027-12-25', '25th of december 2027'],
+    ])('parses "%s"', (text, startDate, endDate, title) => {
+      expect(parseQuickAdd(text, 'en', TODAY)).toEqual({ startDate, endDate, title });
+    });
+
+    it('resolves dates without a year to their next occurrence', () => {
+      expect(parseQuickAdd('until jan 5', 'en', TODAY)?.endDate).toBe('2027-01-05');
+      expect(parseQuickAdd('until oct 19', 'en', TODAY)?.endDate).toBe('2026-10-19');
+      expect(parseQuickAdd('until oct 18', 'en', TODAY)?.endDate).toBe('2027-10-18');
+    });
+
+    it('crosses the year boundary', () => {
+      expect(parseQuickAdd('next 2 days', 'en', '2026-12-31')).toEqual({
+        startDate: '2026-12-31',
+        endDate: '2027-01-01',
+        title: 'Next 2 days',
+      });
+      expect(parseQuickAdd('until tomorrow', 'en', '2026-12-31')?.endDate).toBe('2027-01-01');
+      expect(parseQuickAdd('end of the month', 'en', '2026-12-31')?.endDate).toBe('2026-12-31');
+    });
+
+    it('accepts Feb 29 only in leap years', () => {
+      expect(parseQuickAdd('until feb 29 2028', 'en', TODAY)?.endDate).toBe('2028-02-29');
+      expect(parseQuickAdd('until feb 29 2027', 'en', TODAY)).toBeNull();
+      expect(parseQuickAdd('until 2027-02-29', 'en', TODAY)).toBeNull();
+    });
+
+    it('rejects phrases it cannot read', () => {
+      expect(parseQuickAdd('', 'en', TODAY)).toBeNull();
+      expect(parseQuickAdd('   ', 'en', TODAY)).toBeNull();
+      expect(parseQuickAdd('buy milk', 'en', TODAY)).toBeNull();
+      expect(parseQuickAdd('until feb 30', 'en', TODAY)).toBeNull();
+      expect(parseQuickAdd('for 0 days', 'en', TODAY)).toBeNull();
+    });
+
+    it('rejects ranges that end before they start', () => {
+      expect(parseQuickAdd('from dec 25 to nov 1', 'en', TODAY)).toBeNull();
+    });
+
+    it('caps durations at about 100 years', () => {
+      expect(parseQuickAdd('for 100 years', 'en', TODAY)?.endDate).toBe('2126-10-18');
+      expect(parseQuickAdd('for 101 years', 'en', TODAY)).toBeNull();
+      expect(parseQuickAdd('for 99999999 years', 'en', TODAY)).toBeNull();
+      expect(parseQuickAdd('next 99999999 days', 'en', TODAY)).toBeNull();
+      expect(parseQuickAdd('99999999 weeks from monday', 'en', TODAY)).toBeNull();
+    });
+
+    it('is used for locales without their own grammar', () => {
+      expect(parseQuickAdd('next 10 days', 'fr-FR', TODAY)?.endDate).toBe('2026-10-28');
+    });
+  });
+
+  describe('Turkish', () => {
+    it.each([
+      ['önümüzdeki 100 gün', '2026-10-19', '2027-01-26', 'Önümüzdeki 100 gün'],
+      ['2 hafta boyunca', '2026-10-19', '2026-11-01', '2 hafta boyunca'],
+      ["25 Aralık'a kadar", '2026-10-19', '2026-12-25', "25 Aralık'a kadar"],
+      ["Sınav 14 haziran'a kadar", '2026-10-19', '2027-06-14', 'Sınav'],
+      ["1 Kasım'dan 25 Aralık'a kadar", '2026-11-01', '2026-12-25', "1 Kasım'dan 25 Aralık'a kadar"],
+      ['pazartesiden itibaren 2 hafta', '2026-10-26', '2026-11-08', 'Pazartesiden itibaren 2 hafta'],
+      ['yıl sonuna kadar', '2026-10-19', '2026-12-31', 'Yıl sonuna kadar'],
+    ])('parses "%s"', (text, startDate, endDate, title) => {
+      expect(parseQuickAdd(text, 'tr', TODAY)).toEqual({ startDate, endDate, title });
+    });
+
+    it('lowercases with Turkish rules', () => {
+      expect(parseQuickAdd('İKİ HAFTA', 'tr', TODAY)?.endDate).toBe('2026-11-01');
+    });
+
+    it('crosses the year boundary', () => {
+      expect(parseQuickAdd('önümüzdeki 2 gün', 'tr', '2026-12-31')?.endDate).toBe('2027-01-01');
+      expect(parseQuickAdd("5 ocak'a kadar", 'tr', TODAY)?.endDate).toBe('2027-01-05');
+    });
+
+    it('rejects phrases it cannot read', () => {
+      expect(parseQuickAdd('süt al', 'tr', TODAY)).toBeNull();
+      expect(parseQuickAdd("30 şubat'a kadar", 'tr', TODAY)).toBeNull();
+      expect(parseQuickAdd('0 gün boyunca', 'tr', TODAY)).toBeNull();
+    });
+
+    it('caps durations at about 100 years', () => {
+      expect(parseQuickAdd('100 yıl boyunca', 'tr', TODAY)?.endDate).toBe('2126-10-18');
+      expect(parseQuickAdd('99999999 yıl boyunca', 'tr', TODAY)).toBeNull();
+    });
+
+    it('falls back to English phrases', () => {
+      expect(parseQuickAdd('next 10 days', 'tr', TODAY)?.endDate).toBe('2026-10-28');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  COMMON_TIME_ZONES,
+  formatTimeZoneName,
+  getTimeZoneCalendarDate,
+  getTimeZoneMoment,
+  getTimeZones,
+  isTimeZoneSupported,
+  parseTimeOfDay,
+} from '@/utils/time-zones';
+
+describe('time-zones', () => {
+  beforeEach(() => {
+    setTimeZone('America/New_York');
+  });
+
+  describe('isTimeZoneSupported / getTimeZones', () => {
+    it('knows the common zones', () => {
+      expect(COMMON_TIME_ZONES.filter((timeZone) => !isTimeZoneSupported(timeZone))).toEqual([]);
+      expect(getTimeZones()).toEqual(expect.arrayContaining(['America/New_York', 'Asia/Tokyo']));
+    });
+
+    it('rejects unknown zones', () => {
+      expect(isTimeZoneSupported('Mars/Olympus_Mons')).toBe(false);
+      expect(isTimeZoneSupported('GMT+25')).toBe(false);
+    });
+  });
+
+  describe('formatTimeZoneName', () => {
+    it('uses the city part of the zone', () => {
+      expect(formatTimeZoneName('America/Los_Angeles')).toBe('Los Angeles');
+      expect(formatTimeZoneName('America/Argentina/Buenos_Aires')).toBe('Buenos Aires');
+      expect(formatTimeZoneName('UTC')).toBe('UTC');
+    });
+  });
+
+  describe('parseTimeOfDay', () => {
+    it('reads hours and minutes', () => {
+      expect(parseTimeOfDay('09:00')).toEqual({ hours: 9, minutes: 0 });
+      expect(parseTimeOfDay('9:05')).toEqual({ hours: 9, minutes: 5 });
+      expect(parseTimeOfDay(' 23:59 ')).toEqual({ hours: 23, minutes: 59 });
+      expect(parseTimeOfDay('00:00')).toEqual({ hours: 0, minutes: 0 });
+    });
+
+    it.each(['24:00', '12:60', '9', '9:5', '-1:00', '09:00:00', 'noon', ''])('rejects "%s"', (time) => {
+      expect(parseTimeOfDay(time)).toBeNull();
+    });
+  });
+
+  describe('getTimeZoneCalendarDate', () => {
+    it('reads the date in the zone across the year boundary', () => {
+      expect(getTimeZoneCalendarDate('America/New_York', new Date('2026-01-01T04:59:00Z'))).toBe('2025-12-31');
+      expect(getTimeZoneCalendarDate('America/New_York', new Date('2026-01-01T05:00:00Z'))).toBe('2026-01-01');
+      expect(getTimeZoneCalendarDate('Pacific/Kiritimati', new Date('2025-12-31T10:00:00Z'))).toBe('2026-01-01');
+      expect(getTimeZoneCalendarDate('Pacific/Pago_Pago', new Date('2026-01-01T10:59:00Z'))).toBe('2025-12-31');
+    });
+
+    it('does not depend on the device time zone', () => {
+      const moment = new Date('2024-02-29T23:30:00Z');
+
+      for (const deviceZone of ['Asia/Tokyo', 'Pacific/Pago_Pago']) {
+        setTimeZone(deviceZone);
+        expect(getTimeZoneCalendarDate('UTC', moment)).toBe('2024-02-29');
+        expect(getTimeZoneCalendarDate('Europe/Paris', moment)).toBe('2024-03-01');
+      }
+    });
+  });
+
+  describe('getTimeZoneMoment', () => {
+    it('finds the moment of a wall-clock time in the zone', () => {
+      expect(getTimeZoneMoment('2026-03-01', '09:00', 'America/Los_Angeles').toISOString()).toBe(
+        '2026-03-01T17:00:00.000Z'
+      );
+      expect(getTimeZoneMoment('2026-07-01', '09:00', 'America/Los_Angeles').toISOString()).toBe(
+        '2026-07-01T16:00:00.000Z'
+      );
+      expect(getTimeZoneMoment('2026-03-01', '09:00', 'Asia/Kolkata').toISOString()).toBe('2026-03-01T03:30:00.000Z');
+    });
+
+    it('follows the zone on its DST transition days', () => {
+      // Los Angeles springs forward at 02:00 on 2026-03-08 and falls back at 02:00 on 2026-11-01
+      expect(getTimeZoneMoment('2026-03-08', '01:30', 'America/Los_Angeles').toISOString()).toBe(
+        '2026-03-08T09:30:00.000Z'
+      );
+      expect(getTimeZoneMoment('2026-03-08', '03:30', 'America/Los_Angeles').toISOString()).toBe(
+        '2026-03-08T10:30:00.000Z'
+      );
+      expect(getTimeZoneMoment('2026-11-01', '03:00', 'America/Los_Angeles').toISOString()).toBe(
+        '2026-11-01T11:00:00.000Z'
+      );
+    });
+
+    it('picks the first of repeated fall-back times', () => {
+      expect(getTimeZoneMoment('2026-11-01', '01:30', 'America/Los_Angeles').toISOString()).toBe(
+        '2026-11-01T08:30:00.000Z'
+      );
+    });
+
+    it('crosses the year boundary', () => {
+      expect(getTimeZoneMoment('2027-01-01', '00:00', 'Pacific/Kiritimati').toISOString()).toBe(
+        '2026-12-31T10:00:00.000Z'
+      );
+      expect(getTimeZoneMoment('2026-12-31', '23:30', 'Pacific/Pago_Pago').toISOString()).toBe(
+        '2027-01-01T10:30:00.000Z'
+      );
+    });
+
+    it('falls back to midnight for invalid times', () => {
+      expect(getTimeZoneMoment('2026-03-01', '25:00', 'UTC').toISOString()).toBe('2026-03-01T00:00:00.000Z');
+      expect(getTimeZoneMoment('2026-03-01', '', 'Asia/Tokyo').toISOString()).toBe('2026-02-28T15:00:00.000Z');
+    });
+
+    it('does not depend on the device time zone', () => {
+      setTimeZone('Australia/Sydney');
+
+      expect(getTimeZoneMoment('2026-03-08', '09:00', 'America/New_York').toISOString()).toBe(
+        '2026-03-08T13:00:00.000Z'
+      );
+      expect(getTimeZoneCalendarDate('America/New_York', getTimeZoneMoment('2026-03-08', '00:00', 'America/New_York'))).toBe(
+        '2026-03-08'
+      );
+    });
+  });
+});
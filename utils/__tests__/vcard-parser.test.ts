@@ -0,0 +1,117 @@
+import { parseVCardDates } from '@/utils/vcard-parser';
+
+/**
+ * Build a vCard from its content lines
+ */
+function card(...lines: string[]): string {
+  return ['BEGIN:VCARD', 'VERSION:3.0', ...lines, 'END:VCARD'].join('\r\n');
+}
+
+describe('vcard-parser', () => {
+  describe('parseVCardDates', () => {
+    it('reads birthdays in every supported format', () => {
+      const text = [
+        card('FN:Ada Lovelace', 'BDAY:1815-12-10'),
+        card('FN:Alan Turing', 'BDAY:19120623'),
+        card('FN:Grace Hopper', 'BDAY:--1209'),
+        card('FN:Linus Torvalds', 'BDAY:--12-28'),
+      ].join('\r\n');
+
+      expect(parseVCardDates(text)).toEqual([
+        { name: 'Ada Lovelace', kind: 'birthday', month: 11, day: 10, year: 1815 },
+        { name: 'Alan Turing', kind: 'birthday', month: 5, day: 23, year: 1912 },
+        { name: 'Grace Hopper', kind: 'birthday', month: 11, day: 9 },
+        { name: 'Linus Torvalds', kind: 'birthday', month: 11, day: 28 },
+      ]);
+    });
+
+    it('ignores the time part of a date', () => {
+      expect(parseVCardDates(card('FN:Ada', 'BDAY;VALUE=date-time:1990-01-01T00:00:00Z'))).toEqual([
+        { name: 'Ada', kind: 'birthday', month: 0, day: 1, year: 1990 },
+      ]);
+    });
+
+    it('keeps dates at the year boundary and Feb 29', () => {
+      const text = [
+        card('FN:New Year', 'BDAY:2000-01-01'),
+        card('FN:Year End', 'BDAY:1999-12-31'),
+        card('FN:Leap Day', 'BDAY:2004-02-29'),
+      ].join('\n');
+
+      expect(parseVCardDates(text).map(({ month, day }) => [month, day])).toEqual([
+        [0, 1],
+        [11, 31],
+        [1, 29],
+      ]);
+    });
+
+    it('drops the year Apple marks as omitted', () => {
+      expect(parseVCardDates(card('FN:Ada', 'BDAY;X-APPLE-OMIT-YEAR=1604:1604-03-14'))).toEqual([
+        { name: 'Ada', kind: 'birthday', month: 2, day: 14 },
+      ]);
+    });
+
+    it('reads anniversaries and de-duplicates repeated ones', () => {
+      const text = card('FN:Ada', 'ANNIVERSARY:20100612', 'X-ANNIVERSARY:2010-06-12');
+
+      expect(parseVCardDates(text)).toEqual([
+        { name: 'Ada', kind: 'anniversary', month: 5, day: 12, year: 2010 },
+      ]);
+    });
+
+    it('reads Apple labeled anniversaries only', () => {
+      const text = card(
+        'FN:Ada',
+        'item1.X-ABDATE:2010-06-12',
+        'item1.X-ABLabel:_$!<Anniversary>!$_',
+        'item2.X-ABDATE:2015-09-01',
+        'item2.X-ABLabel:First day at work'
+      );
+
+      expect(parseVCardDates(text)).toEqual([
+        { name: 'Ada', kind: 'anniversary', month: 5, day: 12, year: 2010 },
+      ]);
+    });
+
+    it('falls back to the structured name and unescapes values', () => {
+      expect(parseVCardDates(card('N:Lovelace;Ada;;;', 'BDAY:--1210'))[0].name).toBe('Ada Lovelace');
+      expect(parseVCardDates(card('FN:Smith\\, Jr.', 'BDAY:--0101'))[0].name).toBe('Smith, Jr.');
+    });
+
+    it('joins folded lines', () => {
+      const text = 'BEGIN:VCARD\r\nFN:Ada Love\r\n lace\r\nBDAY:1815-12-10\r\nEND:VCARD';
+
+      expect(parseVCardDates(text)[0].name).toBe('Ada Lovelace');
+    });
+
+    it('skips invalid dates', () => {
+      const text = [
+        card('FN:Month 13', 'BDAY:2000-13-01'),
+        card('FN:Month 0', 'BDAY:2000-00-10'),
+        card('FN:Day 32', 'BDAY:2000-01-32'),
+        card('FN:Feb 30', 'BDAY:--0230'),
+        card('FN:April 31', 'BDAY:2000-04-31'),
+        card('FN:Text', 'BDAY:sometime in June'),
+        card('FN:Empty', 'BDAY:'),
+      ].join('\n');
+
+      expect(parseVCardDates(text)).toEqual([]);
+    });
+
+    it('skips cards without a name, without dates, or without an end', () => {
+      const text = [
+        card('BDAY:2000-01-01'),
+        card('FN:No Dates', 'TEL:+1 555 0100'),
+        'BEGIN:VCARD\nFN:Unfinished\nBDAY:2000-01-01',
+      ].join('\n');
+
+      expect(parseVCardDates(text)).toEqual([]);
+    });
+
+    it('returns nothing for empty or non-vCard input', () => {
+      expect(parseVCardDates('')).toEqual([]);
+      expect(parseVCardDates('FN:Ada\nBDAY:1815-12-10')).toEqual([]);
+      expect(parseVCardDates('not a vcard at all')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Calendar Systems
+ * Year and month boundaries in non-Gregorian calendars (Hijri, Chinese, Hebrew, Persian)
+ *
+ * Boundaries come from the platform's Intl calendar data, read day by day:
+ * a month starts on its day 1, a year starts on the first month whose year
+ * field differs from the month before. Results are plain calendar dates, so
+ * everything downstream (grids, stats, rollovers) works unchanged.
+ */
+
+import { CalendarDate, CalendarSystem } from '@/types/timeline';
+import { addCalendarDays, getTodayCalendarDate } from '@/utils/date-helpers';
+
+/**
+ * Calendar systems other than Gregorian
+ */
+export type AlternateCalendarSystem = Exclude<CalendarSystem, 'gregorian'>;
+
+/**
+ * Unicode calendar identifiers for each non-Gregorian system
+ * Hijri uses Umm al-Qura, the official Saudi calendar
+ */
+const INTL_CALENDARS: Record<AlternateCalendarSystem, string> = {
+  islamic: 'islamic-umalqura',
+  chinese: 'chinese',
+  hebrew: 'hebrew',
+  persian: 'persian',
+};
+
+/**
+ * Calendar systems offered in settings, Gregorian first
+ */
+export const CALENDAR_SYSTEMS: CalendarSystem[] = ['gregorian', 'islamic', 'chinese', 'hebrew', 'persian'];
+
+/**
+ * A year or month period, as inclusive calendar dates
+ */
+export interface CalendarPeriod {
+  startDate: CalendarDate;
+  endDate: CalendarDate;
+}
+
+const fieldFormatters = new Map<CalendarSystem, Intl.DateTimeFormat>();
+
+/**
+ * Get the (cached) formatter used to read year and day fields
+ */
+function getFieldFormatter(system: AlternateCalendarSystem): Intl.DateTimeFormat {
+  let formatter = fieldFormatters.get(system);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(`en-u-ca-${INTL_CALENDARS[system]}`, {
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      timeZone: 'UTC',
+    });
+    fieldFormatters.set(system, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Read the year, month and day-of-month of a calendar date in another calendar
+ * Chinese years are identified by their related Gregorian year
+ */
+function getCalendarFields(
+  system: AlternateCalendarSystem,
+  date: CalendarDate
+): { year: string; month: number; day: number } {
+  const parts = getFieldFormatter(system).formatToParts(new Date(`${date}T00:00:00Z`));
+  const find = (type: string) => parts.find((part) => part.type === type)?.value;
+
+  return {
+    year: find('relatedYear') ?? find('year') ?? '',
+    month: parseInt(find('month') ?? '1', 10),
+    day: parseInt(find('day') ?? '1', 10),
+  };
+}
+
+/**
+ * Get the first day of the month containing a date
+ */
+function getMonthStart(system: AlternateCalendarSystem, date: CalendarDate): CalendarDate {
+  return addCalendarDays(date, 1 - getCalendarFields(system, date).day);
+}
+
+/**
+ * Get the first day of the month after the one containing a date
+ * Months in every supported calendar last 29-31 days
+ */
+function getNextMonthStart(system: AlternateCalendarSystem, date: CalendarDate): CalendarDate {
+  let next = addCalendarDays(getMonthStart(system, date), 29);
+  while (getCalendarFields(system, next).day !== 1) {
+    next = addCalendarDays(next, 1);
+  }
+  return next;
+}
+
+/**
+ * Check if the platform has data for a calendar system
+ * Gregorian is always supported
+ */
+export function isCalendarSystemSupported(system: CalendarSystem): boolean {
+  if (system === 'gregorian') return true;
+
+  try {
+    const resolved = new Intl.DateTimeFormat(`en-u-ca-${INTL_CALENDARS[system]}`).resolvedOptions();
+    return resolved.calendar === INTL_CALENDARS[system];
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the month containing a date in a non-Gregorian calendar
+ *
+ * @param system - Calendar system
+ * @param date - Any day of the month (defaults to today)
+ * @returns First and last day of the month
+ */
+export function getCalendarMonth(
+  system: AlternateCalendarSystem,
+  date: CalendarDate = getTodayCalendarDate()
+): CalendarPeriod {
+  return {
+    startDate: getMonthStart(system, date),
+    endDate: addCalendarDays(getNextMonthStart(system, date), -1),
+  };
+}
+
+/**
+ * Get the current or next occurrence of a month in a non-Gregorian calendar
+ * Example: month 9 of the Hijri calendar is Ramadan
+ *
+ * @param system - Calendar system
+ * @param month - Month number in that calendar (1-based)
+ * @param date - Reference day (defaults to today)
+ * @returns The month containing the date if it matches, otherwise the next one
+ */
+export function getUpcomingCalendarMonth(
+  system: AlternateCalendarSystem,
+  month: number,
+  date: CalendarDate = getTodayCalendarDate()
+): CalendarPeriod | null {
+  let period = getCalendarMonth(system, date);
+
+  // Every supported calendar has at most 13 months
+  for (let i = 0; i < 13; i++) {
+    if (getCalendarFields(system, period.startDate).month === month) return period;
+    period = getCalendarMonth(system, addCalendarDays(period.endDate, 1));
+  }
+  return null;
+}
+
+/**
+ * Get the year containing a date in a non-Gregorian calendar
+ * Leap years (e.g. 13-month Hebrew and Chinese years) are followed as-is
+ *
+ * @param system - Calendar system
+ * @param date - Any day of the year (defaults to today)
+ * @returns First and last day of the year
+ */
+export function getCalendarYear(
+  system: AlternateCalendarSystem,
+  date: CalendarDate = getTodayCalendarDate()
+): CalendarPeriod {
+  const { year } = getCalendarFields(system, date);
+
+  let startDate = getMonthStart(system, date);
+  for (;;) {
+    const previousStart = getMonthStart(system, addCalendarDays(startDate, -1));
+    if (getCalendarFields(system, previousStart).year !== year) break;
+    startDate = previousStart;
+  }
+
+  let nextStart = getNextMonthStart(system, date);
+  while (getCalendarFields(system, nextStart).year === year) {
+    nextStart = getNextMonthStart(system, nextStart);
+  }
+
+  return { startDate, endDate: addCalendarDays(nextStart, -1) };
+}
+
+/**
+ * Format the name of a year or month in a non-Gregorian calendar
+ * Examples: "Ramadan 1448 AH", "1448 AH", "Farvardin 1405 AP"
+ *
+ * @param system - Calendar system
+ * @param unit - Whether to name the year or the month (months include their year)
+ * @param date - Any day of the period
+ * @param locale - BCP 47 locale for the names
+ */
+export function formatCalendarPeriod(
+  system: AlternateCalendarSystem,
+  unit: 'year' | 'month',
+  date: CalendarDate,
+  locale: string
+): string {
+  const options: Intl.DateTimeFormatOptions =
+    unit === 'year'
+      ? { year: 'numeric', timeZone: 'UTC' }
+      : { month: 'long', year: 'numeric', timeZone: 'UTC' };
+
+  return new Intl.DateTimeFormat(`${locale}-u-ca-${INTL_CALENDARS[system]}`, options).format(
+    new Date(`${date}T00:00:00Z`)
+  );
+}
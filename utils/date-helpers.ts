@@ -2,26 +2,160 @@
  * Date Helper Utilities
  * Pure functions for date calculations in Stoic Calendar
  *
- * All dates use ISO 8601 format strings for consistency and Firebase compatibility
- * Week starts on Monday (ISO 8601 standard)
+ * Timeline dates are plain calendar dates (YYYY-MM-DD). Day counts are done on
+ * calendar-day numbers rather than millisecond differences, so DST changes and
+ * timezone travel never shift a date or change a count.
+ * Timestamps (e.g. createdAt) still use ISO 8601 instants.
+ * Week starts on Monday (ISO 8601 standard) unless a weekStartDay is passed
+ * "Today" follows the day boundary set with setDayStartHour (midnight by default)
  */
 
+import { CalendarDate, TimelineUnit, WeekStartDay } from '@/types/timeline';
+
+const MS_PER_MINUTE = 1000 * 60;
+const MS_PER_HOUR = MS_PER_MINUTE * 60;
+const MS_PER_DAY = MS_PER_HOUR * 24;
+const CALENDAR_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
 /**
- * Get the start of today (00:00:00)
+ * Hour (0-23) a new day starts at, from AppSettings.dayStartsAt
  */
-export function getStartOfToday(): Date {
+let dayStartHour = 0;
+
+// ============================================================================
+// Day Boundary
+// ============================================================================
+
+/**
+ * Set the hour a new day starts at
+ * With 4, 01:00 still belongs to the previous day for every "today" check
+ */
+export function setDayStartHour(hour: number): void {
+  dayStartHour = Math.min(23, Math.max(0, Math.floor(hour) || 0));
+}
+
+/**
+ * Get the hour a new day starts at (0 = midnight)
+ */
+export function getDayStartHour(): number {
+  return dayStartHour;
+}
+
+/**
+ * Get the current moment moved back by the day boundary
+ * Its calendar fields are today's date: at 01:00 with a 04:00 boundary, still yesterday
+ */
+function getDayNow(): Date {
   const now = new Date();
-  now.setHours(0, 0, 0, 0);
+  now.setHours(now.getHours() - dayStartHour);
   return now;
 }
 
+// ============================================================================
+// Calendar Dates
+// ============================================================================
+
+/**
+ * Check if a string is a plain calendar date (YYYY-MM-DD)
+ */
+export function isCalendarDate(value: string): boolean {
+  return CALENDAR_DATE_PATTERN.test(value);
+}
+
+/**
+ * Convert a date to a calendar date string (YYYY-MM-DD) in local time
+ * Calendar date strings are returned unchanged; legacy ISO instants are
+ * converted to the local date they fall on
+ */
+export function toCalendarDate(date: Date | string): CalendarDate {
+  if (typeof date === 'string' && isCalendarDate(date)) {
+    return date;
+  }
+
+  const d = toDate(date);
+  return formatCalendarDate(d.getFullYear(), d.getMonth(), d.getDate());
+}
+
+/**
+ * Parse a calendar date string into a Date at local midnight
+ * Unlike new Date('YYYY-MM-DD') (which is UTC midnight), this never shifts the day
+ * Legacy ISO instants are parsed and moved to the start of their local day
+ */
+export function parseCalendarDate(value: CalendarDate | string): Date {
+  const match = CALENDAR_DATE_PATTERN.exec(value);
+  if (!match) {
+    return getStartOfDate(new Date(value));
+  }
+
+  const [, year, month, day] = match;
+  return new Date(Number(year), Number(month) - 1, Number(day), 0, 0, 0, 0);
+}
+
+/**
+ * Get today's calendar date (YYYY-MM-DD)
+ */
+export function getTodayCalendarDate(): CalendarDate {
+  return toCalendarDate(getDayNow());
+}
+
+/**
+ * Add days to a calendar date
+ * Returns a new calendar date string (e.g. '2024-02-28' + 1 = '2024-02-29')
+ */
+export function addCalendarDays(date: CalendarDate, days: number): CalendarDate {
+  const d = new Date((toDayNumber(date) + days) * MS_PER_DAY);
+  return formatCalendarDate(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+}
+
+/**
+ * Format year, month (0-based) and day as YYYY-MM-DD
+ */
+function formatCalendarDate(year: number, month: number, day: number): CalendarDate {
+  const yyyy = year.toString().padStart(4, '0');
+  const mm = (month + 1).toString().padStart(2, '0');
+  const dd = day.toString().padStart(2, '0');
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+/**
+ * Convert a Date or date string to a new Date object
+ * Calendar date strings become local midnight (see parseCalendarDate)
+ */
+function toDate(date: Date | string): Date {
+  return typeof date === 'string' ? parseCalendarDate(date) : new Date(date);
+}
+
+/**
+ * Get the calendar-day number of a date (days since 1970-01-01)
+ * Uses the local calendar fields with UTC arithmetic, so every day is exactly
+ * one step regardless of DST transitions
+ */
+function toDayNumber(date: Date | string): number {
+  const d = toDate(date);
+  return Math.round(Date.UTC(d.getFullYear(), d.getMonth(), d.getDate()) / MS_PER_DAY);
+}
+
+// ============================================================================
+// Date Boundaries
+// ============================================================================
+
 /**
- * Get the end of today (23:59:59.999)
+ * Get the moment today started (00:00:00, or the day boundary hour)
+ */
+export function getStartOfToday(): Date {
+  const start = getDayNow();
+  start.setHours(dayStartHour, 0, 0, 0);
+  return start;
+}
+
+/**
+ * Get the last moment of today (23:59:59.999, or just before the next day boundary)
  */
 export function getEndOfToday(): Date {
-  const now = new Date();
-  now.setHours(23, 59, 59, 999);
-  return now;
+  const end = getDayNow();
+  end.setHours(dayStartHour + 24, 0, 0, 0);
+  end.setMilliseconds(-1);
+  return end;
 }
 
 /**
@@ -33,6 +167,23 @@ export function getStartOfDate(date: Date): Date {
   return d;
 }
 
+/**
+ * Get the moment an hour starts on a date (hour 24 is the next midnight)
+ * Uses wall-clock hours, so DST days keep their 23 or 25 real hours
+ */
+export function getHourOfDate(date: Date | string, hour: number): Date {
+  const d = getStartOfDate(toDate(date));
+  d.setHours(hour);
+  return d;
+}
+
+/**
+ * Get whole minutes between two moments (negative when end is before start)
+ */
+export function getMinutesBetween(start: Date, end: Date): number {
+  return Math.floor((end.getTime() - start.getTime()) / MS_PER_MINUTE);
+}
+
 /**
  * Get the end of a specific date (23:59:59.999)
  */
@@ -46,7 +197,7 @@ export function getEndOfDate(date: Date): Date {
  * Get the start of the current year
  */
 export function getStartOfCurrentYear(): Date {
-  const now = new Date();
+  const now = getDayNow();
   return new Date(now.getFullYear(), 0, 1, 0, 0, 0, 0);
 }
 
@@ -54,7 +205,7 @@ export function getStartOfCurrentYear(): Date {
  * Get the end of the current year
  */
 export function getEndOfCurrentYear(): Date {
-  const now = new Date();
+  const now = getDayNow();
   return new Date(now.getFullYear(), 11, 31, 23, 59, 59, 999);
 }
 
@@ -76,7 +227,7 @@ export function getEndOfYear(year: number): Date {
  * Get the start of the current month
  */
 export function getStartOfCurrentMonth(): Date {
-  const now = new Date();
+  const now = getDayNow();
   return new Date(now.getFullYear(), now.getMonth(), 1, 0, 0, 0, 0);
 }
 
@@ -84,7 +235,7 @@ export function getStartOfCurrentMonth(): Date {
  * Get the end of the current month
  */
 export function getEndOfCurrentMonth(): Date {
-  const now = new Date();
+  const now = getDayNow();
   return new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59, 999);
 }
 
@@ -103,27 +254,28 @@ export function getEndOfMonth(year: number, month: number): Date {
 }
 
 /**
- * Get the start of the current week (Monday, ISO 8601)
+ * Get the start of the current week
+ * @param weekStartDay - First day of the week (defaults to Monday, ISO 8601)
  */
-export function getStartOfCurrentWeek(): Date {
-  const now = new Date();
-  const day = now.getDay();
-  const diff = day === 0 ? -6 : 1 - day; // If Sunday (0), go back 6 days; else go to Monday
-  const monday = new Date(now);
-  monday.setDate(now.getDate() + diff);
-  monday.setHours(0, 0, 0, 0);
-  return monday;
+export function getStartOfCurrentWeek(weekStartDay: WeekStartDay = 1): Date {
+  const now = getDayNow();
+  const diff = (now.getDay() - weekStartDay + 7) % 7; // Days since the week started
+  const weekStart = new Date(now);
+  weekStart.setDate(now.getDate() - diff);
+  weekStart.setHours(0, 0, 0, 0);
+  return weekStart;
 }
 
 /**
- * Get the end of the current week (Sunday, ISO 8601)
+ * Get the end of the current week (6 days after the start)
+ * @param weekStartDay - First day of the week (defaults to Monday, ISO 8601)
  */
-export function getEndOfCurrentWeek(): Date {
-  const monday = getStartOfCurrentWeek();
-  const sunday = new Date(monday);
-  sunday.setDate(monday.getDate() + 6);
-  sunday.setHours(23, 59, 59, 999);
-  return sunday;
+export function getEndOfCurrentWeek(weekStartDay: WeekStartDay = 1): Date {
+  const weekStart = getStartOfCurrentWeek(weekStartDay);
+  const weekEnd = new Date(weekStart);
+  weekEnd.setDate(weekStart.getDate() + 6);
+  weekEnd.setHours(23, 59, 59, 999);
+  return weekEnd;
 }
 
 /**
@@ -131,14 +283,7 @@ export function getEndOfCurrentWeek(): Date {
  * Example: Jan 1 to Jan 3 = 3 days
  */
 export function getDaysBetween(startDate: Date | string, endDate: Date | string): number {
-  const start = typeof startDate === 'string' ? new Date(startDate) : startDate;
-  const end = typeof endDate === 'string' ? new Date(endDate) : endDate;
-
-  const startDay = getStartOfDate(start);
-  const endDay = getStartOfDate(end);
-
-  const diffTime = endDay.getTime() - startDay.getTime();
-  const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+  const diffDays = toDayNumber(endDate) - toDayNumber(startDate);
 
   return diffDays + 1; // +1 to make it inclusive
 }
@@ -146,12 +291,12 @@ export function getDaysBetween(startDate: Date | string, endDate: Date | string)
 /**
  * Calculate days passed in a timeline (from startDate to today)
  * Returns 0 if timeline hasn't started yet
- * Note: Today is counted as "passed" once it starts (at 00:00)
+ * Note: Today is counted as "passed" once it starts (at 00:00, or the day boundary hour)
  */
 export function getDaysPassed(startDate: Date | string, endDate: Date | string): number {
-  const start = typeof startDate === 'string' ? new Date(startDate) : startDate;
-  const end = typeof endDate === 'string' ? new Date(endDate) : endDate;
-  const today = getStartOfToday();
+  const start = toDayNumber(startDate);
+  const end = toDayNumber(endDate);
+  const today = toDayNumber(getDayNow());
 
   // Timeline hasn't started yet
   if (today < start) {
@@ -160,11 +305,11 @@ export function getDaysPassed(startDate: Date | string, endDate: Date | string):
 
   // Timeline has ended, return total days
   if (today > end) {
-    return getDaysBetween(start, end);
+    return end - start + 1;
   }
 
   // Timeline is active, return days from start to today (inclusive)
-  return getDaysBetween(start, today);
+  return today - start + 1;
 }
 
 /**
@@ -173,32 +318,22 @@ export function getDaysPassed(startDate: Date | string, endDate: Date | string):
  * Note: Today is NOT counted in "remaining" since it's already in "passed"
  */
 export function getDaysRemaining(startDate: Date | string, endDate: Date | string): number {
-  const start = typeof startDate === 'string' ? new Date(startDate) : startDate;
-  const end = typeof endDate === 'string' ? new Date(endDate) : endDate;
-  const today = getStartOfToday();
+  const start = toDayNumber(startDate);
+  const end = toDayNumber(endDate);
+  const today = toDayNumber(getDayNow());
 
   // Timeline hasn't started yet, return total days
   if (today < start) {
-    return getDaysBetween(start, end);
+    return end - start + 1;
   }
 
-  // Timeline has ended
-  if (today > end) {
+  // Timeline has ended (or today is the last day)
+  if (today >= end) {
     return 0;
   }
 
-  // Timeline is active
-  // Calculate tomorrow (to exclude today from remaining)
-  const tomorrow = new Date(today);
-  tomorrow.setDate(tomorrow.getDate() + 1);
-
-  // If today is the last day, return 0
-  if (tomorrow > end) {
-    return 0;
-  }
-
-  // Return days from tomorrow to end (excluding today)
-  return getDaysBetween(tomorrow, end);
+  // Timeline is active, return days from tomorrow to end (excluding today)
+  return end - today;
 }
 
 /**
@@ -208,6 +343,97 @@ export function getTotalDays(startDate: Date | string, endDate: Date | string):
   return getDaysBetween(startDate, endDate);
 }
 
+/**
+ * Get the 0-based index of the unit period containing a date,
+ * counted from the timeline start (negative before the start)
+ *
+ * Hours are counted from the start of the start day, weeks in blocks of
+ * 7 days from the start date, months from the start date's day of month
+ * (clamped to shorter months, e.g. Jan 31 -> Feb 28 -> Mar 31).
+ */
+export function getUnitIndex(startDate: Date | string, date: Date | string, unit: TimelineUnit): number {
+  const start = toDate(startDate);
+  const d = toDate(date);
+
+  switch (unit) {
+    case 'hour':
+      return Math.floor((d.getTime() - getStartOfDate(start).getTime()) / MS_PER_HOUR);
+    case 'week':
+      return Math.floor((getDaysBetween(start, d) - 1) / 7);
+    case 'month': {
+      // Compare with addMonths, so month ends clamp the same way as getDateFromDotIndex
+      const months = (d.getFullYear() - start.getFullYear()) * 12 + (d.getMonth() - start.getMonth());
+      return toDayNumber(d) < toDayNumber(addMonths(start, months)) ? months - 1 : months;
+    }
+    case 'day':
+    default:
+      return getDaysBetween(start, d) - 1;
+  }
+}
+
+/**
+ * Calculate total units in a timeline (a trailing partial unit counts as one)
+ * Hour timelines always cover whole days
+ */
+export function getTotalUnits(
+  startDate: Date | string,
+  endDate: Date | string,
+  unit: TimelineUnit = 'day'
+): number {
+  if (unit === 'day') return getTotalDays(startDate, endDate);
+
+  const end = toDate(endDate);
+  const last = unit === 'hour' ? getEndOfDate(end) : end;
+  return Math.max(0, getUnitIndex(startDate, last, unit) + 1);
+}
+
+/**
+ * Calculate units passed in a timeline
+ * The current unit counts as passed (same rule as today in getDaysPassed)
+ */
+export function getUnitsPassed(
+  startDate: Date | string,
+  endDate: Date | string,
+  unit: TimelineUnit = 'day'
+): number {
+  if (unit === 'day') return getDaysPassed(startDate, endDate);
+
+  // Hours tick on the clock; weeks and months follow the day boundary
+  const total = getTotalUnits(startDate, endDate, unit);
+  const current = getUnitIndex(startDate, unit === 'hour' ? new Date() : getDayNow(), unit) + 1;
+  return Math.min(total, Math.max(0, current));
+}
+
+/**
+ * Calculate units remaining in a timeline (excludes the current unit)
+ */
+export function getUnitsRemaining(
+  startDate: Date | string,
+  endDate: Date | string,
+  unit: TimelineUnit = 'day'
+): number {
+  if (unit === 'day') return getDaysRemaining(startDate, endDate);
+
+  return Math.max(0, getTotalUnits(startDate, endDate, unit) - getUnitsPassed(startDate, endDate, unit));
+}
+
+/**
+ * Calculate unit-based progress percentage (0-100)
+ */
+export function getUnitProgressPercentage(
+  startDate: Date | string,
+  endDate: Date | string,
+  unit: TimelineUnit = 'day'
+): number {
+  if (unit === 'day') return getProgressPercentage(startDate, endDate);
+
+  const total = getTotalUnits(startDate, endDate, unit);
+  if (total === 0) return 0;
+
+  const percentage = (getUnitsPassed(startDate, endDate, unit) / total) * 100;
+  return Math.min(100, Math.max(0, Math.round(percentage)));
+}
+
 /**
  * Calculate progress percentage (0-100)
  */
@@ -225,27 +451,29 @@ export function getProgressPercentage(startDate: Date | string, endDate: Date |
  * Check if a date is today
  */
 export function isToday(date: Date | string): boolean {
-  const d = typeof date === 'string' ? new Date(date) : date;
-  const today = getStartOfToday();
-  return getStartOfDate(d).getTime() === today.getTime();
+  return toDayNumber(date) === toDayNumber(getDayNow());
 }
 
 /**
  * Check if a date is in the past
  */
 export function isPast(date: Date | string): boolean {
-  const d = typeof date === 'string' ? new Date(date) : date;
-  const today = getStartOfToday();
-  return getStartOfDate(d) < today;
+  return toDayNumber(date) < toDayNumber(getDayNow());
+}
+
+/**
+ * Check if a date falls on a Saturday or Sunday
+ */
+export function isWeekend(date: Date | string): boolean {
+  const day = toDate(date).getDay();
+  return day === 0 || day === 6;
 }
 
 /**
  * Check if a date is in the future
  */
 export function isFuture(date: Date | string): boolean {
-  const d = typeof date === 'string' ? new Date(date) : date;
-  const today = getStartOfToday();
-  return getStartOfDate(d) > today;
+  return toDayNumber(date) > toDayNumber(getDayNow());
 }
 
 /**
@@ -280,7 +508,7 @@ export function getOrdinalSuffix(num: number): string {
  * Examples: "January 1, 2026", "March 15, 2025"
  */
 export function formatLongDate(date: Date | string): string {
-  const d = typeof date === 'string' ? new Date(date) : date;
+  const d = toDate(date);
   return d.toLocaleDateString('en-US', {
     year: 'numeric',
     month: 'long',
@@ -293,7 +521,7 @@ export function formatLongDate(date: Date | string): string {
  * Examples: "Jan 1, 2026", "Mar 15, 2025"
  */
 export function formatShortDate(date: Date | string): string {
-  const d = typeof date === 'string' ? new Date(date) : date;
+  const d = toDate(date);
   return d.toLocaleDateString('en-US', {
     year: 'numeric',
     month: 'short',
@@ -306,15 +534,105 @@ export function formatShortDate(date: Date | string): string {
  * Returns a new Date object
  */
 export function addDays(date: Date | string, days: number): Date {
-  const d = typeof date === 'string' ? new Date(date) : new Date(date);
+  const d = toDate(date);
   d.setDate(d.getDate() + days);
   return d;
 }
 
+/**
+ * Add weeks to a date
+ * Returns a new Date object
+ */
+export function addWeeks(date: Date | string, weeks: number): Date {
+  return addDays(date, weeks * 7);
+}
+
+/**
+ * Add months to a date
+ * Returns a new Date object (day is clamped to the target month, e.g. Jan 31 + 1 = Feb 28)
+ */
+export function addMonths(date: Date | string, months: number): Date {
+  const d = toDate(date);
+  const day = d.getDate();
+  d.setDate(1);
+  d.setMonth(d.getMonth() + months);
+  const lastDay = new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate();
+  d.setDate(Math.min(day, lastDay));
+  return d;
+}
+
+/**
+ * Add years to a date
+ * Returns a new Date object (Feb 29 rolls over to Mar 1 in non-leap years)
+ */
+export function addYears(date: Date | string, years: number): Date {
+  const d = toDate(date);
+  d.setFullYear(d.getFullYear() + years);
+  return d;
+}
+
 /**
  * Get date from timeline start and dot index
- * Dot index is 0-based (0 = first day of timeline)
+ * Dot index is 0-based (0 = first unit of timeline)
+ * Returns the start of the dot's period
+ */
+export function getDateFromDotIndex(
+  startDate: Date | string,
+  dotIndex: number,
+  unit: TimelineUnit = 'day'
+): Date {
+  switch (unit) {
+    case 'hour': {
+      return new Date(getStartOfDate(toDate(startDate)).getTime() + dotIndex * MS_PER_HOUR);
+    }
+    case 'week':
+      return addWeeks(startDate, dotIndex);
+    case 'month':
+      return addMonths(startDate, dotIndex);
+    case 'day':
+    default:
+      return addDays(startDate, dotIndex);
+  }
+}
+
+/**
+ * Check if a dot period (starting at date) contains the current moment
+ */
+export function isCurrentPeriod(date: Date | string, unit: TimelineUnit = 'day'): boolean {
+  if (unit === 'day') return isToday(date);
+
+  const start = toDate(date);
+  const next = getDateFromDotIndex(start, 1, unit);
+  const periodStart = unit === 'hour' ? start : getStartOfDate(start);
+  const periodEnd = unit === 'hour' ? next : getStartOfDate(next);
+  const now = unit === 'hour' ? new Date() : getDayNow();
+  return now >= periodStart && now < periodEnd;
+}
+
+/**
+ * Get a short label for a dot period
+ * Examples: "Jan 1, 2026", "Jan 1 – Jan 7, 2026", "January 2026", "Jan 1, 2:00 PM"
  */
-export function getDateFromDotIndex(startDate: Date | string, dotIndex: number): Date {
-  return addDays(startDate, dotIndex);
+export function formatPeriodLabel(date: Date | string, unit: TimelineUnit = 'day'): string {
+  const d = toDate(date);
+
+  switch (unit) {
+    case 'hour':
+      return d.toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+      });
+    case 'week': {
+      const weekEnd = addDays(d, 6);
+      const startLabel = d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+      return `${startLabel} – ${formatShortDate(weekEnd)}`;
+    }
+    case 'month':
+      return d.toLocaleDateString('en-US', { year: 'numeric', month: 'long' });
+    case 'day':
+    default:
+      return formatShortDate(d);
+  }
 }
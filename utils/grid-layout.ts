@@ -2,12 +2,24 @@
  * Grid Layout Utilities
  * Dynamic dot sizing algorithm for the Stoic Grid
  *
- * Core Principle: 1 dot = 1 day, always
- * The grid must ALWAYS fit its container without scrolling
+ * Core Principle: 1 dot = 1 unit of time (day, week, month or hour)
+ * The grid must ALWAYS fit its container without scrolling; grids that still
+ * overflow at the minimum dot size are split into pages instead
  */
 
 import { Layout } from '@/constants/theme';
 
+/**
+ * Dot count above which the grid switches to a dense, year-per-row layout
+ */
+const DENSE_GRID_THRESHOLD = 1000;
+
+/**
+ * Maximum number of dots a single grid can render
+ * (a 100-year life in weeks is ~5,200 dots)
+ */
+export const MAX_GRID_DOTS = 6000;
+
 export interface GridLayout {
   /**
    * Number of columns in the grid
@@ -43,6 +55,12 @@ export interface GridLayout {
    * Total height required for the grid
    */
   gridHeight: number;
+
+  /**
+   * Number of dots shown at once
+   * Equals totalDots unless the grid outgrows its container and is paged
+   */
+  pageSize: number;
 }
 
 /**
@@ -53,9 +71,10 @@ export interface GridLayout {
  * 2. Calculate number of rows based on total dots
  * 3. Calculate maximum dot size that fits both width and height
  * 4. Apply spacing (10-15% of dot size)
- * 5. Ensure grid fits perfectly in container
+ * 5. Page the grid if it still overflows at the minimum dot size
+ * 6. Ensure grid fits perfectly in container
  *
- * @param totalDots - Total number of dots to display (365 for year, 7 for week, etc.)
+ * @param totalDots - Total number of dots to display (365 for year, 7 for week, ~4000 for life, etc.)
  * @param containerWidth - Available width in pixels
  * @param containerHeight - Available height in pixels
  * @returns Grid layout configuration
@@ -74,6 +93,7 @@ export function calculateGridLayout(
       spacingVertical: 0,
       gridWidth: 0,
       gridHeight: 0,
+      pageSize: 0,
     };
   }
 
@@ -91,6 +111,9 @@ export function calculateGridLayout(
   } else if (totalDots <= 100) {
     // Medium grids: 10 columns
     optimalColumns = 10;
+  } else if (totalDots > DENSE_GRID_THRESHOLD) {
+    // Life in weeks: 52 columns (one row per year of life)
+    optimalColumns = 52;
   } else {
     // Large grids (e.g., 365 days): 16 columns (Manus.ai MVP style)
     // 365 days ÷ 16 columns ≈ 23 rows
@@ -105,7 +128,7 @@ export function calculateGridLayout(
   }
 
   // Step 2: Calculate rows
-  const rows = Math.ceil(totalDots / optimalColumns);
+  let rows = Math.ceil(totalDots / optimalColumns);
 
   // Step 3: Calculate maximum dot size with asymmetric spacing
   // Horizontal spacing: wider gaps (25%)
@@ -126,13 +149,29 @@ export function calculateGridLayout(
   let dotSize = Math.min(maxDotSizeFromWidth, maxDotSizeFromHeight);
 
   // Step 4: Clamp dot size to reasonable bounds
-  dotSize = Math.max(Layout.minDotSize, Math.min(Layout.maxDotSize, dotSize));
+  // Dense grids may shrink further so that they still fit without scrolling
+  const minDotSize = totalDots > DENSE_GRID_THRESHOLD ? Layout.minDotSizeDense : Layout.minDotSize;
+  dotSize = Math.max(minDotSize, Math.min(Layout.maxDotSize, dotSize));
 
   // Step 5: Calculate asymmetric spacing
   const spacingHorizontal = dotSize * horizontalSpacingRatio;
   const spacingVertical = dotSize * verticalSpacingRatio;
 
-  // Step 6: Calculate actual grid dimensions
+  // Step 6: Page the grid when the rows still don't fit at this dot size
+  // (e.g. count-up timelines that keep growing); show as many full rows as fit
+  const maxRows = Math.max(
+    1,
+    Math.min(
+      Math.floor((containerHeight + spacingVertical) / (dotSize + spacingVertical)),
+      Math.floor(MAX_GRID_DOTS / optimalColumns)
+    )
+  );
+  const isPaged = rows > maxRows;
+  if (isPaged) {
+    rows = maxRows;
+  }
+
+  // Step 7: Calculate actual grid dimensions
   const gridWidth = optimalColumns * dotSize + (optimalColumns - 1) * spacingHorizontal;
   const gridHeight = rows * dotSize + (rows - 1) * spacingVertical;
 
@@ -144,9 +183,23 @@ export function calculateGridLayout(
     spacingVertical: Math.floor(spacingVertical),
     gridWidth: Math.floor(gridWidth),
     gridHeight: Math.floor(gridHeight),
+    pageSize: isPaged ? rows * optimalColumns : totalDots,
   };
 }
 
+/**
+ * Get the index of the first dot on the page containing a dot
+ * Paged grids show the page with the current (last filled) dot
+ *
+ * @param dotIndex - Dot index (0-based)
+ * @param pageSize - Dots per page (from calculateGridLayout)
+ * @returns Index of the first dot on the page
+ */
+export function getGridPageStart(dotIndex: number, pageSize: number): number {
+  if (pageSize <= 0 || dotIndex <= 0) return 0;
+  return Math.floor(dotIndex / pageSize) * pageSize;
+}
+
 /**
  * Calculate the position (x, y) of a dot in the grid
  *
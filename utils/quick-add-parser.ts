@@ -0,0 +1,481 @@
+/**
+ * Quick-Add Parser
+ * Offline parser that turns a short phrase into a custom timeline range
+ *
+ * Supported phrases (English and Turkish):
+ * - Durations: "next 100 days", "detox for 30 days" / "önümüzdeki 100 gün"
+ * - Deadlines: "until Dec 25", "rest of the semester until June 14" / "25 Aralık'a kadar"
+ * - Anchored durations: "2 weeks from Monday" / "Pazartesiden itibaren 2 hafta"
+ * - Ranges: "from Nov 1 to Dec 25" / "1 Kasım'dan 25 Aralık'a kadar"
+ *
+ * Dates without a year resolve to their next occurrence, weekdays to the next
+ * such day after today. Other app languages are parsed with the English grammar.
+ */
+
+import { CalendarDate } from '@/types/timeline';
+import {
+  addCalendarDays,
+  addMonths,
+  addYears,
+  getTodayCalendarDate,
+  isCalendarDate,
+  parseCalendarDate,
+  toCalendarDate,
+} from '@/utils/date-helpers';
+
+/**
+ * A parsed quick-add phrase
+ */
+export interface QuickAddResult {
+  startDate: CalendarDate;
+  endDate: CalendarDate;
+  /**
+   * Suggested title: the phrase's own label (e.g. "Rest of the semester"),
+   * otherwise the phrase itself
+   */
+  title: string;
+}
+
+type DurationUnit = 'day' | 'week' | 'month' | 'year';
+
+interface Duration {
+  count: number;
+  unit: DurationUnit;
+}
+
+/**
+ * Range found by a language grammar, before the title is chosen
+ */
+interface ParsedPhrase {
+  startDate: CalendarDate;
+  endDate: CalendarDate;
+  label?: string;
+}
+
+type PhraseParser = (phrase: string, today: CalendarDate) => ParsedPhrase | null;
+
+/**
+ * Largest count per duration unit (about 100 years)
+ * Longer durations ("for 99999999 years") are rejected instead of overflowing the date
+ */
+const MAX_DURATION_COUNTS: Record<DurationUnit, number> = {
+  day: 36525,
+  week: 5218,
+  month: 1200,
+  year: 100,
+};
+
+// ============================================================================
+// Shared Helpers
+// ============================================================================
+
+/**
+ * Resolve a day and month to a calendar date
+ * Without a year, the next occurrence from today is used
+ */
+function resolveDayMonth(
+  day: number,
+  month: number,
+  year: number | undefined,
+  today: CalendarDate
+): CalendarDate | null {
+  const build = (y: number): CalendarDate | null => {
+    const date = new Date(y, month, day);
+    return date.getMonth() === month ? toCalendarDate(date) : null;
+  };
+
+  if (year !== undefined) return build(year);
+
+  const currentYear = parseCalendarDate(today).getFullYear();
+  const thisYear = build(currentYear);
+  return thisYear && thisYear >= today ? thisYear : build(currentYear + 1);
+}
+
+/**
+ * Check that a YYYY-MM-DD string names a real day (rejects e.g. 2027-02-30)
+ */
+function isValidCalendarDate(value: CalendarDate): boolean {
+  return toCalendarDate(parseCalendarDate(value)) === value;
+}
+
+/**
+ * Get the next given weekday after today (Sunday = 0)
+ */
+function getNextWeekday(weekday: number, today: CalendarDate): CalendarDate {
+  const diff = (weekday - parseCalendarDate(today).getDay() + 7) % 7;
+  return addCalendarDays(today, diff === 0 ? 7 : diff);
+}
+
+/**
+ * Get the last day of the current month or year
+ */
+function getEndOfPeriod(period: 'month' | 'year', today: CalendarDate): CalendarDate {
+  const date = parseCalendarDate(today);
+  return period === 'month'
+    ? toCalendarDate(new Date(date.getFullYear(), date.getMonth() + 1, 0))
+    : `${date.getFullYear()}-12-31`;
+}
+
+/**
+ * Get the inclusive end date of a duration starting on a date
+ * (e.g. 100 days from Jan 1 ends on Apr 10)
+ * Returns null for durations that are too long to give a real date
+ */
+function getDurationEnd(start: CalendarDate, duration: Duration): CalendarDate | null {
+  if (duration.count > MAX_DURATION_COUNTS[duration.unit]) return null;
+
+  const end = addDuration(start, duration);
+  return isCalendarDate(end) && isValidCalendarDate(end) ? end : null;
+}
+
+/**
+ * Add a duration to a date, ending the day before the same day of the next period
+ */
+function addDuration(start: CalendarDate, { count, unit }: Duration): CalendarDate {
+  switch (unit) {
+    case 'day':
+      return addCalendarDays(start, count - 1);
+    case 'week':
+      return addCalendarDays(start, count * 7 - 1);
+    case 'month':
+      return addCalendarDays(toCalendarDate(addMonths(parseCalendarDate(start), count)), -1);
+    case 'year':
+      return addCalendarDays(toCalendarDate(addYears(parseCalendarDate(start), count)), -1);
+  }
+}
+
+/**
+ * Parse a number written as digits or as one of the given words
+ * Counts above the longest allowed duration are rejected
+ */
+function parseCount(value: string, words: Record<string, number>): number | null {
+  const count = /^\d+$/.test(value) ? parseInt(value, 10) : words[value];
+  return count && count > 0 && count <= MAX_DURATION_COUNTS.day ? count : null;
+}
+
+/**
+ * Find the longest date at the end of a word list
+ * Returns the date and the words before it
+ */
+function splitTrailingDate(
+  words: string[],
+  parseDate: (expression: string) => CalendarDate | null
+): { date: CalendarDate; rest: string[] } | null {
+  for (let length = Math.min(words.length, 4); length > 0; length--) {
+    const date = parseDate(words.slice(words.length - length).join(' '));
+    if (date) return { date, rest: words.slice(0, words.length - length) };
+  }
+  return null;
+}
+
+// ============================================================================
+// English
+// ============================================================================
+
+const EN_MONTHS: Record<string, number> = {
+  january: 0, jan: 0,
+  february: 1, feb: 1,
+  march: 2, mar: 2,
+  april: 3, apr: 3,
+  may: 4,
+  june: 5, jun: 5,
+  july: 6, jul: 6,
+  august: 7, aug: 7,
+  september: 8, sep: 8, sept: 8,
+  october: 9, oct: 9,
+  november: 10, nov: 10,
+  december: 11, dec: 11,
+};
+
+const EN_WEEKDAYS: Record<string, number> = {
+  sunday: 0, sun: 0,
+  monday: 1, mon: 1,
+  tuesday: 2, tue: 2, tues: 2,
+  wednesday: 3, wed: 3,
+  thursday: 4, thu: 4, thurs: 4,
+  friday: 5, fri: 5,
+  saturday: 6, sat: 6,
+};
+
+const EN_NUMBERS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+
+const EN_UNITS: Record<string, DurationUnit> = {
+  day: 'day', days: 'day',
+  week: 'week', weeks: 'week',
+  month: 'month', months: 'month',
+  year: 'year', years: 'year',
+};
+
+const EN_DURATION = String.raw`(?:for )?(?:the )?(?:next )?(\d+|[a-z]+) (days?|weeks?|months?|years?)`;
+
+/**
+ * Parse an English date expression
+ * Examples: "today", "tomorrow", "next monday", "dec 25", "25th of december 2027",
+ * "2027-01-31", "end of the year"
+ */
+function parseEnglishDate(expression: string, today: CalendarDate): CalendarDate | null {
+  const value = expression.replace(/^(?:on |the )/, '').replace(/\./g, '').trim();
+
+  if (value === 'today') return today;
+  if (value === 'tomorrow') return addCalendarDays(today, 1);
+  if (isCalendarDate(value)) return isValidCalendarDate(value) ? value : null;
+
+  const weekday = /^(?:next |this |coming )?([a-z]+)$/.exec(value);
+  if (weekday && EN_WEEKDAYS[weekday[1]] !== undefined) {
+    return getNextWeekday(EN_WEEKDAYS[weekday[1]], today);
+  }
+
+  const endOf = /^end of (?:the |this )?(month|year)$/.exec(value);
+  if (endOf) return getEndOfPeriod(endOf[1] as 'month' | 'year', today);
+
+  const monthFirst = /^([a-z]+) (\d{1,2})(?:st|nd|rd|th)?(?:,? (\d{4}))?$/.exec(value);
+  if (monthFirst && EN_MONTHS[monthFirst[1]] !== undefined) {
+    const year = monthFirst[3] ? parseInt(monthFirst[3], 10) : undefined;
+    return resolveDayMonth(parseInt(monthFirst[2], 10), EN_MONTHS[monthFirst[1]], year, today);
+  }
+
+  const dayFirst = /^(\d{1,2})(?:st|nd|rd|th)? (?:of )?([a-z]+)(?:,? (\d{4}))?$/.exec(value);
+  if (dayFirst && EN_MONTHS[dayFirst[2]] !== undefined) {
+    const year = dayFirst[3] ? parseInt(dayFirst[3], 10) : undefined;
+    return resolveDayMonth(parseInt(dayFirst[1], 10), EN_MONTHS[dayFirst[2]], year, today);
+  }
+
+  return null;
+}
+
+/**
+ * Parse an English duration from its count and unit words
+ */
+function parseEnglishDuration(count: string, unit: string): Duration | null {
+  const value = parseCount(count, EN_NUMBERS);
+  return value ? { count: value, unit: EN_UNITS[unit] } : null;
+}
+
+/**
+ * Parse an English phrase
+ */
+const parseEnglish: PhraseParser = (phrase, today) => {
+  const parseDate = (expression: string) => parseEnglishDate(expression, today);
+
+  // "2 weeks from monday", "training for 12 weeks starting mar 3"
+  const anchored = new RegExp(`^(?:(.+?) )??${EN_DURATION} (?:from|starting(?: on| from)?) (.+)$`).exec(phrase);
+  if (anchored) {
+    const duration = parseEnglishDuration(anchored[2], anchored[3]);
+    const start = parseDate(anchored[4]);
+    const end = duration && start ? getDurationEnd(start, duration) : null;
+    if (start && end) return { startDate: start, endDate: end, label: anchored[1] };
+  }
+
+  // "from nov 1 to dec 25", "exams from jun 1 until jun 14"
+  const range = /^(?:(.+?) )??from (.+?) (?:to|until|till|through) (.+)$/.exec(phrase);
+  if (range) {
+    const start = parseDate(range[2]);
+    const end = parseDate(range[3]);
+    if (start && end) return { startDate: start, endDate: end, label: range[1] };
+  }
+
+  // "until dec 25", "rest of the semester until june 14"
+  const until = /^(?:(.+?) )??(?:until|till|through|by) (.+)$/.exec(phrase);
+  if (until) {
+    const end = parseDate(until[2]);
+    if (end) return { startDate: today, endDate: end, label: until[1] };
+  }
+
+  // "next 100 days", "detox for 30 days"
+  const duration = new RegExp(`^(?:(.+?) )??${EN_DURATION}$`).exec(phrase);
+  if (duration) {
+    const parsed = parseEnglishDuration(duration[2], duration[3]);
+    const end = parsed ? getDurationEnd(today, parsed) : null;
+    if (end) return { startDate: today, endDate: end, label: duration[1] };
+  }
+
+  // A bare date is read as a deadline: "dec 25"
+  const date = parseDate(phrase);
+  return date ? { startDate: today, endDate: date } : null;
+};
+
+// ============================================================================
+// Turkish
+// ============================================================================
+
+const TR_MONTHS: Record<string, number> = {
+  ocak: 0, oca: 0,
+  şubat: 1, şub: 1,
+  mart: 2, mar: 2,
+  nisan: 3, nis: 3,
+  mayıs: 4, may: 4,
+  haziran: 5, haz: 5,
+  temmuz: 6, tem: 6,
+  ağustos: 7, ağu: 7,
+  eylül: 8, eyl: 8,
+  ekim: 9, eki: 9,
+  kasım: 10, kas: 10,
+  aralık: 11, aralığ: 11, ara: 11,
+};
+
+const TR_WEEKDAYS: Record<string, number> = {
+  pazar: 0,
+  pazartesi: 1,
+  salı: 2,
+  çarşamba: 3,
+  perşembe: 4,
+  cuma: 5,
+  cumartesi: 6,
+};
+
+const TR_NUMBERS: Record<string, number> = {
+  bir: 1, iki: 2, üç: 3, dört: 4, beş: 5, altı: 6, yedi: 7, sekiz: 8, dokuz: 9, on: 10,
+};
+
+const TR_UNITS: Record<string, DurationUnit> = {
+  gün: 'day',
+  hafta: 'week',
+  ay: 'month',
+  yıl: 'year',
+  sene: 'year',
+};
+
+// Case endings: dative ("-e kadar" = until) and ablative ("-den itibaren" = from)
+const TR_DATIVE_SUFFIXES = ['ya', 'ye', 'na', 'ne', 'a', 'e'];
+const TR_ABLATIVE_SUFFIXES = ['ndan', 'nden', 'dan', 'den', 'tan', 'ten'];
+
+/**
+ * Parse a Turkish date expression without case endings
+ * Examples: "bugün", "yarın", "gelecek pazartesi", "25 aralık", "1 ocak 2027",
+ * "2027-01-31", "yıl sonu"
+ */
+function parseTurkishBaseDate(value: string, today: CalendarDate): CalendarDate | null {
+  if (value === 'bugün') return today;
+  if (value === 'yarın') return addCalendarDays(today, 1);
+  if (isCalendarDate(value)) return isValidCalendarDate(value) ? value : null;
+
+  const weekday = /^(?:gelecek |önümüzdeki |bu )?(\S+)$/.exec(value);
+  if (weekday && TR_WEEKDAYS[weekday[1]] !== undefined) {
+    return getNextWeekday(TR_WEEKDAYS[weekday[1]], today);
+  }
+
+  if (value === 'ay sonu') return getEndOfPeriod('month', today);
+  if (value === 'yıl sonu' || value === 'sene sonu') return getEndOfPeriod('year', today);
+
+  const dayMonth = /^(\d{1,2})\.? (\S+?)(?: (\d{4}))?$/.exec(value);
+  if (dayMonth && TR_MONTHS[dayMonth[2]] !== undefined) {
+    const year = dayMonth[3] ? parseInt(dayMonth[3], 10) : undefined;
+    return resolveDayMonth(parseInt(dayMonth[1], 10), TR_MONTHS[dayMonth[2]], year, today);
+  }
+
+  return null;
+}
+
+/**
+ * Parse a Turkish date expression carrying a case ending
+ * (e.g. "25 aralık'a", "pazartesiye", "yarından", "yıl sonuna")
+ */
+function parseTurkishDate(expression: string, suffixes: string[], today: CalendarDate): CalendarDate | null {
+  const apostrophe = expression.lastIndexOf("'");
+  if (apostrophe > 0) {
+    return suffixes.includes(expression.slice(apostrophe + 1))
+      ? parseTurkishBaseDate(expression.slice(0, apostrophe), today)
+      : null;
+  }
+
+  for (const suffix of suffixes) {
+    if (!expression.endsWith(suffix)) continue;
+    const date = parseTurkishBaseDate(expression.slice(0, -suffix.length), today);
+    if (date) return date;
+  }
+  return null;
+}
+
+/**
+ * Parse a Turkish phrase
+ */
+const parseTurkish: PhraseParser = (phrase, today) => {
+  const words = phrase.split(' ');
+  const parseUntil = (expression: string) => parseTurkishDate(expression, TR_DATIVE_SUFFIXES, today);
+  const parseFrom = (expression: string) => parseTurkishDate(expression, TR_ABLATIVE_SUFFIXES, today);
+
+  // "25 aralık'a kadar", "dönemin geri kalanı 14 haziran'a kadar", "1 kasım'dan 25 aralık'a kadar"
+  if (words[words.length - 1] === 'kadar') {
+    const end = splitTrailingDate(words.slice(0, -1), parseUntil);
+    if (!end) return null;
+
+    const start = splitTrailingDate(end.rest, parseFrom);
+    return start
+      ? { startDate: start.date, endDate: end.date, label: start.rest.join(' ') }
+      : { startDate: today, endDate: end.date, label: end.rest.join(' ') };
+  }
+
+  // "önümüzdeki 100 gün", "2 hafta boyunca", "pazartesiden itibaren 2 hafta"
+  const durationWords = ['boyunca', 'için'].includes(words[words.length - 1]) ? words.slice(0, -1) : words;
+  if (durationWords.length < 2) return null;
+
+  const count = parseCount(durationWords[durationWords.length - 2], TR_NUMBERS);
+  const unit = TR_UNITS[durationWords[durationWords.length - 1]];
+  if (!count || !unit) return null;
+
+  let rest = durationWords.slice(0, -2);
+  if (['önümüzdeki', 'gelecek', 'sonraki'].includes(rest[rest.length - 1])) rest = rest.slice(0, -1);
+  if (rest[rest.length - 1] === 'itibaren') rest = rest.slice(0, -1);
+
+  const start = splitTrailingDate(rest, parseFrom);
+  const startDate = start?.date ?? today;
+  const endDate = getDurationEnd(startDate, { count, unit });
+  return endDate ? { startDate, endDate, label: (start?.rest ?? rest).join(' ') } : null;
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+const PARSERS: Record<string, PhraseParser> = {
+  en: parseEnglish,
+  tr: parseTurkish,
+};
+
+/**
+ * Parse a quick-add phrase into a timeline range and suggested title
+ * The app language's grammar is tried first, then the others
+ *
+ * @param text - Phrase typed by the user
+ * @param locale - App locale (e.g. 'tr')
+ * @param today - Reference date (defaults to today)
+ * @returns Parsed range, or null if the phrase is not understood or ends before it starts
+ */
+export function parseQuickAdd(
+  text: string,
+  locale: string,
+  today: CalendarDate = getTodayCalendarDate()
+): QuickAddResult | null {
+  const original = text.trim().replace(/\s+/g, ' ').replace(/[.!]+$/, '');
+  if (!original) return null;
+
+  const language = locale.split('-')[0];
+  const languages = [language, ...Object.keys(PARSERS).filter((code) => code !== language)];
+
+  for (const code of languages) {
+    const parser = PARSERS[code];
+    if (!parser) continue;
+
+    // Lowercase with the grammar's own rules (Turkish I/ı, İ/i) and plain apostrophes
+    const phrase = original.toLocaleLowerCase(code).replace(/[’‘`]/g, "'");
+    const parsed = parser(phrase, today);
+    if (!parsed || parsed.endDate < parsed.startDate) continue;
+
+    // Labels are always a prefix of the phrase: keep the user's casing when possible
+    const label = parsed.label?.trim();
+    const title = label
+      ? phrase.length === original.length ? original.slice(0, label.length) : label
+      : original;
+
+    return {
+      startDate: parsed.startDate,
+      endDate: parsed.endDate,
+      title: title.charAt(0).toLocaleUpperCase(code) + title.slice(1),
+    };
+  }
+
+  return null;
+}
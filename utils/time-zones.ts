@@ -0,0 +1,187 @@
+/**
+ * Time Zones
+ * Calendar dates and moments in IANA time zones (e.g. America/Los_Angeles)
+ *
+ * Zone data comes from the platform's Intl support. A moment is located in a
+ * zone by reading its wall-clock fields there, so daylight saving changes
+ * follow the zone's own rules instead of the device's.
+ */
+
+import { CalendarDate } from '@/types/timeline';
+
+/**
+ * Zones offered when the platform cannot list its own
+ */
+export const COMMON_TIME_ZONES: string[] = [
+  'UTC',
+  'Pacific/Honolulu',
+  'America/Anchorage',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Toronto',
+  'America/Mexico_City',
+  'America/Bogota',
+  'America/Sao_Paulo',
+  'America/Argentina/Buenos_Aires',
+  'Atlantic/Reykjavik',
+  'Europe/London',
+  'Europe/Lisbon',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Europe/Madrid',
+  'Europe/Copenhagen',
+  'Europe/Athens',
+  'Europe/Istanbul',
+  'Europe/Moscow',
+  'Africa/Cairo',
+  'Africa/Lagos',
+  'Africa/Johannesburg',
+  'Asia/Riyadh',
+  'Asia/Dubai',
+  'Asia/Tehran',
+  'Asia/Karachi',
+  'Asia/Kolkata',
+  'Asia/Bangkok',
+  'Asia/Shanghai',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Asia/Seoul',
+  'Australia/Perth',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+];
+
+const fieldFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get the (cached) formatter used to read wall-clock fields in a zone
+ */
+function getFieldFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = fieldFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23',
+      timeZone,
+    });
+    fieldFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Read the wall-clock fields of a moment in a zone
+ */
+function getZoneFields(
+  timeZone: string,
+  date: Date
+): { year: number; month: number; day: number; hour: number; minute: number; second: number } {
+  const parts = getFieldFormatter(timeZone).formatToParts(date);
+  const find = (type: string) => parseInt(parts.find((part) => part.type === type)?.value ?? '0', 10);
+
+  return {
+    year: find('year'),
+    month: find('month'),
+    day: find('day'),
+    hour: find('hour') % 24, // Some engines report midnight as 24
+    minute: find('minute'),
+    second: find('second'),
+  };
+}
+
+/**
+ * Get a zone's offset from UTC at a moment, in minutes (e.g. -420 for PDT)
+ */
+function getTimeZoneOffset(timeZone: string, date: Date): number {
+  const { year, month, day, hour, minute, second } = getZoneFields(timeZone, date);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  return Math.round((wallClock - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Check if the platform knows a time zone
+ */
+export function isTimeZoneSupported(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the device's time zone
+ */
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Get every time zone the platform knows (the common list on older engines)
+ */
+export function getTimeZones(): string[] {
+  if (typeof Intl.supportedValuesOf === 'function') {
+    return Intl.supportedValuesOf('timeZone');
+  }
+  return COMMON_TIME_ZONES.filter(isTimeZoneSupported);
+}
+
+/**
+ * Get a zone's city name
+ * Examples: "America/Los_Angeles" -> "Los Angeles", "UTC" -> "UTC"
+ */
+export function formatTimeZoneName(timeZone: string): string {
+  return timeZone.slice(timeZone.lastIndexOf('/') + 1).replace(/_/g, ' ');
+}
+
+/**
+ * Parse a time of day ("09:00")
+ * @returns Hours and minutes, or null if the text is not a valid time
+ */
+export function parseTimeOfDay(time: string): { hours: number; minutes: number } | null {
+  const match = time.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) return null;
+
+  return { hours, minutes };
+}
+
+/**
+ * Get the calendar date in a zone at a moment
+ *
+ * @param timeZone - IANA time zone
+ * @param date - Moment to read (defaults to now)
+ */
+export function getTimeZoneCalendarDate(timeZone: string, date: Date = new Date()): CalendarDate {
+  const { year, month, day } = getZoneFields(timeZone, date);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Get the moment a wall-clock time happens in a zone
+ * Example: 2026-03-01 09:00 in America/Los_Angeles is 17:00 UTC
+ *
+ * @param date - Calendar date in the zone
+ * @param time - Time of day in the zone ("HH:mm", invalid times fall back to midnight)
+ * @param timeZone - IANA time zone
+ */
+export function getTimeZoneMoment(date: CalendarDate, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map((part) => parseInt(part, 10));
+  const { hours, minutes } = parseTimeOfDay(time) ?? { hours: 0, minutes: 0 };
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // Guess with the offset at the wall-clock time, then correct once across DST changes
+  const guess = wallClock - getTimeZoneOffset(timeZone, new Date(wallClock)) * 60000;
+  return new Date(wallClock - getTimeZoneOffset(timeZone, new Date(guess)) * 60000);
+}
@@ -0,0 +1,190 @@
+/**
+ * vCard Parser
+ * Reads birthdays and anniversaries from a vCard (.vcf) contacts export
+ *
+ * Supported properties:
+ * - FN (or N when FN is missing) for the contact's name
+ * - BDAY, ANNIVERSARY and X-ANNIVERSARY
+ * - Apple's X-ABDATE when its X-ABLabel says "Anniversary"
+ *
+ * Dates may be YYYYMMDD, YYYY-MM-DD or year-less (--MMDD, --MM-DD).
+ * Apple marks year-less dates with X-APPLE-OMIT-YEAR, which is honored.
+ */
+
+import { PersonalDateKind } from '@/types/timeline';
+
+/**
+ * A birthday or anniversary found in a vCard
+ */
+export interface VCardDate {
+  name: string;
+  kind: PersonalDateKind;
+  /**
+   * Month (0-11)
+   */
+  month: number;
+  day: number;
+  /**
+   * Original year, when the card includes one
+   */
+  year?: number;
+}
+
+interface VCardProperty {
+  group?: string;
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Parse every birthday and anniversary in a vCard file
+ *
+ * @param text - Contents of the .vcf file (one or more cards)
+ * @returns Dates in file order; cards without a name or date are skipped
+ */
+export function parseVCardDates(text: string): VCardDate[] {
+  const dates: VCardDate[] = [];
+  let card: VCardProperty[] | null = null;
+
+  for (const line of unfoldLines(text)) {
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VCARD') {
+      card = [];
+    } else if (property.name === 'END' && property.value.toUpperCase() === 'VCARD') {
+      if (card) dates.push(...getCardDates(card));
+      card = null;
+    } else if (card) {
+      card.push(property);
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * Split the file into logical lines, joining folded continuation lines
+ */
+function unfoldLines(text: string): string[] {
+  const lines: string[] = [];
+
+  text.split(/\r?\n/).forEach((line) => {
+    if (/^[ \t]/.test(line) && lines.length > 0) {
+      lines[lines.length - 1] += line.slice(1);
+    } else if (line.trim()) {
+      lines.push(line);
+    }
+  });
+
+  return lines;
+}
+
+/**
+ * Parse a "group.NAME;PARAM=value:value" content line
+ */
+function parseProperty(line: string): VCardProperty | null {
+  const colon = line.indexOf(':');
+  if (colon < 0) return null;
+
+  const [nameWithGroup, ...paramParts] = line.slice(0, colon).split(';');
+  const dot = nameWithGroup.indexOf('.');
+  const params: Record<string, string> = {};
+
+  paramParts.forEach((part) => {
+    const [key, value = ''] = part.split('=');
+    params[key.toUpperCase()] = value;
+  });
+
+  return {
+    group: dot >= 0 ? nameWithGroup.slice(0, dot).toUpperCase() : undefined,
+    name: nameWithGroup.slice(dot + 1).toUpperCase(),
+    params,
+    value: line.slice(colon + 1).trim(),
+  };
+}
+
+/**
+ * Collect the dates of one card
+ */
+function getCardDates(card: VCardProperty[]): VCardDate[] {
+  const name = getCardName(card);
+  if (!name) return [];
+
+  const dates: VCardDate[] = [];
+  const addDate = (property: VCardProperty, kind: PersonalDateKind) => {
+    const date = parseVCardDate(property);
+    if (date) dates.push({ name, kind, ...date });
+  };
+
+  card.forEach((property) => {
+    if (property.name === 'BDAY') {
+      addDate(property, 'birthday');
+    } else if (property.name === 'ANNIVERSARY' || property.name === 'X-ANNIVERSARY') {
+      addDate(property, 'anniversary');
+    } else if (property.name === 'X-ABDATE' && property.group) {
+      // Apple stores labeled dates as grouped X-ABDATE / X-ABLabel pairs
+      const label = card.find((p) => p.group === property.group && p.name === 'X-ABLABEL');
+      if (label && /anniversary/i.test(label.value)) {
+        addDate(property, 'anniversary');
+      }
+    }
+  });
+
+  // Cards sometimes carry the same date twice (e.g. ANNIVERSARY and X-ANNIVERSARY)
+  return dates.filter(
+    (date, index) =>
+      dates.findIndex(
+        (other) => other.kind === date.kind && other.month === date.month && other.day === date.day
+      ) === index
+  );
+}
+
+/**
+ * Get a card's display name: FN, otherwise "Given Family" from N
+ */
+function getCardName(card: VCardProperty[]): string {
+  const formatted = card.find((property) => property.name === 'FN');
+  if (formatted && unescapeValue(formatted.value)) {
+    return unescapeValue(formatted.value);
+  }
+
+  const structured = card.find((property) => property.name === 'N');
+  if (!structured) return '';
+
+  const [family = '', given = ''] = structured.value.split(';').map(unescapeValue);
+  return [given, family].filter(Boolean).join(' ');
+}
+
+/**
+ * Parse a date value, ignoring any time part
+ */
+function parseVCardDate(property: VCardProperty): Omit<VCardDate, 'name' | 'kind'> | null {
+  const match = property.value.match(/^(?:(\d{4})|--)-?(\d{2})-?(\d{2})/);
+  if (!match) return null;
+
+  const month = parseInt(match[2], 10) - 1;
+  const day = parseInt(match[3], 10);
+
+  // Feb 29 is kept (it falls on Feb 28 in common years)
+  const daysInMonth = new Date(2000, month + 1, 0).getDate();
+  if (month < 0 || month > 11 || day < 1 || day > daysInMonth) return null;
+
+  const year = match[1] ? parseInt(match[1], 10) : undefined;
+  if (year === undefined || match[1] === property.params['X-APPLE-OMIT-YEAR']) {
+    return { month, day };
+  }
+
+  return { month, day, year };
+}
+
+/**
+ * Undo vCard text escaping (\, \; \n)
+ */
+function unescapeValue(value: string): string {
+  return value
+    .replace(/\\n/gi, ' ')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+}